@@ -0,0 +1,110 @@
+// Local stand-in for Supabase Realtime: a dependency-free WebSocket relay that
+// forwards every text frame to the other sockets in the same `?room=`.
+//
+//   npm run collab:relay            # listens on ws://localhost:8787
+//   VITE_COLLAB_WS_URL=ws://localhost:8787 npm run dev
+//
+// The README describes a two-tab check of the sync against it.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => {
+          const size = Buffer.alloc(8);
+          size.writeBigUInt64BE(BigInt(length));
+          return size;
+        })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Yields complete client frames from `buffer`, returning what is left over
+const decodeFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket relay only');
+});
+
+server.on('upgrade', (req, socket) => {
+  const room = new URL(req.url, 'http://localhost').searchParams.get('room') || 'default';
+  const accept = createHash('sha1')
+    .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+    .digest('base64');
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const peers = rooms.get(room);
+  peers.add(socket);
+  console.log(`${room}: ${peers.size} connected`);
+
+  const leave = () => {
+    if (!peers.delete(socket)) return;
+    console.log(`${room}: ${peers.size} connected`);
+    if (peers.size === 0) rooms.delete(room);
+  };
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x1) {
+        const frame = encodeFrame(0x1, payload);
+        peers.forEach(peer => {
+          if (peer !== socket) peer.write(frame);
+        });
+      } else if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+    });
+  });
+  socket.on('close', leave);
+  socket.on('error', leave);
+});
+
+server.listen(PORT, () => {
+  console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
+});
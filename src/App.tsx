@@ -46,6 +46,8 @@ function App() {
             shapes: diagram.data.shapes || [],
             connections: diagram.data.connections || [],
             drawings: diagram.data.drawings || [],
+            groups: diagram.data.groups || [],
+            layers: diagram.data.layers || [],
             backgroundColor: diagram.data.backgroundColor || '#FFFFFF',
             isPublic: diagram.is_public,
             shareId: diagram.share_id,
@@ -2,15 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { X, Loader2, Copy } from 'lucide-react';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import CodeToDiagram from './CodeToDiagram'; // Import the CodeToDiagram component
+import { DiagramFragment } from '../types';
+import { convertPlantUml } from '../lib/plantuml/layout';
 
 const GOOGLE_AI_API_KEY = import.meta.env?.VITE_GOOGLE_AI_API_KEY;
 
 interface AIPlantUMLGeneratorProps {
   onClose: () => void;
   apiKey?: string;
+  onImport?: (fragment: DiagramFragment) => void;
 }
 
-const AIPlantUMLGenerator: React.FC<AIPlantUMLGeneratorProps> = ({ onClose, apiKey }) => {
+const AIPlantUMLGenerator: React.FC<AIPlantUMLGeneratorProps> = ({ onClose, apiKey, onImport }) => {
   const [prompt, setPrompt] = useState('');
   const [generatedCode, setGeneratedCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -70,8 +73,20 @@ const AIPlantUMLGenerator: React.FC<AIPlantUMLGeneratorProps> = ({ onClose, apiK
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Places the generated diagram on the board as editable shapes
   const handleSaveToEditor = () => {
-    setShowCodeToDiagram(true);
+    if (!onImport) {
+      setShowCodeToDiagram(true);
+      return;
+    }
+
+    try {
+      onImport(convertPlantUml(generatedCode));
+      onClose();
+    } catch (err) {
+      console.error('Error converting PlantUML code:', err);
+      setError(err instanceof Error ? `${err.message}. Try Preview instead.` : 'Failed to convert PlantUML code');
+    }
   };
 
   const handleCodeToDiagramClose = () => {
@@ -80,7 +95,7 @@ const AIPlantUMLGenerator: React.FC<AIPlantUMLGeneratorProps> = ({ onClose, apiK
   };
 
   if (showCodeToDiagram) {
-    return <CodeToDiagram onClose={handleCodeToDiagramClose} initialCode={generatedCode} />;
+    return <CodeToDiagram onClose={handleCodeToDiagramClose} initialCode={generatedCode} onImport={onImport} />;
   }
 
   return (
@@ -128,12 +143,15 @@ const AIPlantUMLGenerator: React.FC<AIPlantUMLGeneratorProps> = ({ onClose, apiK
             )}
           </div>
           <div className="flex-1 bg-gray-50 rounded-lg p-4 overflow-y-auto" style={{ maxHeight: "calc(100% - 40px)" }}>
-            {error ? (
+            {error && !generatedCode ? (
               <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</div>
             ) : isLoading ? (
               <div className="h-full flex items-center justify-center"><Loader2 className="w-8 h-8 animate-spin text-blue-500" /></div>
             ) : generatedCode ? (
-              <pre className="text-sm font-mono whitespace-pre-wrap">{generatedCode}</pre>
+              <>
+                {error && <div className="p-3 mb-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</div>}
+                <pre className="text-sm font-mono whitespace-pre-wrap">{generatedCode}</pre>
+              </>
             ) : (
               <div className="h-full flex items-center justify-center text-gray-400">Generated code will appear here</div>
             )}
@@ -142,6 +160,9 @@ const AIPlantUMLGenerator: React.FC<AIPlantUMLGeneratorProps> = ({ onClose, apiK
 
         <div className="mt-4 pt-4 border-t flex justify-end gap-3">
           <button onClick={onClose} className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg">Cancel</button>
+          {generatedCode && onImport && (
+            <button onClick={() => setShowCodeToDiagram(true)} className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg">Preview</button>
+          )}
           {generatedCode && (
             <button onClick={handleSaveToEditor} className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors">Use in Editor</button>
           )}
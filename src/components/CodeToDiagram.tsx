@@ -1,19 +1,41 @@
 import React, { useState, useEffect, useRef } from "react";
-import { X, Loader2, Download } from "lucide-react";
-import pako from "pako"; // Ensure you have pako installed for proper DEFLATE compression
+import { X, Loader2, Download, LayoutGrid } from "lucide-react";
+import { DiagramFragment } from "../types";
+import { convertPlantUml } from "../lib/plantuml/layout";
+import { PlantUmlFormat, PlantUmlRender, renderPlantUml } from "../lib/plantuml/render";
+import { convertMermaid, isMermaidSource } from "../lib/mermaid/parser";
+import { renderMermaid } from "../lib/mermaid/render";
 
 interface CodeToDiagramProps {
   onClose: () => void;
   initialCode?: string;
+  onImport?: (fragment: DiagramFragment) => void;
 }
 
+type CodeMode = "plantuml" | "mermaid";
+
+const PLACEHOLDERS: Record<CodeMode, string> = {
+  plantuml: `@startuml
+Alice -> Bob: Authentication Request
+Bob --> Alice: Authentication Response
+@enduml`,
+  mermaid: `flowchart TD
+    A[Start] --> B{Is it working?}
+    B -->|Yes| C[Done]
+    B -->|No| D[Debug]
+    D --> B`,
+};
+
 const CodeToDiagram: React.FC<CodeToDiagramProps> = ({
   onClose,
   initialCode = "",
+  onImport,
 }) => {
   const [code, setCode] = useState(initialCode);
+  const [mode, setMode] = useState<CodeMode>(isMermaidSource(initialCode) ? "mermaid" : "plantuml");
   const [error, setError] = useState<string | null>(null);
-  const [svg, setSvg] = useState<string | null>(null);
+  const [format, setFormat] = useState<PlantUmlFormat>("svg");
+  const [result, setResult] = useState<PlantUmlRender | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const diagramRef = useRef<HTMLDivElement>(null);
@@ -24,24 +46,17 @@ const CodeToDiagram: React.FC<CodeToDiagramProps> = ({
     }
   }, []);
 
-  const generateDiagram = async () => {
+  const generateDiagram = async (nextFormat: PlantUmlFormat = format) => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const plantUmlServer = "https://www.plantuml.com/plantuml/svg/";
-
-      // Correctly encode the PlantUML code with DEFLATE compression and Base64
-      const encoded = "~1" + encodePlantUmlCode(code);
-
-      const response = await fetch(`${plantUmlServer}${encoded}`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to generate diagram: ${response.statusText}`);
+      if (mode === "mermaid") {
+        setResult({ format: "svg", content: await renderMermaid(code), provider: "Mermaid" });
+        return;
       }
 
-      const svgText = await response.text();
-      setSvg(svgText);
+      setResult(await renderPlantUml(code, nextFormat));
     } catch (err) {
       console.error("Error generating diagram:", err);
       setError(err instanceof Error ? err.message : "Failed to generate diagram");
@@ -50,50 +65,51 @@ const CodeToDiagram: React.FC<CodeToDiagramProps> = ({
     }
   };
 
-  // PlantUML encoding function using DEFLATE compression
-  const encodePlantUmlCode = (text: string): string => {
-    const utf8Encoded = new TextEncoder().encode(text);
-    const compressed = pako.deflate(utf8Encoded, { level: 9 });
-    return encode64(compressed);
-  };
+  // Builds editable shapes locally instead of the server-rendered picture
+  const handleAddToBoard = () => {
+    if (!onImport) return;
 
-  // Base64 encoding specific to PlantUML
-  const encode64 = (data: Uint8Array): string => {
-    const alphabet = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_";
-    let result = "";
-    let current = 0;
-    let bits = 0;
-
-    for (let i = 0; i < data.length; i++) {
-      current = (current << 8) | data[i];
-      bits += 8;
-      while (bits >= 6) {
-        bits -= 6;
-        result += alphabet[(current >> bits) & 0x3F];
-      }
+    try {
+      onImport(mode === "mermaid" ? convertMermaid(code) : convertPlantUml(code));
+      onClose();
+    } catch (err) {
+      console.error("Error converting diagram:", err);
+      setError(err instanceof Error ? err.message : "Failed to convert diagram");
     }
+  };
 
-    if (bits > 0) {
-      result += alphabet[(current << (6 - bits)) & 0x3F];
-    }
+  const handleModeChange = (next: CodeMode) => {
+    if (next === mode) return;
+    setMode(next);
+    setResult(null);
+    setError(null);
+  };
 
-    return result;
+  const handleFormatChange = (next: PlantUmlFormat) => {
+    setFormat(next);
+    if (result) generateDiagram(next);
   };
 
   const handleExport = () => {
-    if (!svg) return;
-
-    const svgBlob = new Blob([svg], { type: "image/svg+xml;charset=utf-8" });
-    const svgUrl = URL.createObjectURL(svgBlob);
+    if (!result) return;
 
     const downloadLink = document.createElement("a");
-    downloadLink.href = svgUrl;
-    downloadLink.download = "diagram.svg";
+    let objectUrl: string | null = null;
+
+    if (result.format === "png") {
+      downloadLink.href = result.content;
+    } else {
+      const type = result.format === "svg" ? "image/svg+xml;charset=utf-8" : "text/plain;charset=utf-8";
+      objectUrl = URL.createObjectURL(new Blob([result.content], { type }));
+      downloadLink.href = objectUrl;
+    }
+
+    downloadLink.download = `diagram.${result.format}`;
     document.body.appendChild(downloadLink);
     downloadLink.click();
     document.body.removeChild(downloadLink);
 
-    URL.revokeObjectURL(svgUrl);
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
 
     setShowExportMenu(false);
   };
@@ -104,7 +120,7 @@ const CodeToDiagram: React.FC<CodeToDiagramProps> = ({
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold">Convert Code to Diagram</h2>
           <div className="flex items-center gap-2">
-            {svg && (
+            {result && (
               <div className="relative">
                 <button
                   onClick={() => setShowExportMenu(!showExportMenu)}
@@ -119,7 +135,7 @@ const CodeToDiagram: React.FC<CodeToDiagramProps> = ({
                       onClick={handleExport}
                       className="w-full px-4 py-2 text-left hover:bg-gray-100 text-sm"
                     >
-                      SVG File
+                      {result.format.toUpperCase()} File
                     </button>
                   </div>
                 )}
@@ -136,22 +152,52 @@ const CodeToDiagram: React.FC<CodeToDiagramProps> = ({
 
         <div className="grid grid-cols-2 gap-4 flex-1 min-h-0">
           <div className="flex flex-col">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Paste your PlantUML code here
-            </label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Paste your {mode === "mermaid" ? "Mermaid" : "PlantUML"} code here
+              </label>
+              <div className="flex bg-gray-100 rounded-lg p-0.5 text-sm">
+                {(["plantuml", "mermaid"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => handleModeChange(option)}
+                    className={`px-3 py-1 rounded-md ${
+                      mode === option ? "bg-white shadow-sm text-gray-900" : "text-gray-500 hover:text-gray-700"
+                    }`}
+                  >
+                    {option === "mermaid" ? "Mermaid" : "PlantUML"}
+                  </button>
+                ))}
+              </div>
+            </div>
             <textarea
               value={code}
               onChange={(e) => setCode(e.target.value)}
               className="flex-1 p-4 bg-gray-50 rounded-lg font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 overflow-auto"
-              placeholder={`@startuml
-Alice -> Bob: Authentication Request
-Bob --> Alice: Authentication Response
-@enduml`}
+              placeholder={PLACEHOLDERS[mode]}
             />
           </div>
 
           <div className="flex flex-col">
-            <div className="text-sm font-medium text-gray-700 mb-2">Preview</div>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm font-medium text-gray-700">
+                Preview
+                {result && !isLoading && (
+                  <span className="ml-2 text-xs font-normal text-gray-400">via {result.provider}</span>
+                )}
+              </div>
+              {mode === "plantuml" && (
+                <select
+                  value={format}
+                  onChange={(e) => handleFormatChange(e.target.value as PlantUmlFormat)}
+                  className="text-sm border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="svg">SVG</option>
+                  <option value="png">PNG</option>
+                  <option value="txt">Text</option>
+                </select>
+              )}
+            </div>
             <div className="flex-1 bg-gray-50 rounded-lg p-4 overflow-auto max-h-[400px]">
               {error ? (
                 <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">
@@ -161,11 +207,19 @@ Bob --> Alice: Authentication Response
                 <div className="h-full flex items-center justify-center">
                   <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
                 </div>
-              ) : svg ? (
+              ) : result?.format === "png" ? (
+                <div ref={diagramRef} className="bg-white p-4 rounded-lg shadow-sm">
+                  <img src={result.content} alt="Rendered diagram" className="max-w-full" />
+                </div>
+              ) : result?.format === "txt" ? (
+                <pre className="bg-white p-4 rounded-lg shadow-sm font-mono text-xs overflow-auto">
+                  {result.content}
+                </pre>
+              ) : result ? (
                 <div
                   ref={diagramRef}
                   className="bg-white p-4 rounded-lg shadow-sm"
-                  dangerouslySetInnerHTML={{ __html: svg }}
+                  dangerouslySetInnerHTML={{ __html: result.content }}
                 />
               ) : (
                 <div className="h-full flex items-center justify-center text-gray-400">
@@ -183,8 +237,19 @@ Bob --> Alice: Authentication Response
           >
             Cancel
           </button>
+          {onImport && (
+            <button
+              onClick={handleAddToBoard}
+              disabled={!code.trim()}
+              className="px-4 py-2 border border-blue-500 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50 flex items-center gap-2"
+              title="Add as editable shapes and connections"
+            >
+              <LayoutGrid className="w-4 h-4" />
+              Add to Board
+            </button>
+          )}
           <button
-            onClick={generateDiagram}
+            onClick={() => generateDiagram()}
             disabled={!code.trim() || isLoading}
             className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 flex items-center gap-2"
           >
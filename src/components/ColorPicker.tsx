@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CHECKERBOARD_BACKGROUND, COLOR_PALETTE, normalizeHexColor, TRANSPARENT } from '../lib/shapeStyle';
+import { useRecentColors } from '../hooks/useRecentColors';
+
+interface ColorPickerProps {
+  value?: string;
+  onChange: (color: string) => void;
+  allowTransparent?: boolean;
+}
+
+// Palette, recent colours, a hex field and the system picker for anything else
+const ColorPicker: React.FC<ColorPickerProps> = ({ value, onChange, allowTransparent = false }) => {
+  const [recentColors, addRecentColor] = useRecentColors();
+  const [hex, setHex] = useState(value && value !== TRANSPARENT ? value : '');
+  const nativeRef = useRef<HTMLInputElement>(null);
+  const latestRef = useRef<(color: string) => void>(() => {});
+
+  const pick = (color: string) => {
+    if (color !== TRANSPARENT) addRecentColor(color);
+    onChange(color);
+  };
+  latestRef.current = pick;
+
+  useEffect(() => {
+    setHex(value && value !== TRANSPARENT ? value : '');
+  }, [value]);
+
+  // React's onChange fires on every move inside the system picker; only the final choice is applied
+  useEffect(() => {
+    const input = nativeRef.current;
+    if (!input) return;
+    const handleChange = () => latestRef.current(input.value.toUpperCase());
+    input.addEventListener('change', handleChange);
+    return () => input.removeEventListener('change', handleChange);
+  }, []);
+
+  const commitHex = () => {
+    const color = normalizeHexColor(hex);
+    if (color && color !== value) pick(color);
+    else setHex(value && value !== TRANSPARENT ? value : '');
+  };
+
+  const swatch = (color: string) => (
+    <button
+      key={color}
+      onClick={e => {
+        e.stopPropagation();
+        pick(color);
+      }}
+      className={`w-6 h-6 rounded-lg border hover:scale-110 transition-transform ${
+        value?.toLowerCase() === color.toLowerCase() ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'
+      }`}
+      style={{ background: color === TRANSPARENT ? CHECKERBOARD_BACKGROUND : color }}
+      title={color === TRANSPARENT ? 'Transparent' : color}
+    />
+  );
+
+  return (
+    <div
+      className="bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 z-10 border border-gray-200 w-[164px]"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      <div className="grid grid-cols-5 gap-1">
+        {COLOR_PALETTE.map(swatch)}
+        {allowTransparent && swatch(TRANSPARENT)}
+      </div>
+
+      {recentColors.length > 0 && (
+        <>
+          <div className="text-[10px] uppercase tracking-wide text-gray-400 mt-2 mb-1">Recent</div>
+          <div className="grid grid-cols-5 gap-1">{recentColors.map(swatch)}</div>
+        </>
+      )}
+
+      <div className="flex items-center gap-1 mt-2">
+        <input
+          value={hex}
+          onChange={e => setHex(e.target.value)}
+          onBlur={commitHex}
+          onKeyDown={e => {
+            e.stopPropagation();
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          placeholder="#RRGGBB"
+          className="flex-1 min-w-0 text-xs px-2 py-1 border border-gray-200 rounded font-mono focus:outline-none focus:ring-1 focus:ring-blue-400"
+          title="Hex Color"
+        />
+        <input
+          ref={nativeRef}
+          type="color"
+          value={normalizeHexColor(hex) ?? '#000000'}
+          onChange={e => setHex(e.target.value.toUpperCase())}
+          className="w-7 h-7 p-0 border border-gray-200 rounded cursor-pointer flex-shrink-0"
+          title="More Colors"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ColorPicker;
@@ -1,28 +1,61 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Connection as ConnectionType, LineStyle, ArrowStyle } from '../types';
+import { Connection as ConnectionType, ConnectionLabel, LineStyle, ArrowStyle, Point } from '../types';
 import { Shape } from '../types';
-import { ArrowRight, ArrowLeft, ArrowLeftRight } from 'lucide-react';
+import { ArrowRight, ArrowLeft, ArrowLeftRight, Type } from 'lucide-react';
+import {
+  getClosestPosition,
+  getConnectionPath,
+  getPointAlongPolyline,
+  getPolylineMidpoint,
+  getStrokeDashArray,
+  LABEL_POSITIONS
+} from '../lib/connections';
+import { RoutingContext } from '../lib/routing';
+
+export type ConnectionEnd = 'from' | 'to';
 
 interface ConnectionProps {
   connection: ConnectionType;
   shapes: Shape[];
+  routing?: RoutingContext;
   isSelected: boolean;
-  onSelect: (id: string) => void;
+  // Part of a multi-selection: highlighted, but without its own toolbar and handles
+  inSelection?: boolean;
+  onSelect: (id: string, additive?: boolean) => void;
   onStyleChange: (id: string, lineStyle: LineStyle, arrowStyle: ArrowStyle) => void;
+  onUpdate?: (id: string, changes: Partial<ConnectionType>, label: string) => void;
+  onDragStart?: (label: string) => void;
+  onDragStop?: () => void;
+  onEndpointMove?: (id: string, end: ConnectionEnd, point: Point | null) => void;
+  onReconnect?: (id: string, end: ConnectionEnd, point: Point, addPort: boolean) => void;
+  scale?: number;
+  remoteHighlightColor?: string;
 }
 
 const Connection: React.FC<ConnectionProps> = ({
   connection,
   shapes,
+  routing,
   isSelected,
+  inSelection = false,
   onSelect,
-  onStyleChange
+  onStyleChange,
+  onUpdate,
+  onDragStart,
+  onDragStop,
+  onEndpointMove,
+  onReconnect,
+  scale = 1,
+  remoteHighlightColor
 }) => {
   const [showStyleOptions, setShowStyleOptions] = useState(false);
   const [pathLength, setPathLength] = useState(0);
+  const [endpointDrag, setEndpointDrag] = useState<{ end: ConnectionEnd; point: Point } | null>(null);
+  const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
   const pathRef = useRef<SVGPathElement>(null);
   const fromShape = shapes.find(s => s.id === connection.from);
   const toShape = shapes.find(s => s.id === connection.to);
+  const isHighlighted = isSelected || inSelection;
 
   useEffect(() => {
     if (pathRef.current) {
@@ -32,129 +65,196 @@ const Connection: React.FC<ConnectionProps> = ({
 
   if (!fromShape || !toShape) return null;
 
-  const getStrokeDashArray = (style: LineStyle) => {
-    switch (style) {
-      case 'dashed':
-        return '8,8';
-      case 'dotted':
-        return '2,4';
-      default:
-        return 'none';
-    }
+  const pathData = getConnectionPath(connection, fromShape, toShape, routing);
+
+  const handleLineStyleChange = (style: LineStyle) => {
+    onStyleChange(connection.id, style, connection.arrowStyle);
+    setShowStyleOptions(false);
   };
 
-  const getCenterPoint = (shape: Shape) => {
-    const width = shape.width || (shape.type === 'text' ? 200 : 128);
-    const height = shape.height || (shape.type === 'text' ? 100 : 80);
+  const handleArrowStyleChange = (style: ArrowStyle) => {
+    onStyleChange(connection.id, connection.lineStyle, style);
+    setShowStyleOptions(false);
+  };
+
+  const center = getPolylineMidpoint(pathData.route);
+  const midPoint = { x: center.x, y: center.y - 40 };
+  const waypoints = connection.points || [];
+  const handleRadius = 5 / scale;
 
-    return {
-      x: shape.position.x + width / 2,
-      y: shape.position.y + height / 2
+  // Follows the pointer in world units from `origin`, whatever the camera zoom
+  const trackDrag = (
+    e: React.PointerEvent,
+    origin: Point,
+    onMove: (point: Point) => void,
+    onEnd?: (point: Point, event: PointerEvent) => void
+  ) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const pointerId = e.pointerId;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const toWorld = (event: PointerEvent) => ({
+      x: origin.x + (event.clientX - startX) / scale,
+      y: origin.y + (event.clientY - startY) / scale
+    });
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerId === pointerId) onMove(toWorld(event));
+    };
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+      onEnd?.(toWorld(event), event);
     };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerUp);
   };
 
-  const getIntersectionPoint = (shape: Shape, point: { x: number; y: number }) => {
-    const center = getCenterPoint(shape);
-    const width = shape.width || (shape.type === 'text' ? 200 : 128);
-    const height = shape.height || (shape.type === 'text' ? 100 : 80);
-    
-    const angle = Math.atan2(point.y - center.y, point.x - center.x);
-    
-    let intersectX, intersectY;
-    
-    if (shape.type === 'circle') {
-      const radius = width / 2;
-      intersectX = center.x + radius * Math.cos(angle);
-      intersectY = center.y + radius * Math.sin(angle);
-    } else if (shape.type === 'diamond') {
-      const halfWidth = width / 2;
-      const halfHeight = height / 2;
-      const tanAngle = Math.abs(Math.tan(angle));
-      
-      if (tanAngle <= halfHeight / halfWidth) {
-        intersectX = center.x + (halfWidth * Math.sign(Math.cos(angle)));
-        intersectY = center.y + (halfWidth * tanAngle * Math.sign(Math.sin(angle)));
-      } else {
-        intersectX = center.x + (halfHeight / tanAngle * Math.sign(Math.cos(angle)));
-        intersectY = center.y + (halfHeight * Math.sign(Math.sin(angle)));
-      }
-    } else {
-      const dx = Math.abs(Math.cos(angle));
-      const dy = Math.abs(Math.sin(angle));
-      
-      if (dx * height <= dy * width) {
-        intersectX = center.x + (height / (2 * dy)) * dx * Math.sign(Math.cos(angle));
-        intersectY = center.y + (height / 2) * Math.sign(Math.sin(angle));
-      } else {
-        intersectX = center.x + (width / 2) * Math.sign(Math.cos(angle));
-        intersectY = center.y + (width / (2 * dx)) * dy * Math.sign(Math.sin(angle));
+  const handleWaypointDrag = (e: React.PointerEvent, index: number) => {
+    onDragStart?.('Move waypoint');
+    trackDrag(
+      e,
+      waypoints[index],
+      point => onUpdate?.(connection.id, { points: waypoints.map((p, i) => (i === index ? point : p)) }, 'Move waypoint'),
+      () => onDragStop?.()
+    );
+  };
+
+  // Dragging the handle in the middle of a segment splits it with a new waypoint
+  const handleSegmentDrag = (e: React.PointerEvent, index: number) => {
+    const start = pathData.points[index];
+    const end = pathData.points[index + 1];
+    const origin = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    const insert = (point: Point) => [...waypoints.slice(0, index), point, ...waypoints.slice(index)];
+
+    onDragStart?.('Add waypoint');
+    onUpdate?.(connection.id, { points: insert(origin) }, 'Add waypoint');
+    trackDrag(
+      e,
+      origin,
+      point => onUpdate?.(connection.id, { points: insert(point) }, 'Add waypoint'),
+      () => onDragStop?.()
+    );
+  };
+
+  const handleWaypointRemove = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    onUpdate?.(connection.id, { points: waypoints.filter((_, i) => i !== index) }, 'Remove waypoint');
+  };
+
+  const handleControlPointDrag = (e: React.PointerEvent, which: 'cp1' | 'cp2') => {
+    const { fromIntersect, toIntersect, controlPoint1, controlPoint2 } = pathData;
+    if (!controlPoint1 || !controlPoint2) return;
+
+    // Stored relative to the end each handle belongs to
+    const toOffsets = (cp1: Point, cp2: Point) => ({
+      cp1: { x: cp1.x - fromIntersect.x, y: cp1.y - fromIntersect.y },
+      cp2: { x: cp2.x - toIntersect.x, y: cp2.y - toIntersect.y }
+    });
+
+    onDragStart?.('Bend curve');
+    trackDrag(
+      e,
+      which === 'cp1' ? controlPoint1 : controlPoint2,
+      point => onUpdate?.(
+        connection.id,
+        { controlPoints: which === 'cp1' ? toOffsets(point, controlPoint2) : toOffsets(controlPoint1, point) },
+        'Bend curve'
+      ),
+      () => onDragStop?.()
+    );
+  };
+
+  const handleEndpointDrag = (e: React.PointerEvent, end: ConnectionEnd) => {
+    const origin = end === 'from' ? pathData.fromIntersect : pathData.toIntersect;
+    setEndpointDrag({ end, point: origin });
+    trackDrag(
+      e,
+      origin,
+      point => {
+        setEndpointDrag({ end, point });
+        onEndpointMove?.(connection.id, end, point);
+      },
+      (point, event) => {
+        setEndpointDrag(null);
+        onEndpointMove?.(connection.id, end, null);
+        onReconnect?.(connection.id, end, point, event.altKey);
       }
-    }
-    
-    return { x: intersectX, y: intersectY };
+    );
   };
 
-  const getPath = () => {
-    const from = getCenterPoint(fromShape);
-    const to = getCenterPoint(toShape);
-
-    const fromIntersect = getIntersectionPoint(fromShape, to);
-    const toIntersect = getIntersectionPoint(toShape, from);
-
-    // Use straight lines by default
-    if (connection.lineStyle === 'curved') {
-      const dx = toIntersect.x - fromIntersect.x;
-      const dy = toIntersect.y - fromIntersect.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      const controlPoint1 = {
-        x: fromIntersect.x + dx * 0.25,
-        y: fromIntersect.y + dy * 0.25 - Math.min(50, distance * 0.2)
-      };
-      
-      const controlPoint2 = {
-        x: fromIntersect.x + dx * 0.75,
-        y: fromIntersect.y + dy * 0.75 - Math.min(50, distance * 0.2)
-      };
-
-      return {
-        path: `M ${fromIntersect.x} ${fromIntersect.y} C ${controlPoint1.x} ${controlPoint1.y} ${controlPoint2.x} ${controlPoint2.y} ${toIntersect.x} ${toIntersect.y}`,
-        fromIntersect,
-        toIntersect,
-        controlPoint1,
-        controlPoint2
-      };
-    }
+  const labels = connection.labels || [];
 
-    // Straight line
-    return {
-      path: `M ${fromIntersect.x} ${fromIntersect.y} L ${toIntersect.x} ${toIntersect.y}`,
-      fromIntersect,
-      toIntersect
-    };
+  const addLabel = (position: number) => {
+    const label: ConnectionLabel = { id: `label-${Date.now()}`, text: 'Label', position };
+    onUpdate?.(connection.id, { labels: [...labels, label] }, 'Add connection label');
+    setEditingLabelId(label.id);
   };
 
-  const pathData = getPath();
+  // An emptied label is removed rather than left behind invisible
+  const commitLabel = (id: string, text: string) => {
+    setEditingLabelId(null);
+    const current = labels.find(label => label.id === id);
+    if (!current || current.text === text) return;
 
-  const handleLineStyleChange = (style: LineStyle) => {
-    onStyleChange(connection.id, style, connection.arrowStyle);
-    setShowStyleOptions(false);
+    onUpdate?.(
+      connection.id,
+      {
+        labels: text.trim()
+          ? labels.map(label => (label.id === id ? { ...label, text } : label))
+          : labels.filter(label => label.id !== id)
+      },
+      text.trim() ? 'Edit connection label' : 'Remove connection label'
+    );
   };
 
-  const handleArrowStyleChange = (style: ArrowStyle) => {
-    onStyleChange(connection.id, connection.lineStyle, style);
-    setShowStyleOptions(false);
+  const handleLabelDrag = (e: React.PointerEvent, label: ConnectionLabel) => {
+    onDragStart?.('Move connection label');
+    trackDrag(
+      e,
+      getPointAlongPolyline(pathData.route, label.position),
+      point => onUpdate?.(
+        connection.id,
+        { labels: labels.map(l => (l.id === label.id ? { ...l, position: getClosestPosition(pathData.route, point) } : l)) },
+        'Move connection label'
+      ),
+      () => onDragStop?.()
+    );
   };
 
-  const midPoint = {
-    x: (pathData.fromIntersect.x + pathData.toIntersect.x) / 2,
-    y: (pathData.fromIntersect.y + pathData.toIntersect.y) / 2 - 40
+  // Double-clicking the line adds a label where it was clicked
+  const handlePathDoubleClick = (e: React.MouseEvent<SVGPathElement>) => {
+    if (!onUpdate) return;
+    e.stopPropagation();
+    const matrix = e.currentTarget.ownerSVGElement?.getScreenCTM();
+    if (!matrix) return;
+
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    onSelect(connection.id);
+    addLabel(getClosestPosition(pathData.route, point));
   };
 
+  const handleProps = (onPointerDown: (e: React.PointerEvent) => void) => ({
+    r: handleRadius,
+    strokeWidth: 2 / scale,
+    style: { pointerEvents: 'all' as const },
+    onPointerDown,
+    onClick: (e: React.MouseEvent) => e.stopPropagation()
+  });
+
+  const dragPreview = endpointDrag && (endpointDrag.end === 'from'
+    ? [endpointDrag.point, ...pathData.points.slice(1)]
+    : [...pathData.points.slice(0, -1), endpointDrag.point]);
+
   return (
     <>
       <svg
-        className="absolute top-0 left-0 w-full h-full pointer-events-none"
+        className="absolute top-0 left-0 w-px h-px overflow-visible pointer-events-none"
         style={{ zIndex: 0 }}
       >
         <defs>
@@ -169,7 +269,7 @@ const Connection: React.FC<ConnectionProps> = ({
           >
             <polygon
               points="10 0, 0 3.5, 10 7"
-              fill={isSelected ? '#3B82F6' : '#666'}
+              fill={isHighlighted ? '#3B82F6' : '#666'}
             />
           </marker>
           <marker
@@ -183,15 +283,26 @@ const Connection: React.FC<ConnectionProps> = ({
           >
             <polygon
               points="0 0, 10 3.5, 0 7"
-              fill={isSelected ? '#3B82F6' : '#666'}
+              fill={isHighlighted ? '#3B82F6' : '#666'}
             />
           </marker>
         </defs>
         
+        {remoteHighlightColor && (
+          <path
+            d={pathData.path}
+            stroke={remoteHighlightColor}
+            strokeOpacity={0.5}
+            strokeWidth={8}
+            fill="none"
+          />
+        )}
+
         <path
           ref={pathRef}
           d={pathData.path}
-          stroke={isSelected ? '#3B82F6' : '#666'}
+          opacity={endpointDrag ? 0.3 : 1}
+          stroke={isHighlighted ? '#3B82F6' : '#666'}
           strokeWidth="2"
           fill="none"
           strokeDasharray={getStrokeDashArray(connection.lineStyle)}
@@ -200,29 +311,172 @@ const Connection: React.FC<ConnectionProps> = ({
           className="cursor-pointer"
           onClick={(e) => {
             e.stopPropagation();
-            onSelect(connection.id);
+            onSelect(connection.id, e.shiftKey);
+          }}
+          onDoubleClick={handlePathDoubleClick}
+          style={{ pointerEvents: 'stroke' }}
+        />
+
+        {/* Wider invisible stroke so the line is easier to hit */}
+        <path
+          d={pathData.path}
+          stroke="transparent"
+          strokeWidth={12}
+          fill="none"
+          className="cursor-pointer"
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelect(connection.id, e.shiftKey);
           }}
+          onDoubleClick={handlePathDoubleClick}
           style={{ pointerEvents: 'stroke' }}
         />
 
-        {isSelected && connection.lineStyle === 'curved' && pathData.controlPoint1 && pathData.controlPoint2 && (
+        {dragPreview && (
+          <polyline
+            points={dragPreview.map(p => `${p.x},${p.y}`).join(' ')}
+            stroke="#3B82F6"
+            strokeWidth={2}
+            strokeDasharray="6,4"
+            fill="none"
+          />
+        )}
+
+        {isSelected && onUpdate && !endpointDrag && (
           <>
-            <circle
-              cx={pathData.controlPoint1.x}
-              cy={pathData.controlPoint1.y}
-              r={4}
-              fill="#3B82F6"
-            />
-            <circle
-              cx={pathData.controlPoint2.x}
-              cy={pathData.controlPoint2.y}
-              r={4}
-              fill="#3B82F6"
-            />
+            {pathData.controlPoint1 && pathData.controlPoint2 && (
+              <>
+                <line
+                  x1={pathData.fromIntersect.x}
+                  y1={pathData.fromIntersect.y}
+                  x2={pathData.controlPoint1.x}
+                  y2={pathData.controlPoint1.y}
+                  stroke="#93C5FD"
+                  strokeWidth={1 / scale}
+                />
+                <line
+                  x1={pathData.toIntersect.x}
+                  y1={pathData.toIntersect.y}
+                  x2={pathData.controlPoint2.x}
+                  y2={pathData.controlPoint2.y}
+                  stroke="#93C5FD"
+                  strokeWidth={1 / scale}
+                />
+                {(['cp1', 'cp2'] as const).map(which => {
+                  const point = which === 'cp1' ? pathData.controlPoint1! : pathData.controlPoint2!;
+                  return (
+                    <circle
+                      key={which}
+                      cx={point.x}
+                      cy={point.y}
+                      fill="#3B82F6"
+                      stroke="white"
+                      className="cursor-move"
+                      {...handleProps(e => handleControlPointDrag(e, which))}
+                      onDoubleClick={e => {
+                        e.stopPropagation();
+                        onUpdate(connection.id, { controlPoints: undefined }, 'Reset curve');
+                      }}
+                    />
+                  );
+                })}
+              </>
+            )}
+
+            {connection.lineStyle !== 'orthogonal' && pathData.points.slice(0, -1).map((point, i) => {
+              const next = pathData.points[i + 1];
+              return (
+                <circle
+                  key={`segment-${i}`}
+                  cx={(point.x + next.x) / 2}
+                  cy={(point.y + next.y) / 2}
+                  fill="white"
+                  stroke="#93C5FD"
+                  className="cursor-copy"
+                  {...handleProps(e => handleSegmentDrag(e, i))}
+                />
+              );
+            })}
+
+            {waypoints.map((point, i) => (
+              <circle
+                key={`waypoint-${i}`}
+                cx={point.x}
+                cy={point.y}
+                fill="white"
+                stroke="#3B82F6"
+                className="cursor-move"
+                {...handleProps(e => handleWaypointDrag(e, i))}
+                onDoubleClick={e => handleWaypointRemove(e, i)}
+              />
+            ))}
+
+            {onReconnect && (['from', 'to'] as const).map(end => {
+              const point = end === 'from' ? pathData.fromIntersect : pathData.toIntersect;
+              return (
+                <circle
+                  key={end}
+                  cx={point.x}
+                  cy={point.y}
+                  fill="#3B82F6"
+                  stroke="white"
+                  className="cursor-crosshair"
+                  {...handleProps(e => handleEndpointDrag(e, end))}
+                />
+              );
+            })}
           </>
         )}
       </svg>
 
+      {labels.map(label => {
+        const point = getPointAlongPolyline(pathData.route, label.position);
+        const isEditingLabel = editingLabelId === label.id;
+
+        return (
+          <div
+            key={label.id}
+            className={`absolute px-1.5 py-0.5 bg-white rounded text-xs text-gray-700 whitespace-pre text-center ${
+              onUpdate && !isEditingLabel ? 'cursor-move' : ''
+            } ${isHighlighted ? 'ring-1 ring-blue-300' : ''}`}
+            style={{ left: point.x, top: point.y, transform: 'translate(-50%, -50%)' }}
+            onPointerDown={onUpdate && !isEditingLabel ? e => handleLabelDrag(e, label) : undefined}
+            onClick={e => {
+              e.stopPropagation();
+              onSelect(connection.id, e.shiftKey);
+            }}
+            onDoubleClick={e => {
+              if (!onUpdate) return;
+              e.stopPropagation();
+              setEditingLabelId(label.id);
+            }}
+          >
+            {isEditingLabel ? (
+              <textarea
+                autoFocus
+                defaultValue={label.text}
+                rows={Math.max(1, label.text.split('\n').length)}
+                className="bg-transparent outline-none resize-none text-center w-32"
+                onFocus={e => e.currentTarget.select()}
+                onBlur={e => commitLabel(label.id, e.currentTarget.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    e.currentTarget.blur();
+                  } else if (e.key === 'Escape') {
+                    e.currentTarget.value = label.text;
+                    e.currentTarget.blur();
+                  }
+                }}
+                onPointerDown={e => e.stopPropagation()}
+              />
+            ) : (
+              label.text
+            )}
+          </div>
+        );
+      })}
+
       {isSelected && (
         <div
           className="absolute bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 z-10 flex gap-2 items-center border border-gray-200"
@@ -254,6 +508,13 @@ const Connection: React.FC<ConnectionProps> = ({
             >
               ⟆
             </button>
+            <button
+              onClick={() => handleLineStyleChange('orthogonal')}
+              className={`p-2 hover:bg-gray-100 rounded-lg ${connection.lineStyle === 'orthogonal' ? 'bg-blue-50 text-blue-600' : ''}`}
+              title="Elbow, routed around shapes"
+            >
+              └┐
+            </button>
           </div>
 
           <div className="w-px h-6 bg-gray-200" />
@@ -288,6 +549,26 @@ const Connection: React.FC<ConnectionProps> = ({
               <ArrowLeftRight className="w-4 h-4" />
             </button>
           </div>
+
+          {onUpdate && (
+            <>
+              <div className="w-px h-6 bg-gray-200" />
+
+              <div className="flex gap-1 items-center">
+                <Type className="w-4 h-4 text-gray-500" />
+                {(Object.keys(LABEL_POSITIONS) as (keyof typeof LABEL_POSITIONS)[]).map(placement => (
+                  <button
+                    key={placement}
+                    onClick={() => addLabel(LABEL_POSITIONS[placement])}
+                    className="px-2 py-1 hover:bg-gray-100 rounded-lg text-xs capitalize"
+                    title={`Add a label at the ${placement}`}
+                  >
+                    {placement}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
         </div>
       )}
     </>
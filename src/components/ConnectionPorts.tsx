@@ -0,0 +1,63 @@
+import React from 'react';
+import { Shape } from '../types';
+import { getPortPoint, getShapePorts, SIDE_PORTS } from '../lib/connections';
+
+interface ConnectionPortsProps {
+  shapes: Shape[];
+  scale: number;
+  activePort?: { shapeId: string; portId?: string } | null;
+  showSidePorts?: boolean;
+  onPortClick?: (shapeId: string, portId: string) => void;
+  onPortRemove?: (shapeId: string, portId: string) => void;
+}
+
+const isSidePort = (portId: string) => SIDE_PORTS.some(port => port.id === portId);
+
+// Attachment points drawn above the shapes while connecting or reattaching
+const ConnectionPorts: React.FC<ConnectionPortsProps> = ({
+  shapes,
+  scale,
+  activePort,
+  showSidePorts = true,
+  onPortClick,
+  onPortRemove
+}) => {
+  const radius = 5 / scale;
+
+  return (
+    <svg className="absolute top-0 left-0 w-px h-px overflow-visible pointer-events-none" style={{ zIndex: 20 }}>
+      {shapes.flatMap(shape => getShapePorts(shape).filter(port => showSidePorts || !isSidePort(port.id)).map(port => {
+        const point = getPortPoint(shape, port.id)!;
+        const isActive = activePort?.shapeId === shape.id && activePort.portId === port.id;
+        const canRemove = !!onPortRemove && !isSidePort(port.id);
+
+        return (
+          <circle
+            key={`${shape.id}-${port.id}`}
+            cx={point.x}
+            cy={point.y}
+            r={isActive ? radius * 1.6 : radius}
+            fill={isActive ? '#3B82F6' : isSidePort(port.id) ? 'white' : '#DBEAFE'}
+            stroke="#3B82F6"
+            strokeWidth={2 / scale}
+            className={onPortClick ? 'cursor-crosshair' : undefined}
+            style={{ pointerEvents: onPortClick || canRemove ? 'all' : 'none' }}
+            onClick={e => {
+              e.stopPropagation();
+              onPortClick?.(shape.id, port.id);
+            }}
+            onDoubleClick={e => {
+              if (!canRemove) return;
+              e.stopPropagation();
+              onPortRemove(shape.id, port.id);
+            }}
+          >
+            {canRemove && <title>Double-click to remove this port</title>}
+          </circle>
+        );
+      }))}
+    </svg>
+  );
+};
+
+export default ConnectionPorts;
@@ -1,17 +1,187 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Undo2, Redo2, Save, Upload, Share2, X } from 'lucide-react';
-import { Shape, Connection, DiagramState, HistoryAction, ShapeType, DrawingPath, LineStyle, ArrowStyle } from '../types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Undo2, Redo2, Save, Upload, Share2, X, History, Users, GitCommit, Layers, Shapes, Files, Cloud, CloudOff, HardDrive, Loader2 } from 'lucide-react';
+import { Shape, Connection, ShapeGroup, Layer, DiagramFragment, DiagramState, DiagramVersion, LocalDraft, ExportFormat, ShapeType, DrawingPath, LineStyle, ArrowStyle, Point, Bounds } from '../types';
 import ShapeComponent from './Shape';
-import ConnectionComponent from './Connection';
+import ConnectionComponent, { ConnectionEnd } from './Connection';
+import ConnectionPorts from './ConnectionPorts';
+import SelectionOverlay from './SelectionOverlay';
+import SelectionToolbar from './SelectionToolbar';
 import DrawingCanvas from './DrawingCanvas';
+import DrawingStroke from './DrawingStroke';
 import Toolbar from './Toolbar';
 import BackgroundColorPicker from './BackgroundColorPicker';
 import ShareDialog from './ShareDialog';
+import ZoomControls from './ZoomControls';
+import HistoryPanel from './HistoryPanel';
+import LayersPanel from './LayersPanel';
+import StencilPanel from './StencilPanel';
+import PenSettingsPanel from './PenSettingsPanel';
+import EraserPanel from './EraserPanel';
+import PresenceAvatars from './PresenceAvatars';
+import RemoteCursors from './RemoteCursors';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import VersionCompareBar from './VersionCompareBar';
+import VersionDiffOverlay from './VersionDiffOverlay';
+import SnapGuides from './SnapGuides';
+import GridControls from './GridControls';
+import DraftsPanel from './DraftsPanel';
 import { supabase } from '../lib/supabase';
-import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
+import { fitBounds, getVisibleWorldBounds, MAX_ZOOM, screenToWorld } from '../lib/camera';
+import { getDisplayName, getPresenceColor } from '../lib/collab/presence';
+import { getDiagramBounds, getShapeAt, getShapeBounds, translateShape, unionBounds } from '../lib/geometry';
+import { createPortAt, getNearestPort } from '../lib/connections';
+import { createRoutingContext } from '../lib/routing';
+import { compareDiagrams } from '../lib/diff';
+import { eraseInk, EraserMode } from '../lib/eraser';
+import { applyConversion, convertStroke, InkConversion, revertConversion } from '../lib/recognition';
+import {
+  deleteSelection,
+  getDrawingBounds,
+  getSelectionBounds,
+  getSelectionInLasso,
+  getSelectionInRect,
+  getSelectionSize,
+  isSelectionEmpty,
+  mergeSelections,
+  moveSelection,
+  scaleSelection,
+  selectAll,
+  Selection,
+  updateSelection
+} from '../lib/selection';
+import {
+  createGroup,
+  expandSelectionToGroups,
+  getClickSelection,
+  getGroupBounds,
+  getGroupInScope,
+  getGroups,
+  getGroupShapeIds,
+  getNextGroupName,
+  getSelectedGroups,
+  getSelectionItems,
+  pruneGroups,
+  renameGroup,
+  ungroup
+} from '../lib/groups';
+import { snapBounds, SnapGuide } from '../lib/snapping';
+import { AlignMode, alignSelection, DistributeAxis, distributeSelection, getAlignItemCount } from '../lib/align';
+import { fitShapeToText } from '../lib/text';
+import { getStencil, STENCIL_DRAG_TYPE } from '../lib/stencils';
+import { isPalmTouch } from '../lib/pointers';
+import {
+  addLayer,
+  ArrangeCommand,
+  arrangeSelection,
+  filterInteractive,
+  getInteractiveIds,
+  getItemKey,
+  getLayers,
+  getNextLayerName,
+  getSelectionKeys,
+  getStack,
+  getVisibleState,
+  moveItemsInStack,
+  moveLayer,
+  moveSelectionToLayer,
+  removeLayer,
+  setItemsFlag,
+  StackItem,
+  updateLayer
+} from '../lib/layers';
+import { saveVersion, toDiagramState } from '../lib/versions';
+import {
+  createDraftId,
+  DEFAULT_DRAFT_NAME,
+  deleteDraft,
+  getCurrentDraftId,
+  isDiagramEmpty,
+  loadDraft,
+  renameDraft
+} from '../lib/drafts';
+import { exportDiagram } from '../lib/export/exportDiagram';
+import { useCamera } from '../hooks/useCamera';
+import { useHistory } from '../hooks/useHistory';
+import { useCollaboration } from '../hooks/useCollaboration';
+import {
+  addPayload,
+  CLIPBOARD_MIME,
+  ClipboardPayload,
+  copySelection,
+  getPayloadBounds,
+  getPayloadText,
+  instantiatePayload,
+  parsePayload,
+  readImageFile,
+  serializePayload
+} from '../lib/clipboard';
+import { useVersionHistory } from '../hooks/useVersionHistory';
+import { useSelection } from '../hooks/useSelection';
+import { useGridSettings } from '../hooks/useGridSettings';
+import { AutosaveStatus, DraftTarget, useAutosave } from '../hooks/useAutosave';
+import { useLocalDrafts } from '../hooks/useLocalDrafts';
+import { usePenSettings } from '../hooks/usePenSettings';
 import { v4 as uuidv4 } from 'uuid';
 
+// How far each paste or duplicate lands from the previous copy
+const PASTE_OFFSET = 20;
+
+// Screen distance within which a dragged shape snaps to a smart guide
+const SNAP_THRESHOLD = 6;
+
+const ARRANGE_LABELS: Record<ArrangeCommand, string> = {
+  front: 'Bring to front',
+  forward: 'Bring forward',
+  backward: 'Send backward',
+  back: 'Send to back'
+};
+
+// History labels for single-shape style and text format edits, by the first field changed
+const STYLE_LABELS: Partial<Record<keyof Shape, string>> = {
+  borderColor: 'Change border color',
+  borderWidth: 'Change border width',
+  borderStyle: 'Change border style',
+  fillColor: 'Change fill',
+  fillGradient: 'Change fill',
+  opacity: 'Change opacity',
+  cornerRadius: 'Change corner radius',
+  shadow: 'Change shadow',
+  fontFamily: 'Change font',
+  fontSize: 'Change font size',
+  textColor: 'Change text color',
+  bold: 'Format text',
+  italic: 'Format text',
+  underline: 'Format text',
+  textAlign: 'Align text',
+  verticalAlign: 'Align text',
+  lineHeight: 'Change line height',
+  autoFit: 'Toggle fit to text'
+};
+
+const createDraft = (): DraftTarget => ({ id: createDraftId(), name: DEFAULT_DRAFT_NAME });
+
+// Header badge for the autosave state, or null before anything needs saving
+const getAutosaveBadge = (status: AutosaveStatus | null, isCloud: boolean) => {
+  if (!status) return null;
+  if (status === 'pending' || status === 'saving') {
+    return { icon: Loader2, spin: true, label: 'Saving...', title: 'Saving your changes', className: 'bg-gray-100 text-gray-500' };
+  }
+  if (status === 'offline') {
+    return { icon: CloudOff, label: 'Offline', title: "Changes will be saved when you're back online", className: 'bg-yellow-50 text-yellow-700' };
+  }
+  if (status === 'error') {
+    return {
+      icon: CloudOff,
+      label: 'Not saved',
+      title: isCloud ? 'Autosave failed; save a version to keep your changes' : "This browser wouldn't store the draft",
+      className: 'bg-red-50 text-red-700'
+    };
+  }
+  return isCloud
+    ? { icon: Cloud, label: 'Saved', title: 'Changes are saved to your account as you work', className: 'bg-green-50 text-green-700' }
+    : { icon: HardDrive, label: 'Saved locally', title: 'Changes are saved in this browser as you work', className: 'bg-gray-100 text-gray-500' };
+};
+
 interface DiagramEditorProps {
   diagramId?: string;
   initialData?: any;
@@ -23,31 +193,155 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
   initialData,
   isCollaborating = false
 }) => {
-  const [shapes, setShapes] = useState<Shape[]>(initialData?.shapes || []);
-  const [connections, setConnections] = useState<Connection[]>(initialData?.connections || []);
-  const [drawings, setDrawings] = useState<DrawingPath[]>(initialData?.drawings || []);
-  const [backgroundColor, setBackgroundColor] = useState(initialData?.backgroundColor || '#FFFFFF');
-  const [selectedShape, setSelectedShape] = useState<string | null>(null);
-  const [selectedConnection, setSelectedConnection] = useState<string | null>(null);
+  const {
+    state: diagramState,
+    entries: historyEntries,
+    index: historyIndex,
+    canUndo,
+    canRedo,
+    apply,
+    beginTransaction,
+    commitTransaction,
+    cancelTransaction,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+    applyRemote
+  } = useHistory({
+    shapes: initialData?.shapes || [],
+    connections: initialData?.connections || [],
+    drawings: initialData?.drawings || [],
+    groups: initialData?.groups || [],
+    layers: initialData?.layers || [],
+    backgroundColor: initialData?.backgroundColor || '#FFFFFF'
+  });
+  const { shapes, connections, drawings } = diagramState;
+  const layers = useMemo(() => getLayers(diagramState), [diagramState]);
+  const stack = useMemo(() => getStack(diagramState), [diagramState]);
+  // Hidden and locked elements cannot be picked, dragged or erased on the canvas
+  const interactiveIds = useMemo(() => getInteractiveIds(diagramState), [diagramState]);
+  const backgroundColor = diagramState.backgroundColor || '#FFFFFF';
+  const {
+    clientId,
+    status: collabStatus,
+    peers,
+    updatePresence
+  } = useCollaboration({
+    room: initialData?.shareId,
+    enabled: isCollaborating,
+    state: diagramState,
+    onRemoteChanges: applyRemote
+  });
+  const {
+    selection,
+    setSelection,
+    selectElements,
+    selectConnection,
+    clearSelection,
+    selectedShape,
+    selectedConnection,
+    isMultiSelection
+  } = useSelection(diagramState);
+  // Rubber band in world coordinates while it is being dragged
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  // The click that ends a marquee or a group drag must not change the selection
+  const suppressClickRef = useRef(false);
+  const selectionBaselineRef = useRef<DiagramState | null>(null);
+  // What a shape drag moves, fixed when the drag starts
+  const dragSelectionRef = useRef<Selection | null>(null);
+  const cancelMarqueeRef = useRef<(() => void) | null>(null);
+  // Group the user has entered to edit its children; null at the top of the board
+  const [enteredGroupId, setEnteredGroupId] = useState<string | null>(null);
+  // Last copied content and how often it has been pasted, so repeated pastes cascade.
+  // Matched by its JSON, as the system clipboard hands back a new object every paste.
+  const clipboardRef = useRef<{ payload: ClipboardPayload; key: string; pasteCount: number } | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [connectionStart, setConnectionStart] = useState<string | null>(null);
+  const [connectionStart, setConnectionStart] = useState<{ shapeId: string; portId?: string } | null>(null);
+  // Shape and port under a connection end while it is dragged to a new shape
+  const [reattachTarget, setReattachTarget] = useState<{ shapeId: string; portId?: string } | null>(null);
   const [isEraserActive, setIsEraserActive] = useState(false);
-  const [drawingHistory, setDrawingHistory] = useState<DrawingPath[][]>([[]]);
-  const [drawingHistoryIndex, setDrawingHistoryIndex] = useState(0);
-  const [history, setHistory] = useState<HistoryAction[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [eraserMode, setEraserMode] = useState<EraserMode>('precise');
+  const [isLassoActive, setIsLassoActive] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [showLayersPanel, setShowLayersPanel] = useState(false);
+  const [showStencilPanel, setShowStencilPanel] = useState(false);
+  // Strokes the object eraser has picked up in the gesture under way
+  const [erasingIds, setErasingIds] = useState<string[]>([]);
+  const [showVersionPanel, setShowVersionPanel] = useState(false);
+  const [comparison, setComparison] = useState<{
+    fromId: string;
+    toId: string | null;
+    before: DiagramState;
+    after: DiagramState | null;
+  } | null>(null);
   const [showBackgroundColorPicker, setShowBackgroundColorPicker] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
-  const [isPublic, setIsPublic] = useState(false);
-  const [shareUrl, setShareUrl] = useState('');
-  const [currentDiagramId, setCurrentDiagramId] = useState<string | null>(null);
+  // A shared board opened by link is the diagram it was shared from, so saves go back to it
+  const [isPublic, setIsPublic] = useState<boolean>(!!initialData?.isPublic);
+  const [shareUrl, setShareUrl] = useState(
+    initialData?.shareId ? `${window.location.origin}/diagram/${initialData.shareId}` : ''
+  );
+  const [currentDiagramId, setCurrentDiagramId] = useState<string | null>(initialData?.id ?? null);
+  const [diagramOwnerId, setDiagramOwnerId] = useState<string | null>(initialData?.owner_id ?? null);
+  const {
+    versions,
+    isLoading: isLoadingVersions,
+    refresh: refreshVersions,
+    loadVersionData
+  } = useVersionHistory(currentDiagramId, showVersionPanel);
   const containerRef = useRef<HTMLDivElement>(null);
+  const {
+    camera,
+    setCamera,
+    isPanning,
+    isPinching,
+    isSpacePressed,
+    onPanStart,
+    consumePanClick,
+    getViewportSize,
+    clientToWorld,
+    zoomTo,
+    zoomIn,
+    zoomOut,
+    zoomToBounds
+  } = useCamera(containerRef);
+  const [gridSettings, updateGridSettings] = useGridSettings();
+  const [penSettings, updatePenSettings] = usePenSettings();
+  // Alignment and spacing guides of the drag in progress
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
   const [showTip, setShowTip] = useState<string | null>(null);
   const tipTimeoutRef = useRef<number | null>(null);
+  // The stroke most recently turned into a shape, offered back for a few seconds
+  const [lastConversion, setLastConversion] = useState<{ drawing: DrawingPath; conversion: InkConversion } | null>(null);
+  const conversionTimeoutRef = useRef<number | null>(null);
   const [user, setUser] = useState<any>(null);
   const [showAuthMessage, setShowAuthMessage] = useState(false);
+  const [followingId, setFollowingId] = useState<string | null>(null);
+  const isOwner = !!user && !!diagramOwnerId && diagramOwnerId === user.id;
+  // Everyone on a shared board converges on the same state, so only one of the
+  // owner's tabs writes it back; only the owner may write the diagram at all
+  const isSaveLeader = isOwner && (!isCollaborating || peers.every(peer => !peer.canSave || peer.clientId > clientId));
+  // The local draft this board autosaves to while it isn't a saved diagram
+  const [draft, setDraft] = useState<DraftTarget>(createDraft);
+  const [showDraftsPanel, setShowDraftsPanel] = useState(false);
+  // Last session's unsaved board, offered back on load
+  const [recoveredDraft, setRecoveredDraft] = useState<LocalDraft | null>(null);
+  const draftTarget = isCollaborating || diagramId || currentDiagramId ? null : draft;
+  const {
+    status: autosaveStatus,
+    isCloud: isCloudAutosave,
+    savedAt: draftSavedAt,
+    flush: flushDraft
+  } = useAutosave({
+    state: diagramState,
+    draft: draftTarget,
+    cloud: isSaveLeader && currentDiagramId ? { diagramId: currentDiagramId, ownerId: user.id } : null
+  });
+  const { drafts, refresh: refreshDrafts } = useLocalDrafts(showDraftsPanel, draftSavedAt);
+  const autosaveBadge = getAutosaveBadge(autosaveStatus, isCloudAutosave);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -61,6 +355,61 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     return () => subscription.unsubscribe();
   }, []);
 
+  const selfName = getDisplayName(user?.email);
+  const selfColor = getPresenceColor(clientId);
+
+  useEffect(() => {
+    if (!isCollaborating) return;
+    updatePresence({
+      name: selfName,
+      color: selfColor,
+      canSave: isOwner,
+      selectedIds: [...selection.shapeIds, ...selection.connectionIds],
+      editingId: isEditing ? selectedShape : null,
+      camera,
+      viewport: getViewportSize()
+    });
+  }, [isCollaborating, updatePresence, selfName, selfColor, isOwner, selection, selectedShape, isEditing, camera, getViewportSize]);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isCollaborating) {
+      updatePresence({ cursor: clientToWorld(e.clientX, e.clientY) });
+    }
+  };
+
+  // Follow mode: frame whatever the followed participant is looking at
+  const followedPeer = peers.find(peer => peer.clientId === followingId);
+
+  useEffect(() => {
+    if (!followingId) return;
+    if (!followedPeer) {
+      setFollowingId(null);
+      return;
+    }
+    setCamera(fitBounds(
+      getVisibleWorldBounds(followedPeer.camera, followedPeer.viewport),
+      getViewportSize(),
+      0,
+      MAX_ZOOM
+    ));
+  }, [followingId, followedPeer, setCamera, getViewportSize]);
+
+  useEffect(() => {
+    if (!followingId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setFollowingId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [followingId]);
+
+  const remoteHighlights = new Map<string, { color: string; name: string }>();
+  peers.forEach(peer => {
+    [...(peer.selectedIds || []), peer.editingId].forEach(id => {
+      if (id) remoteHighlights.set(id, { color: peer.color, name: peer.name });
+    });
+  });
+
   const showFeatureTip = (tip: string) => {
     if (tipTimeoutRef.current) {
       window.clearTimeout(tipTimeoutRef.current);
@@ -85,6 +434,19 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     }
   }, [diagramId]);
 
+  // A fresh editor offers back whatever the last session left unsaved
+  useEffect(() => {
+    if (diagramId || initialData || isCollaborating) return;
+    const id = getCurrentDraftId();
+    if (!id) return;
+
+    loadDraft(id)
+      .then(saved => {
+        if (saved && !isDiagramEmpty(saved.data)) setRecoveredDraft(saved);
+      })
+      .catch(error => console.error('Error loading draft:', error));
+  }, [diagramId, initialData, isCollaborating]);
+
   const loadDiagram = async (id: string) => {
     try {
       const { data: diagram, error } = await supabase
@@ -101,11 +463,17 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
           return;
         }
 
-        setShapes(diagram.data.shapes || []);
-        setConnections(diagram.data.connections || []);
-        setDrawings(diagram.data.drawings || []);
+        reset({
+          shapes: diagram.data.shapes || [],
+          connections: diagram.data.connections || [],
+          drawings: diagram.data.drawings || [],
+          groups: diagram.data.groups || [],
+          layers: diagram.data.layers || [],
+          backgroundColor: diagram.data.backgroundColor || '#FFFFFF'
+        });
         setIsPublic(diagram.is_public);
         setCurrentDiagramId(diagram.id);
+        setDiagramOwnerId(diagram.owner_id);
         setShareUrl(`${window.location.origin}/diagram/${diagram.share_id}`);
       }
     } catch (error) {
@@ -114,40 +482,35 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     }
   };
 
-  const saveDiagram = async (name: string = 'Untitled Diagram') => {
+  // Once the board is a saved diagram it autosaves there, so its local draft goes
+  const releaseDraft = () => {
+    deleteDraft(draft.id).catch(error => console.error('Error deleting draft:', error));
+    setDraft(createDraft());
+  };
+
+  // Every save is stored as a new immutable version
+  const saveDiagram = async (label?: string, data: DiagramState = diagramState) => {
     if (!user) {
       setShowAuthMessage(true);
       showFeatureTip("Please sign in to save and share diagrams");
       return;
     }
+    if (currentDiagramId && !isOwner) {
+      showFeatureTip("Only the diagram's owner can save it");
+      return;
+    }
 
     try {
-      const data: DiagramState = {
-        shapes,
-        connections,
-        drawings
-      };
-
       if (currentDiagramId) {
-        const { error } = await supabase
-          .from('diagrams')
-          .update({
-            data,
-            updated_at: new Date().toISOString(),
-            version: supabase.sql`version + 1`
-          })
-          .eq('id', currentDiagramId)
-          .eq('owner_id', user.id);
-
-        if (error) throw error;
+        await saveVersion(currentDiagramId, data, label, getDisplayName(user.email));
+        refreshVersions();
         showFeatureTip("Diagram updated successfully!");
-        setShowShareDialog(true);
       } else {
         const shareId = uuidv4();
         const { data: diagram, error } = await supabase
           .from('diagrams')
           .insert({
-            name,
+            name: 'Untitled Diagram',
             data,
             owner_id: user.id,
             share_id: shareId,
@@ -157,8 +520,11 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
           .single();
 
         if (error) throw error;
+        await saveVersion(diagram.id, data, label, getDisplayName(user.email));
 
         setCurrentDiagramId(diagram.id);
+        setDiagramOwnerId(user.id);
+        releaseDraft();
         const newShareUrl = `${window.location.origin}/diagram/${shareId}`;
         setShareUrl(newShareUrl);
         showFeatureTip("Diagram saved successfully! You can now share it.");
@@ -176,6 +542,10 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
       showFeatureTip("Please sign in to change diagram visibility");
       return;
     }
+    if (currentDiagramId && !isOwner) {
+      showFeatureTip("Only the diagram's owner can change its visibility");
+      return;
+    }
 
     if (!currentDiagramId) {
       try {
@@ -185,7 +555,7 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
           .from('diagrams')
           .insert({
             name,
-            data: { shapes, connections, drawings },
+            data: diagramState,
             owner_id: user.id,
             share_id: shareId,
             is_public: newIsPublic
@@ -194,8 +564,11 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
           .single();
 
         if (error) throw error;
+        await saveVersion(diagram.id, diagramState, undefined, getDisplayName(user.email));
 
         setCurrentDiagramId(diagram.id);
+        setDiagramOwnerId(user.id);
+        releaseDraft();
         const newShareUrl = `${window.location.origin}/diagram/${shareId}`;
         setShareUrl(newShareUrl);
         setIsPublic(newIsPublic);
@@ -222,174 +595,145 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     }
   };
 
+  const updateShapes = useCallback((label: string, updater: (shapes: Shape[]) => Shape[]) => {
+    apply(label, state => ({ ...state, shapes: updater(state.shapes) }));
+  }, [apply]);
+
+  const updateConnections = useCallback((label: string, updater: (connections: Connection[]) => Connection[]) => {
+    apply(label, state => ({ ...state, connections: updater(state.connections) }));
+  }, [apply]);
+
+  const updateDrawings = useCallback((label: string, updater: (drawings: DrawingPath[]) => DrawingPath[]) => {
+    apply(label, state => ({ ...state, drawings: updater(state.drawings) }));
+  }, [apply]);
+
   const handleBackgroundColorChange = (color: string) => {
-    setBackgroundColor(color);
+    if (color === backgroundColor) return;
+    apply('Change background', state => ({ ...state, backgroundColor: color }));
   };
 
   const toggleBackgroundColorPicker = () => {
     setShowBackgroundColorPicker(!showBackgroundColorPicker);
   };
 
-  const handleBorderWidthChange = (id: string, width: number) => {
-    setShapes(prev => prev.map(shape =>
-      shape.id === id ? { ...shape, borderWidth: width } : shape
+  const handleShapeStyleChange = (id: string, changes: Partial<Shape>) => {
+    const label = STYLE_LABELS[Object.keys(changes)[0] as keyof Shape] ?? 'Restyle shape';
+    updateShapes(label, prev => prev.map(shape =>
+      shape.id === id ? fitShapeToText({ ...shape, ...changes }) : shape
     ));
   };
 
-  const addToHistory = useCallback((action: HistoryAction) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    setHistory([...newHistory, action]);
-    setHistoryIndex(historyIndex + 1);
-  }, [history, historyIndex]);
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'a') {
+        e.preventDefault();
+        setSelection(filterInteractive(expandSelectionToGroups(diagramState, selectAll(diagramState), enteredGroupId), interactiveIds));
+      } else if (key === 'z' && e.shiftKey) {
+        e.preventDefault();
+        redo();
+      } else if (key === 'z') {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
 
-  const undo = useCallback(() => {
-    if (historyIndex >= 0) {
-      history[historyIndex].undo();
-      setHistoryIndex(historyIndex - 1);
-    }
-  }, [history, historyIndex]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, diagramState, setSelection, enteredGroupId, interactiveIds]);
 
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      history[historyIndex + 1].redo();
-      setHistoryIndex(historyIndex + 1);
-    }
-  }, [history, historyIndex]);
+  const handleZoomToFit = useCallback(() => {
+    zoomToBounds(getDiagramBounds(shapes, drawings, connections));
+  }, [shapes, drawings, connections, zoomToBounds]);
 
-  const undoDrawing = useCallback(() => {
-    if (drawingHistoryIndex > 0) {
-      setDrawingHistoryIndex(drawingHistoryIndex - 1);
-      setDrawings(drawingHistory[drawingHistoryIndex - 1]);
-    }
-  }, [drawingHistory, drawingHistoryIndex]);
+  const handleZoomToSelection = useCallback(() => {
+    const bounds = getSelectionBounds(diagramState, selection);
+    if (bounds) zoomToBounds(bounds, 2);
+  }, [diagramState, selection, zoomToBounds]);
 
-  const redoDrawing = useCallback(() => {
-    if (drawingHistoryIndex < drawingHistory.length - 1) {
-      setDrawingHistoryIndex(drawingHistoryIndex + 1);
-      setDrawings(drawingHistory[drawingHistoryIndex + 1]);
-    }
-  }, [drawingHistory, drawingHistoryIndex]);
-
-  const calculateBoundingBox = () => {
-    let minX = Infinity;
-    let minY = Infinity;
-    let maxX = -Infinity;
-    let maxY = -Infinity;
-
-    shapes.forEach(shape => {
-      const width = shape.width || (shape.type === 'text' ? 200 : 128);
-      const height = shape.height || (shape.type === 'text' ? 100 : shape.type === 'rectangle' ? 80 : 128);
-
-      minX = Math.min(minX, shape.position.x);
-      minY = Math.min(minY, shape.position.y);
-      maxX = Math.max(maxX, shape.position.x + width);
-      maxY = Math.max(maxY, shape.position.y + height);
-
-      if (shape.type === 'line' && shape.endPoint) {
-        minX = Math.min(minX, shape.endPoint.x);
-        minY = Math.min(minY, shape.endPoint.y);
-        maxX = Math.max(maxX, shape.endPoint.x);
-        maxY = Math.max(maxY, shape.endPoint.y);
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      if ((e.ctrlKey || e.metaKey) && (e.key === '=' || e.key === '+')) {
+        e.preventDefault();
+        zoomIn();
+      } else if ((e.ctrlKey || e.metaKey) && e.key === '-') {
+        e.preventDefault();
+        zoomOut();
+      } else if ((e.ctrlKey || e.metaKey) && e.key === '0') {
+        e.preventDefault();
+        zoomTo(1);
+      } else if (e.shiftKey && e.code === 'Digit1') {
+        handleZoomToFit();
+      } else if (e.shiftKey && e.code === 'Digit2') {
+        handleZoomToSelection();
+      } else if ((e.ctrlKey || e.metaKey) && e.key === "'") {
+        e.preventDefault();
+        updateGridSettings({ showGrid: !gridSettings.showGrid });
       }
-    });
-
-    drawings.forEach(drawing => {
-      drawing.points.forEach(point => {
-        minX = Math.min(minX, point.x);
-        minY = Math.min(minY, point.y);
-        maxX = Math.max(maxX, point.x);
-        maxY = Math.max(maxY, point.y);
-      });
-    });
-
-    const padding = 50;
-    return {
-      x: Math.max(0, minX - padding),
-      y: Math.max(0, minY - padding),
-      width: Math.min(maxX - minX + padding * 2, 5000),
-      height: Math.min(maxY - minY + padding * 2, 5000)
     };
-  };
 
-  const handleExport = async (type: 'png' | 'pdf') => {
-    if (!containerRef.current) return;
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [zoomIn, zoomOut, zoomTo, handleZoomToFit, handleZoomToSelection, updateGridSettings, gridSettings.showGrid]);
 
+  const handleExport = async (format: ExportFormat) => {
     try {
-      const boundingBox = calculateBoundingBox();
-      
-      const exportContainer = containerRef.current.cloneNode(true) as HTMLElement;
-      const toolbar = exportContainer.querySelector('[class*="absolute top-4 left-4"]');
-      if (toolbar) toolbar.remove();
-
-      exportContainer.style.backgroundColor = backgroundColor;
-      exportContainer.style.width = `${boundingBox.width}px`;
-      exportContainer.style.height = `${boundingBox.height}px`;
-      exportContainer.style.position = 'fixed';
-      exportContainer.style.top = '0';
-      exportContainer.style.left = '0';
-      exportContainer.style.zIndex = '-1000';
-      exportContainer.style.transform = `translate(${-boundingBox.x}px, ${-boundingBox.y}px)`;
-      exportContainer.style.overflow = 'hidden';
-      document.body.appendChild(exportContainer);
-
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      const canvas = await html2canvas(exportContainer, {
-        backgroundColor: backgroundColor,
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        allowTaint: true,
-        foreignObjectRendering: true,
-        width: boundingBox.width,
-        height: boundingBox.height,
-        x: boundingBox.x,
-        y: boundingBox.y
-      });
-
-      if (type === 'png') {
-        const dataUrl = canvas.toDataURL('image/png');
-        const link = document.createElement('a');
-        link.download = 'diagram.png';
-        link.href = dataUrl;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      } else if (type === 'pdf') {
-        const imgData = canvas.toDataURL('image/jpeg', 1.0);
-        const pdf = new jsPDF({
-          orientation: canvas.width > canvas.height ? 'landscape' : 'portrait',
-          unit: 'px',
-          format: [canvas.width, canvas.height]
-        });
-
-        pdf.addImage(imgData, 'JPEG', 0, 0, canvas.width, canvas.height);
-        pdf.save('diagram.pdf');
+      const exported = await exportDiagram(diagramState, format);
+      if (!exported) {
+        showFeatureTip("Add something to the board before exporting");
       }
-
-      document.body.removeChild(exportContainer);
     } catch (error) {
       console.error('Export failed:', error);
-      alert('Failed to export diagram. Please try again.');
+      showFeatureTip("Failed to export diagram. Please try again.");
     }
   };
 
+  // `position` is in viewport coordinates; shapes are stored in world coordinates
   const handleAddShape = (type: ShapeType, position?: { x: number; y: number }) => {
-    const defaultPosition = position || {
-      x: Math.random() * (window.innerWidth - 400) + 240,
-      y: Math.random() * (window.innerHeight - 200) + 100
-    };
+    const viewport = getViewportSize();
+    const defaultPosition = screenToWorld(camera, position || {
+      x: viewport.width / 2 + (Math.random() - 0.5) * 200,
+      y: viewport.height / 2 + (Math.random() - 0.5) * 200
+    });
 
-    const newShape: Shape = {
-      id: `shape-${Date.now()}`,
-      type,
-      position: defaultPosition,
-      text: type === 'text' ? 'Double click to edit' : `${type.charAt(0).toUpperCase() + type.slice(1)} ${shapes.length + 1}`,
-      borderColor: '#666',
-      borderWidth: 2,
-      width: type === 'text' ? 200 : type === 'line' ? 0 : 128,
-      height: type === 'text' ? 100 : type === 'line' ? 0 : type === 'rectangle' ? 80 : 128
-    };
+    addShapeAt(type, defaultPosition);
+  };
+
+  const addShapeAt = (type: ShapeType, position: Point) => {
+    // Stencils bring their own size, starter text and style
+    const stencil = getStencil(type);
+    const newShape: Shape = stencil
+      ? {
+          id: `shape-${Date.now()}`,
+          type,
+          position,
+          text: stencil.text,
+          borderColor: '#666',
+          borderWidth: 2,
+          width: stencil.width,
+          height: stencil.height,
+          ...stencil.defaults
+        }
+      : {
+          id: `shape-${Date.now()}`,
+          type,
+          position,
+          text: type === 'text' ? 'Double click to edit' : `${type.charAt(0).toUpperCase() + type.slice(1)} ${shapes.length + 1}`,
+          borderColor: '#666',
+          borderWidth: 2,
+          width: type === 'text' ? 200 : type === 'line' ? 0 : 128,
+          height: type === 'text' ? 100 : type === 'line' ? 0 : type === 'rectangle' ? 80 : 128
+        };
 
     if (type === 'line') {
       newShape.endPoint = {
@@ -398,17 +742,99 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
       };
     }
 
-    setShapes(prev => [...prev, newShape]);
-    addToHistory({
-      type: 'ADD_SHAPE',
-      data: newShape,
-      undo: () => setShapes(prev => prev.filter(s => s.id !== newShape.id)),
-      redo: () => setShapes(prev => [...prev, newShape])
+    updateShapes(`Add ${stencil ? stencil.label.toLowerCase() : type}`, prev => [...prev, newShape]);
+  };
+
+  // Stencils dragged from the panel land centred under the pointer
+  const handleStencilDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(STENCIL_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleStencilDrop = (e: React.DragEvent) => {
+    const stencil = getStencil(e.dataTransfer.getData(STENCIL_DRAG_TYPE) as ShapeType);
+    if (!stencil) return;
+    e.preventDefault();
+    const point = clientToWorld(e.clientX, e.clientY);
+    addShapeAt(stencil.type, { x: point.x - stencil.width / 2, y: point.y - stencil.height / 2 });
+  };
+
+  // A drag or resize is one transaction, so the whole gesture undoes in a single step
+  const handleDragStart = (id: string) => {
+    if (!interactiveIds.has(`shapes:${id}`)) return;
+    suppressClickRef.current = false;
+    dragSelectionRef.current = null;
+
+    // Dragging a member of the selection moves the selection; dragging a grouped shape moves its group
+    const target = selection.shapeIds.includes(id) ? selection : getClickSelection(diagramState, id, enteredGroupId);
+    if (target && target.shapeIds.length > 1) {
+      dragSelectionRef.current = target;
+      if (target !== selection) setSelection(target);
+    }
+    beginTransaction(dragSelectionRef.current ? 'Move selection' : 'Move shape');
+  };
+
+  const handleResizeStart = () => beginTransaction('Resize shape');
+
+  // Where the dragged shape's snapped bounds land for a raw drag position, with the guides to show
+  const snapDragPosition = (id: string, position: Point, isEndPoint?: boolean): Point => {
+    const shape = shapes.find(s => s.id === id);
+    if (!shape || (!gridSettings.snapToGrid && !gridSettings.smartGuides)) return position;
+
+    const moving = new Set(!isEndPoint && dragSelectionRef.current ? dragSelectionRef.current.shapeIds : [id]);
+    const dx = position.x - shape.position.x;
+    const dy = position.y - shape.position.y;
+    // A line alone snaps by the end being dragged; anything else snaps by its whole box
+    const bounds = shape.type === 'line' && moving.size === 1
+      ? { x: position.x, y: position.y, width: 0, height: 0 }
+      : unionBounds(shapes.filter(s => moving.has(s.id)).map(s => getShapeBounds(translateShape(s, dx, dy))));
+    if (!bounds) return position;
+
+    const visible = getVisibleWorldBounds(camera, getViewportSize());
+    const others = shapes
+      .filter(s => !moving.has(s.id))
+      .map(getShapeBounds)
+      .filter(b => b.x < visible.x + visible.width && b.x + b.width > visible.x &&
+        b.y < visible.y + visible.height && b.y + b.height > visible.y);
+
+    const result = snapBounds(bounds, others, {
+      threshold: SNAP_THRESHOLD / camera.zoom,
+      gridSize: gridSettings.snapToGrid ? gridSettings.gridSize : null,
+      smartGuides: gridSettings.smartGuides
     });
+    setSnapGuides(result.guides);
+    return { x: position.x + result.dx, y: position.y + result.dy };
   };
 
-  const handleDrag = (id: string, position: { x: number; y: number }, isEndPoint?: boolean) => {
-    setShapes(prev => prev.map(shape =>
+  const handleDragStop = () => {
+    setSnapGuides([]);
+    commitTransaction();
+  };
+
+  const handleDragCancel = () => {
+    setSnapGuides([]);
+    cancelTransaction();
+  };
+
+  const handleDrag = (id: string, dragPosition: { x: number; y: number }, isEndPoint?: boolean) => {
+    if (!interactiveIds.has(`shapes:${id}`)) return;
+
+    // The shape reports where the pointer has taken it, unsnapped, so a shape can be pulled off a guide
+    const position = snapDragPosition(id, dragPosition, isEndPoint);
+
+    // Dragging any member of a multi-selection carries the rest along
+    const dragSelection = dragSelectionRef.current;
+    if (!isEndPoint && dragSelection) {
+      suppressClickRef.current = true;
+      apply('Move selection', state => {
+        const shape = state.shapes.find(s => s.id === id);
+        return shape ? moveSelection(state, dragSelection, position.x - shape.position.x, position.y - shape.position.y) : state;
+      });
+      return;
+    }
+
+    updateShapes('Move shape', prev => prev.map(shape =>
       shape.id === id
         ? isEndPoint
           ? { ...shape, endPoint: position }
@@ -417,167 +843,702 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     ));
   };
 
-  const handleSelect = (id: string) => {
+  const handleConnectTo = (shapeId: string, portId?: string) => {
+    if (connectionStart === null) {
+      setConnectionStart({ shapeId, portId });
+    } else if (connectionStart.shapeId !== shapeId) {
+      const newConnection: Connection = {
+        id: `conn-${Date.now()}`,
+        from: connectionStart.shapeId,
+        to: shapeId,
+        points: [],
+        lineStyle: 'solid',
+        arrowStyle: 'end',
+        ...(connectionStart.portId ? { fromPort: connectionStart.portId } : {}),
+        ...(portId ? { toPort: portId } : {})
+      };
+
+      updateConnections('Add connection', prev => [...prev, newConnection]);
+
+      setConnectionStart(null);
+      setIsConnecting(false);
+    }
+  };
+
+  const handleSelect = (id: string, additive = false) => {
+    if (!interactiveIds.has(`shapes:${id}`)) return;
     if (isConnecting) {
-      if (connectionStart === null) {
-        setConnectionStart(id);
-      } else if (connectionStart !== id) {
-        const newConnection: Connection = {
-          id: `conn-${Date.now()}`,
-          from: connectionStart,
-          to: id,
-          points: [],
-          lineStyle: 'solid',
-          arrowStyle: 'end'
-        };
-        
-        setConnections(prev => [...prev, newConnection]);
-        addToHistory({
-          type: 'ADD_CONNECTION',
-          data: newConnection,
-          undo: () => setConnections(prev => prev.filter(c => c.id !== newConnection.id)),
-          redo: () => setConnections(prev => [...prev, newConnection])
-        });
-        
-        setConnectionStart(null);
-        setIsConnecting(false);
-      }
+      handleConnectTo(id);
+    } else if (suppressClickRef.current) {
+      suppressClickRef.current = false;
     } else {
-      setSelectedShape(id);
-      setSelectedConnection(null);
+      // Clicking outside the entered group leaves it
+      let target = getClickSelection(diagramState, id, enteredGroupId);
+      if (!target) {
+        setEnteredGroupId(null);
+        target = getClickSelection(diagramState, id, null);
+      }
+      if (target) selectElements(filterInteractive(target, interactiveIds), additive);
     }
   };
 
-  const handleConnectionSelect = (id: string) => {
-    setSelectedConnection(id);
-    setSelectedShape(null);
+  // Double-clicking a shape of a group enters the group and selects the item under the cursor
+  const handleActivate = (id: string) => {
+    const shape = shapes.find(s => s.id === id);
+    if (!shape || !interactiveIds.has(`shapes:${id}`)) return;
+
+    const groupId = getGroupInScope(getGroups(diagramState), shape, enteredGroupId);
+    if (!groupId) return;
+
+    setEnteredGroupId(groupId);
+    const target = getClickSelection(diagramState, id, groupId);
+    if (target) setSelection(target);
+  };
+
+  const selectedGroups = useMemo(
+    () => getSelectedGroups(diagramState, selection, enteredGroupId),
+    [diagramState, selection, enteredGroupId]
+  );
+  const canGroup = getSelectionItems(diagramState, selection, enteredGroupId).size > 1;
+  // Strokes have no toolbar of their own, so even a single one gets the selection tools
+  const showSelectionTools = isMultiSelection || selectedGroups.length > 0 || selection.drawingIds.length > 0;
+
+  // Selected groups are framed as a whole rather than member by member
+  const { groupFrames, groupedShapeIds } = useMemo(() => ({
+    groupFrames: selectedGroups.flatMap(group => {
+      const bounds = getGroupBounds(diagramState, group.id);
+      return bounds ? [{ id: group.id, name: group.name, bounds }] : [];
+    }),
+    groupedShapeIds: new Set(selectedGroups.flatMap(group => getGroupShapeIds(diagramState, group.id)))
+  }), [diagramState, selectedGroups]);
+
+  const enteredGroup = getGroups(diagramState).find(group => group.id === enteredGroupId);
+  const enteredGroupBounds = enteredGroup ? getGroupBounds(diagramState, enteredGroup.id) : null;
+  const scopeFrame = enteredGroup && enteredGroupBounds
+    ? { id: enteredGroup.id, name: enteredGroup.name, bounds: enteredGroupBounds }
+    : null;
+
+  const handleGroup = () => {
+    if (!canGroup) return;
+
+    const group: ShapeGroup = {
+      id: `group-${Date.now()}`,
+      name: getNextGroupName(diagramState),
+      ...(enteredGroupId ? { parentId: enteredGroupId } : {})
+    };
+    apply('Group shapes', state => createGroup(state, selection, group));
+  };
+
+  const handleUngroup = () => {
+    if (selectedGroups.length === 0) return;
+
+    const ids = selectedGroups.map(group => group.id);
+    apply('Ungroup', state => ids.reduce(ungroup, state));
+  };
+
+  const handleRenameGroup = (id: string, name: string) => {
+    apply('Rename group', state => renameGroup(state, id, name));
+  };
+
+  // Leave a group that was deleted or dissolved, e.g. by undo or a collaborator
+  useEffect(() => {
+    if (enteredGroupId && !getGroups(diagramState).some(group => group.id === enteredGroupId)) {
+      setEnteredGroupId(null);
+    }
+  }, [diagramState, enteredGroupId]);
+
+  const selectedShapeObject = shapes.find(s => s.id === selectedShape);
+  const selectionBounds = useMemo(() => getSelectionBounds(diagramState, selection), [diagramState, selection]);
+  // Top-level items of the selection; aligning needs two of them and distributing three
+  const alignCount = useMemo(
+    () => (showSelectionTools ? getAlignItemCount(diagramState, selection, enteredGroupId) : 0),
+    [showSelectionTools, diagramState, selection, enteredGroupId]
+  );
+
+  // Dots on the grid lines' crossings, doubling the spacing when zoomed out too far to tell them apart
+  const gridBackground = useMemo((): React.CSSProperties => {
+    if (!gridSettings.showGrid) return {};
+    let step = gridSettings.gridSize * camera.zoom;
+    while (step < 8) step *= 2;
+    return {
+      backgroundImage: 'radial-gradient(circle, #CBD5E1 1px, transparent 1px)',
+      backgroundSize: `${step}px ${step}px`,
+      backgroundPosition: `${camera.x - step / 2}px ${camera.y - step / 2}px`
+    };
+  }, [gridSettings.showGrid, gridSettings.gridSize, camera]);
+
+  const renderShape = (shape: Shape) => (
+    <ShapeComponent
+      key={shape.id}
+      shape={shape}
+      onDrag={handleDrag}
+      onDragStart={handleDragStart}
+      onDragStop={handleDragStop}
+      onDragCancel={handleDragCancel}
+      onSelect={handleSelect}
+      onActivate={handleActivate}
+      onTextEdit={handleTextEdit}
+      onResize={handleResizeShape}
+      onResizeStart={handleResizeStart}
+      onResizeStop={commitTransaction}
+      onStyleChange={handleShapeStyleChange}
+      onStyleChangeStart={beginTransaction}
+      onStyleChangeStop={commitTransaction}
+      isSelected={selectedShape === shape.id && selectedGroups.length === 0}
+      isEditing={isEditing && selectedShape === shape.id}
+      setIsEditing={setIsEditing}
+      scale={camera.zoom}
+      isPinching={isPinching}
+      remoteHighlight={remoteHighlights.get(shape.id)}
+    />
+  );
+
+  const renderConnection = (connection: Connection) => (
+    <ConnectionComponent
+      key={connection.id}
+      connection={connection}
+      shapes={displayedState.shapes}
+      routing={routing}
+      isSelected={selectedConnection === connection.id}
+      inSelection={isMultiSelection && selection.connectionIds.includes(connection.id)}
+      onSelect={handleConnectionSelect}
+      onStyleChange={handleConnectionStyleChange}
+      onUpdate={handleConnectionUpdate}
+      onDragStart={beginTransaction}
+      onDragStop={commitTransaction}
+      onEndpointMove={handleEndpointMove}
+      onReconnect={handleReconnect}
+      scale={camera.zoom}
+      remoteHighlightColor={remoteHighlights.get(connection.id)?.color}
+    />
+  );
+
+  const handleConnectionSelect = (id: string, additive = false) => {
+    if (interactiveIds.has(`connections:${id}`)) selectConnection(id, additive);
   };
 
   const handleConnectionStyleChange = (id: string, lineStyle: LineStyle, arrowStyle: ArrowStyle) => {
+    updateConnections('Change connection style', prev => prev.map(c =>
+      c.id === id ? { ...c, lineStyle, arrowStyle } : c
+    ));
+  };
+
+  const handleConnectionUpdate = (id: string, changes: Partial<Connection>, label: string) => {
+    updateConnections(label, prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  // Shapes that can take a connection end, bottom to top
+  const stackedShapes = useMemo(
+    () => stack.flatMap(item => (item.collection === 'shapes' && interactiveIds.has(getItemKey(item)) ? [item.element] : [])),
+    [stack, interactiveIds]
+  );
+
+  const findReattachTarget = (point: Point) => {
+    const shape = getShapeAt(stackedShapes, point, 8 / camera.zoom);
+    if (!shape) return null;
+    return { shape, port: getNearestPort(shape, point, 16 / camera.zoom) };
+  };
+
+  const handleEndpointMove = (_id: string, _end: ConnectionEnd, point: Point | null) => {
+    const target = point && findReattachTarget(point);
+    setReattachTarget(target ? { shapeId: target.shape.id, portId: target.port?.id } : null);
+  };
+
+  // Dropped away from any shape, the end snaps back; with Alt held it pins a new port where it was dropped
+  const handleReconnect = (id: string, end: ConnectionEnd, point: Point, addPort: boolean) => {
     const connection = connections.find(c => c.id === id);
-    if (connection) {
-      const oldStyles = { lineStyle: connection.lineStyle, arrowStyle: connection.arrowStyle };
-      setConnections(prev => prev.map(c =>
-        c.id === id ? { ...c, lineStyle, arrowStyle } : c
-      ));
-      addToHistory({
-        type: 'UPDATE_CONNECTION_STYLE',
-        data: { id, oldStyles, newStyles: { lineStyle, arrowStyle } },
-        undo: () => setConnections(prev => prev.map(c =>
-          c.id === id ? { ...c, ...oldStyles } : c
-        )),
-        redo: () => setConnections(prev => prev.map(c =>
-          c.id === id ? { ...c, lineStyle, arrowStyle } : c
-        ))
-      });
-    }
+    const target = findReattachTarget(point);
+    if (!connection || !target) return;
+
+    const otherShapeId = end === 'from' ? connection.to : connection.from;
+    if (target.shape.id === otherShapeId) return;
+
+    const newPort = !target.port && addPort ? createPortAt(target.shape, point) : null;
+    const portId = target.port?.id ?? newPort?.id;
+    const shapeField = end === 'from' ? 'from' : 'to';
+    const portField = end === 'from' ? 'fromPort' : 'toPort';
+
+    apply(newPort ? 'Add port' : 'Reconnect connection', state => ({
+      ...state,
+      shapes: newPort
+        ? state.shapes.map(s => (s.id === target.shape.id ? { ...s, ports: [...(s.ports || []), newPort] } : s))
+        : state.shapes,
+      connections: state.connections.map(c =>
+        c.id === id ? { ...c, [shapeField]: target.shape.id, [portField]: portId } : c
+      )
+    }));
   };
 
-  const handleShapeColorChange = (id: string, color: string) => {
-    const shape = shapes.find(s => s.id === id);
-    if (shape) {
-      const oldColor = shape.borderColor;
-      setShapes(prev => prev.map(s =>
-        s.id === id ? { ...s, borderColor: color } : s
-      ));
-      addToHistory({
-        type: 'UPDATE_SHAPE_COLOR',
-        data: { id, oldColor, newColor: color },
-        undo: () => setShapes(prev => prev.map(s =>
-          s.id === id ? { ...s, borderColor: oldColor } : s
-        )),
-        redo: () => setShapes(prev => prev.map(s =>
-          s.id === id ? { ...s, borderColor: color } : s
-        ))
-      });
-    }
+  // Connections attached to a removed port float around the outline again
+  const handlePortRemove = (shapeId: string, portId: string) => {
+    apply('Remove port', state => ({
+      ...state,
+      shapes: state.shapes.map(s =>
+        s.id === shapeId ? { ...s, ports: (s.ports || []).filter(port => port.id !== portId) } : s
+      ),
+      connections: state.connections.map(c => {
+        if (c.from === shapeId && c.fromPort === portId) return { ...c, fromPort: undefined };
+        if (c.to === shapeId && c.toPort === portId) return { ...c, toPort: undefined };
+        return c;
+      })
+    }));
   };
 
   const handleDrawingComplete = (path: DrawingPath) => {
-    const newDrawings = [...drawings, path];
-    setDrawings(newDrawings);
-    
-    const newHistory = drawingHistory.slice(0, drawingHistoryIndex + 1);
-    newHistory.push(newDrawings);
-    setDrawingHistory(newHistory);
-    setDrawingHistoryIndex(drawingHistoryIndex + 1);
+    updateDrawings('Draw stroke', prev => [...prev, path]);
+    if (!penSettings.recognizeShapes) return;
+
+    const conversion = convertStroke(path, shapes.filter(s => interactiveIds.has(`shapes:${s.id}`)), camera.zoom);
+    if (!conversion) return;
+
+    // Recorded after the stroke itself, so a single undo brings the ink back
+    apply(conversion.label, state => applyConversion(state, path.id, conversion));
+    if (conversionTimeoutRef.current) window.clearTimeout(conversionTimeoutRef.current);
+    setLastConversion({ drawing: path, conversion });
+    conversionTimeoutRef.current = window.setTimeout(() => setLastConversion(null), 5000);
+  };
+
+  const handleKeepInk = () => {
+    if (!lastConversion) return;
+    const { drawing, conversion } = lastConversion;
+    apply('Keep ink', state => revertConversion(state, drawing, conversion));
+    setLastConversion(null);
   };
 
   const handleErase = (pathIds: string[]) => {
-    const newDrawings = drawings.filter(d => !pathIds.includes(d.id));
-    setDrawings(newDrawings);
-    
-    const newHistory = drawingHistory.slice(0, drawingHistoryIndex + 1);
-    newHistory.push(newDrawings);
-    setDrawingHistory(newHistory);
-    setDrawingHistoryIndex(drawingHistoryIndex + 1);
+    updateDrawings('Erase strokes', prev => prev.filter(d => !pathIds.includes(d.id)));
+  };
+
+  // A sweep of the precise eraser is one transaction, however many strokes it cuts
+  const handleEraseInkStart = () => beginTransaction('Erase ink');
+
+  const handleEraseInk = (path: Point[], radius: number) => {
+    apply('Erase ink', state => {
+      // Worked out from the state itself, since pieces cut earlier in the sweep are new strokes
+      const erasable = getInteractiveIds(state);
+      const drawings = eraseInk(state.drawings, path, radius, d => erasable.has(`drawings:${d.id}`));
+      return drawings === state.drawings ? state : { ...state, drawings };
+    });
+  };
+
+  const handleLasso = (lasso: Point[]) => {
+    const enclosed = filterInteractive(
+      expandSelectionToGroups(diagramState, getSelectionInLasso(diagramState, lasso), enteredGroupId),
+      interactiveIds
+    );
+    // The click that ends the loop must not clear what it picked up
+    suppressClickRef.current = true;
+    setSelection(enclosed);
+    // Hand the board back so the selection can be moved and restyled
+    if (!isSelectionEmpty(enclosed)) setIsLassoActive(false);
   };
 
   const handleStartConnection = () => {
     setIsConnecting(!isConnecting);
     setIsDrawing(false);
     setIsEraserActive(false);
+    setIsLassoActive(false);
   };
 
   const handleStartDrawing = () => {
     setIsDrawing(!isDrawing);
     setIsConnecting(false);
     setIsEraserActive(false);
+    setIsLassoActive(false);
   };
 
+  const handleToggleEraser = () => {
+    setIsEraserActive(!isEraserActive);
+    setIsDrawing(false);
+    setIsConnecting(false);
+    setIsLassoActive(false);
+  };
+
+  const handleToggleLasso = () => {
+    setIsLassoActive(!isLassoActive);
+    setIsDrawing(false);
+    setIsConnecting(false);
+    setIsEraserActive(false);
+  };
+
+  // Everything selected goes in one step, so a single undo brings it all back
   const handleDelete = () => {
-    if (selectedShape) {
-      const shape = shapes.find(s => s.id === selectedShape);
-      if (shape) {
-        setShapes(prev => prev.filter(s => s.id !== selectedShape));
-        setConnections(prev => prev.filter(c => c.from !== selectedShape && c.to !== selectedShape));
-        addToHistory({
-          type: 'DELETE_SHAPE',
-          data: { shape, connections: connections.filter(c => c.from === selectedShape || c.to === selectedShape) },
-          undo: () => {
-            setShapes(prev => [...prev, shape]);
-            setConnections(prev => [...prev, ...connections.filter(c => c.from === selectedShape || c.to === selectedShape)]);
-          },
-          redo: () => {
-            setShapes(prev => prev.filter(s => s.id !== selectedShape));
-            setConnections(prev => prev.filter(c => c.from !== selectedShape && c.to !== selectedShape));
-          }
-        });
-      }
-      setSelectedShape(null);
-    } else if (selectedConnection) {
-      const connection = connections.find(c => c.id === selectedConnection);
-      if (connection) {
-        setConnections(prev => prev.filter(c => c.id !== selectedConnection));
-        addToHistory({
-          type: 'DELETE_CONNECTION',
-          data: connection,
-          undo: () => setConnections(prev => [...prev, connection]),
-          redo: () => setConnections(prev => prev.filter(c => c.id !== selectedConnection))
-        });
+    if (isSelectionEmpty(selection)) return;
+
+    const label = isMultiSelection ? 'Delete selection'
+      : selectedShape ? 'Delete shape'
+      : selectedConnection ? 'Delete connection'
+      : 'Delete stroke';
+    apply(label, state => pruneGroups(deleteSelection(state, selection)));
+    clearSelection();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleDelete();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        handleDuplicate();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) handleUngroup();
+        else handleGroup();
+      } else if ((e.ctrlKey || e.metaKey) && (e.code === 'BracketRight' || e.code === 'BracketLeft')) {
+        // By code, since Shift turns the brackets into braces
+        e.preventDefault();
+        const up = e.code === 'BracketRight';
+        handleArrange(e.shiftKey ? (up ? 'front' : 'back') : (up ? 'forward' : 'backward'));
+      } else if (e.key === 'Escape' && enteredGroupId) {
+        setEnteredGroupId(null);
+        clearSelection();
       }
-      setSelectedConnection(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const addPasted = (label: string, payload: ClipboardPayload, dx: number, dy: number) => {
+    const pasted = instantiatePayload(payload, dx, dy, enteredGroupId);
+    apply(label, state => addPayload(state, pasted));
+    setSelection(pasted.selection);
+  };
+
+  // Pastes next to the original while it is in view, otherwise in the middle of the view
+  const handlePastePayload = (payload: ClipboardPayload) => {
+    const bounds = getPayloadBounds(payload);
+    if (!bounds) return;
+
+    const key = serializePayload(payload);
+    const clipboard = clipboardRef.current?.key === key ? clipboardRef.current : { payload, key, pasteCount: 0 };
+    clipboard.pasteCount += 1;
+    clipboardRef.current = clipboard;
+
+    const visible = getVisibleWorldBounds(camera, getViewportSize());
+    const isVisible = bounds.x < visible.x + visible.width && bounds.x + bounds.width > visible.x &&
+      bounds.y < visible.y + visible.height && bounds.y + bounds.height > visible.y;
+
+    if (isVisible) {
+      addPasted('Paste', payload, PASTE_OFFSET * clipboard.pasteCount, PASTE_OFFSET * clipboard.pasteCount);
+    } else {
+      const center = { x: visible.x + visible.width / 2, y: visible.y + visible.height / 2 };
+      addPasted('Paste', payload, center.x - (bounds.x + bounds.width / 2), center.y - (bounds.y + bounds.height / 2));
     }
   };
 
+  const handleDuplicate = () => {
+    const payload = copySelection(diagramState, selection, enteredGroupId);
+    if (payload) addPasted('Duplicate', payload, PASTE_OFFSET, PASTE_OFFSET);
+  };
+
+  // Text and images from other apps become a text shape or an image in the middle of the view
+  const addPastedShape = (shape: Omit<Shape, 'id' | 'position'> & { width: number; height: number }) => {
+    const viewport = getViewportSize();
+    const center = screenToWorld(camera, { x: viewport.width / 2, y: viewport.height / 2 });
+    const newShape: Shape = {
+      ...shape,
+      id: `shape-${Date.now()}`,
+      position: { x: center.x - shape.width / 2, y: center.y - shape.height / 2 },
+      ...(enteredGroupId ? { groupId: enteredGroupId } : {})
+    };
+
+    apply(shape.type === 'image' ? 'Paste image' : 'Paste text', state => ({ ...state, shapes: [...state.shapes, newShape] }));
+    setSelection({ shapeIds: [newShape.id], connectionIds: [], drawingIds: [] });
+  };
+
+  // Native clipboard events carry our own MIME type between tabs without a permission prompt
+  useEffect(() => {
+    const isTyping = () => {
+      const target = document.activeElement as HTMLElement | null;
+      return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isTyping() || comparison || !e.clipboardData) return;
+      const payload = copySelection(diagramState, selection, enteredGroupId);
+      if (!payload) return;
+
+      e.preventDefault();
+      const key = serializePayload(payload);
+      e.clipboardData.setData(CLIPBOARD_MIME, key);
+      e.clipboardData.setData('text/plain', getPayloadText(payload));
+      clipboardRef.current = { payload, key, pasteCount: 0 };
+
+      if (e.type === 'cut') {
+        apply('Cut', state => pruneGroups(deleteSelection(state, selection)));
+        clearSelection();
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTyping() || comparison || !e.clipboardData) return;
+      const data = e.clipboardData;
+
+      // Some browsers drop custom types; then recognise our own copy by its text
+      const text = data.getData('text/plain');
+      const payload = parsePayload(data.getData(CLIPBOARD_MIME)) ??
+        (clipboardRef.current && !data.getData(CLIPBOARD_MIME) && data.files.length === 0 &&
+          text === getPayloadText(clipboardRef.current.payload) ? clipboardRef.current.payload : null);
+      const image = Array.from(data.files).find(file => file.type.startsWith('image/'));
+
+      if (payload) {
+        e.preventDefault();
+        handlePastePayload(payload);
+      } else if (image) {
+        e.preventDefault();
+        readImageFile(image)
+          .then(({ src, width, height }) => addPastedShape({ type: 'image', text: '', src, width, height }))
+          .catch(error => {
+            console.error('Failed to paste image:', error);
+            showFeatureTip("Couldn't paste that image");
+          });
+      } else if (text.trim()) {
+        e.preventDefault();
+        addPastedShape({ type: 'text', text: text.trim(), borderColor: '#666', borderWidth: 2, width: 200, height: 100 });
+      }
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  });
+
+  const handleSelectionStyleChange = (
+    shapeChanges: Partial<Shape>,
+    connectionChanges: Partial<Connection>,
+    drawingChanges: Partial<DrawingPath> = {}
+  ) => {
+    apply('Restyle selection', state => {
+      const next = updateSelection(state, selection, shapeChanges, connectionChanges, drawingChanges);
+      return { ...next, shapes: next.shapes.map(shape => (selection.shapeIds.includes(shape.id) ? fitShapeToText(shape) : shape)) };
+    });
+  };
+
+  const handleAlign = (mode: AlignMode) => {
+    apply('Align selection', state => alignSelection(state, selection, enteredGroupId, mode));
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    apply('Distribute selection', state => distributeSelection(state, selection, enteredGroupId, axis));
+  };
+
+  const handleArrange = (command: ArrangeCommand) => {
+    if (isSelectionEmpty(selection)) return;
+    apply(ARRANGE_LABELS[command], state => arrangeSelection(state, selection, command));
+  };
+
+  const handleLayerItemSelect = (item: StackItem, additive: boolean) => {
+    if (!interactiveIds.has(getItemKey(item))) return;
+    const target = {
+      shapeIds: item.collection === 'shapes' ? [item.element.id] : [],
+      connectionIds: item.collection === 'connections' ? [item.element.id] : [],
+      drawingIds: item.collection === 'drawings' ? [item.element.id] : []
+    };
+    setEnteredGroupId(null);
+    selectElements(item.collection === 'shapes' ? getClickSelection(diagramState, item.element.id, null) ?? target : target, additive);
+  };
+
+  const handleToggleLayerItem = (key: string, flag: 'hidden' | 'locked', value: boolean) => {
+    const label = flag === 'hidden' ? (value ? 'Hide element' : 'Show element') : (value ? 'Lock element' : 'Unlock element');
+    apply(label, state => setItemsFlag(state, [key], flag, value));
+  };
+
+  const handleMoveLayerItems = (keys: string[], layerId: string, aboveKey: string | null) => {
+    apply('Reorder layers', state => moveItemsInStack(state, keys, layerId, aboveKey));
+  };
+
+  const handleMoveSelectionToLayer = (layerId: string) => {
+    apply('Move to layer', state => moveSelectionToLayer(state, selection, layerId));
+  };
+
+  const handleAddLayer = () => {
+    apply('Add layer', state => addLayer(state, { id: uuidv4(), name: getNextLayerName(state) }));
+  };
+
+  const handleUpdateLayer = (layerId: string, changes: Partial<Omit<Layer, 'id'>>) => {
+    const label = changes.name !== undefined ? 'Rename layer'
+      : changes.hidden !== undefined ? (changes.hidden ? 'Hide layer' : 'Show layer')
+      : changes.locked ? 'Lock layer' : 'Unlock layer';
+    apply(label, state => updateLayer(state, layerId, changes));
+  };
+
+  const handleMoveLayer = (layerId: string, direction: 1 | -1) => {
+    apply('Reorder layers', state => moveLayer(state, layerId, direction));
+  };
+
+  const handleRemoveLayer = (layerId: string) => {
+    apply('Delete layer', state => removeLayer(state, layerId));
+  };
+
+  // Hiding or locking an element drops it from the selection
+  useEffect(() => {
+    setSelection(current => {
+      const next = filterInteractive(current, interactiveIds);
+      return getSelectionSize(next) === getSelectionSize(current) ? current : next;
+    });
+  }, [interactiveIds, setSelection]);
+
+  // Resizing the combined box scales every member from where it was when the gesture started
+  const handleSelectionResizeStart = () => {
+    selectionBaselineRef.current = diagramState;
+    beginTransaction('Resize selection');
+  };
+
+  const handleSelectionResize = (from: Bounds, to: Bounds) => {
+    const baseline = selectionBaselineRef.current;
+    if (!baseline) return;
+    apply('Resize selection', state => scaleSelection(state, baseline, selection, from, to));
+  };
+
+  const handleSelectionResizeStop = () => {
+    selectionBaselineRef.current = null;
+    commitTransaction();
+  };
+
+  const handleSelectionMove = (dx: number, dy: number) => {
+    apply('Move selection', state => moveSelection(state, selection, dx, dy));
+  };
+
+  // Dragging on empty canvas draws a rubber band; Shift adds what it encloses to the selection.
+  // A second finger turns the gesture into a pinch, which abandons the rubber band.
+  const handleMarqueeStart = (e: React.PointerEvent) => {
+    if (e.target !== e.currentTarget || e.button !== 0 || !e.isPrimary || isPalmTouch(e)) return;
+    if (isConnecting || isDrawing || isEraserActive || isLassoActive || comparison) return;
+
+    const pointerId = e.pointerId;
+    const start = clientToWorld(e.clientX, e.clientY);
+    const additive = e.shiftKey;
+    const baseSelection = selection;
+    let rect: Bounds | null = null;
+
+    const stop = () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerCancel);
+      cancelMarqueeRef.current = null;
+      setMarquee(null);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      const point = clientToWorld(event.clientX, event.clientY);
+      rect = {
+        x: Math.min(start.x, point.x),
+        y: Math.min(start.y, point.y),
+        width: Math.abs(point.x - start.x),
+        height: Math.abs(point.y - start.y)
+      };
+      setMarquee(rect);
+    };
+
+    const handlePointerCancel = (event: PointerEvent) => {
+      if (event.pointerId === pointerId) stop();
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      stop();
+      // A plain click falls through to the canvas click, which clears the selection
+      if (!rect || (rect.width * camera.zoom < 3 && rect.height * camera.zoom < 3)) return;
+
+      const enclosed = filterInteractive(
+        expandSelectionToGroups(diagramState, getSelectionInRect(diagramState, rect), enteredGroupId),
+        interactiveIds
+      );
+      setSelection(additive ? mergeSelections(baseSelection, enclosed) : enclosed);
+      suppressClickRef.current = true;
+    };
+
+    cancelMarqueeRef.current = stop;
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerCancel);
+  };
+
+  useEffect(() => {
+    if (isPinching) cancelMarqueeRef.current?.();
+  }, [isPinching]);
+
   const handleTextEdit = (id: string, text: string) => {
-    setShapes(prev => prev.map(shape =>
-      shape.id === id ? { ...shape, text } : shape
+    const shape = shapes.find(s => s.id === id);
+    if (!shape || shape.text === text) return;
+
+    updateShapes('Edit text', prev => prev.map(shape =>
+      shape.id === id ? fitShapeToText({ ...shape, text }) : shape
     ));
   };
 
+  // Sizing a shape by hand takes it off auto-fit
   const handleResizeShape = (id: string, width: number, height: number) => {
-    setShapes(prev => prev.map(shape =>
-      shape.id === id ? { ...shape, width, height } : shape
+    updateShapes('Resize shape', prev => prev.map(shape =>
+      shape.id === id ? { ...shape, width, height, autoFit: undefined } : shape
     ));
   };
 
+  const showComparison = async (fromId: string, toId: string | null) => {
+    try {
+      const [before, after] = await Promise.all([
+        loadVersionData(fromId),
+        toId ? loadVersionData(toId) : Promise.resolve(null)
+      ]);
+      setComparison({ fromId, toId, before, after });
+      clearSelection();
+      setIsDrawing(false);
+      setIsEraserActive(false);
+      setIsLassoActive(false);
+      setIsConnecting(false);
+    } catch (error) {
+      console.error('Error loading version:', error);
+      showFeatureTip("Failed to load version");
+    }
+  };
+
+  const handleCompareVersion = (version: DiagramVersion) => {
+    if (comparison?.fromId === version.id) {
+      setComparison(null);
+    } else {
+      showComparison(version.id, comparison?.toId ?? null);
+    }
+  };
+
+  const handleRestoreVersion = async (version: DiagramVersion) => {
+    try {
+      const data = await loadVersionData(version.id);
+      apply(`Restore version ${version.version}`, () => data);
+      setComparison(null);
+      clearSelection();
+      await saveDiagram(`Restored v${version.version}`, data);
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      showFeatureTip("Failed to restore version");
+    }
+  };
+
+  // While comparing, the canvas shows the newer side of the comparison read-only
+  const displayedState = comparison ? comparison.after ?? diagramState : diagramState;
+  const displayedStack = useMemo(() => getStack(getVisibleState(displayedState)), [displayedState]);
+  const versionDiff = useMemo(
+    () => comparison ? compareDiagrams(comparison.before, displayedState) : [],
+    [comparison, displayedState]
+  );
+
+  // Rebuilt on every board change; routes themselves are cached per geometry
+  const routing = useMemo(
+    () => createRoutingContext(displayedState.shapes, displayedState.connections),
+    [displayedState]
+  );
+
   const handleSave = () => {
-    const data: DiagramState = {
-      shapes,
-      connections,
-      drawings
-    };
+    const data: DiagramState = diagramState;
     const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -595,11 +1556,14 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     reader.onload = (e) => {
       try {
         const data: DiagramState = JSON.parse(e.target?.result as string);
-        setShapes(data.shapes || []);
-        setConnections(data.connections || []);
-        setDrawings(data.drawings || []);
-        setHistory([]);
-        setHistoryIndex(-1);
+        reset({
+          shapes: data.shapes || [],
+          connections: data.connections || [],
+          drawings: data.drawings || [],
+          groups: data.groups || [],
+          layers: data.layers || [],
+          backgroundColor: data.backgroundColor || '#FFFFFF'
+        });
       } catch (error) {
         console.error('Failed to load diagram:', error);
         alert('Failed to load diagram. Please try again with a valid file.');
@@ -608,45 +1572,97 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
     reader.readAsText(file);
   };
 
+  // Drops imported shapes centred on the current view and frames them
+  const handleImportDiagram = (fragment: DiagramFragment) => {
+    const bounds = unionBounds(fragment.shapes.map(getShapeBounds));
+    if (!bounds) return;
+
+    const viewport = getViewportSize();
+    const target = screenToWorld(camera, { x: viewport.width / 2, y: viewport.height / 2 });
+    const dx = target.x - (bounds.x + bounds.width / 2);
+    const dy = target.y - (bounds.y + bounds.height / 2);
+    const shapesToAdd = fragment.shapes.map(shape => translateShape(shape, dx, dy));
+
+    apply('Import diagram', state => ({
+      ...state,
+      shapes: [...state.shapes, ...shapesToAdd],
+      connections: [...state.connections, ...fragment.connections]
+    }));
+    zoomToBounds({ ...bounds, x: bounds.x + dx, y: bounds.y + dy });
+    showFeatureTip("Diagram imported as editable shapes. Use Ctrl+Z to undo.");
+  };
+
   const handleClearScreen = () => {
-    const oldState = {
-      shapes,
-      connections,
-      drawings,
-      currentDiagramId,
-      shareUrl,
-      isPublic
-    };
+    apply('Clear board', state => ({ ...state, shapes: [], connections: [], drawings: [], groups: [] }));
+    clearSelection();
+    // A shared board stays the shared diagram, just emptied for everyone
+    if (isCollaborating) return;
+    setCurrentDiagramId(null);
+    setShareUrl('');
+    setIsPublic(false);
+  };
 
-    setShapes([]);
-    setConnections([]);
-    setDrawings([]);
-    setSelectedShape(null);
-    setSelectedConnection(null);
+  // Puts another board on the canvas; the one being left is written out first
+  const switchDraft = async (target: DraftTarget, data: DiagramState) => {
+    await flushDraft();
+    reset(data);
+    setDraft(target);
+    // A saved diagram that was open is left as it is, no longer written to
     setCurrentDiagramId(null);
+    setDiagramOwnerId(null);
     setShareUrl('');
     setIsPublic(false);
-    
-    addToHistory({
-      type: 'CLEAR_SCREEN',
-      data: oldState,
-      undo: () => {
-        setShapes(oldState.shapes);
-        setConnections(oldState.connections);
-        setDrawings(oldState.drawings);
-        setCurrentDiagramId(oldState.currentDiagramId);
-        setShareUrl(oldState.shareUrl);
-        setIsPublic(oldState.isPublic);
-      },
-      redo: () => {
-        setShapes([]);
-        setConnections([]);
-        setDrawings([]);
-        setCurrentDiagramId(null);
-        setShareUrl('');
-        setIsPublic(false);
+    clearSelection();
+    setEnteredGroupId(null);
+  };
+
+  const handleOpenDraft = (saved: LocalDraft) => {
+    switchDraft({ id: saved.id, name: saved.name }, saved.data);
+  };
+
+  const handleNewDraft = () => {
+    switchDraft(createDraft(), toDiagramState(null));
+  };
+
+  const handleRenameDraft = async (id: string, name: string) => {
+    if (id === draft.id) setDraft({ ...draft, name });
+    try {
+      await renameDraft(id, name);
+      refreshDrafts();
+    } catch (error) {
+      console.error('Error renaming draft:', error);
+      showFeatureTip("Failed to rename draft");
+    }
+  };
+
+  const handleDeleteDraft = async (id: string) => {
+    try {
+      await deleteDraft(id);
+      if (id === draft.id) {
+        setDraft(createDraft());
+        // Deleting the open draft empties the board; a saved diagram that is open stays
+        if (draftTarget) {
+          reset(toDiagramState(null));
+          clearSelection();
+        }
       }
-    });
+      refreshDrafts();
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      showFeatureTip("Failed to delete draft");
+    }
+  };
+
+  const handleRestoreDraft = () => {
+    if (!recoveredDraft) return;
+    switchDraft({ id: recoveredDraft.id, name: recoveredDraft.name }, recoveredDraft.data);
+    setRecoveredDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    if (!recoveredDraft) return;
+    deleteDraft(recoveredDraft.id).catch(error => console.error('Error deleting draft:', error));
+    setRecoveredDraft(null);
   };
 
   return (
@@ -654,20 +1670,87 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
       <div className="bg-white p-4 shadow-md flex gap-4">
         <button
           onClick={undo}
-          className="p-2 rounded hover:bg-gray-100"
-          disabled={historyIndex < 0}
+          className="p-2 rounded hover:bg-gray-100 disabled:opacity-40"
+          disabled={!canUndo}
           title="Undo (Ctrl+Z)"
         >
           <Undo2 className="w-5 h-5" />
         </button>
         <button
           onClick={redo}
-          className="p-2 rounded hover:bg-gray-100"
-          disabled={historyIndex >= history.length - 1}
+          className="p-2 rounded hover:bg-gray-100 disabled:opacity-40"
+          disabled={!canRedo}
           title="Redo (Ctrl+Shift+Z)"
         >
           <Redo2 className="w-5 h-5" />
         </button>
+        <button
+          onClick={() => {
+            setShowHistoryPanel(!showHistoryPanel);
+            setShowVersionPanel(false);
+            setShowLayersPanel(false);
+            setShowStencilPanel(false);
+            setShowDraftsPanel(false);
+          }}
+          className={`p-2 rounded hover:bg-gray-100 ${showHistoryPanel ? 'bg-blue-50 text-blue-600' : ''}`}
+          title="History"
+        >
+          <History className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            setShowVersionPanel(!showVersionPanel);
+            setShowHistoryPanel(false);
+            setShowLayersPanel(false);
+            setShowStencilPanel(false);
+            setShowDraftsPanel(false);
+          }}
+          className={`p-2 rounded hover:bg-gray-100 ${showVersionPanel ? 'bg-blue-50 text-blue-600' : ''}`}
+          title="Version history"
+        >
+          <GitCommit className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            setShowLayersPanel(!showLayersPanel);
+            setShowHistoryPanel(false);
+            setShowVersionPanel(false);
+            setShowStencilPanel(false);
+            setShowDraftsPanel(false);
+          }}
+          className={`p-2 rounded hover:bg-gray-100 ${showLayersPanel ? 'bg-blue-50 text-blue-600' : ''}`}
+          title="Layers"
+        >
+          <Layers className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            setShowStencilPanel(!showStencilPanel);
+            setShowHistoryPanel(false);
+            setShowVersionPanel(false);
+            setShowLayersPanel(false);
+            setShowDraftsPanel(false);
+          }}
+          className={`p-2 rounded hover:bg-gray-100 ${showStencilPanel ? 'bg-blue-50 text-blue-600' : ''}`}
+          title="Shape library"
+        >
+          <Shapes className="w-5 h-5" />
+        </button>
+        {!isCollaborating && (
+          <button
+            onClick={() => {
+              setShowDraftsPanel(!showDraftsPanel);
+              setShowHistoryPanel(false);
+              setShowVersionPanel(false);
+              setShowLayersPanel(false);
+              setShowStencilPanel(false);
+            }}
+            className={`p-2 rounded hover:bg-gray-100 ${showDraftsPanel ? 'bg-blue-50 text-blue-600' : ''}`}
+            title="Drafts"
+          >
+            <Files className="w-5 h-5" />
+          </button>
+        )}
         <button
           onClick={handleSave}
           className="p-2 rounded hover:bg-gray-100"
@@ -691,16 +1774,59 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
         >
           <Share2 className="w-5 h-5" />
         </button>
+        {!isCollaborating && autosaveBadge && (
+          <div
+            className={`ml-auto px-3 py-1 rounded-full text-sm flex items-center gap-2 self-center ${autosaveBadge.className}`}
+            title={autosaveBadge.title}
+          >
+            <autosaveBadge.icon className={`w-4 h-4 ${autosaveBadge.spin ? 'animate-spin' : ''}`} />
+            {autosaveBadge.label}
+          </div>
+        )}
+        {isCollaborating && (
+          <div className="ml-auto flex items-center gap-3">
+            <PresenceAvatars
+              self={{ name: selfName, color: selfColor }}
+              peers={peers}
+              followingId={followingId}
+              onFollow={setFollowingId}
+            />
+            <div
+              className={`px-3 py-1 rounded-full text-sm flex items-center gap-2 self-center ${collabStatus === 'live' ? 'bg-green-50 text-green-700' : collabStatus === 'connecting' ? 'bg-yellow-50 text-yellow-700' : 'bg-gray-100 text-gray-500'}`}
+              title="Changes are shared live with everyone on this link"
+            >
+              <Users className="w-4 h-4" />
+              {collabStatus === 'live' ? 'Live' : collabStatus === 'connecting' ? 'Connecting...' : 'Offline'}
+            </div>
+          </div>
+        )}
       </div>
       
-      <div className="flex-1 relative overflow-auto">
+      <div className="flex-1 relative overflow-hidden">
         <div
           ref={containerRef}
           className="absolute inset-0 diagram-canvas"
-          style={{ backgroundColor }}
+          style={{
+            backgroundColor,
+            ...gridBackground,
+            cursor: isPanning ? 'grabbing' : isSpacePressed ? 'grab' : undefined,
+            // Touch gestures are ours; the browser must not scroll or zoom the page
+            touchAction: 'none'
+          }}
+          onPointerDownCapture={onPanStart}
+          onPointerDown={handleMarqueeStart}
+          onPointerMove={handlePointerMove}
+          onPointerLeave={() => isCollaborating && updatePresence({ cursor: null })}
+          onDragOver={handleStencilDragOver}
+          onDrop={handleStencilDrop}
           onClick={() => {
-            setSelectedShape(null);
-            setSelectedConnection(null);
+            if (consumePanClick()) return;
+            if (suppressClickRef.current) {
+              suppressClickRef.current = false;
+              return;
+            }
+            clearSelection();
+            setEnteredGroupId(null);
             if (isConnecting) {
               setIsConnecting(false);
               setConnectionStart(null);
@@ -713,6 +1839,38 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
             </div>
           )}
 
+          {lastConversion && (
+            <div className="fixed bottom-20 left-1/2 transform -translate-x-1/2 bg-black/75 text-white pl-4 pr-2 py-2 rounded-lg shadow-lg z-50 text-sm flex items-center gap-3">
+              {lastConversion.conversion.label.replace('Convert ink to', 'Converted to')}
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  handleKeepInk();
+                }}
+                className="px-2 py-1 rounded bg-white/20 hover:bg-white/30"
+              >
+                Keep ink
+              </button>
+            </div>
+          )}
+
+          {recoveredDraft && (
+            <div
+              className="fixed top-20 left-1/2 transform -translate-x-1/2 bg-white border border-gray-200 pl-4 pr-2 py-2 rounded-lg shadow-lg z-50 text-sm flex items-center gap-3"
+              onClick={e => e.stopPropagation()}
+            >
+              <span className="text-gray-700">
+                Restore your unsaved board from {new Date(recoveredDraft.updatedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}?
+              </span>
+              <button onClick={handleRestoreDraft} className="px-2 py-1 rounded bg-blue-500 text-white hover:bg-blue-600">
+                Restore
+              </button>
+              <button onClick={handleDiscardDraft} className="px-2 py-1 rounded hover:bg-gray-100 text-gray-600">
+                Discard
+              </button>
+            </div>
+          )}
+
           {showAuthMessage && (
             <div className="fixed top-20 left-1/2 transform -translate-x-1/2 bg-blue-500 text-white px-4 py-2 rounded-lg shadow-lg z-50">
               <p className="text-sm">Please sign in to save and share diagrams</p>
@@ -733,13 +1891,91 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
             onExport={handleExport}
             isConnecting={isConnecting}
             isDrawing={isDrawing}
-            onToggleEraser={() => setIsEraserActive(!isEraserActive)}
+            onToggleEraser={handleToggleEraser}
             isEraserActive={isEraserActive}
+            onToggleLasso={handleToggleLasso}
+            isLassoActive={isLassoActive}
             onToggleBackgroundColorPicker={toggleBackgroundColorPicker}
             onShowTip={showFeatureTip}
             onClearScreen={handleClearScreen}
+            onImportDiagram={handleImportDiagram}
           />
 
+          {showHistoryPanel && (
+            <HistoryPanel
+              entries={historyEntries}
+              index={historyIndex}
+              onJump={jumpTo}
+              onClose={() => setShowHistoryPanel(false)}
+            />
+          )}
+
+          {showLayersPanel && (
+            <LayersPanel
+              layers={layers}
+              stack={stack}
+              selectedKeys={getSelectionKeys(selection)}
+              onSelect={handleLayerItemSelect}
+              onArrange={handleArrange}
+              onToggleItem={handleToggleLayerItem}
+              onMoveItems={handleMoveLayerItems}
+              onMoveSelectionToLayer={handleMoveSelectionToLayer}
+              onAddLayer={handleAddLayer}
+              onUpdateLayer={handleUpdateLayer}
+              onMoveLayer={handleMoveLayer}
+              onRemoveLayer={handleRemoveLayer}
+              onClose={() => setShowLayersPanel(false)}
+            />
+          )}
+
+          {showDraftsPanel && (
+            <DraftsPanel
+              drafts={drafts}
+              current={draftTarget}
+              isSignedIn={!!user}
+              onOpen={handleOpenDraft}
+              onRename={handleRenameDraft}
+              onDelete={handleDeleteDraft}
+              onNew={handleNewDraft}
+              onClose={() => setShowDraftsPanel(false)}
+            />
+          )}
+
+          {showStencilPanel && (
+            <StencilPanel onAdd={type => handleAddShape(type)} onClose={() => setShowStencilPanel(false)} />
+          )}
+
+          {showVersionPanel && (
+            <VersionHistoryPanel
+              versions={versions}
+              isLoading={isLoadingVersions}
+              canSave={!!user && (!currentDiagramId || isOwner)}
+              comparingId={comparison?.fromId ?? null}
+              onSave={label => saveDiagram(label || undefined)}
+              onRestore={handleRestoreVersion}
+              onCompare={handleCompareVersion}
+              onClose={() => {
+                setShowVersionPanel(false);
+                setComparison(null);
+              }}
+            />
+          )}
+
+          {comparison && (
+            <VersionCompareBar
+              versions={versions}
+              fromId={comparison.fromId}
+              toId={comparison.toId}
+              diff={versionDiff}
+              onChange={showComparison}
+              onExit={() => setComparison(null)}
+            />
+          )}
+
+          {isDrawing && <PenSettingsPanel settings={penSettings} onChange={updatePenSettings} />}
+
+          {isEraserActive && <EraserPanel mode={eraserMode} onChange={setEraserMode} />}
+
           {showBackgroundColorPicker && (
             <BackgroundColorPicker 
               onColorChange={handleBackgroundColorChange}
@@ -747,41 +1983,157 @@ const DiagramEditor: React.FC<DiagramEditorProps> = ({
             />
           )}
 
-          {connections.map(connection => (
-            <ConnectionComponent
-              key={connection.id}
-              connection={connection}
-              shapes={shapes}
-              isSelected={selectedConnection === connection.id}
-              onSelect={handleConnectionSelect}
-              onStyleChange={handleConnectionStyleChange}
-            />
-          ))}
-
-          {shapes.map(shape => (
-            <ShapeComponent
-              key={shape.id}
-              shape={shape}
-              onDrag={handleDrag}
-              onSelect={handleSelect}
-              onTextEdit={handleTextEdit}
-              onResize={handleResizeShape}
-              onColorChange={handleShapeColorChange}
-              onBorderWidthChange={handleBorderWidthChange}
-              isSelected={selectedShape === shape.id}
-              isEditing={isEditing && selectedShape === shape.id}
-              setIsEditing={setIsEditing}
-            />
-          ))}
+          <div
+            className="absolute top-0 left-0"
+            style={{
+              transform: `translate(${camera.x}px, ${camera.y}px) scale(${camera.zoom})`,
+              transformOrigin: '0 0',
+              pointerEvents: comparison ? 'none' : undefined
+            }}
+          >
+            {displayedStack.map(item => (
+              <React.Fragment key={getItemKey(item)}>
+                {item.collection === 'connections'
+                  ? item.element.id !== selectedConnection && renderConnection(item.element)
+                  : item.collection === 'shapes'
+                    ? renderShape(item.element)
+                    : !erasingIds.includes(item.element.id) && <DrawingStroke drawing={item.element} />}
+              </React.Fragment>
+            ))}
+
+            {/* Drawn above the shapes so its handles stay reachable */}
+            {displayedStack.flatMap(item => (item.collection === 'connections' && item.element.id === selectedConnection ? [renderConnection(item.element)] : []))}
+
+            {/* Ports belong to the live board, which a comparison hides */}
+            {!comparison && (
+              <>
+                {isConnecting && (
+                  <ConnectionPorts
+                    shapes={shapes}
+                    scale={camera.zoom}
+                    activePort={connectionStart}
+                    onPortClick={handleConnectTo}
+                  />
+                )}
+
+                {reattachTarget && (
+                  <ConnectionPorts
+                    shapes={shapes.filter(s => s.id === reattachTarget.shapeId)}
+                    scale={camera.zoom}
+                    activePort={reattachTarget}
+                  />
+                )}
+
+                {!isConnecting && !reattachTarget && selectedShapeObject?.ports && selectedShapeObject.ports.length > 0 && (
+                  <ConnectionPorts
+                    shapes={[selectedShapeObject]}
+                    scale={camera.zoom}
+                    showSidePorts={false}
+                    onPortRemove={handlePortRemove}
+                  />
+                )}
+              </>
+            )}
+
+            {!comparison && (
+              <SelectionOverlay
+                bounds={showSelectionTools ? selectionBounds : null}
+                memberBounds={shapes
+                  .filter(s => selection.shapeIds.includes(s.id) && !groupedShapeIds.has(s.id))
+                  .map(getShapeBounds)
+                  .concat(drawings.filter(d => selection.drawingIds.includes(d.id) && d.points.length > 0).map(getDrawingBounds))}
+                groups={groupFrames}
+                scope={scopeFrame}
+                marquee={marquee}
+                scale={camera.zoom}
+                onResizeStart={selection.shapeIds.length > 0 ? handleSelectionResizeStart : undefined}
+                onResize={selection.shapeIds.length > 0 ? handleSelectionResize : undefined}
+                onResizeStop={handleSelectionResizeStop}
+                onMoveStart={selection.drawingIds.length > 0 ? () => beginTransaction('Move selection') : undefined}
+                onMove={selection.drawingIds.length > 0 ? handleSelectionMove : undefined}
+                onMoveStop={commitTransaction}
+              />
+            )}
+
+            {!comparison && showSelectionTools && selectionBounds && (
+              <SelectionToolbar
+                bounds={selectionBounds}
+                count={getSelectionSize(selection)}
+                shapes={shapes.filter(s => selection.shapeIds.includes(s.id))}
+                connections={connections.filter(c => selection.connectionIds.includes(c.id))}
+                onShapesChange={changes => handleSelectionStyleChange(changes, {})}
+                onShapesChangeStart={beginTransaction}
+                onShapesChangeEnd={commitTransaction}
+                onConnectionsChange={changes => handleSelectionStyleChange({}, changes)}
+                drawings={drawings.filter(d => selection.drawingIds.includes(d.id))}
+                onDrawingsChange={changes => handleSelectionStyleChange({}, {}, changes)}
+                onDuplicate={handleDuplicate}
+                onDelete={handleDelete}
+                group={selectedGroups.length === 1 && getSelectionItems(diagramState, selection, enteredGroupId).size === 1 ? selectedGroups[0] : undefined}
+                onGroup={canGroup ? handleGroup : undefined}
+                onUngroup={selectedGroups.length > 0 ? handleUngroup : undefined}
+                onRenameGroup={name => selectedGroups[0] && handleRenameGroup(selectedGroups[0].id, name)}
+                alignCount={alignCount}
+                onAlign={handleAlign}
+                onDistribute={handleDistribute}
+                onArrange={handleArrange}
+              />
+            )}
+
+            <SnapGuides guides={snapGuides} scale={camera.zoom} />
+
+            {comparison && (
+              <VersionDiffOverlay before={comparison.before} after={displayedState} diff={versionDiff} />
+            )}
+          </div>
 
           <DrawingCanvas
+            camera={camera}
             isDrawing={isDrawing}
             isEraserActive={isEraserActive}
-            drawings={drawings}
+            eraserMode={eraserMode}
+            isLassoActive={isLassoActive}
+            isPinching={isPinching}
+            penSettings={penSettings}
+            drawings={displayedState.drawings.filter(d => interactiveIds.has(`drawings:${d.id}`))}
             onDrawingComplete={handleDrawingComplete}
             onErase={handleErase}
-            onUndo={undoDrawing}
-            onRedo={redoDrawing}
+            onErasing={setErasingIds}
+            onEraseStart={handleEraseInkStart}
+            onEraseInk={handleEraseInk}
+            onEraseEnd={commitTransaction}
+            onLasso={handleLasso}
+          />
+
+          {isCollaborating && <RemoteCursors peers={peers} camera={camera} />}
+
+          {followedPeer && (
+            <div
+              className="absolute inset-0 pointer-events-none border-4 z-10"
+              style={{ borderColor: followedPeer.color }}
+            >
+              <div
+                className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full text-xs text-white shadow pointer-events-auto flex items-center gap-2"
+                style={{ backgroundColor: followedPeer.color }}
+              >
+                Following {followedPeer.name}
+                <button onClick={() => setFollowingId(null)} className="hover:opacity-75" title="Stop following (Esc)">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <GridControls settings={gridSettings} onChange={updateGridSettings} />
+
+          <ZoomControls
+            zoom={camera.zoom}
+            onZoomIn={zoomIn}
+            onZoomOut={zoomOut}
+            onResetZoom={() => zoomTo(1)}
+            onZoomToFit={handleZoomToFit}
+            onZoomToSelection={handleZoomToSelection}
+            hasSelection={!isSelectionEmpty(selection)}
           />
 
           {showShareDialog && (
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { X, Files, Plus, Trash2 } from 'lucide-react';
+import { LocalDraft } from '../types';
+import { DraftTarget } from '../hooks/useAutosave';
+
+interface DraftsPanelProps {
+  drafts: LocalDraft[];
+  // Null while the board is a saved diagram rather than a draft
+  current: DraftTarget | null;
+  isSignedIn: boolean;
+  onOpen: (draft: LocalDraft) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (value: number) =>
+  new Date(value).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Boards kept in this browser until they are saved to an account; the open one is saved as it changes
+const DraftsPanel: React.FC<DraftsPanelProps> = ({ drafts, current, isSignedIn, onOpen, onRename, onDelete, onNew, onClose }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  // The open board only reaches the list once it has something on it
+  const rows: { id: string; name: string; updatedAt: number | null; draft?: LocalDraft }[] = [
+    ...(!current || drafts.some(draft => draft.id === current.id) ? [] : [{ id: current.id, name: current.name, updatedAt: null }]),
+    ...drafts.map(draft => ({
+      id: draft.id,
+      name: draft.id === current?.id ? current.name : draft.name,
+      updatedAt: draft.updatedAt,
+      draft
+    }))
+  ];
+
+  const startRename = (id: string, name: string) => {
+    setRenamingId(id);
+    setDraftName(name);
+  };
+
+  const commitRename = (id: string, previous: string) => {
+    const name = draftName.trim();
+    if (name && name !== previous) onRename(id, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <div
+      className="absolute top-4 right-4 w-72 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 flex flex-col max-h-[70vh]"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center p-3 border-b border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Files className="w-4 h-4" />
+          Drafts
+        </h3>
+        <div className="flex items-center gap-1">
+          <button onClick={onNew} className="p-1 hover:bg-gray-100 rounded-lg" title="New Draft">
+            <Plus className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <p className="px-3 py-2 text-xs text-gray-400 border-b border-gray-100">
+        Saved in this browser only. {isSignedIn ? 'Save a draft to keep it in your account.' : 'Sign in to keep diagrams in your account.'}
+      </p>
+
+      <div className="overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {rows.map(row => {
+          const isCurrent = row.id === current?.id;
+
+          return (
+            <div
+              key={row.id}
+              className={`group px-3 py-2 rounded-lg text-sm transition-colors ${isCurrent ? 'bg-blue-50' : 'hover:bg-gray-50 cursor-pointer'}`}
+              onClick={() => !isCurrent && row.draft && onOpen(row.draft)}
+            >
+              <div className="flex items-center gap-2">
+                {renamingId === row.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onClick={e => e.stopPropagation()}
+                    onBlur={() => commitRename(row.id, row.name)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 min-w-0 text-sm px-1 py-0.5 border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  />
+                ) : (
+                  <span
+                    className={`flex-1 truncate ${isCurrent ? 'text-blue-600' : 'text-gray-700'}`}
+                    onDoubleClick={() => startRename(row.id, row.name)}
+                    title="Double-click to rename"
+                  >
+                    {row.name}
+                  </span>
+                )}
+                {row.draft && (
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onDelete(row.id);
+                    }}
+                    className="p-1 rounded hover:bg-red-50 hover:text-red-600 text-gray-500 opacity-0 group-hover:opacity-100"
+                    title="Delete Draft"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <div className="text-xs text-gray-400 mt-0.5">
+                {row.updatedAt === null ? 'Nothing on the board yet' : formatDate(row.updatedAt)}
+                {isCurrent && ' · Open'}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DraftsPanel;
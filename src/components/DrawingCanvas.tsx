@@ -1,29 +1,65 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { DrawingPath, DrawingPoint } from '../types';
+import React, { useRef, useEffect, useCallback } from 'react';
+import { Camera, DrawingPath, DrawingPoint, Point } from '../types';
+import { DEFAULT_CAMERA, screenToWorld } from '../lib/camera';
+import { ERASER_RADIUS, EraserMode, getEraserPath, isDrawingHit } from '../lib/eraser';
+import { getInkPath, getInkStyle, PenSettings } from '../lib/ink';
+import { getPressure, isPalmTouch } from '../lib/pointers';
 
 interface DrawingCanvasProps {
   isDrawing: boolean;
   isEraserActive: boolean;
+  eraserMode?: EraserMode;
+  isLassoActive?: boolean;
+  // Two fingers are pinch-zooming the board
+  isPinching?: boolean;
+  penSettings: PenSettings;
   drawings: DrawingPath[];
   onDrawingComplete: (path: DrawingPath) => void;
+  // Object eraser: the strokes to remove once the gesture ends
   onErase: (pathIds: string[]) => void;
-  onUndo?: () => void;
-  onRedo?: () => void;
+  // Strokes picked up so far by the object eraser, to hide until it ends
+  onErasing?: (pathIds: string[]) => void;
+  // Precise eraser: cuts ink along `path` as the pointer moves; the gesture is one edit
+  onEraseStart?: () => void;
+  onEraseInk?: (path: Point[], radius: number) => void;
+  onEraseEnd?: () => void;
+  // The closed loop drawn with the lasso, in world coordinates
+  onLasso?: (lasso: Point[]) => void;
+  camera?: Camera;
 }
 
 const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   isDrawing,
   isEraserActive,
+  eraserMode = 'precise',
+  isLassoActive = false,
+  isPinching = false,
+  penSettings,
   drawings,
   onDrawingComplete,
   onErase,
-  onUndo,
-  onRedo
+  onErasing,
+  onEraseStart,
+  onEraseInk,
+  onEraseEnd,
+  onLasso,
+  camera = DEFAULT_CAMERA
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [currentPath, setCurrentPath] = useState<DrawingPoint[]>([]);
-  const [isDrawingActive, setIsDrawingActive] = useState(false);
-  const [erasedPaths, setErasedPaths] = useState<string[]>([]);
+  // Kept in refs because pointer events arrive faster than React re-renders
+  const currentPathRef = useRef<DrawingPoint[]>([]);
+  const activePointerRef = useRef<number | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const erasedPathsRef = useRef<string[]>([]);
+  const isActive = isDrawing || isEraserActive || isLassoActive;
+
+  // The canvas covers the viewport and only holds the stroke being drawn; finished
+  // strokes live in the world layer. Strokes are stored in world coordinates.
+  const clearCanvas = useCallback((ctx: CanvasRenderingContext2D) => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvasRef.current!.width, canvasRef.current!.height);
+    ctx.setTransform(camera.zoom, 0, 0, camera.zoom, camera.x, camera.y);
+  }, [camera]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -38,144 +74,223 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
         canvas.width = parent.clientWidth;
         canvas.height = parent.clientHeight;
       }
-      drawAllPaths(ctx);
+      clearCanvas(ctx);
     };
 
     resizeCanvas();
     window.addEventListener('resize', resizeCanvas);
 
     return () => window.removeEventListener('resize', resizeCanvas);
-  }, [drawings]);
+  }, [drawings, clearCanvas]);
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
-        if (e.shiftKey && onRedo) {
-          onRedo();
-        } else if (onUndo) {
-          onUndo();
-        }
-      }
-    };
+  // The stroke in progress, drawn exactly as it will look once finished
+  const createPath = (points: DrawingPoint[]): DrawingPath => ({
+    id: `drawing-${Date.now()}`,
+    points,
+    color: penSettings.color,
+    width: penSettings.width,
+    pen: penSettings.pen,
+    opacity: penSettings.opacity,
+    smoothing: penSettings.smoothing
+  });
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onUndo, onRedo]);
+  const drawPath = (ctx: CanvasRenderingContext2D, drawing: DrawingPath) => {
+    if (drawing.points.length === 0) return;
 
-  const drawAllPaths = (ctx: CanvasRenderingContext2D) => {
-    ctx.clearRect(0, 0, canvasRef.current!.width, canvasRef.current!.height);
-    drawings.forEach(path => {
-      if (!erasedPaths.includes(path.id)) {
-        ctx.strokeStyle = path.color;
-        ctx.lineWidth = path.width;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        drawPath(ctx, path.points);
-      }
-    });
+    const ink = getInkPath(drawing);
+    const style = getInkStyle(drawing);
+    const path = new Path2D(ink.d);
+    ctx.globalAlpha = style.opacity;
+    ctx.globalCompositeOperation = style.blendMode ?? 'source-over';
+    if (ink.filled) {
+      ctx.fillStyle = drawing.color;
+      ctx.fill(path);
+    } else {
+      ctx.strokeStyle = drawing.color;
+      ctx.lineWidth = drawing.width;
+      ctx.lineCap = style.lineCap;
+      ctx.lineJoin = 'round';
+      ctx.stroke(path);
+    }
+  };
+
+  const getWorldPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return screenToWorld(camera, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
+  // Pressure is only stored when the stylus reports it, so mouse strokes stay as they were
+  const getDrawingPoint = (e: PointerEvent | React.PointerEvent, type: DrawingPoint['type']): DrawingPoint => {
+    const pressure = getPressure(e);
+    return { ...getWorldPoint(e), type, ...(pressure !== undefined && { pressure }) };
+  };
+
+  // Object eraser: strokes the eraser touches are hidden locally until the gesture
+  // ends, then erased as a single edit
+  const eraseObjects = (path: Point[]) => {
+    const radius = ERASER_RADIUS / camera.zoom;
+    const erased = erasedPathsRef.current;
+    const hit = drawings.filter(drawing =>
+      !erased.includes(drawing.id) && drawing.points.length > 0 &&
+      path.some(center => isDrawingHit(drawing, center, radius)));
+
+    if (hit.length > 0) {
+      erasedPathsRef.current = [...erased, ...hit.map(drawing => drawing.id)];
+      onErasing?.(erasedPathsRef.current);
+    }
   };
 
-  const drawPath = (ctx: CanvasRenderingContext2D, points: DrawingPoint[]) => {
-    if (points.length === 0) return;
+  const erase = (from: Point, to: Point) => {
+    const path = getEraserPath(from, to, ERASER_RADIUS / camera.zoom);
+    if (eraserMode === 'object') eraseObjects(path);
+    else onEraseInk?.(path, ERASER_RADIUS / camera.zoom);
+  };
 
-    ctx.beginPath();
-    ctx.moveTo(points[0].x, points[0].y);
+  // The eraser's reach, or the lasso drawn so far with its closing edge dashed
+  const drawOverlay = (ctx: CanvasRenderingContext2D, pointer: Point | null) => {
+    clearCanvas(ctx);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.lineWidth = 1 / camera.zoom;
 
-    points.forEach(point => {
-      ctx.lineTo(point.x, point.y);
-    });
+    if (isLassoActive && currentPathRef.current.length > 1) {
+      const lasso = currentPathRef.current;
+      ctx.beginPath();
+      lasso.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.08)';
+      ctx.fill();
+      ctx.strokeStyle = '#3B82F6';
+      ctx.setLineDash([4 / camera.zoom, 4 / camera.zoom]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
 
-    ctx.stroke();
+    if (isEraserActive && pointer) {
+      ctx.beginPath();
+      ctx.arc(pointer.x, pointer.y, ERASER_RADIUS / camera.zoom, 0, Math.PI * 2);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.fill();
+      ctx.strokeStyle = '#6B7280';
+      ctx.stroke();
+    }
   };
 
-  const erasePath = (x: number, y: number) => {
-    const tolerance = 10;
-    const pathsToErase = drawings.filter(path => {
-      if (erasedPaths.includes(path.id)) return false;
-      return path.points.some(point => {
-        return Math.abs(point.x - x) <= tolerance && Math.abs(point.y - y) <= tolerance;
-      });
-    });
-
-    if (pathsToErase.length > 0) {
-      const newErasedPaths = pathsToErase.map(p => p.id);
-      setErasedPaths(prev => [...prev, ...newErasedPaths]);
-      onErase(newErasedPaths);
+  const finishErasing = () => {
+    if (eraserMode === 'object') {
+      if (erasedPathsRef.current.length > 0) onErase(erasedPathsRef.current);
+      erasedPathsRef.current = [];
+      onErasing?.([]);
+    } else {
+      onEraseEnd?.();
     }
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing && !isEraserActive) return;
+  // Drops the gesture in progress without saving it, e.g. when a second finger starts a pinch.
+  // Ink the precise eraser has already cut away stays cut, as one undo step.
+  const cancelGesture = useCallback(() => {
+    if (activePointerRef.current === null) return;
+    activePointerRef.current = null;
+    currentPathRef.current = [];
+    if (isEraserActive && eraserMode === 'precise') onEraseEnd?.();
+    erasedPathsRef.current = [];
+    onErasing?.([]);
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) clearCanvas(ctx);
+  }, [isEraserActive, eraserMode, onEraseEnd, onErasing, clearCanvas]);
 
-    setIsDrawingActive(true);
+  useEffect(() => {
+    if (isPinching) cancelGesture();
+  }, [isPinching, cancelGesture]);
+
+  // One pointer draws at a time; extra fingers belong to the pinch gesture and a
+  // resting palm is ignored while the stylus is in use
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isActive) return;
+    if (activePointerRef.current !== null || !e.isPrimary || e.button !== 0 || isPalmTouch(e)) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    canvas.setPointerCapture(e.pointerId);
+    activePointerRef.current = e.pointerId;
 
     if (isEraserActive) {
-      erasePath(x, y);
+      const point = getWorldPoint(e);
+      lastPointRef.current = point;
+      if (eraserMode === 'precise') onEraseStart?.();
+      erase(point, point);
     } else {
-      setCurrentPath([{ x, y, type: 'start' }]);
+      currentPathRef.current = [getDrawingPoint(e, 'start')];
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawingActive) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
 
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    if (e.pointerId !== activePointerRef.current) {
+      // Show the eraser's reach while hovering
+      if (isEraserActive && activePointerRef.current === null && e.isPrimary) drawOverlay(ctx, getWorldPoint(e));
+      return;
+    }
+
+    // Styluses report far more often than frames are drawn; use every sample
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent];
 
     if (isEraserActive) {
-      erasePath(x, y);
+      const point = getWorldPoint(e);
+      erase(lastPointRef.current ?? point, point);
+      lastPointRef.current = point;
+      drawOverlay(ctx, point);
     } else {
-      setCurrentPath(prev => [...prev, { x, y, type: 'point' }]);
-      drawAllPaths(ctx);
-      ctx.strokeStyle = '#000';
-      ctx.lineWidth = 2;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      drawPath(ctx, [...currentPath, { x, y, type: 'point' }]);
+      currentPathRef.current = [...currentPathRef.current, ...samples.map(sample => getDrawingPoint(sample, 'point'))];
+      if (isLassoActive) {
+        drawOverlay(ctx, null);
+      } else {
+        clearCanvas(ctx);
+        drawPath(ctx, createPath(currentPathRef.current));
+      }
     }
   };
 
-  const handleMouseUp = () => {
-    if (!isDrawingActive) return;
-
-    if (!isEraserActive && currentPath.length > 0) {
-      const newPath: DrawingPath = {
-        id: `drawing-${Date.now()}`,
-        points: [...currentPath, { ...currentPath[currentPath.length - 1], type: 'end' }],
-        color: '#000',
-        width: 2
-      };
-      onDrawingComplete(newPath);
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerRef.current) return;
+    activePointerRef.current = null;
+
+    const currentPath = currentPathRef.current;
+    if (isEraserActive) {
+      finishErasing();
+      lastPointRef.current = null;
+    } else if (isLassoActive) {
+      onLasso?.(currentPath.map(({ x, y }) => ({ x, y })));
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) clearCanvas(ctx);
+    } else if (currentPath.length > 0) {
+      onDrawingComplete(createPath([...currentPath, { ...currentPath[currentPath.length - 1], type: 'end' }]));
     }
 
-    setCurrentPath([]);
-    setIsDrawingActive(false);
+    currentPathRef.current = [];
+  };
+
+  const handlePointerLeave = () => {
+    if (activePointerRef.current !== null) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) clearCanvas(ctx);
   };
 
   return (
     <canvas
       ref={canvasRef}
-      className={`absolute top-0 left-0 w-full h-full ${isDrawing || isEraserActive ? 'cursor-crosshair' : ''}`}
+      className={`absolute top-0 left-0 w-full h-full ${isEraserActive ? 'cursor-none' : isActive ? 'cursor-crosshair' : ''}`}
       style={{
-        zIndex: isDrawing || isEraserActive ? 1 : 0,
-        pointerEvents: isDrawing || isEraserActive ? 'auto' : 'none'
+        zIndex: isActive ? 1 : 0,
+        pointerEvents: isActive ? 'auto' : 'none'
       }}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={cancelGesture}
+      onPointerLeave={handlePointerLeave}
     />
   );
 };
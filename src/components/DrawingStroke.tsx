@@ -0,0 +1,34 @@
+import React from 'react';
+import { DrawingPath } from '../types';
+import { getInkPath, getInkStyle } from '../lib/ink';
+
+interface DrawingStrokeProps {
+  drawing: DrawingPath;
+}
+
+// A finished freehand stroke, rendered in the world layer so it stacks with shapes and connections
+const DrawingStroke: React.FC<DrawingStrokeProps> = ({ drawing }) => {
+  if (drawing.points.length === 0) return null;
+
+  const ink = getInkPath(drawing);
+  const style = getInkStyle(drawing);
+
+  return (
+    <svg
+      className="absolute top-0 left-0 w-px h-px overflow-visible pointer-events-none"
+      style={style.blendMode && { mixBlendMode: style.blendMode }}
+    >
+      <path
+        d={ink.d}
+        stroke={ink.filled ? 'none' : drawing.color}
+        strokeWidth={drawing.width}
+        strokeLinecap={style.lineCap}
+        strokeLinejoin="round"
+        fill={ink.filled ? drawing.color : 'none'}
+        opacity={style.opacity}
+      />
+    </svg>
+  );
+};
+
+export default DrawingStroke;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Eraser, Scissors } from 'lucide-react';
+import { ERASER_MODES, EraserMode } from '../lib/eraser';
+
+interface EraserPanelProps {
+  mode: EraserMode;
+  onChange: (mode: EraserMode) => void;
+}
+
+const MODE_ICONS: Record<EraserMode, React.ElementType> = {
+  precise: Scissors,
+  object: Eraser
+};
+
+// Switches between cutting ink away and removing whole strokes, shown while erasing
+const EraserPanel: React.FC<EraserPanelProps> = ({ mode, onChange }) => (
+  <div
+    className="absolute top-4 left-1/2 -translate-x-1/2 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 p-1 flex items-center gap-1"
+    onClick={e => e.stopPropagation()}
+    onMouseDown={e => e.stopPropagation()}
+  >
+    {ERASER_MODES.map(({ mode: option, label }) => {
+      const Icon = MODE_ICONS[option];
+      return (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-2 py-1.5 rounded-lg hover:bg-gray-100 flex items-center gap-1.5 text-xs ${mode === option ? 'bg-blue-50 text-blue-600' : ''}`}
+          title={label}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default EraserPanel;
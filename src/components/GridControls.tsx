@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Grid, Magnet } from 'lucide-react';
+import { GRID_SIZES, GridSettings } from '../lib/snapping';
+
+interface GridControlsProps {
+  settings: GridSettings;
+  onChange: (changes: Partial<GridSettings>) => void;
+}
+
+const GridControls: React.FC<GridControlsProps> = ({ settings, onChange }) => {
+  const [showOptions, setShowOptions] = useState(false);
+
+  const toggles: { key: 'showGrid' | 'snapToGrid' | 'smartGuides'; label: string }[] = [
+    { key: 'showGrid', label: 'Show grid' },
+    { key: 'snapToGrid', label: 'Snap to grid' },
+    { key: 'smartGuides', label: 'Smart guides' }
+  ];
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-20"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      {showOptions && (
+        <div className="absolute bottom-12 left-0 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-3 w-48 space-y-2">
+          {toggles.map(({ key, label }) => (
+            <label key={key} className="flex items-center justify-between text-sm text-gray-700 cursor-pointer">
+              {label}
+              <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={e => onChange({ [key]: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+            </label>
+          ))}
+          <div className="pt-2 border-t border-gray-200">
+            <div className="text-xs text-gray-500 mb-1">Grid size</div>
+            <div className="flex gap-1">
+              {GRID_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => onChange({ gridSize: size })}
+                  className={`flex-1 px-1 py-1 text-xs rounded-lg transition-all ${settings.gridSize === size ? 'bg-blue-50 text-blue-600' : 'hover:bg-gray-50'}`}
+                >
+                  {size}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      <div className="bg-white/90 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-1 flex items-center gap-1">
+        <button
+          onClick={() => onChange({ showGrid: !settings.showGrid })}
+          className={`p-2 rounded-lg transition-all ${settings.showGrid ? 'bg-blue-50 text-blue-600' : 'hover:bg-gray-50'}`}
+          title="Show Grid (Ctrl+')"
+        >
+          <Grid className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setShowOptions(!showOptions)}
+          className={`p-2 rounded-lg transition-all ${settings.snapToGrid || settings.smartGuides ? 'text-blue-600' : ''} ${showOptions ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+          title="Snapping Options"
+        >
+          <Magnet className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GridControls;
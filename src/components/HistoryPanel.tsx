@@ -0,0 +1,63 @@
+import React from 'react';
+import { X, History, Circle } from 'lucide-react';
+import { HistoryEntry } from '../types';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump, onClose }) => {
+  return (
+    <div
+      className="absolute top-4 right-4 w-64 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 flex flex-col max-h-[70vh]"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center p-3 border-b border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <History className="w-4 h-4" />
+          History
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar p-2 space-y-1">
+        <button
+          onClick={() => onJump(0)}
+          className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors ${index === 0 ? 'bg-blue-50 text-blue-600' : 'hover:bg-gray-50'}`}
+        >
+          <Circle className="w-3 h-3" />
+          <span className="flex-1">Initial state</span>
+        </button>
+
+        {entries.map((entry, i) => {
+          const step = i + 1;
+          const isCurrent = step === index;
+          const isUndone = step > index;
+
+          return (
+            <button
+              key={entry.id}
+              onClick={() => onJump(step)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors ${isCurrent ? 'bg-blue-50 text-blue-600' : 'hover:bg-gray-50'} ${isUndone ? 'text-gray-400' : ''}`}
+              title={isUndone ? 'Redo up to this step' : 'Go back to this step'}
+            >
+              <Circle className={`w-3 h-3 ${isUndone ? '' : 'fill-current'}`} />
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-xs text-gray-400">{formatTime(entry.timestamp)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import {
+  BringToFront,
+  ChevronDown,
+  ChevronUp,
+  Circle,
+  CornerDownRight,
+  Diamond,
+  Eye,
+  EyeOff,
+  Image,
+  Layers,
+  Lock,
+  Minus,
+  MoveDown,
+  MoveUp,
+  PenTool,
+  Plus,
+  SendToBack,
+  Shapes,
+  Spline,
+  Square,
+  Trash2,
+  Type,
+  Unlock,
+  X
+} from 'lucide-react';
+import { Layer, Shape } from '../types';
+import { ArrangeCommand, BASE_LAYER_ID, getElementLayerId, getItemKey, StackItem } from '../lib/layers';
+import { getStencil } from '../lib/stencils';
+
+interface LayersPanelProps {
+  // Bottom to top, as returned by getLayers and getStack
+  layers: Layer[];
+  stack: StackItem[];
+  selectedKeys: Set<string>;
+  onSelect: (item: StackItem, additive: boolean) => void;
+  onArrange: (command: ArrangeCommand) => void;
+  onToggleItem: (key: string, flag: 'hidden' | 'locked', value: boolean) => void;
+  // Places the elements directly above `aboveKey` in the layer, or on top of it when null
+  onMoveItems: (keys: string[], layerId: string, aboveKey: string | null) => void;
+  onMoveSelectionToLayer: (layerId: string) => void;
+  onAddLayer: () => void;
+  onUpdateLayer: (layerId: string, changes: Partial<Omit<Layer, 'id'>>) => void;
+  onMoveLayer: (layerId: string, direction: 1 | -1) => void;
+  onRemoveLayer: (layerId: string) => void;
+  onClose: () => void;
+}
+
+// Stencils all share the library icon
+const SHAPE_ICONS: Partial<Record<Shape['type'], React.ElementType>> = {
+  rectangle: Square,
+  square: Square,
+  circle: Circle,
+  diamond: Diamond,
+  text: Type,
+  line: Minus,
+  image: Image
+};
+
+const ARRANGE_COMMANDS: { command: ArrangeCommand; title: string; icon: React.ReactNode }[] = [
+  { command: 'front', title: 'Bring to Front (Ctrl+Shift+])', icon: <BringToFront className="w-4 h-4" /> },
+  { command: 'forward', title: 'Bring Forward (Ctrl+])', icon: <MoveUp className="w-4 h-4" /> },
+  { command: 'backward', title: 'Send Backward (Ctrl+[)', icon: <MoveDown className="w-4 h-4" /> },
+  { command: 'back', title: 'Send to Back (Ctrl+Shift+[)', icon: <SendToBack className="w-4 h-4" /> }
+];
+
+const getShapeLabel = (shape: Shape) =>
+  shape.text.split('\n')[0].trim() || getStencil(shape.type)?.label || shape.type.charAt(0).toUpperCase() + shape.type.slice(1);
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  stack,
+  selectedKeys,
+  onSelect,
+  onArrange,
+  onToggleItem,
+  onMoveItems,
+  onMoveSelectionToLayer,
+  onAddLayer,
+  onUpdateLayer,
+  onMoveLayer,
+  onRemoveLayer,
+  onClose
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draggedKeys, setDraggedKeys] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const shapesById = new Map(stack.flatMap(item => (item.collection === 'shapes' ? [[item.element.id, item.element] as const] : [])));
+  const hasSelection = selectedKeys.size > 0;
+
+  const getLabel = (item: StackItem) => {
+    if (item.collection === 'shapes') return getShapeLabel(item.element);
+    if (item.collection === 'drawings') return 'Stroke';
+    const from = shapesById.get(item.element.from);
+    const to = shapesById.get(item.element.to);
+    return `${from ? getShapeLabel(from) : '?'} → ${to ? getShapeLabel(to) : '?'}`;
+  };
+
+  const getIcon = (item: StackItem) => {
+    const Icon = item.collection === 'shapes' ? SHAPE_ICONS[item.element.type] ?? Shapes : item.collection === 'drawings' ? PenTool : Spline;
+    return <Icon className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />;
+  };
+
+  const startRename = (layer: Layer) => {
+    setRenamingId(layer.id);
+    setDraftName(layer.name);
+  };
+
+  const commitRename = (layer: Layer) => {
+    const name = draftName.trim();
+    if (name && name !== layer.name) onUpdateLayer(layer.id, { name });
+    setRenamingId(null);
+  };
+
+  // Dragging a selected row carries the whole selection along
+  const handleDragStart = (e: React.DragEvent, key: string) => {
+    const keys = selectedKeys.has(key) ? stack.map(getItemKey).filter(k => selectedKeys.has(k)) : [key];
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', key);
+    setDraggedKeys(keys);
+  };
+
+  const handleDrop = (e: React.DragEvent, layerId: string, aboveKey: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (draggedKeys.length > 0 && !(aboveKey && draggedKeys.includes(aboveKey))) {
+      onMoveItems(draggedKeys, layerId, aboveKey);
+    }
+    setDraggedKeys([]);
+    setDropTarget(null);
+  };
+
+  const dropProps = (target: string, layerId: string, aboveKey: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (draggedKeys.length === 0) return;
+      e.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(current => (current === target ? null : current)),
+    onDrop: (e: React.DragEvent) => handleDrop(e, layerId, aboveKey)
+  });
+
+  // Hidden and locked stand out; the default state stays faint
+  const toggleButton = (active: boolean, title: string, onClick: () => void, on: React.ReactNode, off: React.ReactNode) => (
+    <button
+      onClick={e => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={`p-1 hover:bg-gray-100 rounded ${active ? 'text-gray-700' : 'text-gray-300'}`}
+      title={title}
+    >
+      {active ? on : off}
+    </button>
+  );
+
+  return (
+    <div
+      className="absolute top-4 right-4 w-72 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 flex flex-col max-h-[70vh]"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center p-3 border-b border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Layers
+        </h3>
+        <div className="flex items-center gap-1">
+          <button onClick={onAddLayer} className="p-1 hover:bg-gray-100 rounded-lg" title="New Layer">
+            <Plus className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-gray-100">
+        {ARRANGE_COMMANDS.map(({ command, title, icon }) => (
+          <button
+            key={command}
+            onClick={() => onArrange(command)}
+            disabled={!hasSelection}
+            className="p-1.5 hover:bg-gray-100 rounded-lg transition-all disabled:opacity-40"
+            title={title}
+          >
+            {icon}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar p-2 space-y-2">
+        {[...layers].reverse().map((layer, index, topFirst) => {
+          const items = stack.filter(item => getElementLayerId(layers, item.element) === layer.id).reverse();
+
+          return (
+            <div key={layer.id} className={layer.hidden ? 'opacity-60' : ''}>
+              <div
+                className={`flex items-center gap-1 px-2 py-1.5 rounded-lg bg-gray-50 ${dropTarget === layer.id ? 'ring-2 ring-blue-400' : ''}`}
+                {...dropProps(layer.id, layer.id, null)}
+              >
+                {renamingId === layer.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onBlur={() => commitRename(layer)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 min-w-0 text-xs px-1 py-0.5 border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  />
+                ) : (
+                  <span
+                    className="flex-1 min-w-0 truncate text-xs font-medium text-gray-700"
+                    onDoubleClick={() => startRename(layer)}
+                    title="Double-click to rename"
+                  >
+                    {layer.name}
+                  </span>
+                )}
+                {hasSelection && (
+                  <button
+                    onClick={() => onMoveSelectionToLayer(layer.id)}
+                    className="p-1 hover:bg-gray-100 rounded text-gray-400"
+                    title="Move Selection Here"
+                  >
+                    <CornerDownRight className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onMoveLayer(layer.id, 1)}
+                  disabled={index === 0}
+                  className="p-1 hover:bg-gray-100 rounded text-gray-400 disabled:opacity-30"
+                  title="Move Layer Up"
+                >
+                  <ChevronUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => onMoveLayer(layer.id, -1)}
+                  disabled={index === topFirst.length - 1}
+                  className="p-1 hover:bg-gray-100 rounded text-gray-400 disabled:opacity-30"
+                  title="Move Layer Down"
+                >
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+                {toggleButton(!!layer.hidden, layer.hidden ? 'Show Layer' : 'Hide Layer',
+                  () => onUpdateLayer(layer.id, { hidden: !layer.hidden }),
+                  <EyeOff className="w-3.5 h-3.5" />, <Eye className="w-3.5 h-3.5" />)}
+                {toggleButton(!!layer.locked, layer.locked ? 'Unlock Layer' : 'Lock Layer',
+                  () => onUpdateLayer(layer.id, { locked: !layer.locked }),
+                  <Lock className="w-3.5 h-3.5" />, <Unlock className="w-3.5 h-3.5" />)}
+                {layer.id !== BASE_LAYER_ID && (
+                  <button
+                    onClick={() => onRemoveLayer(layer.id)}
+                    className="p-1 hover:bg-red-50 hover:text-red-600 rounded text-gray-400"
+                    title="Delete Layer (keeps its elements)"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+
+              <div className="mt-1 space-y-0.5">
+                {items.length === 0 && (
+                  <div className="px-3 py-1 text-xs text-gray-400">Empty</div>
+                )}
+                {items.map(item => {
+                  const key = getItemKey(item);
+                  const { hidden, locked } = item.element;
+
+                  return (
+                    <div
+                      key={key}
+                      draggable
+                      onDragStart={e => handleDragStart(e, key)}
+                      onDragEnd={() => {
+                        setDraggedKeys([]);
+                        setDropTarget(null);
+                      }}
+                      {...dropProps(key, layer.id, key)}
+                      onClick={e => onSelect(item, e.shiftKey)}
+                      className={`flex items-center gap-2 pl-4 pr-2 py-1 rounded-lg text-xs cursor-pointer border-t-2 ${dropTarget === key ? 'border-blue-400' : 'border-transparent'} ${selectedKeys.has(key) ? 'bg-blue-50 text-blue-600' : 'hover:bg-gray-50 text-gray-700'} ${hidden ? 'opacity-50' : ''}`}
+                    >
+                      {getIcon(item)}
+                      <span className="flex-1 min-w-0 truncate">{getLabel(item)}</span>
+                      {toggleButton(!!hidden, hidden ? 'Show' : 'Hide',
+                        () => onToggleItem(key, 'hidden', !hidden),
+                        <EyeOff className="w-3.5 h-3.5" />, <Eye className="w-3.5 h-3.5" />)}
+                      {toggleButton(!!locked, locked ? 'Unlock' : 'Lock',
+                        () => onToggleItem(key, 'locked', !locked),
+                        <Lock className="w-3.5 h-3.5" />, <Unlock className="w-3.5 h-3.5" />)}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LayersPanel;
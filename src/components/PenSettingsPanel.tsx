@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Brush, Highlighter, PenLine, SlidersHorizontal, Wand2 } from 'lucide-react';
+import { PenType } from '../types';
+import ColorPicker from './ColorPicker';
+import { getInkPath, getInkStyle, MAX_PEN_WIDTH, MIN_PEN_WIDTH, PEN_TYPES, PenSettings } from '../lib/ink';
+
+interface PenSettingsPanelProps {
+  settings: PenSettings;
+  onChange: (changes: Partial<PenSettings>) => void;
+}
+
+const PEN_ICONS: Record<PenType, React.ElementType> = {
+  fineliner: PenLine,
+  marker: Brush,
+  highlighter: Highlighter
+};
+
+// A sample squiggle, drawn with the current settings
+const PREVIEW_POINTS = Array.from({ length: 24 }, (_, i) => ({
+  x: 12 + i * 8,
+  y: 24 + Math.sin(i / 3) * 10,
+  type: 'point' as const
+}));
+
+type Popover = 'color' | 'more';
+
+// Pen, colour, width, opacity and smoothing of new strokes, shown while drawing
+const PenSettingsPanel: React.FC<PenSettingsPanelProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState<Popover | null>(null);
+
+  const toggle = (popover: Popover) => setOpen(open === popover ? null : popover);
+
+  const preview = { id: 'preview', points: PREVIEW_POINTS, ...settings };
+  const ink = getInkPath(preview);
+  const inkStyle = getInkStyle(preview);
+
+  const slider = (
+    label: string,
+    value: number,
+    [min, max, step]: [number, number, number],
+    onInput: (value: number) => void,
+    format: (value: number) => string = String
+  ) => (
+    <label className="flex items-center gap-2 text-xs text-gray-600">
+      <span className="w-16 flex-shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={e => onInput(Number(e.target.value))}
+        className="flex-1 min-w-0"
+      />
+      <span className="w-9 text-right tabular-nums">{format(value)}</span>
+    </label>
+  );
+
+  return (
+    <div
+      className="absolute top-4 left-1/2 -translate-x-1/2 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 p-1 flex items-center gap-1"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      {PEN_TYPES.map(({ pen, label }) => {
+        const Icon = PEN_ICONS[pen];
+        return (
+          <button
+            key={pen}
+            onClick={() => onChange({ pen })}
+            className={`p-2 rounded-lg hover:bg-gray-100 ${settings.pen === pen ? 'bg-blue-50 text-blue-600' : ''}`}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        );
+      })}
+
+      <div className="h-5 w-px bg-gray-200" />
+      <div className="relative">
+        <button onClick={() => toggle('color')} className="p-2 rounded-lg hover:bg-gray-100" title="Pen Color">
+          <div className="w-4 h-4 rounded-full border border-gray-300" style={{ backgroundColor: settings.color }} />
+        </button>
+        {open === 'color' && (
+          <div className="absolute top-11 left-0">
+            <ColorPicker
+              value={settings.color}
+              onChange={color => {
+                onChange({ color });
+                setOpen(null);
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={() => onChange({ recognizeShapes: !settings.recognizeShapes })}
+        className={`p-2 rounded-lg hover:bg-gray-100 ${settings.recognizeShapes ? 'bg-blue-50 text-blue-600' : ''}`}
+        title="Shape Recognition - Turn strokes into shapes and connections"
+      >
+        <Wand2 className="w-4 h-4" />
+      </button>
+
+      <div className="relative">
+        <button
+          onClick={() => toggle('more')}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${open === 'more' ? 'bg-blue-50 text-blue-600' : ''}`}
+          title="Pen Settings"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+        {open === 'more' && (
+          <div className="absolute top-11 right-0 bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-3 border border-gray-200 w-64 flex flex-col gap-3">
+            <svg width="100%" height="48" viewBox="0 0 216 48" className="rounded bg-gray-50">
+              <path
+                d={ink.d}
+                fill={ink.filled ? settings.color : 'none'}
+                stroke={ink.filled ? 'none' : settings.color}
+                strokeWidth={settings.width}
+                strokeLinecap={inkStyle.lineCap}
+                strokeLinejoin="round"
+                opacity={inkStyle.opacity}
+                style={inkStyle.blendMode && { mixBlendMode: inkStyle.blendMode }}
+              />
+            </svg>
+            {slider('Width', settings.width, [MIN_PEN_WIDTH, MAX_PEN_WIDTH, 1], width => onChange({ width }))}
+            {slider('Opacity', Math.round(settings.opacity * 100), [10, 100, 5], value => onChange({ opacity: value / 100 }), v => `${v}%`)}
+            {slider('Smoothing', Math.round(settings.smoothing * 100), [0, 100, 5], value => onChange({ smoothing: value / 100 }), v => `${v}%`)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PenSettingsPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { Peer, getInitials } from '../lib/collab/presence';
+
+interface PresenceAvatarsProps {
+  self: { name: string; color: string };
+  peers: Peer[];
+  followingId: string | null;
+  onFollow: (clientId: string | null) => void;
+}
+
+const MAX_VISIBLE = 5;
+
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ self, peers, followingId, onFollow }) => {
+  const visiblePeers = peers.slice(0, MAX_VISIBLE);
+  const hiddenCount = peers.length - visiblePeers.length;
+
+  return (
+    <div className="flex items-center self-center">
+      <div
+        className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium text-white border-2 border-white shadow-sm"
+        style={{ backgroundColor: self.color }}
+        title={`${self.name} (you)`}
+      >
+        {getInitials(self.name)}
+      </div>
+
+      {visiblePeers.map(peer => {
+        const isFollowing = followingId === peer.clientId;
+        return (
+          <button
+            key={peer.clientId}
+            onClick={() => onFollow(isFollowing ? null : peer.clientId)}
+            className={`-ml-2 w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium text-white border-2 shadow-sm hover:scale-110 transition-transform ${isFollowing ? 'border-blue-500 ring-2 ring-blue-200' : 'border-white'}`}
+            style={{ backgroundColor: peer.color }}
+            title={isFollowing ? `Stop following ${peer.name}` : `Follow ${peer.name}`}
+          >
+            {isFollowing ? <Eye className="w-4 h-4" /> : getInitials(peer.name)}
+          </button>
+        );
+      })}
+
+      {hiddenCount > 0 && (
+        <div
+          className="-ml-2 w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium bg-gray-200 text-gray-600 border-2 border-white"
+          title={peers.slice(MAX_VISIBLE).map(peer => peer.name).join(', ')}
+        >
+          +{hiddenCount}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { MousePointer2 } from 'lucide-react';
+import { Camera } from '../types';
+import { Peer } from '../lib/collab/presence';
+import { worldToScreen } from '../lib/camera';
+
+interface RemoteCursorsProps {
+  peers: Peer[];
+  camera: Camera;
+}
+
+// Other participants' pointers, drawn in screen space above the board
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ peers, camera }) => {
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden" style={{ zIndex: 15 }}>
+      {peers.filter(peer => peer.cursor).map(peer => {
+        const point = worldToScreen(camera, peer.cursor!);
+        return (
+          <div
+            key={peer.clientId}
+            className="absolute transition-transform duration-75 ease-linear"
+            style={{ transform: `translate(${point.x}px, ${point.y}px)` }}
+          >
+            <MousePointer2
+              className="w-5 h-5 -translate-x-0.5 -translate-y-0.5"
+              style={{ color: peer.color, fill: peer.color }}
+            />
+            <div
+              className="ml-4 -mt-1 px-2 py-0.5 rounded-md text-xs text-white whitespace-nowrap shadow-sm"
+              style={{ backgroundColor: peer.color }}
+            >
+              {peer.name}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RemoteCursors;
@@ -0,0 +1,215 @@
+import React from 'react';
+import { Bounds } from '../types';
+import { isPalmTouch } from '../lib/pointers';
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface GroupFrame {
+  id: string;
+  name: string;
+  bounds: Bounds;
+}
+
+interface SelectionOverlayProps {
+  // Combined box of a multi-selection, null when fewer than two elements are selected
+  bounds: Bounds | null;
+  memberBounds: Bounds[];
+  // Selected groups, framed with their name instead of outlining each member
+  groups?: GroupFrame[];
+  // The group being edited, if the user has entered one
+  scope?: GroupFrame | null;
+  // Rubber band while it is being dragged, in world coordinates
+  marquee: Bounds | null;
+  scale: number;
+  onResizeStart?: () => void;
+  onResize?: (from: Bounds, to: Bounds) => void;
+  onResizeStop?: () => void;
+  // Dragging inside the box moves the selection; offered when it holds ink, which has no handle of its own
+  onMoveStart?: () => void;
+  onMove?: (dx: number, dy: number) => void;
+  onMoveStop?: () => void;
+}
+
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+const MIN_SIZE = 20;
+
+// Resizes `bounds` by dragging one corner while the opposite one stays put
+const resizeFromCorner = (bounds: Bounds, corner: Corner, dx: number, dy: number): Bounds => {
+  const left = corner.includes('w') ? Math.min(bounds.x + dx, bounds.x + bounds.width - MIN_SIZE) : bounds.x;
+  const top = corner.includes('n') ? Math.min(bounds.y + dy, bounds.y + bounds.height - MIN_SIZE) : bounds.y;
+  const right = corner.includes('e') ? Math.max(bounds.x + bounds.width + dx, bounds.x + MIN_SIZE) : bounds.x + bounds.width;
+  const bottom = corner.includes('s') ? Math.max(bounds.y + bounds.height + dy, bounds.y + MIN_SIZE) : bounds.y + bounds.height;
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const SelectionOverlay: React.FC<SelectionOverlayProps> = ({
+  bounds,
+  memberBounds,
+  groups = [],
+  scope = null,
+  marquee,
+  scale,
+  onResizeStart,
+  onResize,
+  onResizeStop,
+  onMoveStart,
+  onMove,
+  onMoveStop
+}) => {
+  const handleSize = 10 / scale;
+  const strokeWidth = 1 / scale;
+  const fontSize = 11 / scale;
+
+  const renderFrame = (frame: GroupFrame, color: string, dashed: boolean) => (
+    <g key={frame.id}>
+      <rect
+        x={frame.bounds.x - 6 / scale}
+        y={frame.bounds.y - 6 / scale}
+        width={frame.bounds.width + 12 / scale}
+        height={frame.bounds.height + 12 / scale}
+        fill="none"
+        stroke={color}
+        strokeWidth={strokeWidth}
+        strokeDasharray={dashed ? `${6 / scale},${3 / scale}` : undefined}
+      />
+      <text x={frame.bounds.x - 6 / scale} y={frame.bounds.y - 10 / scale} fontSize={fontSize} fill={color}>
+        {frame.name}
+      </text>
+    </g>
+  );
+
+  const handleResizeStart = (e: React.PointerEvent, corner: Corner) => {
+    if (!bounds || !e.isPrimary || isPalmTouch(e)) return;
+    e.stopPropagation();
+    e.preventDefault();
+
+    const start = bounds;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    onResizeStart?.();
+
+    const pointerId = e.pointerId;
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      const dx = (event.clientX - startX) / scale;
+      const dy = (event.clientY - startY) / scale;
+      onResize?.(start, resizeFromCorner(start, corner, dx, dy));
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+      onResizeStop?.();
+    };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerUp);
+  };
+
+  // Reports how far the pointer went since the last event, in world units
+  const handleMoveStart = (e: React.PointerEvent) => {
+    if (e.button !== 0 || !e.isPrimary || isPalmTouch(e)) return;
+    e.stopPropagation();
+    e.preventDefault();
+
+    let lastX = e.clientX;
+    let lastY = e.clientY;
+    onMoveStart?.();
+
+    const pointerId = e.pointerId;
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      onMove?.((event.clientX - lastX) / scale, (event.clientY - lastY) / scale);
+      lastX = event.clientX;
+      lastY = event.clientY;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+      onMoveStop?.();
+    };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerUp);
+  };
+
+  return (
+    <svg className="absolute top-0 left-0 w-px h-px overflow-visible pointer-events-none" style={{ zIndex: 20 }}>
+      {scope && renderFrame(scope, '#9CA3AF', true)}
+
+      {groups.map(group => renderFrame(group, '#3B82F6', false))}
+
+      {bounds && (
+        <>
+          {memberBounds.map((member, i) => (
+            <rect
+              key={i}
+              x={member.x}
+              y={member.y}
+              width={member.width}
+              height={member.height}
+              fill="none"
+              stroke="#3B82F6"
+              strokeWidth={strokeWidth * 2}
+            />
+          ))}
+
+          <rect
+            x={bounds.x}
+            y={bounds.y}
+            width={bounds.width}
+            height={bounds.height}
+            fill={onMove ? 'transparent' : 'none'}
+            stroke="#3B82F6"
+            strokeWidth={strokeWidth}
+            strokeDasharray={`${4 / scale},${4 / scale}`}
+            className={onMove ? 'cursor-move' : undefined}
+            style={onMove && { pointerEvents: 'all' }}
+            onPointerDown={onMove && handleMoveStart}
+            onClick={onMove && (e => e.stopPropagation())}
+          />
+
+          {onResize && CORNERS.map(corner => (
+            <rect
+              key={corner}
+              x={(corner.includes('w') ? bounds.x : bounds.x + bounds.width) - handleSize / 2}
+              y={(corner.includes('n') ? bounds.y : bounds.y + bounds.height) - handleSize / 2}
+              width={handleSize}
+              height={handleSize}
+              fill="white"
+              stroke="#3B82F6"
+              strokeWidth={strokeWidth * 2}
+              className={corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}
+              style={{ pointerEvents: 'all' }}
+              onPointerDown={e => handleResizeStart(e, corner)}
+              onClick={e => e.stopPropagation()}
+            />
+          ))}
+        </>
+      )}
+
+      {marquee && (
+        <rect
+          x={marquee.x}
+          y={marquee.y}
+          width={marquee.width}
+          height={marquee.height}
+          fill="#3B82F6"
+          fillOpacity={0.08}
+          stroke="#3B82F6"
+          strokeWidth={strokeWidth}
+        />
+      )}
+    </svg>
+  );
+};
+
+export default SelectionOverlay;
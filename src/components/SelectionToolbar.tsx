@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  ArrowLeft,
+  ArrowLeftRight,
+  ArrowRight,
+  BringToFront,
+  Copy,
+  Group,
+  SendToBack,
+  Trash2,
+  Type,
+  Ungroup
+} from 'lucide-react';
+import { ArrowStyle, Bounds, Connection, DrawingPath, LineStyle, Shape, ShapeGroup } from '../types';
+import { AlignMode, DistributeAxis } from '../lib/align';
+import { ArrangeCommand } from '../lib/layers';
+import { getSharedValue } from '../lib/selection';
+import { hasText } from '../lib/text';
+import ColorPicker from './ColorPicker';
+import ShapeStyleControls from './ShapeStyleControls';
+import TextFormatControls from './TextFormatControls';
+
+interface SelectionToolbarProps {
+  bounds: Bounds;
+  // Every selected element, strokes included
+  count: number;
+  shapes: Shape[];
+  connections: Connection[];
+  onShapesChange: (changes: Partial<Shape>) => void;
+  // Bracket continuous edits such as slider drags into one undo step
+  onShapesChangeStart?: (label: string) => void;
+  onShapesChangeEnd?: () => void;
+  onConnectionsChange: (changes: Partial<Connection>) => void;
+  drawings?: DrawingPath[];
+  onDrawingsChange?: (changes: Partial<DrawingPath>) => void;
+  onDuplicate?: () => void;
+  onDelete: () => void;
+  // The selection is exactly this group
+  group?: ShapeGroup;
+  onGroup?: () => void;
+  onUngroup?: () => void;
+  onRenameGroup?: (name: string) => void;
+  // Top-level items that align and distribute move; groups count once
+  alignCount?: number;
+  onAlign?: (mode: AlignMode) => void;
+  onDistribute?: (axis: DistributeAxis) => void;
+  onArrange?: (command: ArrangeCommand) => void;
+}
+
+const LINE_STYLES: { style: LineStyle; label: string }[] = [
+  { style: 'solid', label: '───' },
+  { style: 'dashed', label: '- - -' },
+  { style: 'dotted', label: '⋯' },
+  { style: 'curved', label: '⟆' },
+  { style: 'orthogonal', label: '└┐' }
+];
+
+const ARROW_STYLES: { style: ArrowStyle; title: string; icon: React.ReactNode }[] = [
+  { style: 'none', title: 'No Arrows', icon: '─' },
+  { style: 'start', title: 'Start Arrow', icon: <ArrowLeft className="w-4 h-4" /> },
+  { style: 'end', title: 'End Arrow', icon: <ArrowRight className="w-4 h-4" /> },
+  { style: 'both', title: 'Both Arrows', icon: <ArrowLeftRight className="w-4 h-4" /> }
+];
+
+const ALIGN_MODES: { mode: AlignMode; title: string; icon: React.ReactNode }[] = [
+  { mode: 'left', title: 'Align Left', icon: <AlignStartVertical className="w-4 h-4" /> },
+  { mode: 'center', title: 'Align Center', icon: <AlignCenterVertical className="w-4 h-4" /> },
+  { mode: 'right', title: 'Align Right', icon: <AlignEndVertical className="w-4 h-4" /> },
+  { mode: 'top', title: 'Align Top', icon: <AlignStartHorizontal className="w-4 h-4" /> },
+  { mode: 'middle', title: 'Align Middle', icon: <AlignCenterHorizontal className="w-4 h-4" /> },
+  { mode: 'bottom', title: 'Align Bottom', icon: <AlignEndHorizontal className="w-4 h-4" /> }
+];
+
+// Swatch of ink whose strokes have different colours
+const MIXED = 'linear-gradient(135deg, #FF0000, #0000FF)';
+
+// Restyles every selected element at once; shows the shared value or nothing when members differ
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  bounds,
+  count,
+  shapes,
+  connections,
+  onShapesChange,
+  onShapesChangeStart,
+  onShapesChangeEnd,
+  onConnectionsChange,
+  drawings = [],
+  onDrawingsChange,
+  onDuplicate,
+  onDelete,
+  group,
+  onGroup,
+  onUngroup,
+  onRenameGroup,
+  alignCount = 0,
+  onAlign,
+  onDistribute,
+  onArrange
+}) => {
+  const [groupName, setGroupName] = useState(group?.name ?? '');
+  const [showTextFormat, setShowTextFormat] = useState(false);
+  const [showInkColor, setShowInkColor] = useState(false);
+
+  useEffect(() => {
+    setGroupName(group?.name ?? '');
+  }, [group?.name]);
+
+  const commitGroupName = () => {
+    const name = groupName.trim();
+    if (group && name && name !== group.name) onRenameGroup?.(name);
+    else setGroupName(group?.name ?? '');
+  };
+  const lineStyle = getSharedValue(connections.map(c => c.lineStyle));
+  const arrowStyle = getSharedValue(connections.map(c => c.arrowStyle));
+  const inkColor = getSharedValue(drawings.map(d => d.color));
+
+  return (
+    <div
+      className="absolute bg-white/90 backdrop-blur-sm shadow-md rounded-lg p-2 flex gap-2 items-center border border-gray-200 z-30"
+      style={{ left: bounds.x, top: bounds.y - 56 }}
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      {group ? (
+        <input
+          value={groupName}
+          onChange={e => setGroupName(e.target.value)}
+          onBlur={commitGroupName}
+          onKeyDown={e => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') {
+              setGroupName(group.name);
+              e.currentTarget.blur();
+            }
+          }}
+          className="text-xs px-2 py-1 w-28 border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+          title="Group name"
+        />
+      ) : (
+        <span className="text-xs text-gray-500 px-1 whitespace-nowrap">{count} selected</span>
+      )}
+      {onGroup && (
+        <button onClick={onGroup} className="p-1.5 hover:bg-gray-100 rounded-lg transition-all" title="Group (Ctrl+G)">
+          <Group className="w-4 h-4" />
+        </button>
+      )}
+      {onUngroup && (
+        <button onClick={onUngroup} className="p-1.5 hover:bg-gray-100 rounded-lg transition-all" title="Ungroup (Ctrl+Shift+G)">
+          <Ungroup className="w-4 h-4" />
+        </button>
+      )}
+
+      {onAlign && alignCount >= 2 && (
+        <>
+          <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+          <div className="flex gap-0.5">
+            {ALIGN_MODES.map(({ mode, title, icon }) => (
+              <button
+                key={mode}
+                onClick={() => onAlign(mode)}
+                className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+                title={title}
+              >
+                {icon}
+              </button>
+            ))}
+            {onDistribute && alignCount >= 3 && (
+              <>
+                <button
+                  onClick={() => onDistribute('horizontal')}
+                  className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+                  title="Distribute Horizontally"
+                >
+                  <AlignHorizontalDistributeCenter className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onDistribute('vertical')}
+                  className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+                  title="Distribute Vertically"
+                >
+                  <AlignVerticalDistributeCenter className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {shapes.length > 0 && (
+        <>
+          <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+          <ShapeStyleControls
+            shapes={shapes}
+            onChange={onShapesChange}
+            onChangeStart={onShapesChangeStart}
+            onChangeEnd={onShapesChangeEnd}
+          />
+          {shapes.some(hasText) && (
+            <div className="relative flex-shrink-0">
+              <button
+                onClick={() => setShowTextFormat(!showTextFormat)}
+                className={`p-1.5 hover:bg-gray-100 rounded-lg transition-all ${showTextFormat ? 'bg-blue-50 text-blue-600' : ''}`}
+                title="Text Format"
+              >
+                <Type className="w-4 h-4" />
+              </button>
+              {showTextFormat && (
+                <div className="absolute top-10 left-0 bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 z-10 border border-gray-200 flex gap-1 items-center whitespace-nowrap">
+                  <TextFormatControls shapes={shapes.filter(hasText)} onChange={onShapesChange} />
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {connections.length > 0 && (
+        <>
+          <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+          <div className="flex gap-1">
+            {LINE_STYLES.map(({ style, label }) => (
+              <button
+                key={style}
+                onClick={() => onConnectionsChange({ lineStyle: style })}
+                className={`p-2 hover:bg-gray-100 rounded-lg whitespace-nowrap ${lineStyle === style ? 'bg-blue-50 text-blue-600' : ''}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+          <div className="flex gap-1">
+            {ARROW_STYLES.map(({ style, title, icon }) => (
+              <button
+                key={style}
+                onClick={() => onConnectionsChange({ arrowStyle: style })}
+                className={`p-2 hover:bg-gray-100 rounded-lg ${arrowStyle === style ? 'bg-blue-50 text-blue-600' : ''}`}
+                title={title}
+              >
+                {icon}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {drawings.length > 0 && onDrawingsChange && (
+        <>
+          <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+          <div className="relative flex-shrink-0">
+            <button
+              onClick={() => setShowInkColor(!showInkColor)}
+              className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+              title="Ink Color"
+            >
+              <div
+                className="w-4 h-4 rounded-full border border-gray-300"
+                style={{ background: inkColor ?? MIXED }}
+              />
+            </button>
+            {showInkColor && (
+              <div className="absolute top-10 left-0 z-10">
+                <ColorPicker
+                  value={inkColor}
+                  onChange={color => {
+                    onDrawingsChange({ color });
+                    setShowInkColor(false);
+                  }}
+                />
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {onArrange && (
+        <>
+          <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+          <button
+            onClick={() => onArrange('front')}
+            className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+            title="Bring to Front (Ctrl+Shift+])"
+          >
+            <BringToFront className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onArrange('back')}
+            className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+            title="Send to Back (Ctrl+Shift+[)"
+          >
+            <SendToBack className="w-4 h-4" />
+          </button>
+        </>
+      )}
+
+      <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+      {onDuplicate && (
+        <button onClick={onDuplicate} className="p-1.5 hover:bg-gray-100 rounded-lg transition-all" title="Duplicate (Ctrl+D)">
+          <Copy className="w-4 h-4" />
+        </button>
+      )}
+      <button
+        onClick={onDelete}
+        className="p-1.5 hover:bg-red-50 text-red-600 rounded-lg transition-all"
+        title="Delete Selection"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
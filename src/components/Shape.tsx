@@ -1,21 +1,49 @@
 import React, { useRef, useState, useEffect } from 'react';
-import Draggable from 'react-draggable';
 import { Shape as ShapeType } from '../types';
-import { Minus, Plus, Type, AlignLeft, AlignCenter, AlignRight, Bold, Italic } from 'lucide-react';
+import ShapeStyleControls from './ShapeStyleControls';
+import TextFormatControls from './TextFormatControls';
+import {
+  DEFAULT_BORDER_COLOR,
+  DEFAULT_BORDER_WIDTH,
+  getBorderDashArray,
+  getCornerRadius,
+  getCssFill,
+  getCssShadow,
+  getGradientVector,
+  hasFill
+} from '../lib/shapeStyle';
+import { getFitSize, getTextFormat, hasText } from '../lib/text';
+import { getShapeGeometry } from '../lib/stencils';
+import { isPalmTouch } from '../lib/pointers';
 
 let a;
+
+const FLEX_ALIGN = { top: 'flex-start', middle: 'center', bottom: 'flex-end' } as const;
+const FLEX_JUSTIFY = { left: 'flex-start', center: 'center', right: 'flex-end' } as const;
+
 interface ShapeProps {
   shape: ShapeType;
   onDrag: (id: string, position: { x: number; y: number }, isEndPoint?: boolean, updatedShape?: any) => void;
-  onSelect: (id: string) => void;
+  onDragStart?: (id: string) => void;
+  onDragStop?: (id: string) => void;
+  // The drag was interrupted, e.g. by a pinch, and should leave the shape where it was
+  onDragCancel?: (id: string) => void;
+  onSelect: (id: string, additive?: boolean) => void;
+  // Double-click while the shape is not selected on its own, e.g. to enter its group
+  onActivate?: (id: string) => void;
   onTextEdit: (id: string, text: string) => void;
   onResize?: (id: string, width: number, height: number) => void;
-  onColorChange?: (id: string, color: string) => void;
-  onBorderWidthChange?: (id: string, width: number) => void;
-  onStyleChange?: (id: string, styles: { [key: string]: string }) => void;
+  onResizeStart?: (id: string) => void;
+  onResizeStop?: (id: string) => void;
+  onStyleChange?: (id: string, changes: Partial<ShapeType>) => void;
+  onStyleChangeStart?: (label: string) => void;
+  onStyleChangeStop?: () => void;
   isSelected: boolean;
   isEditing: boolean;
   setIsEditing: (isEditing: boolean) => void;
+  scale?: number;
+  isPinching?: boolean;
+  remoteHighlight?: { color: string; name: string };
 }
 
 interface Point {
@@ -23,32 +51,44 @@ interface Point {
   y: number;
 }
 
+// A drag of the shape, or of one end of a line, by a single pointer
+interface ShapeDrag {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  origin: Point;
+  isEndPoint: boolean;
+}
+
 const Shape: React.FC<ShapeProps> = ({
   shape,
   onDrag,
+  onDragStart,
+  onDragStop,
+  onDragCancel,
   onSelect,
+  onActivate,
   onTextEdit,
   onResize,
-  onColorChange,
-  onBorderWidthChange,
+  onResizeStart,
+  onResizeStop,
   onStyleChange,
+  onStyleChangeStart,
+  onStyleChangeStop,
   isSelected,
   isEditing,
-  setIsEditing
+  setIsEditing,
+  scale = 1,
+  isPinching = false,
+  remoteHighlight
 }) => {
   const nodeRef = useRef<HTMLDivElement>(null);
   const endPointRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [text, setText] = useState(shape.text);
-  const [showColorPicker, setShowColorPicker] = useState(false);
-  const [borderWidth, setBorderWidth] = useState(shape.borderWidth || 2);
-  const [textStyle, setTextStyle] = useState({
-    fontWeight: 'normal',
-    fontStyle: 'normal',
-    textAlign: 'center',
-  });
   const [isResizing, setIsResizing] = useState(false);
   const [resizeDirection, setResizeDirection] = useState<string | null>(null);
+  const [drag, setDrag] = useState<ShapeDrag | null>(null);
   const [size, setSize] = useState({
     width: shape.width || (shape.type === 'text' ? 200 : 128),
     height: shape.height || (shape.type === 'text' ? 100 : shape.type === 'rectangle' ? 80 : 128)
@@ -61,6 +101,14 @@ const Shape: React.FC<ShapeProps> = ({
     setText(shape.text);
   }, [shape.text]);
 
+  // Keep local copies in step with the model, e.g. after undo/redo
+  useEffect(() => {
+    setSize({
+      width: shape.width || (shape.type === 'text' ? 200 : 128),
+      height: shape.height || (shape.type === 'text' ? 100 : shape.type === 'rectangle' ? 80 : 128)
+    });
+  }, [shape.width, shape.height, shape.type]);
+
   useEffect(() => {
     if (isEditing && textareaRef.current) {
       textareaRef.current.focus();
@@ -68,16 +116,21 @@ const Shape: React.FC<ShapeProps> = ({
     }
   }, [isEditing]);
 
-  const handleResizeStart = (e: React.MouseEvent, direction: string) => {
+  const handleResizeStart = (e: React.PointerEvent, direction: string) => {
+    // One pointer resizes; a resting palm doesn't
+    if (!e.isPrimary || isPalmTouch(e)) return;
     e.stopPropagation();
+    e.preventDefault();
     setIsResizing(true);
     setResizeDirection(direction);
+    onResizeStart?.(shape.id);
     
     if (nodeRef.current) {
+      // Measured on screen, so undo the camera zoom to get world units
       const rect = nodeRef.current.getBoundingClientRect();
       initialSize.current = {
-        width: rect.width,
-        height: rect.height
+        width: rect.width / scale,
+        height: rect.height / scale
       };
       initialMousePos.current = {
         x: e.clientX,
@@ -87,11 +140,11 @@ const Shape: React.FC<ShapeProps> = ({
   };
 
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isResizing || !resizeDirection) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!isResizing || !resizeDirection || !e.isPrimary) return;
 
-      const dx = e.clientX - initialMousePos.current.x;
-      const dy = e.clientY - initialMousePos.current.y;
+      const dx = (e.clientX - initialMousePos.current.x) / scale;
+      const dy = (e.clientY - initialMousePos.current.y) / scale;
 
       let newWidth = initialSize.current.width;
       let newHeight = initialSize.current.height;
@@ -118,21 +171,71 @@ const Shape: React.FC<ShapeProps> = ({
       }
     };
 
-    const handleMouseUp = () => {
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!e.isPrimary) return;
       setIsResizing(false);
       setResizeDirection(null);
+      onResizeStop?.(shape.id);
     };
 
     if (isResizing) {
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
+      document.addEventListener('pointermove', handlePointerMove);
+      document.addEventListener('pointerup', handlePointerUp);
+      document.addEventListener('pointercancel', handlePointerUp);
     }
 
     return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
     };
-  }, [isResizing, resizeDirection, shape.type, shape.id, onResize]);
+  }, [isResizing, resizeDirection, shape.type, shape.id, onResize, onResizeStop, scale]);
+
+  const handleDragStart = (e: React.PointerEvent, origin: Point, isEndPoint = false) => {
+    // One pointer drags; a resting palm, a second finger or text selection in the editor doesn't
+    if (e.button !== 0 || !e.isPrimary || isPalmTouch(e) || isPinching || isResizing) return;
+    if ((e.target as HTMLElement).closest('textarea')) return;
+    // Preventing the press stops the drag selecting text, so finish any edit in progress by hand
+    e.preventDefault();
+    (document.activeElement as HTMLElement | null)?.blur();
+    setDrag({ pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, origin, isEndPoint });
+    onDragStart?.(shape.id);
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerId !== drag.pointerId) return;
+      onDrag(shape.id, {
+        x: drag.origin.x + (e.clientX - drag.startX) / scale,
+        y: drag.origin.y + (e.clientY - drag.startY) / scale
+      }, drag.isEndPoint);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerId !== drag.pointerId) return;
+      setDrag(null);
+      onDragStop?.(shape.id);
+    };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [drag, shape.id, onDrag, onDragStop, scale]);
+
+  // A second finger turns the gesture into a pinch, which leaves the shape where it started
+  useEffect(() => {
+    if (!isPinching || !drag) return;
+    setDrag(null);
+    if (onDragCancel) onDragCancel(shape.id);
+    else onDragStop?.(shape.id);
+  }, [isPinching, drag, shape.id, onDragCancel, onDragStop]);
 
   const getShapeClass = () => {
     const baseClass = "absolute flex items-center justify-center text-sm p-4 cursor-move " +
@@ -140,17 +243,19 @@ const Shape: React.FC<ShapeProps> = ({
     
     switch (shape.type) {
       case 'rectangle':
-        return baseClass + "bg-white";
+        return baseClass;
       case 'square':
-        return baseClass + "bg-white aspect-square";
+        return baseClass + "aspect-square";
       case 'circle':
-        return baseClass + "bg-white rounded-full";
+        return baseClass + "rounded-full";
       case 'diamond':
-        return baseClass + "bg-white";
+        return baseClass;
       case 'text':
         return baseClass + "bg-transparent border-none p-0";
       case 'line':
         return baseClass + "bg-transparent border-none p-0";
+      case 'image':
+        return baseClass + "bg-transparent border-none p-0";
       default:
         return baseClass;
     }
@@ -159,7 +264,9 @@ const Shape: React.FC<ShapeProps> = ({
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (isSelected) {
-      setIsEditing(true);
+      if (shape.type !== 'image') setIsEditing(true);
+    } else {
+      onActivate?.(shape.id);
     }
   };
 
@@ -182,22 +289,61 @@ const Shape: React.FC<ShapeProps> = ({
     onTextEdit(shape.id, text);
   };
 
-  const handleColorChange = (color: string) => {
-    if (onColorChange) {
-      onColorChange(shape.id, color);
-      setShowColorPicker(false);
-    }
-  };
+  // Outline for a shape another collaborator has selected or is editing
+  const remoteOutline = remoteHighlight && (
+    <div
+      className="absolute -inset-1 rounded pointer-events-none"
+      style={{ border: `2px solid ${remoteHighlight.color}` }}
+    >
+      <span
+        className="absolute -top-5 right-0 px-1.5 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+        style={{ backgroundColor: remoteHighlight.color }}
+      >
+        {remoteHighlight.name}
+      </span>
+    </div>
+  );
 
-  const handleBorderWidthChange = (change: number) => {
-    const newWidth = Math.max(1, Math.min(10, borderWidth + change));
-    setBorderWidth(newWidth);
-    if (onBorderWidthChange) {
-      onBorderWidthChange(shape.id, newWidth);
-    }
+  const borderColor = shape.borderColor || DEFAULT_BORDER_COLOR;
+  const borderWidth = shape.borderWidth || DEFAULT_BORDER_WIDTH;
+  const dashArray = getBorderDashArray(shape.borderStyle, borderWidth);
+  const shadow = shape.shadow && hasFill(shape) ? getCssShadow(shape.shadow) : undefined;
+
+  const format = getTextFormat(shape);
+  const textCss: React.CSSProperties = {
+    fontFamily: format.fontFamily,
+    fontSize: format.fontSize,
+    lineHeight: `${format.lineHeight}px`,
+    color: format.color,
+    fontWeight: format.bold ? 'bold' : 'normal',
+    fontStyle: format.italic ? 'italic' : 'normal',
+    textDecoration: format.underline ? 'underline' : 'none',
+    textAlign: format.align
   };
+  const alignItems = FLEX_ALIGN[format.verticalAlign];
+  const justifyContent = FLEX_JUSTIFY[format.align];
+  // Auto-fit shapes grow with the text while it is typed; the model catches up when editing ends
+  const boxSize = shape.autoFit && isEditing ? getFitSize({ ...shape, text, ...size }) : size;
 
-  const colors = ['#000000', '#FF0000', '#00FF00', '#0000FF', '#FFA500', '#800080', '#008080', '#4A5568', '#ED8936', '#48BB78'];
+  const toolbar = (
+    <div className="absolute bottom-full left-0 mb-2 flex flex-col items-start gap-1">
+      {shape.type !== 'text' && (
+        <div className="bg-white/90 backdrop-blur-sm shadow-md rounded-lg p-2 flex gap-2 items-center border border-gray-200">
+          <ShapeStyleControls
+            shapes={[shape]}
+            onChange={changes => onStyleChange?.(shape.id, changes)}
+            onChangeStart={onStyleChangeStart}
+            onChangeEnd={onStyleChangeStop}
+          />
+        </div>
+      )}
+      {hasText(shape) && (
+        <div className="bg-white/90 backdrop-blur-sm shadow-md rounded-lg p-2 flex gap-1 items-center border border-gray-200">
+          <TextFormatControls shapes={[shape]} onChange={changes => onStyleChange?.(shape.id, changes)} />
+        </div>
+      )}
+    </div>
+  );
 
   // Render line shape
   if (shape.type === 'line') {
@@ -205,22 +351,52 @@ const Shape: React.FC<ShapeProps> = ({
     const endPoint = shape.endPoint || { x: startPoint.x + 100, y: startPoint.y };
     
     const path = `M ${startPoint.x} ${startPoint.y} L ${endPoint.x} ${endPoint.y}`;
+    const arrowStyle = shape.arrowStyle || 'none';
+    const markerId = `line-arrow-${shape.id}`;
     
     return (
       <>
         <svg
-          className="absolute top-0 left-0 w-full h-full pointer-events-none"
+          className="absolute top-0 left-0 w-px h-px overflow-visible pointer-events-none"
           style={{ zIndex: 0 }}
         >
+          {arrowStyle !== 'none' && (
+            <defs>
+              <marker
+                id={markerId}
+                markerWidth="10"
+                markerHeight="7"
+                refX="9"
+                refY="3.5"
+                orient="auto-start-reverse"
+                markerUnits="strokeWidth"
+              >
+                <polygon points="0 0, 10 3.5, 0 7" fill={borderColor} />
+              </marker>
+            </defs>
+          )}
+          {remoteHighlight && (
+            <path
+              d={path}
+              stroke={remoteHighlight.color}
+              strokeOpacity={0.5}
+              strokeWidth={(shape.borderWidth || 2) + 6}
+              fill="none"
+            />
+          )}
           {/* Visible line */}
           <path
             d={path}
-            stroke={shape.borderColor || '#666'}
-            strokeWidth={shape.borderWidth || 2}
+            stroke={borderColor}
+            strokeWidth={borderWidth}
+            strokeDasharray={dashArray}
+            strokeOpacity={shape.opacity}
+            markerStart={arrowStyle === 'start' || arrowStyle === 'both' ? `url(#${markerId})` : undefined}
+            markerEnd={arrowStyle === 'end' || arrowStyle === 'both' ? `url(#${markerId})` : undefined}
             fill="none"
             onClick={(e) => {
               e.stopPropagation();
-              onSelect(shape.id);
+              onSelect(shape.id, e.shiftKey);
             }}
             style={{ pointerEvents: 'visibleStroke' }} // Make the entire stroke area interactive
           />
@@ -232,322 +408,214 @@ const Shape: React.FC<ShapeProps> = ({
             fill="none"
             onClick={(e) => {
               e.stopPropagation();
-              onSelect(shape.id);
+              onSelect(shape.id, e.shiftKey);
             }}
             style={{ pointerEvents: 'visibleStroke' }}
           />
         </svg>
         {isSelected && (
           <>
-            <Draggable
-              nodeRef={nodeRef}
-              position={startPoint}
-              onDrag={(_, data) => onDrag(shape.id, { x: data.x, y: data.y })}
-              bounds="parent"
-            >
-              <div
-                ref={nodeRef}
-                className="absolute w-4 h-4 bg-white border-2 border-blue-500 rounded-full cursor-move"
-                style={{ transform: 'translate(-50%, -50%)' }}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onSelect(shape.id);
-                }}
-              />
-            </Draggable>
-            <Draggable
-              nodeRef={endPointRef}
-              position={endPoint}
-              onDrag={(_, data) => onDrag(shape.id, { x: data.x, y: data.y }, true)}
-              bounds="parent"
-            >
-              <div
-                ref={endPointRef}
-                className="absolute w-4 h-4 bg-white border-2 border-blue-500 rounded-full cursor-move"
-                style={{ transform: 'translate(-50%, -50%)' }}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onSelect(shape.id);
-                }}
-              />
-            </Draggable>
+            <div
+              ref={nodeRef}
+              className="absolute w-4 h-4 bg-white border-2 border-blue-500 rounded-full cursor-move"
+              style={{ transform: `translate(${startPoint.x}px, ${startPoint.y}px) translate(-50%, -50%)` }}
+              onPointerDown={(e) => handleDragStart(e, startPoint)}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelect(shape.id, e.shiftKey);
+              }}
+            />
+            <div
+              ref={endPointRef}
+              className="absolute w-4 h-4 bg-white border-2 border-blue-500 rounded-full cursor-move"
+              style={{ transform: `translate(${endPoint.x}px, ${endPoint.y}px) translate(-50%, -50%)` }}
+              onPointerDown={(e) => handleDragStart(e, endPoint, true)}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelect(shape.id, e.shiftKey);
+              }}
+            />
           </>
         )}
       </>
     );
   }
 
-  // Render diamond shape using SVG
-  if (shape.type === 'diamond') {
+  const position = `translate(${shape.position.x}px, ${shape.position.y}px)`;
+
+  // Diamonds and stencils are drawn from their outline with SVG
+  const geometry = getShapeGeometry(shape, boxSize.width, boxSize.height, format);
+  if (geometry) {
+    const fill = shape.fillGradient ? `url(#fill-${shape.id})` : getCssFill(shape);
+
     return (
-      <Draggable
-        nodeRef={nodeRef}
-        position={shape.position}
-        onDrag={(_, data) => onDrag(shape.id, { x: data.x, y: data.y })}
-        bounds="parent"
-        disabled={isResizing}
+      <div
+        ref={nodeRef}
+        className="absolute"
+        style={{ width: boxSize.width, height: boxSize.height, transform: position }}
+        onPointerDown={(e) => handleDragStart(e, shape.position)}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelect(shape.id, e.shiftKey);
+        }}
+        onDoubleClick={handleDoubleClick}
       >
-        <div
-          ref={nodeRef}
-          className="absolute"
-          onClick={(e) => {
-            e.stopPropagation();
-            onSelect(shape.id);
-          }}
-          onDoubleClick={handleDoubleClick}
+        <svg
+          width={boxSize.width}
+          height={boxSize.height}
+          style={{ overflow: 'visible', opacity: shape.opacity }}
         >
-          <svg
-            width={size.width}
-            height={size.height}
-            style={{ overflow: 'visible' }}
-          >
-            <polygon
-              points={`${size.width / 2},0 ${size.width},${size.height / 2} ${size.width / 2},${size.height} 0,${size.height / 2}`}
-              fill="white"
-              stroke={shape.borderColor || '#666'}
-              strokeWidth={shape.borderWidth || 2}
-            />
-            {isEditing ? (
-              <foreignObject x="0" y="0" width={size.width} height={size.height}>
+          {shape.fillGradient && (
+            <defs>
+              {shape.fillGradient.type === 'linear' ? (
+                <linearGradient id={`fill-${shape.id}`} {...getGradientVector(shape.fillGradient)}>
+                  <stop offset="0" stopColor={shape.fillGradient.from} />
+                  <stop offset="1" stopColor={shape.fillGradient.to} />
+                </linearGradient>
+              ) : (
+                <radialGradient id={`fill-${shape.id}`}>
+                  <stop offset="0" stopColor={shape.fillGradient.from} />
+                  <stop offset="1" stopColor={shape.fillGradient.to} />
+                </radialGradient>
+              )}
+            </defs>
+          )}
+          <path
+            d={geometry.outline}
+            fill={fill}
+            stroke={borderColor}
+            strokeWidth={borderWidth}
+            strokeDasharray={dashArray}
+            style={shadow ? { filter: `drop-shadow(${shadow})` } : undefined}
+          />
+          {geometry.details && (
+            <path d={geometry.details} fill="none" stroke={borderColor} strokeWidth={borderWidth} strokeDasharray={dashArray} />
+          )}
+          {isEditing ? (
+            <foreignObject {...geometry.editBox}>
+              <div className="w-full h-full flex" style={{ alignItems, justifyContent }}>
                 <textarea
                   ref={textareaRef}
                   value={text}
                   onChange={(e) => setText(e.target.value)}
                   onKeyDown={handleKeyDown}
                   onBlur={handleBlur}
-                  className="bg-transparent outline-none resize-none w-full h-full overflow-hidden text-center"
-                  style={{
-                    fontWeight: textStyle.fontWeight,
-                    fontStyle: textStyle.fontStyle,
-                  }}
+                  className="bg-transparent outline-none resize-none w-full h-full overflow-hidden"
+                  style={geometry.text.length > 1 ? { ...textCss, textAlign: 'left' } : textCss}
                   onClick={(e) => e.stopPropagation()}
                   placeholder="Type here..."
                 />
-              </foreignObject>
-            ) : (
-              <text
-                x="50%"
-                y="50%"
-                dominantBaseline="middle"
-                textAnchor="middle"
-                style={{
-                  fontWeight: textStyle.fontWeight,
-                  fontStyle: textStyle.fontStyle,
-                }}
-              >
-                {text}
-              </text>
-            )}
-          </svg>
-
-          {isSelected && (
-            <>
-              {/* Border Width and Color Controls */}
-              <div className="absolute -top-12 left-0 bg-white/90 backdrop-blur-sm shadow-md rounded-lg p-2 flex gap-2 items-center border border-gray-200 max-w-[calc(100vw-theme(space.8))] overflow-x-auto">
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setShowColorPicker(!showColorPicker);
+              </div>
+            </foreignObject>
+          ) : (
+            geometry.text.map(({ text: blockText, box, align, verticalAlign, bold, italic }, i) => (
+              <foreignObject key={i} {...box} style={{ overflow: 'visible' }}>
+                <div
+                  className="w-full h-full flex"
+                  style={{
+                    alignItems: verticalAlign ? FLEX_ALIGN[verticalAlign] : alignItems,
+                    justifyContent: align ? FLEX_JUSTIFY[align] : justifyContent
                   }}
-                  className="p-1.5 hover:bg-gray-100 rounded-lg transition-all flex-shrink-0"
-                  title="Change Border Color"
                 >
-                  <div className="w-4 h-4 rounded-full border border-gray-300" style={{ backgroundColor: shape.borderColor || '#666' }} />
-                </button>
-                <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
-                <div className="flex items-center gap-1 flex-shrink-0">
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleBorderWidthChange(-1);
+                  <div
+                    className="w-full whitespace-pre-wrap break-words"
+                    style={{
+                      ...textCss,
+                      ...(align && { textAlign: align }),
+                      ...(bold !== undefined && { fontWeight: bold ? 'bold' : 'normal' }),
+                      ...(italic !== undefined && { fontStyle: italic ? 'italic' : 'normal' })
                     }}
-                    className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
-                    title="Decrease Border Width"
                   >
-                    <Minus className="w-4 h-4" />
-                  </button>
-                  <span className="text-xs w-4 text-center">{borderWidth}</span>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleBorderWidthChange(1);
-                    }}
-                    className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
-                    title="Increase Border Width"
-                  >
-                    <Plus className="w-4 h-4" />
-                  </button>
-                </div>
-                {showColorPicker && (
-                  <div className="absolute top-10 left-0 bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 z-10 border border-gray-200">
-                    <div className="grid grid-cols-5 gap-1">
-                      {colors.map((color) => (
-                        <button
-                          key={color}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleColorChange(color);
-                          }}
-                          className="w-6 h-6 rounded-lg border border-gray-200 hover:scale-110 transition-transform"
-                          style={{ backgroundColor: color }}
-                        />
-                      ))}
-                    </div>
+                    {blockText}
                   </div>
-                )}
-              </div>
-
-              {/* Resize Handles */}
-              <div
-                className="absolute -top-1 -left-1 w-3 h-3 bg-blue-500 rounded-bl cursor-nw-resize"
-                onMouseDown={(e) => handleResizeStart(e, 'nw')}
-              />
-              <div
-                className="absolute -top-1 -right-1 w-3 h-3 bg-blue-500 rounded-br cursor-ne-resize"
-                onMouseDown={(e) => handleResizeStart(e, 'ne')}
-              />
-              <div
-                className="absolute -bottom-1 -left-1 w-3 h-3 bg-blue-500 rounded-tl cursor-sw-resize"
-                onMouseDown={(e) => handleResizeStart(e, 'sw')}
-              />
-              <div
-                className="absolute -bottom-1 -right-1 w-3 h-3 bg-blue-500 rounded-tr cursor-se-resize"
-                onMouseDown={(e) => handleResizeStart(e, 'se')}
-              />
-            </>
+                </div>
+              </foreignObject>
+            ))
           )}
-        </div>
-      </Draggable>
+        </svg>
+
+        {remoteOutline}
+
+        {isSelected && (
+          <>
+            {!isEditing && toolbar}
+
+            {/* Resize Handles */}
+            <div
+              className="absolute -top-1 -left-1 w-3 h-3 bg-blue-500 rounded-bl cursor-nw-resize"
+              onPointerDown={(e) => handleResizeStart(e, 'nw')}
+            />
+            <div
+              className="absolute -top-1 -right-1 w-3 h-3 bg-blue-500 rounded-br cursor-ne-resize"
+              onPointerDown={(e) => handleResizeStart(e, 'ne')}
+            />
+            <div
+              className="absolute -bottom-1 -left-1 w-3 h-3 bg-blue-500 rounded-tl cursor-sw-resize"
+              onPointerDown={(e) => handleResizeStart(e, 'sw')}
+            />
+            <div
+              className="absolute -bottom-1 -right-1 w-3 h-3 bg-blue-500 rounded-tr cursor-se-resize"
+              onPointerDown={(e) => handleResizeStart(e, 'se')}
+            />
+          </>
+        )}
+      </div>
     );
   }
 
   // Render other shapes (rectangle, square, circle, text)
   return (
-    <Draggable
-      nodeRef={nodeRef}
-      position={shape.position}
-      onDrag={(_, data) => onDrag(shape.id, { x: data.x, y: data.y })}
-      bounds="parent"
-      disabled={isResizing}
+    <div
+      ref={nodeRef}
+      className={getShapeClass()}
+      onPointerDown={(e) => handleDragStart(e, shape.position)}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelect(shape.id, e.shiftKey);
+      }}
+      onDoubleClick={handleDoubleClick}
+      style={{
+        transform: position,
+        width: boxSize.width,
+        height: boxSize.height,
+        // The visible border is drawn by the body below; this one only keeps the text inset
+        ...(shape.type !== 'text' && shape.type !== 'image' ? {
+          borderColor: 'transparent',
+          borderWidth,
+          borderStyle: 'solid'
+        } : {}),
+        borderRadius: getCornerRadius(shape) || undefined,
+        alignItems,
+        justifyContent
+      }}
     >
-      <div
-        ref={nodeRef}
-        className={getShapeClass()}
-        onClick={(e) => {
-          e.stopPropagation();
-          onSelect(shape.id);
-        }}
-        onDoubleClick={handleDoubleClick}
-        style={{
-          width: size.width,
-          height: size.height,
-          ...(shape.type !== 'text' ? {
-            borderColor: shape.borderColor || '#666',
-            borderWidth: shape.borderWidth || 2,
-            borderStyle: 'solid'
-          } : {}),
-          ...textStyle
-        }}
-      >
-        {isSelected && !isEditing && (
-          <div className="absolute -top-12 left-0 bg-white/90 backdrop-blur-sm shadow-md rounded-lg p-2 flex gap-2 items-center border border-gray-200 max-w-[calc(100vw-theme(space.8))] overflow-x-auto">
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                setShowColorPicker(!showColorPicker);
-              }}
-              className="p-1.5 hover:bg-gray-100 rounded-lg transition-all flex-shrink-0"
-              title="Change Color"
-            >
-              <div className="w-4 h-4 rounded-full border border-gray-300" style={{ backgroundColor: shape.borderColor || '#666' }} />
-            </button>
-            <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
-            <div className="flex items-center gap-1 flex-shrink-0">
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleBorderWidthChange(-1);
-                }}
-                className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
-                title="Decrease Border Width"
-              >
-                <Minus className="w-4 h-4" />
-              </button>
-              <span className="text-xs w-4 text-center">{borderWidth}</span>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleBorderWidthChange(1);
-                }}
-                className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
-                title="Increase Border Width"
-              >
-                <Plus className="w-4 h-4" />
-              </button>
-            </div>
-            {showColorPicker && (
-              <div className="absolute top-10 left-0 bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 z-10 border border-gray-200">
-                <div className="grid grid-cols-5 gap-1">
-                  {colors.map((color) => (
-                    <button
-                      key={color}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleColorChange(color);
-                      }}
-                      className="w-6 h-6 rounded-lg border border-gray-200 hover:scale-110 transition-transform"
-                      style={{ backgroundColor: color }}
-                    />
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-        )}
-        
-        {shape.type === 'text' && isSelected && (
-          <div className="absolute -top-12 left-0 bg-white/90 backdrop-blur-sm shadow-md rounded-lg p-2 flex gap-2 items-center">
-            <button
-              onClick={() => setTextStyle(prev => ({ ...prev, textAlign: 'left' }))}
-              className="p-1.5 hover:bg-gray-100 rounded-lg"
-            >
-              <AlignLeft className="w-4 h-4" />
-            </button>
-            <button
-              onClick={() => setTextStyle(prev => ({ ...prev, textAlign: 'center' }))}
-              className="p-1.5 hover:bg-gray-100 rounded-lg"
-            >
-              <AlignCenter className="w-4 h-4" />
-            </button>
-            <button
-              onClick={() => setTextStyle(prev => ({ ...prev, textAlign: 'right' }))}
-              className="p-1.5 hover:bg-gray-100 rounded-lg"
-            >
-              <AlignRight className="w-4 h-4" />
-            </button>
-            <div className="w-px h-4 bg-gray-200" />
-            <button
-              onClick={() => setTextStyle(prev => ({
-                ...prev,
-                fontWeight: prev.fontWeight === 'bold' ? 'normal' : 'bold'
-              }))}
-              className="p-1.5 hover:bg-gray-100 rounded-lg"
-            >
-              <Bold className="w-4 h-4" />
-            </button>
-            <button
-              onClick={() => setTextStyle(prev => ({
-                ...prev,
-                fontStyle: prev.fontStyle === 'italic' ? 'normal' : 'italic'
-              }))}
-              className="p-1.5 hover:bg-gray-100 rounded-lg"
-            >
-              <Italic className="w-4 h-4" />
-            </button>
-          </div>
-        )}
+      {/* Fill, border and shadow on their own layer, so opacity leaves the toolbar and handles alone */}
+      {hasFill(shape) && (
+        <div
+          className={`absolute pointer-events-none ${shape.type === 'circle' ? 'rounded-full' : ''}`}
+          style={{
+            inset: -borderWidth,
+            background: getCssFill(shape),
+            border: `${borderWidth}px ${shape.borderStyle || 'solid'} ${borderColor}`,
+            borderRadius: getCornerRadius(shape) || undefined,
+            boxShadow: shadow,
+            opacity: shape.opacity
+          }}
+        />
+      )}
 
-        <div className={shape.type === 'diamond' ? 'transform -rotate-45' : ''}>
+      {isSelected && !isEditing && toolbar}
+
+      {shape.type === 'image' ? (
+        <img
+          src={shape.src}
+          alt=""
+          draggable={false}
+          className="w-full h-full object-contain pointer-events-none select-none"
+          style={{ opacity: shape.opacity }}
+        />
+      ) : (
+        <div className={`relative w-full ${shape.type === 'diamond' ? 'transform -rotate-45' : ''}`} style={{ opacity: shape.opacity }}>
           {isEditing ? (
             <textarea
               ref={textareaRef}
@@ -556,51 +624,42 @@ const Shape: React.FC<ShapeProps> = ({
               onKeyDown={handleKeyDown}
               onBlur={handleBlur}
               className="bg-transparent outline-none resize-none w-full overflow-hidden"
-              style={{
-                textAlign: textStyle.textAlign as 'left' | 'center' | 'right',
-                fontWeight: textStyle.fontWeight,
-                fontStyle: textStyle.fontStyle,
-              }}
+              style={textCss}
               onClick={(e) => e.stopPropagation()}
               placeholder="Type here..."
             />
           ) : (
-            <div 
-              className="whitespace-pre-wrap"
-              style={{
-                textAlign: textStyle.textAlign as 'left' | 'center' | 'right',
-                fontWeight: textStyle.fontWeight,
-                fontStyle: textStyle.fontStyle
-              }}
-            >
+            <div className="whitespace-pre-wrap break-words" style={textCss}>
               {text}
             </div>
           )}
         </div>
+      )}
 
-        {isSelected && shape.type !== 'line' && (
-          <>
-            <div
-              className="absolute -top-1 -left-1 w-3 h-3 bg-blue-500 rounded-bl cursor-nw-resize"
-              onMouseDown={(e) => handleResizeStart(e, 'nw')}
-            />
-            <div
-              className="absolute -top-1 -right-1 w-3 h-3 bg-blue-500 rounded-br cursor-ne-resize"
-              onMouseDown={(e) => handleResizeStart(e, 'ne')}
-            />
-            <div
-              className="absolute -bottom-1 -left-1 w-3 h-3 bg-blue-500 rounded-tl cursor-sw-resize"
-              onMouseDown={(e) => handleResizeStart(e, 'sw')}
-            />
-            <div
-              ref={resizeRef}
-              className="absolute -bottom-1 -right-1 w-3 h-3 bg-blue-500 rounded-tr cursor-se-resize"
-              onMouseDown={(e) => handleResizeStart(e, 'se')}
-            />
-          </>
-        )}
-      </div>
-    </Draggable>
+      {remoteOutline}
+
+      {isSelected && (
+        <>
+          <div
+            className="absolute -top-1 -left-1 w-3 h-3 bg-blue-500 rounded-bl cursor-nw-resize"
+            onPointerDown={(e) => handleResizeStart(e, 'nw')}
+          />
+          <div
+            className="absolute -top-1 -right-1 w-3 h-3 bg-blue-500 rounded-br cursor-ne-resize"
+            onPointerDown={(e) => handleResizeStart(e, 'ne')}
+          />
+          <div
+            className="absolute -bottom-1 -left-1 w-3 h-3 bg-blue-500 rounded-tl cursor-sw-resize"
+            onPointerDown={(e) => handleResizeStart(e, 'sw')}
+          />
+          <div
+            ref={resizeRef}
+            className="absolute -bottom-1 -right-1 w-3 h-3 bg-blue-500 rounded-tr cursor-se-resize"
+            onPointerDown={(e) => handleResizeStart(e, 'se')}
+          />
+        </>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Minus, Plus, SlidersHorizontal } from 'lucide-react';
+import { Shape } from '../types';
+import ColorPicker from './ColorPicker';
+import ShapeStylePanel from './ShapeStylePanel';
+import {
+  CHECKERBOARD_BACKGROUND,
+  DEFAULT_BORDER_COLOR,
+  DEFAULT_BORDER_WIDTH,
+  getCssFill,
+  hasFill,
+  TRANSPARENT
+} from '../lib/shapeStyle';
+import { getSharedValue } from '../lib/selection';
+
+interface ShapeStyleControlsProps {
+  shapes: Shape[];
+  onChange: (changes: Partial<Shape>) => void;
+  onChangeStart?: (label: string) => void;
+  onChangeEnd?: () => void;
+}
+
+type Popover = 'border' | 'fill' | 'more';
+
+const MIXED = 'linear-gradient(135deg, #FF0000, #0000FF)';
+
+// Border colour, fill, border width and the remaining styles, for one shape or a whole selection
+const ShapeStyleControls: React.FC<ShapeStyleControlsProps> = ({ shapes, onChange, onChangeStart, onChangeEnd }) => {
+  const [open, setOpen] = useState<Popover | null>(null);
+
+  const fillable = shapes.filter(hasFill);
+  const borderColor = getSharedValue(shapes.map(s => s.borderColor || DEFAULT_BORDER_COLOR));
+  const borderWidth = getSharedValue(shapes.map(s => s.borderWidth || DEFAULT_BORDER_WIDTH));
+  const fill = getSharedValue(fillable.map(getCssFill));
+  const fillColor = getSharedValue(fillable.map(s => (s.fillGradient ? undefined : s.fillColor)));
+
+  const toggle = (popover: Popover) => setOpen(open === popover ? null : popover);
+
+  const handleBorderWidthChange = (change: number) => {
+    const current = borderWidth ?? Math.max(...shapes.map(s => s.borderWidth || DEFAULT_BORDER_WIDTH));
+    onChange({ borderWidth: Math.max(1, Math.min(10, current + change)) });
+  };
+
+  return (
+    <>
+      <div className="relative flex-shrink-0">
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            toggle('border');
+          }}
+          className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+          title="Change Border Color"
+        >
+          <div className="w-4 h-4 rounded-full border-2" style={{ borderColor: borderColor ?? '#9CA3AF', background: borderColor ? 'white' : MIXED }} />
+        </button>
+        {open === 'border' && (
+          <div className="absolute top-10 left-0 z-10">
+            <ColorPicker
+              value={borderColor}
+              onChange={color => {
+                onChange({ borderColor: color });
+                setOpen(null);
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      {fillable.length > 0 && (
+        <div className="relative flex-shrink-0">
+          <button
+            onClick={e => {
+              e.stopPropagation();
+              toggle('fill');
+            }}
+            className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+            title="Change Fill"
+          >
+            <div
+              className="w-4 h-4 rounded-full border border-gray-300"
+              style={{ background: fill === undefined ? MIXED : fill === TRANSPARENT ? CHECKERBOARD_BACKGROUND : fill }}
+            />
+          </button>
+          {open === 'fill' && (
+            <div className="absolute top-10 left-0 z-10">
+              <ColorPicker
+                value={fillColor}
+                onChange={color => {
+                  onChange({ fillColor: color, fillGradient: undefined });
+                  setOpen(null);
+                }}
+                allowTransparent
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            handleBorderWidthChange(-1);
+          }}
+          className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+          title="Decrease Border Width"
+        >
+          <Minus className="w-4 h-4" />
+        </button>
+        <span className="text-xs w-4 text-center">{borderWidth ?? '–'}</span>
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            handleBorderWidthChange(1);
+          }}
+          className="p-1.5 hover:bg-gray-100 rounded-lg transition-all"
+          title="Increase Border Width"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="relative flex-shrink-0">
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            toggle('more');
+          }}
+          className={`p-1.5 hover:bg-gray-100 rounded-lg transition-all ${open === 'more' ? 'bg-blue-50 text-blue-600' : ''}`}
+          title="More Styles"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+        {open === 'more' && (
+          <div className="absolute top-10 left-0 z-10">
+            <ShapeStylePanel shapes={shapes} onChange={onChange} onChangeStart={onChangeStart} onChangeEnd={onChangeEnd} />
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ShapeStyleControls;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { BorderStyle, Shape, ShapeGradient } from '../types';
+import ColorPicker from './ColorPicker';
+import { DEFAULT_FILL, DEFAULT_SHADOW, hasCornerRadius, hasFill, MAX_CORNER_RADIUS, TRANSPARENT } from '../lib/shapeStyle';
+import { getSharedValue } from '../lib/selection';
+
+interface ShapeStylePanelProps {
+  shapes: Shape[];
+  onChange: (changes: Partial<Shape>) => void;
+  // Bracket slider drags so each one is a single undo step
+  onChangeStart?: (label: string) => void;
+  onChangeEnd?: () => void;
+}
+
+const BORDER_STYLES: { style: BorderStyle; label: string }[] = [
+  { style: 'solid', label: '───' },
+  { style: 'dashed', label: '- - -' },
+  { style: 'dotted', label: '⋯' }
+];
+
+const GRADIENT_TYPES: { type: ShapeGradient['type'] | 'none'; label: string }[] = [
+  { type: 'none', label: 'Solid' },
+  { type: 'linear', label: 'Linear' },
+  { type: 'radial', label: 'Radial' }
+];
+
+// Border dash, opacity, corner radius, gradient and shadow of the given shapes; shows shared values
+const ShapeStylePanel: React.FC<ShapeStylePanelProps> = ({ shapes, onChange, onChangeStart, onChangeEnd }) => {
+  const [editingStop, setEditingStop] = useState<'from' | 'to' | null>(null);
+
+  const borderStyle = getSharedValue(shapes.map(s => s.borderStyle || 'solid'));
+  const opacity = getSharedValue(shapes.map(s => s.opacity ?? 1));
+  const cornerRadius = getSharedValue(shapes.filter(hasCornerRadius).map(s => s.cornerRadius || 0));
+  const fillable = shapes.filter(hasFill);
+  const gradient = fillable.length > 0 && fillable.every(s => s.fillGradient) ? fillable[0].fillGradient : undefined;
+  const gradientType = getSharedValue(fillable.map(s => s.fillGradient?.type ?? 'none'));
+  const shadow = fillable.length > 0 && fillable.every(s => s.shadow) ? fillable[0].shadow : undefined;
+
+  const slider = (
+    label: string,
+    historyLabel: string,
+    value: number,
+    [min, max]: [number, number],
+    onInput: (value: number) => void,
+    format: (value: number) => string = String
+  ) => (
+    <label className="flex items-center gap-2 text-xs text-gray-600">
+      <span className="w-16 flex-shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        value={value}
+        onChange={e => onInput(Number(e.target.value))}
+        onPointerDown={() => onChangeStart?.(historyLabel)}
+        onPointerUp={() => onChangeEnd?.()}
+        className="flex-1 min-w-0"
+      />
+      <span className="w-9 text-right tabular-nums">{format(value)}</span>
+    </label>
+  );
+
+  const setGradientType = (type: ShapeGradient['type'] | 'none') => {
+    setEditingStop(null);
+    if (type === 'none') {
+      onChange({ fillGradient: undefined });
+      return;
+    }
+    const base = fillable[0];
+    onChange({
+      fillGradient: {
+        type,
+        from: gradient?.from ?? (base?.fillColor && base.fillColor !== TRANSPARENT ? base.fillColor : DEFAULT_FILL),
+        to: gradient?.to ?? '#DBEAFE',
+        angle: gradient?.angle ?? 90
+      }
+    });
+  };
+
+  return (
+    <div
+      className="bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-3 z-10 border border-gray-200 w-64 flex flex-col gap-3"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      {shapes.some(s => hasFill(s) || s.type === 'line') && (
+        <div className="flex items-center gap-1">
+          <span className="w-16 flex-shrink-0 text-xs text-gray-600">Border</span>
+          {BORDER_STYLES.map(({ style, label }) => (
+            <button
+              key={style}
+              onClick={() => onChange({ borderStyle: style === 'solid' ? undefined : style })}
+              className={`px-2 py-1 text-xs hover:bg-gray-100 rounded-lg whitespace-nowrap ${borderStyle === style ? 'bg-blue-50 text-blue-600' : ''}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {slider('Opacity', 'Change opacity', Math.round((opacity ?? 1) * 100), [10, 100],
+        value => onChange({ opacity: value === 100 ? undefined : value / 100 }), value => `${value}%`)}
+
+      {shapes.some(hasCornerRadius) &&
+        slider('Radius', 'Change corner radius', cornerRadius ?? 0, [0, MAX_CORNER_RADIUS], value => onChange({ cornerRadius: value || undefined }))}
+
+      {fillable.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-1">
+            <span className="w-16 flex-shrink-0 text-xs text-gray-600">Fill</span>
+            {GRADIENT_TYPES.map(({ type, label }) => (
+              <button
+                key={type}
+                onClick={() => setGradientType(type)}
+                className={`px-2 py-1 text-xs hover:bg-gray-100 rounded-lg ${gradientType === type ? 'bg-blue-50 text-blue-600' : ''}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {gradient && (
+            <>
+              <div className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="w-16 flex-shrink-0">Colors</span>
+                {(['from', 'to'] as const).map(stop => (
+                  <button
+                    key={stop}
+                    onClick={() => setEditingStop(editingStop === stop ? null : stop)}
+                    className={`w-6 h-6 rounded-lg border ${editingStop === stop ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-300'}`}
+                    style={{ backgroundColor: gradient[stop] }}
+                    title={stop === 'from' ? 'Start Color' : 'End Color'}
+                  />
+                ))}
+              </div>
+              {editingStop && (
+                <ColorPicker
+                  value={gradient[editingStop]}
+                  onChange={color => onChange({ fillGradient: { ...gradient, [editingStop]: color } })}
+                  allowTransparent
+                />
+              )}
+              {gradient.type === 'linear' &&
+                slider('Angle', 'Change gradient', gradient.angle, [0, 359], angle => onChange({ fillGradient: { ...gradient, angle } }), value => `${value}°`)}
+            </>
+          )}
+        </div>
+      )}
+
+      {fillable.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <span className="w-16 flex-shrink-0">Shadow</span>
+            <input
+              type="checkbox"
+              checked={!!shadow}
+              onChange={e => onChange({ shadow: e.target.checked ? DEFAULT_SHADOW : undefined })}
+              className="rounded border-gray-300"
+            />
+          </label>
+          {shadow && (
+            <>
+              {slider('Blur', 'Change shadow', shadow.blur, [0, 30], blur => onChange({ shadow: { ...shadow, blur } }))}
+              {slider('Distance', 'Change shadow', shadow.offsetY, [0, 20], distance =>
+                onChange({ shadow: { ...shadow, offsetX: Math.round(distance / 2), offsetY: distance } }))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShapeStylePanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { SnapGuide } from '../lib/snapping';
+
+interface SnapGuidesProps {
+  guides: SnapGuide[];
+  scale: number;
+}
+
+const GUIDE_COLOR = '#F43F5E';
+
+// Smart guides shown while dragging: alignment lines and equal-spacing markers, in world coordinates
+const SnapGuides: React.FC<SnapGuidesProps> = ({ guides, scale }) => {
+  if (guides.length === 0) return null;
+
+  const strokeWidth = 1 / scale;
+  const tick = 4 / scale;
+  const fontSize = 10 / scale;
+
+  return (
+    <svg className="absolute top-0 left-0 w-px h-px overflow-visible pointer-events-none">
+      {guides.map((guide, index) => {
+        if (guide.type === 'alignment') {
+          const [x1, y1, x2, y2] = guide.axis === 'x'
+            ? [guide.position, guide.from, guide.position, guide.to]
+            : [guide.from, guide.position, guide.to, guide.position];
+          return <line key={index} x1={x1} y1={y1} x2={x2} y2={y2} stroke={GUIDE_COLOR} strokeWidth={strokeWidth} />;
+        }
+
+        return (
+          <g key={index}>
+            {guide.gaps.map((gap, gapIndex) => {
+              const horizontal = guide.axis === 'x';
+              const point = (along: number, across: number) => (horizontal ? { x: along, y: across } : { x: across, y: along });
+              const from = point(gap.start, gap.at);
+              const to = point(gap.end, gap.at);
+              const label = point((gap.start + gap.end) / 2, gap.at - 6 / scale);
+              const ticks = [gap.start, gap.end].map(along => [point(along, gap.at - tick), point(along, gap.at + tick)]);
+
+              return (
+                <g key={gapIndex}>
+                  <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={GUIDE_COLOR} strokeWidth={strokeWidth} />
+                  {ticks.map(([a, b], tickIndex) => (
+                    <line key={tickIndex} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={GUIDE_COLOR} strokeWidth={strokeWidth} />
+                  ))}
+                  <text
+                    x={label.x}
+                    y={label.y}
+                    fontSize={fontSize}
+                    fill={GUIDE_COLOR}
+                    textAnchor="middle"
+                  >
+                    {Math.round(gap.end - gap.start)}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default SnapGuides;
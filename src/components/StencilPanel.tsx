@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Search, Shapes, X } from 'lucide-react';
+import { ShapeType } from '../types';
+import {
+  getShapeGeometry,
+  searchStencils,
+  STENCIL_CATEGORIES,
+  STENCIL_DRAG_TYPE,
+  StencilDefinition
+} from '../lib/stencils';
+import { DEFAULT_TEXT_FORMAT } from '../lib/text';
+
+interface StencilPanelProps {
+  onAdd: (type: ShapeType) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 44;
+const PREVIEW_HEIGHT = 36;
+
+// The stencil's outline at its default size, scaled down to fit the tile
+const StencilPreview: React.FC<{ stencil: StencilDefinition }> = ({ stencil }) => {
+  const { type, width, height, text } = stencil;
+  const geometry = getShapeGeometry({ id: type, type, position: { x: 0, y: 0 }, text, width, height }, width, height, DEFAULT_TEXT_FORMAT);
+  if (!geometry) return null;
+
+  return (
+    <svg width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} viewBox={`-2 -2 ${width + 4} ${height + 4}`} className="overflow-visible">
+      <path d={geometry.outline} fill="white" stroke="#666" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      {geometry.details && (
+        <path d={geometry.details} fill="none" stroke="#666" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      )}
+    </svg>
+  );
+};
+
+// Searchable library of stencils; click one to add it, or drag it onto the board
+const StencilPanel: React.FC<StencilPanelProps> = ({ onAdd, onClose }) => {
+  const [query, setQuery] = useState('');
+  const matches = searchStencils(query);
+
+  const handleDragStart = (e: React.DragEvent, type: ShapeType) => {
+    e.dataTransfer.effectAllowed = 'copy';
+    e.dataTransfer.setData(STENCIL_DRAG_TYPE, type);
+  };
+
+  return (
+    <div
+      className="absolute top-4 right-4 w-72 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 flex flex-col max-h-[70vh]"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center p-3 border-b border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Shapes className="w-4 h-4" />
+          Shapes
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg border border-gray-200 bg-white focus-within:ring-1 focus-within:ring-blue-400">
+          <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            // Keep Delete and the shortcuts away from the editor while searching
+            onKeyDown={e => e.stopPropagation()}
+            className="w-full text-sm bg-transparent outline-none"
+            placeholder="Search shapes..."
+            autoFocus
+          />
+        </div>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar p-3 space-y-3">
+        {matches.length === 0 && <p className="text-sm text-gray-500 text-center py-4">No shapes match "{query}"</p>}
+        {STENCIL_CATEGORIES.map(category => {
+          const stencils = matches.filter(stencil => stencil.category === category);
+          if (stencils.length === 0) return null;
+
+          return (
+            <div key={category}>
+              <h4 className="text-xs font-medium text-gray-500 mb-1.5">{category}</h4>
+              <div className="grid grid-cols-3 gap-1.5">
+                {stencils.map(stencil => (
+                  <button
+                    key={stencil.type}
+                    draggable
+                    onDragStart={e => handleDragStart(e, stencil.type)}
+                    onClick={() => onAdd(stencil.type)}
+                    className="flex flex-col items-center gap-1 p-2 rounded-lg hover:bg-gray-100 cursor-grab"
+                    title={`Add ${stencil.label}`}
+                  >
+                    <StencilPreview stencil={stencil} />
+                    <span className="text-[10px] leading-3 text-gray-600 text-center">{stencil.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StencilPanel;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  AlignVerticalJustifyCenter,
+  AlignVerticalJustifyEnd,
+  AlignVerticalJustifyStart,
+  Bold,
+  Italic,
+  Underline,
+  UnfoldVertical
+} from 'lucide-react';
+import { Shape, TextAlign, VerticalAlign } from '../types';
+import ColorPicker from './ColorPicker';
+import {
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_FONT_SIZE,
+  DEFAULT_LINE_HEIGHT,
+  DEFAULT_TEXT_COLOR,
+  FONT_FAMILIES,
+  FONT_SIZES,
+  LINE_HEIGHTS
+} from '../lib/text';
+import { getSharedValue } from '../lib/selection';
+
+interface TextFormatControlsProps {
+  shapes: Shape[];
+  onChange: (changes: Partial<Shape>) => void;
+}
+
+const ALIGNMENTS: { align: TextAlign; title: string; icon: React.ReactNode }[] = [
+  { align: 'left', title: 'Align Text Left', icon: <AlignLeft className="w-4 h-4" /> },
+  { align: 'center', title: 'Center Text', icon: <AlignCenter className="w-4 h-4" /> },
+  { align: 'right', title: 'Align Text Right', icon: <AlignRight className="w-4 h-4" /> }
+];
+
+const VERTICAL_ALIGNMENTS: { align: VerticalAlign; title: string; icon: React.ReactNode }[] = [
+  { align: 'top', title: 'Text to Top', icon: <AlignVerticalJustifyStart className="w-4 h-4" /> },
+  { align: 'middle', title: 'Text to Middle', icon: <AlignVerticalJustifyCenter className="w-4 h-4" /> },
+  { align: 'bottom', title: 'Text to Bottom', icon: <AlignVerticalJustifyEnd className="w-4 h-4" /> }
+];
+
+const SELECT_CLASS = 'text-xs px-1 py-1 border border-gray-200 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-400';
+
+// Font, size, colour, emphasis, alignment, line height and auto-fit for one shape or a whole selection
+const TextFormatControls: React.FC<TextFormatControlsProps> = ({ shapes, onChange }) => {
+  const [showColorPicker, setShowColorPicker] = useState(false);
+
+  const fontFamily = getSharedValue(shapes.map(s => s.fontFamily || DEFAULT_FONT_FAMILY));
+  const fontSize = getSharedValue(shapes.map(s => s.fontSize || DEFAULT_FONT_SIZE));
+  const textColor = getSharedValue(shapes.map(s => s.textColor || DEFAULT_TEXT_COLOR));
+  const lineHeight = getSharedValue(shapes.map(s => s.lineHeight || DEFAULT_LINE_HEIGHT));
+  const textAlign = getSharedValue(shapes.map(s => s.textAlign || 'center'));
+  const verticalAlign = getSharedValue(shapes.map(s => s.verticalAlign || 'middle'));
+  const bold = shapes.every(s => s.bold);
+  const italic = shapes.every(s => s.italic);
+  const underline = shapes.every(s => s.underline);
+  const autoFit = shapes.every(s => s.autoFit);
+
+  const toggleClass = (active: boolean) =>
+    `p-1.5 hover:bg-gray-100 rounded-lg transition-all ${active ? 'bg-blue-50 text-blue-600' : ''}`;
+
+  const set = (changes: Partial<Shape>) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onChange(changes);
+  };
+
+  // Keep Delete and the shortcuts away from the editor while a dropdown has focus
+  const stopKeys = (e: React.KeyboardEvent) => e.stopPropagation();
+
+  return (
+    <>
+      <select
+        value={fontFamily ?? ''}
+        onChange={e => onChange({ fontFamily: e.target.value === DEFAULT_FONT_FAMILY ? undefined : e.target.value })}
+        onKeyDown={stopKeys}
+        onClick={e => e.stopPropagation()}
+        className={SELECT_CLASS}
+        title="Font"
+      >
+        {fontFamily === undefined && <option value="" disabled>Mixed</option>}
+        {FONT_FAMILIES.map(({ label, value }) => (
+          <option key={label} value={value} style={{ fontFamily: value }}>{label}</option>
+        ))}
+      </select>
+      <select
+        value={fontSize ?? ''}
+        onChange={e => onChange({ fontSize: Number(e.target.value) === DEFAULT_FONT_SIZE ? undefined : Number(e.target.value) })}
+        onKeyDown={stopKeys}
+        onClick={e => e.stopPropagation()}
+        className={SELECT_CLASS}
+        title="Font Size"
+      >
+        {fontSize === undefined && <option value="" disabled>–</option>}
+        {FONT_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+      </select>
+
+      <div className="relative flex-shrink-0">
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            setShowColorPicker(!showColorPicker);
+          }}
+          className="p-1.5 hover:bg-gray-100 rounded-lg transition-all flex flex-col items-center"
+          title="Text Color"
+        >
+          <span className="text-xs font-semibold leading-3">A</span>
+          <span
+            className="w-4 h-1 rounded-sm mt-0.5"
+            style={{ background: textColor ?? 'linear-gradient(90deg, #FF0000, #0000FF)' }}
+          />
+        </button>
+        {showColorPicker && (
+          <div className="absolute top-10 left-0 z-10">
+            <ColorPicker
+              value={textColor}
+              onChange={color => {
+                onChange({ textColor: color === DEFAULT_TEXT_COLOR ? undefined : color });
+                setShowColorPicker(false);
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+      <button onClick={set({ bold: !bold || undefined })} className={toggleClass(bold)} title="Bold">
+        <Bold className="w-4 h-4" />
+      </button>
+      <button onClick={set({ italic: !italic || undefined })} className={toggleClass(italic)} title="Italic">
+        <Italic className="w-4 h-4" />
+      </button>
+      <button
+        onClick={set({ underline: !underline || undefined })}
+        className={toggleClass(underline)}
+        title="Underline"
+      >
+        <Underline className="w-4 h-4" />
+      </button>
+
+      <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+      {ALIGNMENTS.map(({ align, title, icon }) => (
+        <button
+          key={align}
+          onClick={set({ textAlign: align === 'center' ? undefined : align })}
+          className={toggleClass(textAlign === align)}
+          title={title}
+        >
+          {icon}
+        </button>
+      ))}
+      {VERTICAL_ALIGNMENTS.map(({ align, title, icon }) => (
+        <button
+          key={align}
+          onClick={set({ verticalAlign: align === 'middle' ? undefined : align })}
+          className={toggleClass(verticalAlign === align)}
+          title={title}
+        >
+          {icon}
+        </button>
+      ))}
+
+      <div className="h-4 w-px bg-gray-200 flex-shrink-0" />
+      <select
+        value={lineHeight ?? ''}
+        onChange={e => onChange({ lineHeight: Number(e.target.value) === DEFAULT_LINE_HEIGHT ? undefined : Number(e.target.value) })}
+        onKeyDown={stopKeys}
+        onClick={e => e.stopPropagation()}
+        className={SELECT_CLASS}
+        title="Line Height"
+      >
+        {lineHeight === undefined && <option value="" disabled>Mixed</option>}
+        {!LINE_HEIGHTS.some(option => option.value === lineHeight) && lineHeight !== undefined && (
+          <option value={lineHeight}>{lineHeight.toFixed(2)}</option>
+        )}
+        {LINE_HEIGHTS.map(({ label, value }) => <option key={label} value={value}>{label}</option>)}
+      </select>
+      <button
+        onClick={set({ autoFit: !autoFit || undefined })}
+        className={toggleClass(autoFit)}
+        title="Fit Shape to Text"
+      >
+        <UnfoldVertical className="w-4 h-4" />
+      </button>
+    </>
+  );
+};
+
+export default TextFormatControls;
@@ -1,25 +1,28 @@
 import React, { useState, useRef, useEffect } from 'react';
-import {   Square,   Circle,   Diamond,   Link as Line, Trash2,   Pen,   Download,   Type,   Eraser,   PaintBucket,   X,  FileText,  Sparkles,  Code,  HelpCircle,   Trash } from 'lucide-react';
+import {   Square,   Circle,   Diamond,   Link as Line, Trash2,   Pen,   Download,   Type,   Eraser,   Lasso,   PaintBucket,   X,  FileText,  Sparkles,  Code,  HelpCircle,   Trash } from 'lucide-react';
 import FileViewer from './FileViewer';
 // import DiagramSuggestions from './DiagramSuggestions';
 import CodeToDiagram from './CodeToDiagram';
 import AIMermaidGenerator from './AIMermaidGenerator';
-import { DiagramSuggestion } from '../types';
+import { DiagramFragment, DiagramSuggestion, ExportFormat } from '../types';
 
 interface ToolbarProps {
   onAddShape: (type: 'rectangle' | 'circle' | 'diamond' | 'square' | 'text' | 'line', position?: { x: number, y: number }) => void;
   onStartConnection: () => void;
   onStartDrawing: () => void;
   onDelete: () => void;
-  onExport: (type: 'png' | 'pdf') => void;
+  onExport: (format: ExportFormat) => void;
   isConnecting: boolean;
   isDrawing: boolean;
   onToggleEraser: () => void;
   isEraserActive: boolean;
+  onToggleLasso: () => void;
+  isLassoActive: boolean;
   onToggleBackgroundColorPicker: () => void;
   onShowTip: (tip: string) => void;
   // onApplySuggestion: (suggestion: DiagramSuggestion) => void;
   onClearScreen: () => void;
+  onImportDiagram: (fragment: DiagramFragment) => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -32,10 +35,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
   isDrawing,
   onToggleEraser,
   isEraserActive,
+  onToggleLasso,
+  isLassoActive,
   onToggleBackgroundColorPicker,
   onShowTip,
   // onApplySuggestion,
-  onClearScreen
+  onClearScreen,
+  onImportDiagram
 }) => {
   const [isExportOpen, setIsExportOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -83,12 +89,19 @@ const Toolbar: React.FC<ToolbarProps> = ({
   const handleToggleEraserWithTip = () => {
     onToggleEraser();
     if (!isEraserActive) {
-      onShowTip("Click on drawings to erase them");
+      onShowTip("Drag across ink to erase it. Switch to the object eraser to remove whole strokes");
     }
   };
 
-  const handleExport = (type: 'png' | 'pdf') => {
-    onExport(type);
+  const handleToggleLassoWithTip = () => {
+    onToggleLasso();
+    if (!isLassoActive) {
+      onShowTip("Draw a loop around ink and shapes to select them");
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    onExport(format);
     setIsExportOpen(false);
   };
 
@@ -205,11 +218,19 @@ const Toolbar: React.FC<ToolbarProps> = ({
             <button 
               onClick={handleToggleEraserWithTip} 
               className={`w-full p-2 hover:bg-gray-50 rounded-lg flex items-center gap-2 transition-all ${isEraserActive ? 'bg-blue-50 text-blue-600' : ''}`} 
-              title="Eraser - Click on drawings to erase them"
+              title="Eraser - Drag across ink to erase it"
             >
               <Eraser className="w-5 h-5" />
               <span className="text-sm">Erase</span>
             </button>
+            <button 
+              onClick={handleToggleLassoWithTip} 
+              className={`w-full p-2 hover:bg-gray-50 rounded-lg flex items-center gap-2 transition-all ${isLassoActive ? 'bg-blue-50 text-blue-600' : ''}`} 
+              title="Lasso - Draw a loop to select ink and shapes"
+            >
+              <Lasso className="w-5 h-5" />
+              <span className="text-sm">Lasso</span>
+            </button>
           </div>
 
           <div className="h-px bg-gray-200 my-1"></div>
@@ -241,6 +262,12 @@ const Toolbar: React.FC<ToolbarProps> = ({
             </button>
             {isExportOpen && (
               <div className="absolute right-0 top-full mt-2 bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 min-w-[120px] border border-gray-200">
+                <button 
+                  onClick={() => handleExport('svg')} 
+                  className="w-full text-left px-4 py-2 hover:bg-gray-50 rounded-lg text-sm transition-colors"
+                >
+                  SVG Vector
+                </button>
                 <button 
                   onClick={() => handleExport('png')} 
                   className="w-full text-left px-4 py-2 hover:bg-gray-50 rounded-lg text-sm transition-colors"
@@ -505,12 +532,14 @@ Failed --> Idle : Retry
       {showCodeEditor && (
         <CodeToDiagram
           onClose={() => setShowCodeEditor(false)}
+          onImport={onImportDiagram}
         />
       )}
 
       {showAIGenerator && (
         <AIMermaidGenerator
           onClose={() => setShowAIGenerator(false)}
+          onImport={onImportDiagram}
         />
       )}
     </>
@@ -0,0 +1,76 @@
+import React from 'react';
+import { X, GitCompare } from 'lucide-react';
+import { DiagramVersion } from '../types';
+import { DIFF_COLORS, ElementDiff, ElementDiffKind } from '../lib/diff';
+
+interface VersionCompareBarProps {
+  versions: DiagramVersion[];
+  fromId: string;
+  toId: string | null;
+  diff: ElementDiff[];
+  onChange: (fromId: string, toId: string | null) => void;
+  onExit: () => void;
+}
+
+const KIND_LABELS: Record<ElementDiffKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved / resized',
+  restyled: 'Restyled'
+};
+
+const describe = (version: DiagramVersion) =>
+  `v${version.version}${version.label ? ` · ${version.label}` : ''}`;
+
+// `toId` null compares against the live board
+const VersionCompareBar: React.FC<VersionCompareBarProps> = ({ versions, fromId, toId, diff, onChange, onExit }) => {
+  const counts = diff.reduce((acc, change) => {
+    acc[change.kind] = (acc[change.kind] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ElementDiffKind, number>>);
+
+  return (
+    <div
+      className="absolute top-4 left-1/2 -translate-x-1/2 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 px-3 py-2 flex items-center gap-3 text-sm"
+      onClick={e => e.stopPropagation()}
+    >
+      <GitCompare className="w-4 h-4 text-gray-500" />
+      <select
+        value={fromId}
+        onChange={e => onChange(e.target.value, toId)}
+        className="bg-transparent border border-gray-200 rounded-lg px-2 py-1"
+      >
+        {versions.map(version => (
+          <option key={version.id} value={version.id}>{describe(version)}</option>
+        ))}
+      </select>
+      <span className="text-gray-400">→</span>
+      <select
+        value={toId ?? ''}
+        onChange={e => onChange(fromId, e.target.value || null)}
+        className="bg-transparent border border-gray-200 rounded-lg px-2 py-1"
+      >
+        <option value="">Current board</option>
+        {versions.map(version => (
+          <option key={version.id} value={version.id}>{describe(version)}</option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-3 pl-3 border-l border-gray-200">
+        {diff.length === 0 && <span className="text-gray-400">No differences</span>}
+        {(Object.keys(KIND_LABELS) as ElementDiffKind[]).filter(kind => counts[kind]).map(kind => (
+          <span key={kind} className="flex items-center gap-1 text-gray-600">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: DIFF_COLORS[kind] }} />
+            {KIND_LABELS[kind]} {counts[kind]}
+          </span>
+        ))}
+      </div>
+
+      <button onClick={onExit} className="p-1 hover:bg-gray-100 rounded-lg" title="Exit comparison">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default VersionCompareBar;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Bounds, DiagramState, Point } from '../types';
+import { DIFF_COLORS, ElementDiff } from '../lib/diff';
+import { getShapeBounds } from '../lib/geometry';
+
+interface VersionDiffOverlayProps {
+  before: DiagramState;
+  after: DiagramState;
+  diff: ElementDiff[];
+}
+
+const PADDING = 6;
+
+const findBounds = (state: DiagramState, id: string): Bounds | null => {
+  const shape = state.shapes.find(s => s.id === id);
+  return shape ? getShapeBounds(shape) : null;
+};
+
+const getCenter = (bounds: Bounds): Point => ({
+  x: bounds.x + bounds.width / 2,
+  y: bounds.y + bounds.height / 2
+});
+
+// Drawn inside the world layer, on top of the compared board
+const VersionDiffOverlay: React.FC<VersionDiffOverlayProps> = ({ before, after, diff }) => {
+  const renderBox = (bounds: Bounds, color: string, key: string, ghost = false) => (
+    <rect
+      key={key}
+      x={bounds.x - PADDING}
+      y={bounds.y - PADDING}
+      width={bounds.width + PADDING * 2}
+      height={bounds.height + PADDING * 2}
+      rx={8}
+      fill={color}
+      fillOpacity={ghost ? 0.08 : 0.12}
+      stroke={color}
+      strokeWidth={2}
+      strokeDasharray={ghost ? '6 4' : undefined}
+    />
+  );
+
+  const renderShape = (change: ElementDiff) => {
+    const color = DIFF_COLORS[change.kind];
+    const oldBounds = findBounds(before, change.id);
+    const newBounds = findBounds(after, change.id);
+
+    if (change.kind === 'removed') {
+      return oldBounds && renderBox(oldBounds, color, change.id, true);
+    }
+    if (!newBounds) return null;
+
+    if (change.kind === 'moved' && oldBounds) {
+      const from = getCenter(oldBounds);
+      const to = getCenter(newBounds);
+      return (
+        <g key={change.id}>
+          {renderBox(oldBounds, '#9CA3AF', `${change.id}-old`, true)}
+          <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={color} strokeWidth={2} strokeDasharray="4 4" />
+          {renderBox(newBounds, color, `${change.id}-new`)}
+        </g>
+      );
+    }
+
+    return renderBox(newBounds, color, change.id);
+  };
+
+  const renderConnection = (change: ElementDiff) => {
+    const state = change.kind === 'removed' ? before : after;
+    const connection = state.connections.find(c => c.id === change.id);
+    if (!connection) return null;
+
+    const fromBounds = findBounds(state, connection.from);
+    const toBounds = findBounds(state, connection.to);
+    if (!fromBounds || !toBounds) return null;
+
+    const from = getCenter(fromBounds);
+    const to = getCenter(toBounds);
+    return (
+      <line
+        key={change.id}
+        x1={from.x}
+        y1={from.y}
+        x2={to.x}
+        y2={to.y}
+        stroke={DIFF_COLORS[change.kind]}
+        strokeOpacity={0.35}
+        strokeWidth={10}
+        strokeLinecap="round"
+        strokeDasharray={change.kind === 'removed' ? '12 10' : undefined}
+      />
+    );
+  };
+
+  return (
+    <svg className="absolute top-0 left-0 w-px h-px overflow-visible pointer-events-none" style={{ zIndex: 5 }}>
+      {diff.filter(change => change.collection === 'connections').map(renderConnection)}
+      {diff.filter(change => change.collection === 'shapes').map(renderShape)}
+    </svg>
+  );
+};
+
+export default VersionDiffOverlay;
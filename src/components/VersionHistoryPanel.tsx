@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { X, GitCommit, RotateCcw, GitCompare, Save } from 'lucide-react';
+import { DiagramVersion } from '../types';
+
+interface VersionHistoryPanelProps {
+  versions: DiagramVersion[];
+  isLoading: boolean;
+  canSave: boolean;
+  comparingId: string | null;
+  onSave: (label: string) => void;
+  onRestore: (version: DiagramVersion) => void;
+  onCompare: (version: DiagramVersion) => void;
+  onClose: () => void;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  versions,
+  isLoading,
+  canSave,
+  comparingId,
+  onSave,
+  onRestore,
+  onCompare,
+  onClose
+}) => {
+  const [label, setLabel] = useState('');
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(label.trim());
+    setLabel('');
+  };
+
+  return (
+    <div
+      className="absolute top-4 right-4 w-72 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 flex flex-col max-h-[70vh]"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center p-3 border-b border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <GitCommit className="w-4 h-4" />
+          Versions
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {canSave && (
+        <form onSubmit={handleSave} className="p-2 border-b border-gray-100 flex gap-2">
+          <input
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder="Name this version (optional)"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-200"
+          />
+          <button
+            type="submit"
+            className="p-1.5 rounded-lg bg-blue-500 text-white hover:bg-blue-600"
+            title="Save a new version"
+          >
+            <Save className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+
+      <div className="overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {isLoading && versions.length === 0 && (
+          <p className="px-3 py-2 text-sm text-gray-400">Loading versions...</p>
+        )}
+        {!isLoading && versions.length === 0 && (
+          <p className="px-3 py-2 text-sm text-gray-400">
+            {canSave ? 'No saved versions yet' : 'Save this diagram to start its version history'}
+          </p>
+        )}
+
+        {versions.map((version, i) => {
+          const isComparing = comparingId === version.id;
+
+          return (
+            <div
+              key={version.id}
+              className={`group px-3 py-2 rounded-lg text-sm transition-colors ${isComparing ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-gray-400">v{version.version}</span>
+                <span className="flex-1 truncate text-gray-700">
+                  {version.label || (i === 0 ? 'Latest save' : 'Saved')}
+                </span>
+                <button
+                  onClick={() => onCompare(version)}
+                  className={`p-1 rounded hover:bg-gray-200 ${isComparing ? 'text-blue-600' : 'text-gray-500 opacity-0 group-hover:opacity-100'}`}
+                  title={isComparing ? 'Stop comparing' : 'Compare with the current board'}
+                >
+                  <GitCompare className="w-3.5 h-3.5" />
+                </button>
+                {canSave && (
+                  <button
+                    onClick={() => onRestore(version)}
+                    className="p-1 rounded hover:bg-gray-200 text-gray-500 opacity-0 group-hover:opacity-100"
+                    title="Restore this version"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <div className="text-xs text-gray-400 mt-0.5">
+                {version.authorName || 'Unknown'} · {formatDate(version.createdAt)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -1,15 +1,21 @@
-import React, { useRef } from 'react';
-import { Shape, Connection, DrawingPath } from '../types';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { Shape, Connection, DrawingPath, ExportFormat, Layer, DiagramState } from '../types';
 import ShapeComponent from './Shape';
 import ConnectionComponent from './Connection';
+import DrawingStroke from './DrawingStroke';
 import ViewOnlyToolbar from './ViewOnlyToolbar';
-import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
+import ZoomControls from './ZoomControls';
+import { getDiagramBounds } from '../lib/geometry';
+import { getItemKey, getLayers, getStack, getVisibleState } from '../lib/layers';
+import { createRoutingContext } from '../lib/routing';
+import { useCamera } from '../hooks/useCamera';
+import { exportDiagram } from '../lib/export/exportDiagram';
 
 interface ViewOnlyDiagramProps {
   shapes: Shape[];
   connections: Connection[];
   drawings: DrawingPath[];
+  layers?: Layer[];
   backgroundColor?: string;
   isPublic?: boolean;
   shareId?: string;
@@ -19,112 +25,46 @@ const ViewOnlyDiagram: React.FC<ViewOnlyDiagramProps> = ({
   shapes,
   connections,
   drawings,
+  layers,
   backgroundColor = '#FFFFFF'
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  // Layers the viewer has switched on or off, on top of how the board was saved
+  const [layerVisibility, setLayerVisibility] = useState<Record<string, boolean>>({});
 
-  const calculateBoundingBox = () => {
-    let minX = Infinity;
-    let minY = Infinity;
-    let maxX = -Infinity;
-    let maxY = -Infinity;
-
-    // Check shapes
-    shapes.forEach(shape => {
-      const width = shape.width || (shape.type === 'text' ? 200 : 128);
-      const height = shape.height || (shape.type === 'text' ? 100 : shape.type === 'rectangle' ? 80 : 128);
-
-      minX = Math.min(minX, shape.position.x);
-      minY = Math.min(minY, shape.position.y);
-      maxX = Math.max(maxX, shape.position.x + width);
-      maxY = Math.max(maxY, shape.position.y + height);
-
-      // For lines, check endPoint
-      if (shape.type === 'line' && shape.endPoint) {
-        minX = Math.min(minX, shape.endPoint.x);
-        minY = Math.min(minY, shape.endPoint.y);
-        maxX = Math.max(maxX, shape.endPoint.x);
-        maxY = Math.max(maxY, shape.endPoint.y);
-      }
-    });
-
-    // Check drawings
-    drawings.forEach(drawing => {
-      drawing.points.forEach(point => {
-        minX = Math.min(minX, point.x);
-        minY = Math.min(minY, point.y);
-        maxX = Math.max(maxX, point.x);
-        maxY = Math.max(maxY, point.y);
-      });
-    });
-
-    // Add padding
-    const padding = 50;
+  const board = useMemo((): DiagramState => {
+    const state = { shapes, connections, drawings, layers, backgroundColor };
     return {
-      x: Math.max(0, minX - padding),
-      y: Math.max(0, minY - padding),
-      width: Math.min(maxX - minX + padding * 2, 5000),
-      height: Math.min(maxY - minY + padding * 2, 5000)
+      ...state,
+      layers: getLayers(state).map(layer =>
+        layer.id in layerVisibility ? { ...layer, hidden: !layerVisibility[layer.id] } : layer)
     };
-  };
-
-  const handleExport = async (type: 'png' | 'pdf') => {
-    if (!containerRef.current) return;
-
+  }, [shapes, connections, drawings, layers, backgroundColor, layerVisibility]);
+  const visible = useMemo(() => getVisibleState(board), [board]);
+  const stack = useMemo(() => getStack(visible), [visible]);
+  const {
+    camera,
+    isPanning,
+    isSpacePressed,
+    onPanStart,
+    zoomTo,
+    zoomIn,
+    zoomOut,
+    zoomToBounds
+  } = useCamera(containerRef);
+  const routing = useMemo(() => createRoutingContext(visible.shapes, visible.connections), [visible]);
+
+  // Only frame the board once, when it is first shown
+  const isFramedRef = useRef(false);
+  useEffect(() => {
+    if (isFramedRef.current) return;
+    isFramedRef.current = true;
+    zoomToBounds(getDiagramBounds(visible.shapes, visible.drawings, visible.connections));
+  }, [visible, zoomToBounds]);
+
+  const handleExport = async (format: ExportFormat) => {
     try {
-      const boundingBox = calculateBoundingBox();
-      
-      // Create a temporary container for export
-      const exportContainer = containerRef.current.cloneNode(true) as HTMLElement;
-      
-      // Position the container to show only the diagram area
-      exportContainer.style.backgroundColor = backgroundColor;
-      exportContainer.style.width = `${boundingBox.width}px`;
-      exportContainer.style.height = `${boundingBox.height}px`;
-      exportContainer.style.position = 'fixed';
-      exportContainer.style.top = '0';
-      exportContainer.style.left = '0';
-      exportContainer.style.zIndex = '-1000';
-      exportContainer.style.transform = `translate(${-boundingBox.x}px, ${-boundingBox.y}px)`;
-      exportContainer.style.overflow = 'hidden';
-      document.body.appendChild(exportContainer);
-
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      const canvas = await html2canvas(exportContainer, {
-        backgroundColor: backgroundColor,
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        allowTaint: true,
-        foreignObjectRendering: true,
-        width: boundingBox.width,
-        height: boundingBox.height,
-        x: boundingBox.x,
-        y: boundingBox.y
-      });
-
-      if (type === 'png') {
-        const dataUrl = canvas.toDataURL('image/png');
-        const link = document.createElement('a');
-        link.download = 'diagram.png';
-        link.href = dataUrl;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      } else if (type === 'pdf') {
-        const imgData = canvas.toDataURL('image/jpeg', 1.0);
-        const pdf = new jsPDF({
-          orientation: canvas.width > canvas.height ? 'landscape' : 'portrait',
-          unit: 'px',
-          format: [canvas.width, canvas.height]
-        });
-
-        pdf.addImage(imgData, 'JPEG', 0, 0, canvas.width, canvas.height);
-        pdf.save('diagram.pdf');
-      }
-
-      document.body.removeChild(exportContainer);
+      await exportDiagram(board, format);
     } catch (error) {
       console.error('Export failed:', error);
       alert('Failed to export diagram. Please try again.');
@@ -135,66 +75,66 @@ const ViewOnlyDiagram: React.FC<ViewOnlyDiagramProps> = ({
     <div className="w-full h-screen bg-gray-100 flex flex-col">
       <div
         ref={containerRef}
-        className="flex-1 relative diagram-canvas overflow-auto"
-        style={{ backgroundColor }}
+        className="flex-1 relative diagram-canvas"
+        style={{
+          backgroundColor,
+          cursor: isPanning ? 'grabbing' : isSpacePressed ? 'grab' : undefined,
+          touchAction: 'none'
+        }}
+        onPointerDownCapture={onPanStart}
       >
-        <ViewOnlyToolbar onExport={handleExport} />
-
-        {connections.map(connection => (
-          <ConnectionComponent
-            key={connection.id}
-            connection={connection}
-            shapes={shapes}
-            isSelected={false}
-            onSelect={() => {}}
-            onStyleChange={() => {}}
-          />
-        ))}
-
-        {shapes.map(shape => (
-          <ShapeComponent
-            key={shape.id}
-            shape={shape}
-            onDrag={() => {}}
-            onSelect={() => {}}
-            onTextEdit={() => {}}
-            isSelected={false}
-            isEditing={false}
-            setIsEditing={() => {}}
-          />
-        ))}
-
-        {drawings.length > 0 && (
-          <canvas
-            className="absolute top-0 left-0 w-full h-full pointer-events-none"
-            style={{ zIndex: 0 }}
-            ref={(canvas) => {
-              if (canvas) {
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                  canvas.width = canvas.offsetWidth;
-                  canvas.height = canvas.offsetHeight;
-                  
-                  drawings.forEach(path => {
-                    ctx.strokeStyle = path.color;
-                    ctx.lineWidth = path.width;
-                    ctx.lineCap = 'round';
-                    ctx.lineJoin = 'round';
-                    
-                    if (path.points.length > 0) {
-                      ctx.beginPath();
-                      ctx.moveTo(path.points[0].x, path.points[0].y);
-                      path.points.forEach(point => {
-                        ctx.lineTo(point.x, point.y);
-                      });
-                      ctx.stroke();
-                    }
-                  });
-                }
-              }
-            }}
-          />
-        )}
+        <ViewOnlyToolbar
+          onExport={handleExport}
+          layers={[...board.layers!].reverse()}
+          onToggleLayer={layerId => {
+            const layer = board.layers!.find(l => l.id === layerId);
+            if (layer) setLayerVisibility(current => ({ ...current, [layerId]: !!layer.hidden }));
+          }}
+        />
+
+        <div
+          className="absolute top-0 left-0"
+          style={{
+            transform: `translate(${camera.x}px, ${camera.y}px) scale(${camera.zoom})`,
+            transformOrigin: '0 0'
+          }}
+        >
+          {stack.map(item => (
+            <React.Fragment key={getItemKey(item)}>
+              {item.collection === 'connections' ? (
+                <ConnectionComponent
+                  connection={item.element}
+                  shapes={visible.shapes}
+                  routing={routing}
+                  isSelected={false}
+                  onSelect={() => {}}
+                  onStyleChange={() => {}}
+                />
+              ) : item.collection === 'shapes' ? (
+                <ShapeComponent
+                  shape={item.element}
+                  onDrag={() => {}}
+                  onSelect={() => {}}
+                  onTextEdit={() => {}}
+                  isSelected={false}
+                  isEditing={false}
+                  setIsEditing={() => {}}
+                  scale={camera.zoom}
+                />
+              ) : (
+                <DrawingStroke drawing={item.element} />
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+
+        <ZoomControls
+          zoom={camera.zoom}
+          onZoomIn={zoomIn}
+          onZoomOut={zoomOut}
+          onResetZoom={() => zoomTo(1)}
+          onZoomToFit={() => zoomToBounds(getDiagramBounds(visible.shapes, visible.drawings, visible.connections))}
+        />
       </div>
     </div>
   );
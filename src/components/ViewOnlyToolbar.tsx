@@ -1,19 +1,28 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Download } from 'lucide-react';
+import { Download, Layers } from 'lucide-react';
+import { ExportFormat, Layer } from '../types';
 
 interface ViewOnlyToolbarProps {
-  onExport: (type: 'png' | 'pdf') => void;
+  onExport: (format: ExportFormat) => void;
+  // Top to bottom; the menu only shows when the board has more than one layer
+  layers?: Layer[];
+  onToggleLayer?: (layerId: string) => void;
 }
 
-const ViewOnlyToolbar: React.FC<ViewOnlyToolbarProps> = ({ onExport }) => {
+const ViewOnlyToolbar: React.FC<ViewOnlyToolbarProps> = ({ onExport, layers = [], onToggleLayer }) => {
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
   const exportRef = useRef<HTMLDivElement>(null);
+  const layersRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (exportRef.current && !exportRef.current.contains(event.target as Node)) {
         setIsExportOpen(false);
       }
+      if (layersRef.current && !layersRef.current.contains(event.target as Node)) {
+        setIsLayersOpen(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
@@ -21,7 +30,35 @@ const ViewOnlyToolbar: React.FC<ViewOnlyToolbarProps> = ({ onExport }) => {
   }, []);
 
   return (
-    <div className="fixed top-4 right-4 bg-white/90 backdrop-blur-sm p-2 rounded-xl shadow-lg z-20 border border-gray-200">
+    <div className="fixed top-4 right-4 bg-white/90 backdrop-blur-sm p-2 rounded-xl shadow-lg z-20 border border-gray-200 flex gap-1">
+      {layers.length > 1 && onToggleLayer && (
+        <div className="relative" ref={layersRef}>
+          <button
+            onClick={() => setIsLayersOpen(!isLayersOpen)}
+            className="p-2 hover:bg-gray-50 rounded-lg flex items-center gap-2 transition-all"
+            title="Layers"
+            aria-expanded={isLayersOpen ? 'true' : 'false'}
+          >
+            <Layers className="w-5 h-5" />
+          </button>
+
+          {isLayersOpen && (
+            <div className="absolute right-0 top-full mt-2 bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 min-w-[160px] border border-gray-200">
+              {layers.map(layer => (
+                <label key={layer.id} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50 rounded-lg text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!layer.hidden}
+                    onChange={() => onToggleLayer(layer.id)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="truncate">{layer.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
       <div className="relative" ref={exportRef}>
         <button 
           onClick={() => setIsExportOpen(!isExportOpen)} 
@@ -34,6 +71,15 @@ const ViewOnlyToolbar: React.FC<ViewOnlyToolbarProps> = ({ onExport }) => {
         
         {isExportOpen && (
           <div className="absolute right-0 top-full mt-2 bg-white/90 backdrop-blur-sm shadow-lg rounded-lg p-2 min-w-[120px] border border-gray-200">
+            <button 
+              onClick={() => {
+                onExport('svg');
+                setIsExportOpen(false);
+              }} 
+              className="w-full text-left px-4 py-2 hover:bg-gray-50 rounded-lg text-sm"
+            >
+              SVG Vector
+            </button>
             <button 
               onClick={() => {
                 onExport('png');
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ZoomIn, ZoomOut, Maximize, Focus } from 'lucide-react';
+
+interface ZoomControlsProps {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToFit: () => void;
+  onZoomToSelection?: () => void;
+  hasSelection?: boolean;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onZoomToFit,
+  onZoomToSelection,
+  hasSelection = false
+}) => {
+  return (
+    <div
+      className="absolute bottom-4 right-4 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg z-20 border border-gray-200 p-1 flex items-center gap-1"
+      onClick={e => e.stopPropagation()}
+    >
+      <button
+        onClick={onZoomOut}
+        className="p-2 hover:bg-gray-50 rounded-lg transition-all"
+        title="Zoom Out (Ctrl+-)"
+      >
+        <ZoomOut className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onResetZoom}
+        className="px-2 py-1 hover:bg-gray-50 rounded-lg text-xs w-14 text-center transition-all"
+        title="Reset Zoom (Ctrl+0)"
+      >
+        {Math.round(zoom * 100)}%
+      </button>
+      <button
+        onClick={onZoomIn}
+        className="p-2 hover:bg-gray-50 rounded-lg transition-all"
+        title="Zoom In (Ctrl+=)"
+      >
+        <ZoomIn className="w-4 h-4" />
+      </button>
+      <div className="w-px h-5 bg-gray-200" />
+      <button
+        onClick={onZoomToFit}
+        className="p-2 hover:bg-gray-50 rounded-lg transition-all"
+        title="Zoom to Fit (Shift+1)"
+      >
+        <Maximize className="w-4 h-4" />
+      </button>
+      {onZoomToSelection && (
+        <button
+          onClick={onZoomToSelection}
+          disabled={!hasSelection}
+          className="p-2 hover:bg-gray-50 rounded-lg transition-all disabled:opacity-40"
+          title="Zoom to Selection (Shift+2)"
+        >
+          <Focus className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ZoomControls;
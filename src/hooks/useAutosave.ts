@@ -0,0 +1,157 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { DiagramState } from '../types';
+import { isDiagramEmpty, saveDraft, setCurrentDraftId } from '../lib/drafts';
+import { updateDiagramData } from '../lib/versions';
+
+export type AutosaveStatus = 'pending' | 'saving' | 'saved' | 'offline' | 'error';
+
+// The local draft the board is written to
+export interface DraftTarget {
+  id: string;
+  name: string;
+}
+
+// The saved diagram the board is written back to, when the user owns it
+export interface CloudTarget {
+  diagramId: string;
+  ownerId: string;
+}
+
+interface AutosaveOptions {
+  state: DiagramState;
+  draft: DraftTarget | null;
+  cloud: CloudTarget | null;
+}
+
+// Quiet time before a write, so a drag or a stroke is saved once rather than per frame
+const LOCAL_DELAY = 1000;
+const CLOUD_DELAY = 3000;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Keeps the board written to its local draft and, when it is a saved diagram the user
+// owns, back to the cloud. Switching target takes the board as it stands as already
+// saved there, since it was either just loaded from it or is empty.
+export const useAutosave = ({ state, draft, cloud }: AutosaveOptions) => {
+  const [localStatus, setLocalStatus] = useState<AutosaveStatus | null>(null);
+  const [cloudStatus, setCloudStatus] = useState<AutosaveStatus>('saved');
+  const [online, setOnline] = useState(isOnline);
+  // Bumped after every local write, so draft lists know to reload
+  const [savedAt, setSavedAt] = useState(0);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+
+  const localSavedRef = useRef<DiagramState | null>(null);
+  const localKeyRef = useRef<string | null>(null);
+  // Empty boards are only written over drafts that already hold something
+  const isStoredRef = useRef(false);
+  const cloudSavedRef = useRef<DiagramState | null>(null);
+  const cloudKeyRef = useRef<string | null>(null);
+
+  const draftId = draft?.id ?? null;
+  const cloudDiagramId = cloud?.diagramId ?? null;
+  const cloudOwnerId = cloud?.ownerId ?? null;
+  const cloudKey = cloud ? `${cloud.diagramId}:${cloud.ownerId}` : null;
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Writes the board to its draft now if it has changed since the last write
+  const flush = useCallback(async () => {
+    const target = draftRef.current;
+    const data = stateRef.current;
+    if (!target || target.id !== localKeyRef.current || data === localSavedRef.current) return;
+    if (!isStoredRef.current && isDiagramEmpty(data)) return;
+
+    setLocalStatus('saving');
+    try {
+      await saveDraft({ id: target.id, name: target.name, data, updatedAt: Date.now() });
+      localSavedRef.current = data;
+      isStoredRef.current = true;
+      setCurrentDraftId(target.id);
+      setLocalStatus(stateRef.current === data ? 'saved' : 'pending');
+      setSavedAt(Date.now());
+    } catch (error) {
+      console.error('Error saving local draft:', error);
+      setLocalStatus('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (draftId !== localKeyRef.current) {
+      localKeyRef.current = draftId;
+      localSavedRef.current = state;
+      isStoredRef.current = !isDiagramEmpty(state);
+      setLocalStatus(isStoredRef.current ? 'saved' : null);
+      return;
+    }
+    if (!draftId || state === localSavedRef.current) return;
+    if (!isStoredRef.current && isDiagramEmpty(state)) return;
+
+    setLocalStatus('pending');
+    const timeout = window.setTimeout(flush, LOCAL_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [draftId, state, flush]);
+
+  // A reload or a closed tab gets no time for the debounce; hiding the page is the last safe moment
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  useEffect(() => {
+    if (cloudKey !== cloudKeyRef.current) {
+      cloudKeyRef.current = cloudKey;
+      cloudSavedRef.current = state;
+      setCloudStatus('saved');
+      return;
+    }
+    if (!cloudDiagramId || !cloudOwnerId || state === cloudSavedRef.current) return;
+    if (!online) {
+      setCloudStatus('offline');
+      return;
+    }
+
+    setCloudStatus('pending');
+    const timeout = window.setTimeout(async () => {
+      const data = stateRef.current;
+      setCloudStatus('saving');
+      try {
+        await updateDiagramData(cloudDiagramId, cloudOwnerId, data);
+        if (cloudKeyRef.current !== cloudKey) return;
+        cloudSavedRef.current = data;
+        setCloudStatus(stateRef.current === data ? 'saved' : 'pending');
+      } catch (error) {
+        console.error('Error autosaving diagram:', error);
+        // Coming back online retries; any other failure waits for the next change
+        setCloudStatus(isOnline() ? 'error' : 'offline');
+      }
+    }, CLOUD_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [cloudKey, cloudDiagramId, cloudOwnerId, state, online]);
+
+  return {
+    status: cloud ? cloudStatus : localStatus,
+    isCloud: !!cloud,
+    savedAt,
+    flush
+  };
+};
@@ -0,0 +1,229 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Bounds, Camera, Point } from '../types';
+import { DEFAULT_CAMERA, fitBounds, panBy, screenToWorld, zoomAt } from '../lib/camera';
+import { isPalmTouch, watchStylus } from '../lib/pointers';
+
+const isTextInput = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.isContentEditable
+  );
+};
+
+// Camera state plus the wheel, trackpad, space-drag and two-finger gestures that move it.
+// Pass `onPanStart` as an onPointerDownCapture handler on the viewport element.
+export const useCamera = (
+  viewportRef: React.RefObject<HTMLElement>,
+  initialCamera: Camera = DEFAULT_CAMERA
+) => {
+  const [camera, setCamera] = useState<Camera>(initialCamera);
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const [isPinching, setIsPinching] = useState(false);
+  const lastPanPoint = useRef<Point | null>(null);
+  const didPan = useRef(false);
+  // Viewport points of the fingers on the screen
+  const touches = useRef(new Map<number, Point>());
+  const pinch = useRef<{ center: Point; distance: number } | null>(null);
+
+  const getViewportPoint = useCallback((clientX: number, clientY: number): Point => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return {
+      x: clientX - (rect?.left ?? 0),
+      y: clientY - (rect?.top ?? 0)
+    };
+  }, [viewportRef]);
+
+  const getViewportSize = useCallback(() => ({
+    width: viewportRef.current?.clientWidth ?? window.innerWidth,
+    height: viewportRef.current?.clientHeight ?? window.innerHeight
+  }), [viewportRef]);
+
+  const clientToWorld = useCallback((clientX: number, clientY: number) => {
+    return screenToWorld(camera, getViewportPoint(clientX, clientY));
+  }, [camera, getViewportPoint]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    // Ctrl+wheel is also what browsers emit for trackpad pinch gestures
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        const anchor = getViewportPoint(e.clientX, e.clientY);
+        setCamera(prev => zoomAt(prev, anchor, prev.zoom * Math.exp(-e.deltaY * 0.01)));
+      } else if (e.shiftKey && e.deltaX === 0) {
+        setCamera(prev => panBy(prev, -e.deltaY, 0));
+      } else {
+        setCamera(prev => panBy(prev, -e.deltaX, -e.deltaY));
+      }
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [viewportRef, getViewportPoint]);
+
+  // Two fingers pan and pinch-zoom. Listening in the capture phase sees touches that
+  // land on shapes too; what the first finger started carries on underneath.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const measure = () => {
+      const [a, b] = [...touches.current.values()];
+      return {
+        center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+        distance: Math.max(Math.hypot(b.x - a.x, b.y - a.y), 1)
+      };
+    };
+
+    const handleDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch' || isPalmTouch(e)) return;
+      touches.current.set(e.pointerId, getViewportPoint(e.clientX, e.clientY));
+      if (touches.current.size === 2) {
+        pinch.current = measure();
+        didPan.current = true;
+        setIsPinching(true);
+      }
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      if (!touches.current.has(e.pointerId)) return;
+      touches.current.set(e.pointerId, getViewportPoint(e.clientX, e.clientY));
+      const previous = pinch.current;
+      if (!previous || touches.current.size < 2) return;
+
+      const next = measure();
+      pinch.current = next;
+      setCamera(prev => zoomAt(
+        panBy(prev, next.center.x - previous.center.x, next.center.y - previous.center.y),
+        next.center,
+        prev.zoom * (next.distance / previous.distance)
+      ));
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      if (!touches.current.delete(e.pointerId)) return;
+      if (pinch.current && touches.current.size < 2) {
+        pinch.current = null;
+        setIsPinching(false);
+      }
+    };
+
+    const unwatchStylus = watchStylus(window);
+    viewport.addEventListener('pointerdown', handleDown, true);
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      unwatchStylus();
+      viewport.removeEventListener('pointerdown', handleDown, true);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [viewportRef, getViewportPoint]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isTextInput(e.target)) {
+        e.preventDefault();
+        setIsSpacePressed(true);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        setIsSpacePressed(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isPanning) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!lastPanPoint.current) return;
+      const dx = e.clientX - lastPanPoint.current.x;
+      const dy = e.clientY - lastPanPoint.current.y;
+      lastPanPoint.current = { x: e.clientX, y: e.clientY };
+      if (dx !== 0 || dy !== 0) didPan.current = true;
+      setCamera(prev => panBy(prev, dx, dy));
+    };
+
+    const handlePointerUp = () => {
+      lastPanPoint.current = null;
+      setIsPanning(false);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [isPanning]);
+
+  // Space+drag or middle-button drag pans, and keeps the press away from shapes.
+  // Stopping the pointerdown while it is captured keeps it from reaching the shapes' drag handlers.
+  const onPanStart = useCallback((e: React.PointerEvent) => {
+    if (!isSpacePressed && e.button !== 1) return;
+    e.preventDefault();
+    e.stopPropagation();
+    didPan.current = false;
+    lastPanPoint.current = { x: e.clientX, y: e.clientY };
+    setIsPanning(true);
+  }, [isSpacePressed]);
+
+  // True once after a pan gesture so the trailing click doesn't clear the selection
+  const consumePanClick = useCallback(() => {
+    const panned = didPan.current;
+    didPan.current = false;
+    return panned;
+  }, []);
+
+  const zoomTo = useCallback((zoom: number) => {
+    const { width, height } = getViewportSize();
+    setCamera(prev => zoomAt(prev, { x: width / 2, y: height / 2 }, zoom));
+  }, [getViewportSize]);
+
+  const zoomIn = useCallback(() => zoomTo(camera.zoom * 1.25), [camera.zoom, zoomTo]);
+  const zoomOut = useCallback(() => zoomTo(camera.zoom / 1.25), [camera.zoom, zoomTo]);
+
+  const zoomToBounds = useCallback((bounds: Bounds | null, maxZoom = 1) => {
+    if (!bounds) {
+      setCamera(DEFAULT_CAMERA);
+      return;
+    }
+    setCamera(fitBounds(bounds, getViewportSize(), 50, maxZoom));
+  }, [getViewportSize]);
+
+  return {
+    camera,
+    setCamera,
+    isPanning,
+    isPinching,
+    isSpacePressed,
+    onPanStart,
+    consumePanClick,
+    getViewportPoint,
+    getViewportSize,
+    clientToWorld,
+    zoomTo,
+    zoomIn,
+    zoomOut,
+    zoomToBounds
+  };
+};
@@ -0,0 +1,206 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { DiagramState } from '../types';
+import { DiagramChange, diffDiagrams } from '../lib/diff';
+import {
+  applyOperation,
+  changesToOperations,
+  chunkOperations,
+  CollabDoc,
+  CollabOperation,
+  createDoc,
+  docToOperations,
+  materialize
+} from '../lib/collab/crdt';
+import { CollabMessage, CollabTransport, createTransport } from '../lib/collab/transport';
+import {
+  Peer,
+  Presence,
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_THROTTLE_MS,
+  PRESENCE_TIMEOUT_MS
+} from '../lib/collab/presence';
+
+export type CollabStatus = 'offline' | 'connecting' | 'live';
+
+// Well under Supabase Realtime's per-message payload limit, so a late joiner
+// gets a large board as several messages rather than none
+const SYNC_CHUNK_BYTES = 64 * 1024;
+
+interface UseCollaborationOptions {
+  room?: string;
+  enabled: boolean;
+  state: DiagramState;
+  onRemoteChanges: (changes: DiagramChange[]) => void;
+  createTransportForRoom?: (room: string) => CollabTransport;
+}
+
+// Keeps the local board and everyone else on `room` in sync. Local edits are
+// diffed against the last synced board and broadcast as CRDT operations;
+// remote operations are merged into the doc and handed back as board changes.
+// Presence (cursors, selections, viewports) rides the same transport.
+export const useCollaboration = ({
+  room,
+  enabled,
+  state,
+  onRemoteChanges,
+  createTransportForRoom = createTransport
+}: UseCollaborationOptions) => {
+  const clientId = useMemo(() => uuidv4(), []);
+  const [status, setStatus] = useState<CollabStatus>('offline');
+  const docRef = useRef<CollabDoc | null>(null);
+  const syncedRef = useRef<DiagramState>(state);
+  const stateRef = useRef<DiagramState>(state);
+  const transportRef = useRef<CollabTransport | null>(null);
+  const onRemoteChangesRef = useRef(onRemoteChanges);
+  const [peers, setPeers] = useState<Record<string, Peer>>({});
+  const presenceRef = useRef<Presence | null>(null);
+  const presenceTimerRef = useRef<number | null>(null);
+
+  stateRef.current = state;
+  onRemoteChangesRef.current = onRemoteChanges;
+
+  const send = useCallback((message: CollabMessage) => {
+    transportRef.current?.send(message);
+  }, []);
+
+  const sendPresence = useCallback(() => {
+    presenceTimerRef.current = null;
+    if (presenceRef.current) {
+      send({ type: 'presence', clientId, presence: presenceRef.current });
+    }
+  }, [clientId, send]);
+
+  // Merges into the local presence and broadcasts it, throttled
+  const updatePresence = useCallback((partial: Partial<Presence>) => {
+    presenceRef.current = { ...presenceRef.current, ...partial } as Presence;
+    if (presenceTimerRef.current === null) {
+      presenceTimerRef.current = window.setTimeout(sendPresence, PRESENCE_THROTTLE_MS);
+    }
+  }, [sendPresence]);
+
+  const flushLocal = useCallback((current: DiagramState) => {
+    const doc = docRef.current;
+    if (!doc) return;
+
+    const changes = diffDiagrams(syncedRef.current, current);
+    syncedRef.current = current;
+    if (changes.length === 0) return;
+
+    const ops = changesToOperations(doc, clientId, changes);
+    ops.forEach(op => applyOperation(doc, op));
+    send({ type: 'ops', clientId, ops });
+  }, [clientId, send]);
+
+  const receiveOperations = useCallback((ops: CollabOperation[]) => {
+    const doc = docRef.current;
+    if (!doc) return;
+
+    // Anything edited locally but not yet broadcast must be in the doc before merging
+    flushLocal(stateRef.current);
+
+    let changed = false;
+    ops.forEach(op => {
+      if (applyOperation(doc, op)) changed = true;
+    });
+    if (!changed) return;
+
+    const merged = materialize(doc);
+    const changes = diffDiagrams(syncedRef.current, merged);
+    syncedRef.current = merged;
+    if (changes.length > 0) onRemoteChangesRef.current(changes);
+  }, [flushLocal]);
+
+  useEffect(() => {
+    if (!enabled || !room) return;
+
+    docRef.current = createDoc(stateRef.current);
+    syncedRef.current = stateRef.current;
+
+    const transport = createTransportForRoom(room);
+    transportRef.current = transport;
+    let cancelled = false;
+
+    const handleMessage = (message: CollabMessage) => {
+      if (message.clientId === clientId || !docRef.current) return;
+
+      switch (message.type) {
+        case 'ops':
+          receiveOperations(message.ops);
+          break;
+        case 'sync-request':
+          flushLocal(stateRef.current);
+          chunkOperations(docToOperations(docRef.current), SYNC_CHUNK_BYTES).forEach(ops => {
+            transport.send({ type: 'sync-state', clientId, to: message.clientId, ops });
+          });
+          sendPresence();
+          break;
+        case 'sync-state':
+          if (message.to === clientId) receiveOperations(message.ops);
+          break;
+        case 'presence':
+          setPeers(prev => ({
+            ...prev,
+            [message.clientId]: { ...message.presence, clientId: message.clientId, lastSeen: Date.now() }
+          }));
+          break;
+        case 'leave':
+          setPeers(prev => {
+            const next = { ...prev };
+            delete next[message.clientId];
+            return next;
+          });
+          break;
+      }
+    };
+
+    // Rebroadcast presence now and then, and forget peers that went quiet
+    const heartbeat = window.setInterval(() => {
+      sendPresence();
+      const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+      setPeers(prev => {
+        const stale = Object.values(prev).filter(peer => peer.lastSeen < cutoff);
+        if (stale.length === 0) return prev;
+        const next = { ...prev };
+        stale.forEach(peer => delete next[peer.clientId]);
+        return next;
+      });
+    }, PRESENCE_HEARTBEAT_MS);
+
+    setStatus('connecting');
+    transport.connect(handleMessage)
+      .then(() => {
+        if (cancelled) return;
+        setStatus('live');
+        transport.send({ type: 'sync-request', clientId });
+        sendPresence();
+      })
+      .catch(error => {
+        console.error('Collaboration connection failed:', error);
+        if (!cancelled) setStatus('offline');
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(heartbeat);
+      transport.send({ type: 'leave', clientId });
+      transport.disconnect();
+      transportRef.current = null;
+      docRef.current = null;
+      setStatus('offline');
+      setPeers({});
+    };
+  }, [enabled, room, clientId, createTransportForRoom, flushLocal, receiveOperations, sendPresence]);
+
+  useEffect(() => {
+    return () => {
+      if (presenceTimerRef.current !== null) window.clearTimeout(presenceTimerRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    flushLocal(state);
+  }, [state, flushLocal]);
+
+  return { clientId, status, peers: Object.values(peers), updatePresence };
+};
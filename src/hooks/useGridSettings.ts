@@ -0,0 +1,32 @@
+import { useState, useCallback } from 'react';
+import { DEFAULT_GRID_SETTINGS, GridSettings } from '../lib/snapping';
+
+const STORAGE_KEY = 'diagram-grid-settings';
+
+const loadSettings = (): GridSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_GRID_SETTINGS, ...JSON.parse(stored) } : DEFAULT_GRID_SETTINGS;
+  } catch {
+    return DEFAULT_GRID_SETTINGS;
+  }
+};
+
+// Grid and snapping preferences belong to the user rather than the board, so they live in localStorage
+export const useGridSettings = () => {
+  const [settings, setSettings] = useState<GridSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<GridSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...changes };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage may be full or disabled; the settings still apply for this session
+      }
+      return next;
+    });
+  }, []);
+
+  return [settings, updateSettings] as const;
+};
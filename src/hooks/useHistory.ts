@@ -0,0 +1,47 @@
+import { useReducer, useCallback } from 'react';
+import { DiagramState } from '../types';
+import { createHistory, DiagramUpdater, historyReducer } from '../lib/history';
+import { DiagramChange } from '../lib/diff';
+
+export const useHistory = (initialState: DiagramState) => {
+  const [history, dispatch] = useReducer(historyReducer, initialState, createHistory);
+
+  const apply = useCallback((label: string, updater: DiagramUpdater) => {
+    dispatch({ type: 'APPLY', label, updater });
+  }, []);
+
+  const beginTransaction = useCallback((label: string) => {
+    dispatch({ type: 'BEGIN', label });
+  }, []);
+
+  const commitTransaction = useCallback(() => {
+    dispatch({ type: 'COMMIT' });
+  }, []);
+
+  const cancelTransaction = useCallback(() => {
+    dispatch({ type: 'CANCEL' });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'UNDO' }), []);
+  const redo = useCallback(() => dispatch({ type: 'REDO' }), []);
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'JUMP', index }), []);
+  const reset = useCallback((state: DiagramState) => dispatch({ type: 'RESET', state }), []);
+  const applyRemote = useCallback((changes: DiagramChange[]) => dispatch({ type: 'REMOTE', changes }), []);
+
+  return {
+    state: history.present,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length,
+    apply,
+    beginTransaction,
+    commitTransaction,
+    cancelTransaction,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+    applyRemote
+  };
+};
@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LocalDraft } from '../types';
+import { listDrafts } from '../lib/drafts';
+
+// Drafts kept in this browser, reloaded while `enabled` whenever `savedAt` moves on
+export const useLocalDrafts = (enabled: boolean, savedAt: number) => {
+  const [drafts, setDrafts] = useState<LocalDraft[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDrafts(await listDrafts());
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, savedAt, refresh]);
+
+  return { drafts, refresh };
+};
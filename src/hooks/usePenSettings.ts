@@ -0,0 +1,62 @@
+import { useState, useCallback } from 'react';
+import { PenType } from '../types';
+import { DEFAULT_PEN_STYLES, DEFAULT_SMOOTHING, PenSettings, PenStyle } from '../lib/ink';
+
+const STORAGE_KEY = 'diagram-pen-settings';
+
+interface StoredPenSettings {
+  pen: PenType;
+  smoothing: number;
+  recognizeShapes: boolean;
+  styles: Record<PenType, PenStyle>;
+}
+
+const DEFAULT_STORED: StoredPenSettings = {
+  pen: 'fineliner',
+  smoothing: DEFAULT_SMOOTHING,
+  recognizeShapes: false,
+  styles: DEFAULT_PEN_STYLES
+};
+
+const loadSettings = (): StoredPenSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_STORED;
+    const parsed = JSON.parse(stored);
+    return { ...DEFAULT_STORED, ...parsed, styles: { ...DEFAULT_PEN_STYLES, ...parsed.styles } };
+  } catch {
+    return DEFAULT_STORED;
+  }
+};
+
+// Pen preferences belong to the user rather than the board, so they live in localStorage.
+// Colour, width and opacity changes apply to the current pen only.
+export const usePenSettings = () => {
+  const [stored, setStored] = useState<StoredPenSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<PenSettings>) => {
+    setStored(current => {
+      const { pen = current.pen, smoothing = current.smoothing, recognizeShapes = current.recognizeShapes, ...style } = changes;
+      const next = {
+        pen,
+        smoothing,
+        recognizeShapes,
+        styles: { ...current.styles, [pen]: { ...current.styles[pen], ...style } }
+      };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage may be full or disabled; the settings still apply for this session
+      }
+      return next;
+    });
+  }, []);
+
+  const settings: PenSettings = {
+    ...stored.styles[stored.pen],
+    pen: stored.pen,
+    smoothing: stored.smoothing,
+    recognizeShapes: stored.recognizeShapes
+  };
+  return [settings, updateSettings] as const;
+};
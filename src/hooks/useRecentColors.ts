@@ -0,0 +1,33 @@
+import { useState, useCallback } from 'react';
+
+const STORAGE_KEY = 'diagram-recent-colors';
+const MAX_RECENT_COLORS = 10;
+
+const loadColors = (): string[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(color => typeof color === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Most recently picked colours first, remembered per user across boards
+export const useRecentColors = () => {
+  const [colors, setColors] = useState<string[]>(loadColors);
+
+  const addColor = useCallback((color: string) => {
+    setColors(current => {
+      const next = [color, ...current.filter(c => c.toLowerCase() !== color.toLowerCase())].slice(0, MAX_RECENT_COLORS);
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage may be full or disabled; the list still works for this session
+      }
+      return next;
+    });
+  }, []);
+
+  return [colors, addColor] as const;
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DiagramState } from '../types';
+import { EMPTY_SELECTION, getSelectionSize, mergeSelections, pruneSelection, Selection } from '../lib/selection';
+
+const toggle = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+// Adds `target` to the selection, or takes it out again when all of it is already in
+const toggleAll = (current: Selection, target: Selection): Selection => {
+  const isIn = target.shapeIds.every(id => current.shapeIds.includes(id)) &&
+    target.connectionIds.every(id => current.connectionIds.includes(id)) &&
+    target.drawingIds.every(id => current.drawingIds.includes(id));
+
+  return isIn
+    ? {
+        shapeIds: current.shapeIds.filter(id => !target.shapeIds.includes(id)),
+        connectionIds: current.connectionIds.filter(id => !target.connectionIds.includes(id)),
+        drawingIds: current.drawingIds.filter(id => !target.drawingIds.includes(id))
+      }
+    : mergeSelections(current, target);
+};
+
+// Which shapes and connections are selected. `selectedShape` and
+// `selectedConnection` are only set while exactly one element is selected,
+// which is when its own toolbar and handles are shown.
+export const useSelection = (state: DiagramState) => {
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+
+  useEffect(() => {
+    setSelection(current => pruneSelection(state, current));
+  }, [state]);
+
+  // A click selects a shape or a whole group, so shapes come in as a selection of their own
+  const selectElements = useCallback((target: Selection, additive = false) => {
+    setSelection(current => (additive ? toggleAll(current, target) : target));
+  }, []);
+
+  const selectConnection = useCallback((id: string, additive = false) => {
+    setSelection(current => additive
+      ? { ...current, connectionIds: toggle(current.connectionIds, id) }
+      : { shapeIds: [], connectionIds: [id], drawingIds: [] });
+  }, []);
+
+  const clearSelection = useCallback(() => setSelection(EMPTY_SELECTION), []);
+
+  const isSingle = getSelectionSize(selection) === 1;
+
+  return {
+    selection,
+    setSelection,
+    selectElements,
+    selectConnection,
+    clearSelection,
+    selectedShape: isSingle ? selection.shapeIds[0] ?? null : null,
+    selectedConnection: isSingle ? selection.connectionIds[0] ?? null : null,
+    isMultiSelection: getSelectionSize(selection) > 1
+  };
+};
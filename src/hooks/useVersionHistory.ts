@@ -0,0 +1,42 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { DiagramState, DiagramVersion } from '../types';
+import { fetchVersionData, fetchVersions } from '../lib/versions';
+
+// Version list for one saved diagram. Snapshots are immutable, so their data
+// is cached once loaded.
+export const useVersionHistory = (diagramId: string | null, enabled: boolean) => {
+  const [versions, setVersions] = useState<DiagramVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const dataCacheRef = useRef(new Map<string, DiagramState>());
+
+  const refresh = useCallback(async () => {
+    if (!diagramId) {
+      setVersions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setVersions(await fetchVersions(diagramId));
+    } catch (error) {
+      console.error('Error loading versions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [diagramId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  const loadVersionData = useCallback(async (versionId: string) => {
+    const cached = dataCacheRef.current.get(versionId);
+    if (cached) return cached;
+
+    const data = await fetchVersionData(versionId);
+    dataCacheRef.current.set(versionId, data);
+    return data;
+  }, []);
+
+  return { versions, isLoading, refresh, loadVersionData };
+};
@@ -0,0 +1,90 @@
+import { Bounds, DiagramState } from '../types';
+import { getShapeBounds, unionBounds } from './geometry';
+import { getGroupBounds, getGroupShapeIds, getGroups, getSelectionItems } from './groups';
+import { getDrawingBounds, moveSelection, Selection } from './selection';
+
+// Align and distribute over a multi-selection. Each top-level group of the
+// scope moves as one item, so its members keep their layout.
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+interface AlignItem {
+  bounds: Bounds;
+  selection: Selection;
+}
+
+const getAlignItems = (state: DiagramState, selection: Selection, scopeId: string | null): AlignItem[] => {
+  const groupIds = new Set(getGroups(state).map(group => group.id));
+  const items: AlignItem[] = [];
+
+  getSelectionItems(state, selection, scopeId).forEach(id => {
+    if (groupIds.has(id)) {
+      const bounds = getGroupBounds(state, id);
+      if (bounds) items.push({ bounds, selection: { shapeIds: getGroupShapeIds(state, id), connectionIds: [], drawingIds: [] } });
+      return;
+    }
+    const shape = state.shapes.find(s => s.id === id);
+    if (shape) items.push({ bounds: getShapeBounds(shape), selection: { shapeIds: [id], connectionIds: [], drawingIds: [] } });
+  });
+
+  state.drawings
+    .filter(drawing => selection.drawingIds.includes(drawing.id) && drawing.points.length > 0)
+    .forEach(drawing => items.push({
+      bounds: getDrawingBounds(drawing),
+      selection: { shapeIds: [], connectionIds: [], drawingIds: [drawing.id] }
+    }));
+
+  return items;
+};
+
+export const getAlignItemCount = (state: DiagramState, selection: Selection, scopeId: string | null) =>
+  getAlignItems(state, selection, scopeId).length;
+
+// Inner connections move with their shapes, so waypoints stay attached
+const moveItem = (state: DiagramState, item: AlignItem, dx: number, dy: number) =>
+  dx === 0 && dy === 0 ? state : moveSelection(state, item.selection, dx, dy);
+
+export const alignSelection = (state: DiagramState, selection: Selection, scopeId: string | null, mode: AlignMode): DiagramState => {
+  const items = getAlignItems(state, selection, scopeId);
+  const target = unionBounds(items.map(item => item.bounds));
+  if (items.length < 2 || !target) return state;
+
+  return items.reduce((next, item) => {
+    const { bounds } = item;
+    switch (mode) {
+      case 'left': return moveItem(next, item, target.x - bounds.x, 0);
+      case 'center': return moveItem(next, item, target.x + (target.width - bounds.width) / 2 - bounds.x, 0);
+      case 'right': return moveItem(next, item, target.x + target.width - bounds.width - bounds.x, 0);
+      case 'top': return moveItem(next, item, 0, target.y - bounds.y);
+      case 'middle': return moveItem(next, item, 0, target.y + (target.height - bounds.height) / 2 - bounds.y);
+      case 'bottom': return moveItem(next, item, 0, target.y + target.height - bounds.height - bounds.y);
+    }
+  }, state);
+};
+
+// Equal gaps between neighbours; the outermost items stay where they are
+export const distributeSelection = (
+  state: DiagramState,
+  selection: Selection,
+  scopeId: string | null,
+  axis: DistributeAxis
+): DiagramState => {
+  const items = getAlignItems(state, selection, scopeId);
+  if (items.length < 3) return state;
+
+  const key = axis === 'horizontal' ? 'x' : 'y';
+  const length = (bounds: Bounds) => (axis === 'horizontal' ? bounds.width : bounds.height);
+  const sorted = [...items].sort((a, b) => a.bounds[key] - b.bounds[key]);
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const span = last[key] + length(last) - first[key];
+  const gap = (span - sorted.reduce((sum, item) => sum + length(item.bounds), 0)) / (sorted.length - 1);
+
+  let cursor = first[key];
+  return sorted.reduce((next, item) => {
+    const delta = cursor - item.bounds[key];
+    cursor += length(item.bounds) + gap;
+    return axis === 'horizontal' ? moveItem(next, item, delta, 0) : moveItem(next, item, 0, delta);
+  }, state);
+};
@@ -0,0 +1,69 @@
+import { Bounds, Camera, Point } from '../types';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+export const DEFAULT_CAMERA: Camera = { x: 0, y: 0, zoom: 1 };
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (camera: Camera, point: Point): Point => ({
+  x: (point.x - camera.x) / camera.zoom,
+  y: (point.y - camera.y) / camera.zoom
+});
+
+export const worldToScreen = (camera: Camera, point: Point): Point => ({
+  x: point.x * camera.zoom + camera.x,
+  y: point.y * camera.zoom + camera.y
+});
+
+// Zoom while keeping the world point under `anchor` (a viewport point) fixed
+export const zoomAt = (camera: Camera, anchor: Point, zoom: number): Camera => {
+  const nextZoom = clampZoom(zoom);
+  const world = screenToWorld(camera, anchor);
+
+  return {
+    x: anchor.x - world.x * nextZoom,
+    y: anchor.y - world.y * nextZoom,
+    zoom: nextZoom
+  };
+};
+
+export const panBy = (camera: Camera, dx: number, dy: number): Camera => ({
+  ...camera,
+  x: camera.x + dx,
+  y: camera.y + dy
+});
+
+// Camera that centres `bounds` inside a viewport of the given size
+export const fitBounds = (
+  bounds: Bounds,
+  viewport: { width: number; height: number },
+  padding = 50,
+  maxZoom = 1
+): Camera => {
+  const availableWidth = Math.max(1, viewport.width - padding * 2);
+  const availableHeight = Math.max(1, viewport.height - padding * 2);
+  const zoom = clampZoom(Math.min(
+    maxZoom,
+    availableWidth / Math.max(1, bounds.width),
+    availableHeight / Math.max(1, bounds.height)
+  ));
+
+  return {
+    x: viewport.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+    y: viewport.height / 2 - (bounds.y + bounds.height / 2) * zoom,
+    zoom
+  };
+};
+
+// Visible world rectangle for a viewport of the given size
+export const getVisibleWorldBounds = (camera: Camera, viewport: { width: number; height: number }): Bounds => {
+  const topLeft = screenToWorld(camera, { x: 0, y: 0 });
+  return {
+    x: topLeft.x,
+    y: topLeft.y,
+    width: viewport.width / camera.zoom,
+    height: viewport.height / camera.zoom
+  };
+};
@@ -0,0 +1,174 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Bounds, Connection, DiagramState, DrawingPath, Shape, ShapeGroup } from '../types';
+import { getShapeBounds, translateShape, unionBounds } from './geometry';
+import { getGroups, getShapeGroupPath } from './groups';
+import { getDrawingBounds, getInnerConnections, Selection } from './selection';
+
+// Copy and paste of board content. The payload travels through the system
+// clipboard under its own MIME type, so it can be pasted into another tab or
+// board, while other apps only see the plain text of the copied shapes.
+
+export const CLIPBOARD_MIME = 'application/x-diagram-clipboard+json';
+
+const PAYLOAD_VERSION = 1;
+
+export interface ClipboardPayload {
+  version: number;
+  shapes: Shape[];
+  connections: Connection[];
+  drawings: DrawingPath[];
+  groups: ShapeGroup[];
+}
+
+export const getPayloadBounds = (payload: ClipboardPayload): Bounds | null =>
+  unionBounds([
+    ...payload.shapes.map(getShapeBounds),
+    ...payload.drawings.filter(d => d.points.length > 0).map(getDrawingBounds)
+  ]);
+
+// Connections travel only when both of their shapes do; groups only when all their shapes do.
+// The entered group and the groups around it stay behind.
+export const copySelection = (state: DiagramState, selection: Selection, scopeId: string | null = null): ClipboardPayload | null => {
+  const shapeIds = new Set(selection.shapeIds);
+  const shapes = state.shapes.filter(shape => shapeIds.has(shape.id));
+  const drawings = state.drawings.filter(drawing => selection.drawingIds.includes(drawing.id));
+  if (shapes.length === 0 && drawings.length === 0) return null;
+
+  const allGroups = getGroups(state);
+  const paths = new Map(state.shapes.map(shape => [shape.id, getShapeGroupPath(allGroups, shape)]));
+  const groups = allGroups.filter(group => {
+    const members = state.shapes.filter(shape => paths.get(shape.id)!.includes(group.id));
+    return members.every(shape => shapeIds.has(shape.id)) &&
+      shapes.some(shape => {
+        const path = paths.get(shape.id)!;
+        const index = path.indexOf(group.id);
+        return index !== -1 && (scopeId === null || path.indexOf(scopeId) > index);
+      });
+  });
+  const groupIds = new Set(groups.map(group => group.id));
+  // Re-home members of partially copied groups into the nearest group that was copied whole
+  const nearestGroup = (shape: Shape) => getShapeGroupPath(allGroups, shape).find(id => groupIds.has(id));
+
+  return {
+    version: PAYLOAD_VERSION,
+    shapes: shapes.map(shape => ({ ...shape, groupId: nearestGroup(shape) })),
+    connections: getInnerConnections(state.connections, selection.shapeIds),
+    drawings,
+    groups: groups.map(group => ({
+      ...group,
+      parentId: group.parentId && groupIds.has(group.parentId) ? group.parentId : undefined
+    }))
+  };
+};
+
+export const serializePayload = (payload: ClipboardPayload) => JSON.stringify(payload);
+
+// Returns null for anything that is not a payload this version understands
+export const parsePayload = (data: string): ClipboardPayload | null => {
+  try {
+    const payload = JSON.parse(data);
+    if (payload?.version !== PAYLOAD_VERSION || !Array.isArray(payload.shapes)) return null;
+
+    return {
+      version: PAYLOAD_VERSION,
+      shapes: payload.shapes,
+      connections: payload.connections || [],
+      drawings: payload.drawings || [],
+      groups: payload.groups || []
+    };
+  } catch {
+    return null;
+  }
+};
+
+// What other apps get: the text of the copied shapes
+export const getPayloadText = (payload: ClipboardPayload) =>
+  payload.shapes.map(shape => shape.text).filter(Boolean).join('\n');
+
+// A copy of the payload with fresh ids, moved by (dx, dy). Top-level items land in `scopeId`.
+export const instantiatePayload = (
+  payload: ClipboardPayload,
+  dx: number,
+  dy: number,
+  scopeId: string | null = null
+): ClipboardPayload & { selection: Selection } => {
+  const ids = new Map<string, string>();
+  const remap = (id: string) => {
+    if (!ids.has(id)) ids.set(id, uuidv4());
+    return ids.get(id)!;
+  };
+  const remapGroup = (id: string | undefined) => (id ? remap(id) : scopeId ?? undefined);
+
+  // Copies drop their place in the stack so they land on top of it
+  const shapes = payload.shapes.map(shape => ({
+    ...translateShape(shape, dx, dy),
+    id: remap(shape.id),
+    groupId: remapGroup(shape.groupId),
+    zIndex: undefined
+  }));
+  const connections = payload.connections.map(connection => ({
+    ...connection,
+    id: remap(connection.id),
+    from: remap(connection.from),
+    to: remap(connection.to),
+    points: connection.points.map(point => ({ x: point.x + dx, y: point.y + dy })),
+    zIndex: undefined,
+    ...(connection.labels ? { labels: connection.labels.map(label => ({ ...label, id: uuidv4() })) } : {})
+  }));
+  const drawings = payload.drawings.map(drawing => ({
+    ...drawing,
+    id: remap(drawing.id),
+    points: drawing.points.map(point => ({ ...point, x: point.x + dx, y: point.y + dy })),
+    zIndex: undefined
+  }));
+  const groups = payload.groups.map(group => ({
+    ...group,
+    id: remap(group.id),
+    parentId: remapGroup(group.parentId)
+  }));
+
+  return {
+    version: PAYLOAD_VERSION,
+    shapes,
+    connections,
+    drawings,
+    groups,
+    selection: {
+      shapeIds: shapes.map(shape => shape.id),
+      connectionIds: connections.map(connection => connection.id),
+      drawingIds: drawings.map(drawing => drawing.id)
+    }
+  };
+};
+
+export const addPayload = (state: DiagramState, payload: ClipboardPayload): DiagramState => ({
+  ...state,
+  shapes: [...state.shapes, ...payload.shapes],
+  connections: [...state.connections, ...payload.connections],
+  drawings: payload.drawings.length > 0 ? [...state.drawings, ...payload.drawings] : state.drawings,
+  groups: payload.groups.length > 0 ? [...getGroups(state), ...payload.groups] : state.groups
+});
+
+// Largest side of a pasted image on the board
+const MAX_IMAGE_SIZE = 400;
+
+export const readImageFile = (file: File): Promise<{ src: string; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+      const src = reader.result as string;
+      const image = new Image();
+      image.onerror = () => reject(new Error('Unsupported image'));
+      image.onload = () => {
+        const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight, 1));
+        resolve({
+          src,
+          width: Math.max(1, Math.round(image.naturalWidth * scale)),
+          height: Math.max(1, Math.round(image.naturalHeight * scale))
+        });
+      };
+      image.src = src;
+    };
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,364 @@
+import { DiagramState } from '../../types';
+import { COLLECTIONS, CollectionName, DiagramChange } from '../diff';
+
+// A state-based CRDT for the board. Every element field (a shape's position,
+// borderColor, ...) is a last-writer-wins register stamped with a Lamport
+// clock, so concurrent edits to different fields of the same shape both
+// survive and edits to the same field converge on the same winner everywhere.
+// Text is the exception: it is a sequence of characters (an RGA), so two people
+// typing into the same shape at once both keep what they typed.
+// Removal is a tombstone; a later write to the element brings it back, so a
+// drag that races a delete never silently drops the shape.
+//
+// Docs are mutated in place: a session keeps one doc and feeds it operations.
+
+export interface Clock {
+  counter: number;
+  clientId: string;
+}
+
+interface Register {
+  value: unknown;
+  clock: Clock;
+}
+
+interface TextChar {
+  // Unique across the session; ties between characters of one insert are broken by it
+  id: string;
+  clock: Clock;
+  // The character this one was typed after, null at the start of the text
+  after: string | null;
+  value: string;
+  deleted?: boolean;
+}
+
+interface TextSequence {
+  // In document order, deleted characters included
+  chars: TextChar[];
+  // Inserts whose preceding character hasn't arrived yet
+  pending: TextChar[];
+  // Deletes of characters that haven't arrived yet
+  deletedIds: string[];
+  // Latest edit, so typing into a removed shape brings it back like any other write
+  clock: Clock;
+}
+
+interface ElementRecord {
+  created: Clock;
+  removed?: Clock;
+  fields: Record<string, Register>;
+  texts?: Record<string, TextSequence>;
+}
+
+export interface CollabDoc {
+  elements: Record<CollectionName, Record<string, ElementRecord>>;
+  meta: Record<string, Register>;
+  // Highest counter seen, local or remote
+  counter: number;
+}
+
+export type CollabOperation =
+  | { type: 'set'; collection: CollectionName; id: string; field: string; value: unknown; clock: Clock; created?: Clock }
+  | { type: 'remove'; collection: CollectionName; id: string; clock: Clock }
+  | { type: 'meta'; field: string; value: unknown; clock: Clock }
+  | {
+    type: 'text';
+    collection: CollectionName;
+    id: string;
+    field: string;
+    inserts: TextChar[];
+    deletes: string[];
+    clock: Clock;
+    created?: Clock;
+  };
+
+// Fields merged character by character rather than as a whole
+const TEXT_FIELDS = new Set(['text']);
+
+// Clock shared by every client for the state loaded from the database
+const ORIGIN: Clock = { counter: 0, clientId: '' };
+
+export const compareClocks = (a: Clock, b: Clock) => {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+};
+
+export const createDoc = (state: DiagramState): CollabDoc => {
+  const doc: CollabDoc = {
+    elements: { shapes: {}, connections: {}, drawings: {}, groups: {}, layers: {} },
+    meta: {},
+    counter: 0
+  };
+
+  COLLECTIONS.forEach(collection => {
+    ((state[collection] || []) as unknown as ({ id: string } & Record<string, unknown>)[]).forEach(element => {
+      const entries = Object.entries(element);
+      doc.elements[collection][element.id] = {
+        created: ORIGIN,
+        fields: Object.fromEntries(
+          entries
+            .filter(([field, value]) => !isTextField(field, value))
+            .map(([field, value]) => [field, { value, clock: ORIGIN }])
+        ),
+        texts: Object.fromEntries(
+          entries
+            .filter(([field, value]) => isTextField(field, value))
+            .map(([field, value]) => [field, createOriginText(value as string)])
+        )
+      };
+    });
+  });
+  doc.meta.backgroundColor = { value: state.backgroundColor, clock: ORIGIN };
+
+  return doc;
+};
+
+const isTextField = (field: string, value: unknown) => TEXT_FIELDS.has(field) && typeof value === 'string';
+
+const compareChars = (a: TextChar, b: TextChar) => compareClocks(a.clock, b.clock) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Every client loads the same text from the database, so its characters get the same ids everywhere
+const createOriginText = (text: string): TextSequence => ({
+  chars: Array.from(text, (value, i) => ({ id: `origin:${i}`, clock: ORIGIN, after: i > 0 ? `origin:${i - 1}` : null, value })),
+  pending: [],
+  deletedIds: [],
+  clock: ORIGIN
+});
+
+const getText = (sequence: TextSequence) =>
+  sequence.chars.filter(char => !char.deleted).map(char => char.value).join('');
+
+// RGA insert: right after the preceding character, but past any newer characters
+// typed after it concurrently, which keeps every replica in the same order
+const insertChar = (sequence: TextSequence, char: TextChar) => {
+  if (sequence.chars.some(existing => existing.id === char.id)) return true;
+
+  let index = 0;
+  if (char.after !== null) {
+    index = sequence.chars.findIndex(existing => existing.id === char.after) + 1;
+    if (index === 0) return false;
+  }
+  while (index < sequence.chars.length && compareChars(sequence.chars[index], char) > 0) index++;
+  sequence.chars.splice(index, 0, { ...char, deleted: sequence.deletedIds.includes(char.id) });
+  return true;
+};
+
+const applyText = (sequence: TextSequence, inserts: TextChar[], deletes: string[]) => {
+  const before = getText(sequence);
+
+  deletes.forEach(id => {
+    const char = sequence.chars.find(existing => existing.id === id);
+    if (char) char.deleted = true;
+    else if (!sequence.deletedIds.includes(id)) sequence.deletedIds.push(id);
+  });
+
+  // Retry waiting inserts until a pass places none of them
+  let waiting = [...sequence.pending, ...inserts];
+  let placed = true;
+  while (placed && waiting.length > 0) {
+    const remaining = waiting.filter(char => !insertChar(sequence, char));
+    placed = remaining.length < waiting.length;
+    waiting = remaining;
+  }
+  sequence.pending = waiting;
+
+  return getText(sequence) !== before;
+};
+
+// Ops that turn the sequence's text into `text`: the changed middle is deleted and retyped
+const diffText = (sequence: TextSequence, text: string, clock: Clock) => {
+  const visible = sequence.chars.filter(char => !char.deleted);
+  const next = Array.from(text);
+  let prefix = 0;
+  while (prefix < visible.length && prefix < next.length && visible[prefix].value === next[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < visible.length - prefix &&
+    suffix < next.length - prefix &&
+    visible[visible.length - 1 - suffix].value === next[next.length - 1 - suffix]
+  ) suffix++;
+
+  const deletes = visible.slice(prefix, visible.length - suffix).map(char => char.id);
+  const inserts: TextChar[] = [];
+  let after = prefix > 0 ? visible[prefix - 1].id : null;
+  next.slice(prefix, next.length - suffix).forEach((value, i) => {
+    const id = `${clock.counter}@${clock.clientId}:${i}`;
+    inserts.push({ id, clock, after, value });
+    after = id;
+  });
+  return { inserts, deletes };
+};
+
+const emptyText = (clock: Clock): TextSequence => ({ chars: [], pending: [], deletedIds: [], clock });
+
+export const tick = (doc: CollabDoc, clientId: string): Clock => {
+  doc.counter += 1;
+  return { counter: doc.counter, clientId };
+};
+
+const writeRegister = (registers: Record<string, Register>, field: string, value: unknown, clock: Clock) => {
+  const current = registers[field];
+  if (current && compareClocks(current.clock, clock) >= 0) return false;
+  registers[field] = { value, clock };
+  return true;
+};
+
+// Applies an operation; returns false when it lost to what the doc already has
+export const applyOperation = (doc: CollabDoc, op: CollabOperation): boolean => {
+  doc.counter = Math.max(doc.counter, op.clock.counter);
+
+  if (op.type === 'meta') {
+    return writeRegister(doc.meta, op.field, op.value, op.clock);
+  }
+
+  const records = doc.elements[op.collection];
+  let record = records[op.id];
+
+  if (op.type === 'remove') {
+    if (!record) {
+      records[op.id] = { created: op.clock, removed: op.clock, fields: {} };
+      return true;
+    }
+    if (record.removed && compareClocks(record.removed, op.clock) >= 0) return false;
+    record.removed = op.clock;
+    return true;
+  }
+
+  if (!record) {
+    record = { created: op.created ?? op.clock, fields: {} };
+    records[op.id] = record;
+  } else if (op.created && compareClocks(op.created, record.created) < 0) {
+    record.created = op.created;
+  }
+
+  if (op.type === 'text') {
+    record.texts = record.texts || {};
+    const sequence = record.texts[op.field] || (record.texts[op.field] = emptyText(op.clock));
+    const wasVisible = isVisible(record);
+    if (compareClocks(op.clock, sequence.clock) > 0) sequence.clock = op.clock;
+    return applyText(sequence, op.inserts, op.deletes) || isVisible(record) !== wasVisible;
+  }
+  return writeRegister(record.fields, op.field, op.value, op.clock);
+};
+
+const isVisible = (record: ElementRecord) => {
+  if (!record.removed) return true;
+  const removed = record.removed;
+  return Object.values(record.fields).some(register => compareClocks(register.clock, removed) > 0) ||
+    Object.values(record.texts || {}).some(sequence => compareClocks(sequence.clock, removed) > 0);
+};
+
+export const materialize = (doc: CollabDoc): DiagramState => {
+  const state: Record<string, unknown> = {};
+
+  COLLECTIONS.forEach(collection => {
+    state[collection] = Object.entries(doc.elements[collection])
+      .filter(([, record]) => isVisible(record))
+      .sort(([idA, a], [idB, b]) => compareClocks(a.created, b.created) || (idA < idB ? -1 : 1))
+      .map(([id, record]) => {
+        const element: Record<string, unknown> = { id };
+        Object.entries(record.fields).forEach(([field, register]) => {
+          if (register.value !== undefined && register.value !== null) element[field] = register.value;
+        });
+        Object.entries(record.texts || {}).forEach(([field, sequence]) => {
+          element[field] = getText(sequence);
+        });
+        return element;
+      });
+  });
+
+  const backgroundColor = doc.meta.backgroundColor?.value;
+  return {
+    ...(state as unknown as DiagramState),
+    backgroundColor: typeof backgroundColor === 'string' ? backgroundColor : undefined
+  };
+};
+
+// Turns local board changes into stamped operations. Removed fields become
+// null so they survive JSON transport.
+export const changesToOperations = (doc: CollabDoc, clientId: string, changes: DiagramChange[]): CollabOperation[] => {
+  const ops: CollabOperation[] = [];
+
+  changes.forEach(change => {
+    if (change.type === 'meta') {
+      ops.push({ type: 'meta', field: change.field, value: change.value ?? null, clock: tick(doc, clientId) });
+    } else if (change.type === 'remove') {
+      ops.push({ type: 'remove', collection: change.collection, id: change.id, clock: tick(doc, clientId) });
+    } else {
+      const clock = tick(doc, clientId);
+      const sequences = doc.elements[change.collection][change.id]?.texts || {};
+      Object.entries(change.fields).forEach(([field, value]) => {
+        if (field === 'id') return;
+        if (isTextField(field, value) || sequences[field]) {
+          const sequence = sequences[field] || emptyText(clock);
+          const { inserts, deletes } = diffText(sequence, typeof value === 'string' ? value : '', clock);
+          ops.push({ type: 'text', collection: change.collection, id: change.id, field, inserts, deletes, clock, created: clock });
+          return;
+        }
+        ops.push({ type: 'set', collection: change.collection, id: change.id, field, value: value ?? null, clock, created: clock });
+      });
+    }
+  });
+
+  return ops;
+};
+
+// Everything in a doc as operations, used to bring a newly joined peer up to date
+export const docToOperations = (doc: CollabDoc): CollabOperation[] => {
+  const ops: CollabOperation[] = [];
+
+  COLLECTIONS.forEach(collection => {
+    Object.entries(doc.elements[collection]).forEach(([id, record]) => {
+      Object.entries(record.fields).forEach(([field, register]) => {
+        ops.push({ type: 'set', collection, id, field, value: register.value, clock: register.clock, created: record.created });
+      });
+      Object.entries(record.texts || {}).forEach(([field, sequence]) => {
+        ops.push({
+          type: 'text',
+          collection,
+          id,
+          field,
+          inserts: [...sequence.chars, ...sequence.pending].map(({ id, clock, after, value }) => ({ id, clock, after, value })),
+          deletes: [...sequence.chars.filter(char => char.deleted).map(char => char.id), ...sequence.deletedIds],
+          clock: sequence.clock,
+          created: record.created
+        });
+      });
+      if (record.removed) {
+        ops.push({ type: 'remove', collection, id, clock: record.removed });
+      }
+    });
+  });
+  Object.entries(doc.meta).forEach(([field, register]) => {
+    ops.push({ type: 'meta', field, value: register.value, clock: register.clock });
+  });
+
+  return ops;
+};
+
+// Splits operations into batches of roughly `maxBytes` of JSON, for transports that
+// cap message size. An element's operations stay in one batch, so a peer applying
+// batches as they arrive never sees half a shape; one element bigger than the cap
+// (an embedded image) goes alone.
+export const chunkOperations = (ops: CollabOperation[], maxBytes: number): CollabOperation[][] => {
+  const chunks: CollabOperation[][] = [];
+  let chunk: CollabOperation[] = [];
+  let size = 0;
+  let lastKey: string | null = null;
+
+  ops.forEach(op => {
+    const key = op.type === 'meta' ? 'meta' : `${op.collection}:${op.id}`;
+    const opSize = JSON.stringify(op).length;
+    if (key !== lastKey && chunk.length > 0 && size + opSize > maxBytes) {
+      chunks.push(chunk);
+      chunk = [];
+      size = 0;
+    }
+    chunk.push(op);
+    size += opSize;
+    lastKey = key;
+  });
+  if (chunk.length > 0) chunks.push(chunk);
+
+  return chunks;
+};
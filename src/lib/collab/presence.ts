@@ -0,0 +1,51 @@
+import { Camera, Point } from '../../types';
+
+// Ephemeral per-participant state. Unlike board edits it is never merged or
+// stored: each client just rebroadcasts its latest presence.
+export interface Presence {
+  name: string;
+  color: string;
+  // Signed in as the diagram's owner, and so able to save it
+  canSave?: boolean;
+  cursor: Point | null;
+  selectedIds: string[];
+  editingId: string | null;
+  camera: Camera;
+  viewport: { width: number; height: number };
+}
+
+export interface Peer extends Presence {
+  clientId: string;
+  lastSeen: number;
+}
+
+export const PRESENCE_THROTTLE_MS = 50;
+export const PRESENCE_HEARTBEAT_MS = 5000;
+export const PRESENCE_TIMEOUT_MS = 15000;
+
+const PRESENCE_COLORS = ['#E03131', '#1971C2', '#2F9E44', '#F08C00', '#9C36B5', '#0C8599', '#E8590C', '#5C7CFA'];
+
+export const getPresenceColor = (clientId: string) => {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+const GUEST_NAME_KEY = 'whiteboard-guest-name';
+
+// Signed-in users go by their email name; guests keep one random name per browser
+export const getDisplayName = (email?: string | null) => {
+  if (email) return email.split('@')[0];
+
+  let name = localStorage.getItem(GUEST_NAME_KEY);
+  if (!name) {
+    name = `Guest ${Math.floor(100 + Math.random() * 900)}`;
+    localStorage.setItem(GUEST_NAME_KEY, name);
+  }
+  return name;
+};
+
+export const getInitials = (name: string) =>
+  name.split(/[\s._-]+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
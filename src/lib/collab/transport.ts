@@ -0,0 +1,91 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { CollabOperation } from './crdt';
+import { Presence } from './presence';
+
+// Messages exchanged by everyone on one diagram. Transports only relay them;
+// they never interpret the payload.
+export type CollabMessage =
+  | { type: 'ops'; clientId: string; ops: CollabOperation[] }
+  | { type: 'sync-request'; clientId: string }
+  | { type: 'sync-state'; clientId: string; to: string; ops: CollabOperation[] }
+  | { type: 'presence'; clientId: string; presence: Presence }
+  | { type: 'leave'; clientId: string };
+
+export interface CollabTransport {
+  connect: (onMessage: (message: CollabMessage) => void) => Promise<void>;
+  send: (message: CollabMessage) => void;
+  disconnect: () => void;
+}
+
+const COLLAB_EVENT = 'collab';
+
+// Production transport: Supabase Realtime broadcast on a per-diagram channel
+export const createSupabaseTransport = (room: string): CollabTransport => {
+  let channel: RealtimeChannel | null = null;
+
+  return {
+    connect: (onMessage) => new Promise((resolve, reject) => {
+      channel = supabase.channel(`diagram:${room}`, {
+        config: { broadcast: { self: false } }
+      });
+
+      channel
+        .on('broadcast', { event: COLLAB_EVENT }, ({ payload }) => onMessage(payload as CollabMessage))
+        .subscribe(status => {
+          if (status === 'SUBSCRIBED') resolve();
+          if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            reject(new Error(`Realtime channel failed: ${status}`));
+          }
+        });
+    }),
+    send: (message) => {
+      channel?.send({ type: 'broadcast', event: COLLAB_EVENT, payload: message });
+    },
+    disconnect: () => {
+      if (channel) supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+};
+
+// Stand-in for local development and tests: any WebSocket relay that forwards
+// each text frame to the other sockets joined to the same room
+export const createWebSocketTransport = (url: string, room: string): CollabTransport => {
+  let socket: WebSocket | null = null;
+
+  return {
+    connect: (onMessage) => new Promise((resolve, reject) => {
+      const endpoint = new URL(url);
+      endpoint.searchParams.set('room', room);
+      socket = new WebSocket(endpoint.toString());
+
+      socket.onopen = () => resolve();
+      socket.onerror = () => reject(new Error(`WebSocket connection to ${url} failed`));
+      socket.onmessage = (event) => {
+        try {
+          onMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Invalid collaboration message:', error);
+        }
+      };
+    }),
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    disconnect: () => {
+      socket?.close();
+      socket = null;
+    }
+  };
+};
+
+// VITE_COLLAB_WS_URL switches a deployment (or a test run) to the WebSocket relay
+export const createTransport = (room: string): CollabTransport => {
+  const websocketUrl = import.meta.env.VITE_COLLAB_WS_URL;
+  return websocketUrl
+    ? createWebSocketTransport(websocketUrl, room)
+    : createSupabaseTransport(room);
+};
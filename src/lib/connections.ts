@@ -0,0 +1,307 @@
+import { Connection, LineStyle, Point, Port, Shape } from '../types';
+import { getShapeSize } from './geometry';
+import { getOrthogonalRoute, RoutingContext } from './routing';
+import { getShapeGeometry, intersectPolygon, isStencil } from './stencils';
+import { getTextFormat } from './text';
+
+// Connection geometry shared by the editor and the exporters, so what is
+// exported is exactly what is drawn on the board
+
+export interface ConnectionPath {
+  path: string;
+  fromIntersect: Point;
+  toIntersect: Point;
+  // Both ends with the waypoints between them
+  points: Point[];
+  // The polyline actually drawn; differs from `points` once a route adds corners
+  route: Point[];
+  controlPoint1?: Point;
+  controlPoint2?: Point;
+}
+
+export const getStrokeDashArray = (style: LineStyle) => {
+  switch (style) {
+    case 'dashed':
+      return '8,8';
+    case 'dotted':
+      return '2,4';
+    default:
+      return 'none';
+  }
+};
+
+export const getCenterPoint = (shape: Shape): Point => {
+  const { width, height } = getShapeSize(shape);
+
+  return {
+    x: shape.position.x + width / 2,
+    y: shape.position.y + height / 2
+  };
+};
+
+// Where the line from the shape's centre towards `point` leaves its outline
+export const getIntersectionPoint = (shape: Shape, point: Point): Point => {
+  const center = getCenterPoint(shape);
+  const { width, height } = getShapeSize(shape);
+
+  if (isStencil(shape)) {
+    const geometry = getShapeGeometry(shape, width, height, getTextFormat(shape));
+    const polygon = geometry!.polygon.map(p => ({ x: p.x + shape.position.x, y: p.y + shape.position.y }));
+    // A point exactly on the centre has no direction, so fall through to the box
+    const intersection = point.x !== center.x || point.y !== center.y ? intersectPolygon(polygon, center, point) : null;
+    if (intersection) return intersection;
+  }
+
+  const angle = Math.atan2(point.y - center.y, point.x - center.x);
+
+  let intersectX, intersectY;
+
+  if (shape.type === 'circle') {
+    const radius = width / 2;
+    intersectX = center.x + radius * Math.cos(angle);
+    intersectY = center.y + radius * Math.sin(angle);
+  } else if (shape.type === 'diamond') {
+    const halfWidth = width / 2;
+    const halfHeight = height / 2;
+    const tanAngle = Math.abs(Math.tan(angle));
+
+    if (tanAngle <= halfHeight / halfWidth) {
+      intersectX = center.x + (halfWidth * Math.sign(Math.cos(angle)));
+      intersectY = center.y + (halfWidth * tanAngle * Math.sign(Math.sin(angle)));
+    } else {
+      intersectX = center.x + (halfHeight / tanAngle * Math.sign(Math.cos(angle)));
+      intersectY = center.y + (halfHeight * Math.sign(Math.sin(angle)));
+    }
+  } else {
+    const dx = Math.abs(Math.cos(angle));
+    const dy = Math.abs(Math.sin(angle));
+
+    if (dx * height <= dy * width) {
+      intersectX = center.x + (height / (2 * dy)) * dx * Math.sign(Math.cos(angle));
+      intersectY = center.y + (height / 2) * Math.sign(Math.sin(angle));
+    } else {
+      intersectX = center.x + (width / 2) * Math.sign(Math.cos(angle));
+      intersectY = center.y + (width / (2 * dx)) * dy * Math.sign(Math.sin(angle));
+    }
+  }
+
+  return { x: intersectX, y: intersectY };
+};
+
+// Where new labels go, as a fraction of the way along the connection
+export const LABEL_POSITIONS = {
+  start: 0.15,
+  middle: 0.5,
+  end: 0.85
+};
+
+// Every shape can be attached at the middle of each side
+export const SIDE_PORTS: Port[] = [
+  { id: 'top', x: 0.5, y: 0 },
+  { id: 'right', x: 1, y: 0.5 },
+  { id: 'bottom', x: 0.5, y: 1 },
+  { id: 'left', x: 0, y: 0.5 }
+];
+
+export const getShapePorts = (shape: Shape): Port[] =>
+  shape.type === 'line' ? [] : [...SIDE_PORTS, ...(shape.ports || [])];
+
+export const getPortPoint = (shape: Shape, portId: string): Point | null => {
+  const port = getShapePorts(shape).find(p => p.id === portId);
+  if (!port) return null;
+
+  const { width, height } = getShapeSize(shape);
+  return {
+    x: shape.position.x + port.x * width,
+    y: shape.position.y + port.y * height
+  };
+};
+
+export const getNearestPort = (shape: Shape, point: Point, maxDistance: number): Port | null => {
+  let nearest: Port | null = null;
+  let nearestDistance = maxDistance;
+
+  getShapePorts(shape).forEach(port => {
+    const portPoint = getPortPoint(shape, port.id)!;
+    const distance = Math.hypot(portPoint.x - point.x, portPoint.y - point.y);
+    if (distance <= nearestDistance) {
+      nearest = port;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+};
+
+// A new user-defined port where the line from the centre towards `point` meets the outline
+export const createPortAt = (shape: Shape, point: Point): Port => {
+  const { width, height } = getShapeSize(shape);
+  const outline = getIntersectionPoint(shape, point);
+
+  return {
+    id: `port-${Date.now()}`,
+    x: (outline.x - shape.position.x) / width,
+    y: (outline.y - shape.position.y) / height
+  };
+};
+
+// Bezier handles used until the user drags them somewhere else
+export const getDefaultControlPoints = (from: Point, to: Point) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const offset = Math.min(50, Math.sqrt(dx * dx + dy * dy) * 0.2);
+
+  return {
+    cp1: { x: from.x + dx * 0.25, y: from.y + dy * 0.25 - offset },
+    cp2: { x: from.x + dx * 0.75, y: from.y + dy * 0.75 - offset }
+  };
+};
+
+type CubicSegment = [Point, Point, Point, Point];
+
+// Catmull-Rom spline through every point, written as cubic bezier segments
+const getSmoothSegments = (points: Point[]): CubicSegment[] =>
+  points.slice(0, -1).map((p1, i) => {
+    const p0 = points[i - 1] || p1;
+    const p2 = points[i + 1];
+    const p3 = points[i + 2] || p2;
+
+    return [
+      p1,
+      { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+      { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+      p2
+    ];
+  });
+
+const toCubicPath = (segments: CubicSegment[]) =>
+  `M ${segments[0][0].x} ${segments[0][0].y}` +
+  segments.map(([, c1, c2, end]) => ` C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${end.x} ${end.y}`).join('');
+
+// Flattens curves so labels and midpoints can be placed along them
+const sampleCubics = (segments: CubicSegment[], steps = 16): Point[] => [
+  segments[0][0],
+  ...segments.flatMap(([p0, c1, c2, p1]) => Array.from({ length: steps }, (_, i) => {
+    const t = (i + 1) / steps;
+    const u = 1 - t;
+    return {
+      x: u * u * u * p0.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * p1.x,
+      y: u * u * u * p0.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * p1.y
+    };
+  }))
+];
+
+const getSegmentLengths = (points: Point[]) =>
+  points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+
+// The point a fraction `t` of the way along a polyline, measured by length rather than by vertex count
+export const getPointAlongPolyline = (points: Point[], t: number): Point => {
+  const lengths = getSegmentLengths(points);
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) * Math.min(1, Math.max(0, t));
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const ratio = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * ratio,
+        y: points[i].y + (points[i + 1].y - points[i].y) * ratio
+      };
+    }
+    remaining -= lengths[i];
+  }
+
+  return points[points.length - 1];
+};
+
+export const getPolylineMidpoint = (points: Point[]): Point => getPointAlongPolyline(points, 0.5);
+
+// Fraction of the way along a polyline of the spot nearest to `point`
+export const getClosestPosition = (points: Point[], point: Point): number => {
+  const lengths = getSegmentLengths(points);
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  if (total === 0) return 0;
+
+  let best = { distance: Infinity, along: 0 };
+  let travelled = 0;
+
+  lengths.forEach((length, i) => {
+    const start = points[i];
+    const end = points[i + 1];
+    const ratio = length === 0 ? 0 : Math.min(1, Math.max(0,
+      ((point.x - start.x) * (end.x - start.x) + (point.y - start.y) * (end.y - start.y)) / (length * length)
+    ));
+    const projected = { x: start.x + (end.x - start.x) * ratio, y: start.y + (end.y - start.y) * ratio };
+    const distance = Math.hypot(point.x - projected.x, point.y - projected.y);
+    if (distance < best.distance) best = { distance, along: travelled + length * ratio };
+    travelled += length;
+  });
+
+  return best.along / total;
+};
+
+const toPolylinePath = (points: Point[]) => points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
+
+// `context` lets orthogonal routes avoid the other shapes and spread out parallel connections
+export const getConnectionPath = (
+  connection: Connection,
+  fromShape: Shape,
+  toShape: Shape,
+  context?: RoutingContext
+): ConnectionPath => {
+  const waypoints = connection.points || [];
+  const fromPort = connection.fromPort ? getPortPoint(fromShape, connection.fromPort) : null;
+  const toPort = connection.toPort ? getPortPoint(toShape, connection.toPort) : null;
+
+  if (connection.lineStyle === 'orthogonal') {
+    const route = getOrthogonalRoute(connection, { shape: fromShape, port: fromPort }, { shape: toShape, port: toPort }, context);
+    const fromIntersect = route[0];
+    const toIntersect = route[route.length - 1];
+
+    return {
+      path: toPolylinePath(route),
+      fromIntersect,
+      toIntersect,
+      points: [fromIntersect, ...waypoints, toIntersect],
+      route
+    };
+  }
+
+  // A floating end aims at the neighbouring waypoint, or at the other end
+  const fromIntersect = fromPort || getIntersectionPoint(fromShape, waypoints[0] || toPort || getCenterPoint(toShape));
+  const toIntersect = toPort || getIntersectionPoint(toShape, waypoints[waypoints.length - 1] || fromPort || getCenterPoint(fromShape));
+  const points = [fromIntersect, ...waypoints, toIntersect];
+
+  if (connection.lineStyle === 'curved') {
+    if (waypoints.length > 0) {
+      const segments = getSmoothSegments(points);
+      return { path: toCubicPath(segments), fromIntersect, toIntersect, points, route: sampleCubics(segments) };
+    }
+
+    const { cp1: controlPoint1, cp2: controlPoint2 } = connection.controlPoints
+      ? {
+          cp1: { x: fromIntersect.x + connection.controlPoints.cp1.x, y: fromIntersect.y + connection.controlPoints.cp1.y },
+          cp2: { x: toIntersect.x + connection.controlPoints.cp2.x, y: toIntersect.y + connection.controlPoints.cp2.y }
+        }
+      : getDefaultControlPoints(fromIntersect, toIntersect);
+
+    const segment: CubicSegment = [fromIntersect, controlPoint1, controlPoint2, toIntersect];
+
+    return {
+      path: toCubicPath([segment]),
+      fromIntersect,
+      toIntersect,
+      points,
+      route: sampleCubics([segment]),
+      controlPoint1,
+      controlPoint2
+    };
+  }
+
+  return {
+    path: toPolylinePath(points),
+    fromIntersect,
+    toIntersect,
+    points,
+    route: points
+  };
+};
@@ -0,0 +1,151 @@
+import { DiagramState } from '../types';
+
+// Element-level changes between two boards. History uses them to undo one
+// step without clobbering unrelated edits, and collaboration turns them into
+// CRDT operations.
+
+export type CollectionName = 'shapes' | 'connections' | 'drawings' | 'groups' | 'layers';
+
+export const COLLECTIONS: CollectionName[] = ['shapes', 'connections', 'drawings', 'groups', 'layers'];
+
+type Element = { id: string } & Record<string, unknown>;
+
+export type DiagramChange =
+  // Sets the listed fields; a field set to undefined is removed. `index` places new elements.
+  | { type: 'upsert'; collection: CollectionName; id: string; fields: Record<string, unknown>; index?: number }
+  | { type: 'remove'; collection: CollectionName; id: string }
+  | { type: 'meta'; field: 'backgroundColor'; value: string | undefined };
+
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a).filter(key => (a as Record<string, unknown>)[key] !== undefined);
+  const bKeys = Object.keys(b).filter(key => (b as Record<string, unknown>)[key] !== undefined);
+  if (aKeys.length !== bKeys.length) return false;
+
+  return aKeys.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+// Boards saved before groups and layers existed have neither collection
+const getElements = (state: DiagramState, collection: CollectionName) =>
+  (state[collection] || []) as unknown as Element[];
+
+export const diffDiagrams = (from: DiagramState, to: DiagramState): DiagramChange[] => {
+  if (from === to) return [];
+  const changes: DiagramChange[] = [];
+
+  COLLECTIONS.forEach(collection => {
+    if (from[collection] === to[collection]) return;
+    const before = getElements(from, collection);
+    const after = getElements(to, collection);
+
+    const beforeById = new Map(before.map(element => [element.id, element]));
+    const afterIds = new Set(after.map(element => element.id));
+
+    before.forEach(element => {
+      if (!afterIds.has(element.id)) {
+        changes.push({ type: 'remove', collection, id: element.id });
+      }
+    });
+
+    after.forEach((element, index) => {
+      const previous = beforeById.get(element.id);
+      if (!previous) {
+        changes.push({ type: 'upsert', collection, id: element.id, fields: { ...element }, index });
+        return;
+      }
+      if (previous === element) return;
+
+      const fields: Record<string, unknown> = {};
+      new Set([...Object.keys(previous), ...Object.keys(element)]).forEach(key => {
+        if (!isEqual(previous[key], element[key])) {
+          fields[key] = element[key];
+        }
+      });
+      if (Object.keys(fields).length > 0) {
+        changes.push({ type: 'upsert', collection, id: element.id, fields });
+      }
+    });
+  });
+
+  if (from.backgroundColor !== to.backgroundColor) {
+    changes.push({ type: 'meta', field: 'backgroundColor', value: to.backgroundColor });
+  }
+
+  return changes;
+};
+
+export const applyChanges = (state: DiagramState, changes: DiagramChange[]): DiagramState => {
+  if (changes.length === 0) return state;
+  const next = { ...state };
+
+  changes.forEach(change => {
+    if (change.type === 'meta') {
+      next.backgroundColor = change.value;
+      return;
+    }
+
+    const elements = [...getElements(next, change.collection)];
+    const position = elements.findIndex(element => element.id === change.id);
+
+    if (change.type === 'remove') {
+      if (position !== -1) elements.splice(position, 1);
+    } else if (position !== -1) {
+      const updated: Element = { ...elements[position], ...change.fields };
+      Object.keys(change.fields).forEach(key => {
+        if (change.fields[key] === undefined) delete updated[key];
+      });
+      elements[position] = updated;
+    } else {
+      const created = { ...change.fields, id: change.id } as Element;
+      const index = change.index ?? elements.length;
+      elements.splice(Math.min(index, elements.length), 0, created);
+    }
+
+    (next as unknown as Record<CollectionName, Element[]>)[change.collection] = elements;
+  });
+
+  return next;
+};
+
+// What happened to one shape or connection between two versions, for the
+// visual diff. Geometry changes win over style changes when both occurred.
+export type ElementDiffKind = 'added' | 'removed' | 'moved' | 'restyled';
+
+export const DIFF_COLORS: Record<ElementDiffKind, string> = {
+  added: '#2F9E44',
+  removed: '#E03131',
+  moved: '#F08C00',
+  restyled: '#1971C2'
+};
+
+export interface ElementDiff {
+  collection: 'shapes' | 'connections';
+  id: string;
+  kind: ElementDiffKind;
+}
+
+const GEOMETRY_FIELDS: Record<ElementDiff['collection'], string[]> = {
+  shapes: ['position', 'endPoint', 'controlPoints', 'width', 'height'],
+  connections: ['from', 'to', 'points', 'fromPort', 'toPort', 'controlPoints']
+};
+
+export const compareDiagrams = (before: DiagramState, after: DiagramState): ElementDiff[] => {
+  const beforeIds = {
+    shapes: new Set(before.shapes.map(shape => shape.id)),
+    connections: new Set(before.connections.map(connection => connection.id))
+  };
+
+  return diffDiagrams(before, after).flatMap((change): ElementDiff[] => {
+    if (change.type === 'meta' || (change.collection !== 'shapes' && change.collection !== 'connections')) return [];
+    const { collection, id } = change;
+
+    if (change.type === 'remove') return [{ collection, id, kind: 'removed' }];
+    if (!beforeIds[collection].has(id)) return [{ collection, id, kind: 'added' }];
+
+    const moved = Object.keys(change.fields).some(field => GEOMETRY_FIELDS[collection].includes(field));
+    return [{ collection, id, kind: moved ? 'moved' : 'restyled' }];
+  });
+};
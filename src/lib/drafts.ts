@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DiagramState, LocalDraft } from '../types';
+import { toDiagramState } from './versions';
+
+// Local drafts in IndexedDB, which unlike localStorage has room for boards full of
+// images and ink. Every call opens the database afresh; it is cheap and survives
+// the connection being closed when the browser clears storage under us.
+
+const DB_NAME = 'diagram-drafts';
+const DB_VERSION = 1;
+const STORE = 'drafts';
+// The draft the last session was editing, offered back when the editor next opens
+const CURRENT_DRAFT_KEY = 'diagram-current-draft';
+
+export const DEFAULT_DRAFT_NAME = 'Untitled draft';
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request against the drafts store and resolves with its result
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Stored boards may predate some fields
+const toLocalDraft = (draft: LocalDraft): LocalDraft => ({ ...draft, data: toDiagramState(draft.data) });
+
+// Most recently edited first
+export const listDrafts = async (): Promise<LocalDraft[]> => {
+  const drafts = await withStore<LocalDraft[]>('readonly', store => store.getAll());
+  return drafts.map(toLocalDraft).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadDraft = async (id: string): Promise<LocalDraft | null> => {
+  const draft = await withStore<LocalDraft | undefined>('readonly', store => store.get(id));
+  return draft ? toLocalDraft(draft) : null;
+};
+
+export const saveDraft = async (draft: LocalDraft): Promise<void> => {
+  await withStore('readwrite', store => store.put(draft));
+};
+
+export const renameDraft = async (id: string, name: string): Promise<void> => {
+  const draft = await loadDraft(id);
+  if (draft) await saveDraft({ ...draft, name });
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  if (getCurrentDraftId() === id) setCurrentDraftId(null);
+};
+
+export const createDraftId = () => `draft-${uuidv4()}`;
+
+export const getCurrentDraftId = () => {
+  try {
+    return localStorage.getItem(CURRENT_DRAFT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setCurrentDraftId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(CURRENT_DRAFT_KEY, id);
+    else localStorage.removeItem(CURRENT_DRAFT_KEY);
+  } catch {
+    // Storage may be full or disabled; the draft is still saved, just not offered back
+  }
+};
+
+// Nothing worth keeping: no elements, whatever the background colour
+export const isDiagramEmpty = (state: DiagramState) =>
+  state.shapes.length === 0 && state.connections.length === 0 && state.drawings.length === 0;
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DrawingPath, DrawingPoint, Point } from '../types';
+
+// The two erasers. The precise one cuts ink away where it passes and splits a
+// stroke in two when it goes through the middle; the object one removes whole strokes.
+
+export type EraserMode = 'precise' | 'object';
+
+export const ERASER_MODES: { mode: EraserMode; label: string }[] = [
+  { mode: 'precise', label: 'Precise Eraser' },
+  { mode: 'object', label: 'Object Eraser' }
+];
+
+// Screen pixels, so the eraser feels the same at every zoom
+export const ERASER_RADIUS = 8;
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const lerp = (a: DrawingPoint, b: DrawingPoint, t: number): DrawingPoint => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  type: 'point',
+  ...(a.pressure !== undefined && b.pressure !== undefined && { pressure: a.pressure + (b.pressure - a.pressure) * t })
+});
+
+const distanceToSegment = (point: Point, a: Point, b: Point) => {
+  const length = distance(a, b);
+  if (length === 0) return distance(point, a);
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / (length * length)));
+  return distance(point, { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+};
+
+// Points along the eraser's path from one pointer event to the next, close enough
+// together that a fast sweep leaves no gaps
+export const getEraserPath = (from: Point, to: Point, radius: number): Point[] => {
+  const steps = Math.max(1, Math.ceil(distance(from, to) / (radius / 2)));
+  return Array.from({ length: steps }, (_, i) => ({
+    x: from.x + ((to.x - from.x) * (i + 1)) / steps,
+    y: from.y + ((to.y - from.y) * (i + 1)) / steps
+  }));
+};
+
+// Whether the eraser at `center` touches the stroke's ink, not just its centre line
+export const isDrawingHit = (drawing: DrawingPath, center: Point, radius: number) => {
+  const reach = radius + drawing.width / 2;
+  const { points } = drawing;
+  if (points.length === 1) return distance(points[0], center) <= reach;
+  return points.some((point, i) => i > 0 && distanceToSegment(center, points[i - 1], point) <= reach);
+};
+
+// Part of the segment a-b inside the circle, as [t1, t2] within [0, 1], or null if it misses
+const getSegmentOverlap = (a: Point, b: Point, center: Point, radius: number): [number, number] | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const qa = dx * dx + dy * dy;
+  const qb = 2 * (fx * dx + fy * dy);
+  const qc = fx * fx + fy * fy - radius * radius;
+
+  if (qa === 0) return qc <= 0 ? [0, 1] : null;
+  const discriminant = qb * qb - 4 * qa * qc;
+  if (discriminant <= 0) return null;
+
+  const root = Math.sqrt(discriminant);
+  const t1 = Math.max(0, (-qb - root) / (2 * qa));
+  const t2 = Math.min(1, (-qb + root) / (2 * qa));
+  return t1 < t2 ? [t1, t2] : null;
+};
+
+// What is left of a stroke after the eraser at `center`: the stroke itself when it
+// was missed, otherwise the pieces either side of the cut
+const cutDrawing = (drawing: DrawingPath, center: Point, radius: number): DrawingPath[] => {
+  // The ink reaches half its width beyond the centre line
+  const reach = radius + drawing.width / 2;
+  const { points } = drawing;
+  const pieces: DrawingPoint[][] = [];
+  let current: DrawingPoint[] = distance(points[0], center) > reach ? [points[0]] : [];
+  let isCut = current.length === 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const overlap = getSegmentOverlap(a, b, center, reach);
+    if (!overlap) {
+      current.push(b);
+      continue;
+    }
+
+    isCut = true;
+    const [t1, t2] = overlap;
+    if (t1 > 0) current.push(lerp(a, b, t1));
+    if (current.length > 1) pieces.push(current);
+    current = t2 < 1 ? [lerp(a, b, t2), b] : [];
+  }
+  if (!isCut) return [drawing];
+  if (current.length > 1) pieces.push(current);
+
+  // The first piece keeps the stroke's id so it stays where the stroke was in its layer
+  return pieces.map((piece, i) => ({
+    ...drawing,
+    id: i === 0 ? drawing.id : `drawing-${uuidv4()}`,
+    points: piece.map((point, j) => ({
+      ...point,
+      type: j === 0 ? 'start' : j === piece.length - 1 ? 'end' : 'point'
+    }))
+  }));
+};
+
+// Runs the precise eraser along `path` over the strokes `canErase` allows. Returns
+// `drawings` itself when nothing was touched, so an empty sweep records no history.
+export const eraseInk = (
+  drawings: DrawingPath[],
+  path: Point[],
+  radius: number,
+  canErase: (drawing: DrawingPath) => boolean = () => true
+): DrawingPath[] => {
+  let changed = false;
+  const next = drawings.flatMap(drawing => {
+    if (drawing.points.length === 0 || !canErase(drawing)) return [drawing];
+    let pieces = [drawing];
+    path.forEach(center => {
+      pieces = pieces.flatMap(piece => cutDrawing(piece, center, radius));
+    });
+    if (pieces.length !== 1 || pieces[0] !== drawing) changed = true;
+    return pieces;
+  });
+  return changed ? next : drawings;
+};
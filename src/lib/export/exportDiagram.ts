@@ -0,0 +1,84 @@
+import jsPDF from 'jspdf';
+import { DiagramState, ExportFormat } from '../../types';
+import { renderDiagramToSvg, SvgDocument } from './svg';
+
+// PNG and PDF are rasterised from the SVG document, never from the DOM
+
+// Browsers refuse canvases beyond roughly this many pixels per side
+const MAX_CANVAS_SIDE = 16384;
+const DEFAULT_SCALE = 2;
+
+export const svgToCanvas = ({ svg, width, height }: SvgDocument, scale = DEFAULT_SCALE): Promise<HTMLCanvasElement> => {
+  const effectiveScale = Math.min(scale, MAX_CANVAS_SIDE / Math.max(width, height));
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * effectiveScale);
+      canvas.height = Math.round(height * effectiveScale);
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to rasterise the SVG document'));
+    };
+    image.src = url;
+  });
+};
+
+const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Resolves to false when there is nothing on the board to export
+export const exportDiagram = async (
+  state: DiagramState,
+  format: ExportFormat,
+  filename = 'diagram'
+): Promise<boolean> => {
+  const svgDocument = renderDiagramToSvg(state);
+  if (!svgDocument) return false;
+
+  if (format === 'svg') {
+    const url = URL.createObjectURL(new Blob([svgDocument.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    downloadUrl(url, `${filename}.svg`);
+    URL.revokeObjectURL(url);
+    return true;
+  }
+
+  const canvas = await svgToCanvas(svgDocument);
+
+  if (format === 'png') {
+    downloadUrl(canvas.toDataURL('image/png'), `${filename}.png`);
+  } else {
+    // The page keeps the board's own dimensions; the image inside is high resolution
+    const pdf = new jsPDF({
+      orientation: svgDocument.width > svgDocument.height ? 'landscape' : 'portrait',
+      unit: 'px',
+      format: [svgDocument.width, svgDocument.height],
+      hotfixes: ['px_scaling']
+    });
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, svgDocument.width, svgDocument.height);
+    pdf.save(`${filename}.pdf`);
+  }
+
+  return true;
+};
@@ -0,0 +1,263 @@
+import { Bounds, Connection, ConnectionLabel, DiagramState, DrawingPath, Point, Shape } from '../../types';
+import { getDiagramBounds, getShapeSize } from '../geometry';
+import { getStack, getVisibleState } from '../layers';
+import {
+  DEFAULT_BORDER_COLOR,
+  DEFAULT_BORDER_WIDTH,
+  DEFAULT_FILL,
+  getBorderDashArray,
+  getCornerRadius,
+  getGradientVector,
+  hasFill,
+  TRANSPARENT
+} from '../shapeStyle';
+import {
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_TEXT_FORMAT,
+  getTextBox,
+  getTextFormat,
+  measureText,
+  TextFormat,
+  wrapText
+} from '../text';
+import { getShapeGeometry } from '../stencils';
+import { getInkPath, getInkStyle } from '../ink';
+import { getConnectionPath, getPointAlongPolyline, getStrokeDashArray } from '../connections';
+import { createRoutingContext, RoutingContext } from '../routing';
+
+// Renders a board straight from its state into a standalone SVG document.
+// Sizes, colours and fonts mirror the DOM rendering in Shape/Connection.
+
+export interface SvgDocument {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export interface SvgRenderOptions {
+  padding?: number;
+}
+
+// Connection labels use text-xs with px-1.5 py-0.5 padding on the board
+const LABEL_FONT_SIZE = 12;
+const LABEL_LINE_HEIGHT = 16;
+const LABEL_PADDING_X = 6;
+const LABEL_PADDING_Y = 2;
+const LABEL_FORMAT = { ...DEFAULT_TEXT_FORMAT, fontSize: LABEL_FONT_SIZE, lineHeight: LABEL_LINE_HEIGHT };
+const DEFAULT_STROKE = DEFAULT_BORDER_COLOR;
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+// Lays text out in a box with the given formatting
+const renderTextBlock = (text: string, box: Bounds, format: TextFormat) => {
+  if (!text) return '';
+
+  const lines = wrapText(text, Math.max(box.width, 1), format);
+  const x = format.align === 'left' ? box.x : format.align === 'right' ? box.x + box.width : box.x + box.width / 2;
+  const blockHeight = lines.length * format.lineHeight;
+  const top = format.verticalAlign === 'top'
+    ? box.y
+    : format.verticalAlign === 'bottom' ? box.y + box.height - blockHeight : box.y + (box.height - blockHeight) / 2;
+  const firstLineY = top + format.lineHeight / 2;
+
+  const spans = lines
+    .map((line, i) => `<tspan x="${x}" y="${firstLineY + i * format.lineHeight}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<text font-family="${escapeXml(format.fontFamily)}" font-size="${format.fontSize}" fill="${escapeXml(format.color)}"` +
+    (format.bold ? ' font-weight="bold"' : '') +
+    (format.italic ? ' font-style="italic"' : '') +
+    (format.underline ? ' text-decoration="underline"' : '') +
+    ` text-anchor="${TEXT_ANCHORS[format.align]}" dominant-baseline="central" xml:space="preserve">${spans}</text>`;
+};
+
+// Lays the shape's text out in its text box with the shape's own formatting
+const renderText = (shape: Shape, bounds: Bounds) => renderTextBlock(shape.text, getTextBox(shape, bounds), getTextFormat(shape));
+
+// Gradient and shadow definitions, referenced by id from the shape's outline
+const renderShapeDefs = (shape: Shape, id: string) => {
+  let defs = '';
+  const gradient = shape.fillGradient;
+  if (gradient && hasFill(shape)) {
+    const stops = `<stop offset="0" stop-color="${escapeXml(gradient.from)}"/><stop offset="1" stop-color="${escapeXml(gradient.to)}"/>`;
+    if (gradient.type === 'linear') {
+      const { x1, y1, x2, y2 } = getGradientVector(gradient);
+      defs += `<linearGradient id="fill-${id}" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stops}</linearGradient>`;
+    } else {
+      defs += `<radialGradient id="fill-${id}">${stops}</radialGradient>`;
+    }
+  }
+  if (shape.shadow && hasFill(shape)) {
+    // CSS blur radii are twice the Gaussian standard deviation
+    const { color, blur, offsetX, offsetY } = shape.shadow;
+    defs += `<filter id="shadow-${id}" x="-50%" y="-50%" width="200%" height="200%">` +
+      `<feDropShadow dx="${offsetX}" dy="${offsetY}" stdDeviation="${blur / 2}" flood-color="${escapeXml(color)}"/></filter>`;
+  }
+  return defs ? `<defs>${defs}</defs>` : '';
+};
+
+const renderShape = (shape: Shape) => {
+  const stroke = escapeXml(shape.borderColor || DEFAULT_STROKE);
+  const strokeWidth = shape.borderWidth || DEFAULT_BORDER_WIDTH;
+  const dashArray = getBorderDashArray(shape.borderStyle, strokeWidth);
+  const dash = dashArray ? ` stroke-dasharray="${dashArray}"` : '';
+  const opacity = shape.opacity !== undefined && shape.opacity < 1 ? ` opacity="${shape.opacity}"` : '';
+
+  if (shape.type === 'line') {
+    const start = shape.position;
+    const end = shape.endPoint || { x: start.x + 100, y: start.y };
+    const arrowStyle = shape.arrowStyle || 'none';
+    const markerId = `line-arrow-${escapeXml(shape.id)}`;
+    const marker = arrowStyle === 'none' ? '' :
+      `<defs><marker id="${markerId}" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto-start-reverse" markerUnits="strokeWidth">` +
+      `<polygon points="0 0, 10 3.5, 0 7" fill="${stroke}"/></marker></defs>`;
+    const markers = (arrowStyle === 'start' || arrowStyle === 'both' ? ` marker-start="url(#${markerId})"` : '') +
+      (arrowStyle === 'end' || arrowStyle === 'both' ? ` marker-end="url(#${markerId})"` : '');
+    return `${marker}<path d="M ${start.x} ${start.y} L ${end.x} ${end.y}" stroke="${stroke}" stroke-width="${strokeWidth}"${dash}${opacity}${markers} fill="none"/>`;
+  }
+
+  const { width, height } = getShapeSize(shape);
+  const bounds = { x: shape.position.x, y: shape.position.y, width, height };
+
+  if (shape.type === 'image') {
+    // object-contain on the board
+    return shape.src
+      ? `<image href="${escapeXml(shape.src)}" x="${bounds.x}" y="${bounds.y}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid meet"${opacity}/>`
+      : '';
+  }
+
+  const id = escapeXml(shape.id);
+  const fill = shape.fillGradient
+    ? `url(#fill-${id})`
+    : shape.fillColor === TRANSPARENT ? 'none' : escapeXml(shape.fillColor || DEFAULT_FILL);
+  const paint = `fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"${dash}` +
+    (shape.shadow ? ` filter="url(#shadow-${id})"` : '');
+
+  const format = getTextFormat(shape);
+  const geometry = getShapeGeometry(shape, width, height, format);
+  if (geometry) {
+    // Outline shapes are drawn in their own coordinates, like on the board
+    const transform = `translate(${bounds.x} ${bounds.y})`;
+    const details = geometry.details
+      ? `<path d="${geometry.details}" transform="${transform}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"${dash}/>`
+      : '';
+    const text = geometry.text
+      .map(({ text, box, ...overrides }) =>
+        renderTextBlock(text, { ...box, x: box.x + bounds.x, y: box.y + bounds.y }, { ...format, ...overrides }))
+      .join('');
+    return `<g${opacity}>${renderShapeDefs(shape, id)}<path d="${geometry.outline}" transform="${transform}" ${paint}/>${details}${text}</g>`;
+  }
+
+  // CSS borders sit inside the box while SVG strokes straddle the outline
+  const inset = strokeWidth / 2;
+  let outline = '';
+
+  switch (shape.type) {
+    case 'rectangle':
+    case 'square': {
+      // The CSS radius applies to the outer edge of the border
+      const radius = Math.max(getCornerRadius(shape) - inset, 0);
+      outline = `<rect x="${bounds.x + inset}" y="${bounds.y + inset}" width="${Math.max(width - strokeWidth, 0)}" height="${Math.max(height - strokeWidth, 0)}"` +
+        (radius > 0 ? ` rx="${radius}"` : '') + ` ${paint}/>`;
+      break;
+    }
+    case 'circle':
+      outline = `<ellipse cx="${bounds.x + width / 2}" cy="${bounds.y + height / 2}" rx="${Math.max(width / 2 - inset, 0)}" ry="${Math.max(height / 2 - inset, 0)}" ${paint}/>`;
+      break;
+  }
+
+  return `<g${opacity}>${renderShapeDefs(shape, id)}${outline}${renderText(shape, bounds)}</g>`;
+};
+
+const renderConnectionLabel = (label: ConnectionLabel, route: Point[]) => {
+  const center = getPointAlongPolyline(route, label.position);
+  const lines = label.text.split('\n');
+  const width = Math.max(...lines.map(line => measureText(line, LABEL_FORMAT))) + LABEL_PADDING_X * 2;
+  const height = lines.length * LABEL_LINE_HEIGHT + LABEL_PADDING_Y * 2;
+  const firstLineY = center.y - ((lines.length - 1) * LABEL_LINE_HEIGHT) / 2;
+
+  const spans = lines
+    .map((line, i) => `<tspan x="${center.x}" y="${firstLineY + i * LABEL_LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<rect x="${center.x - width / 2}" y="${center.y - height / 2}" width="${width}" height="${height}" rx="4" fill="white"/>` +
+    `<text font-family="${escapeXml(DEFAULT_FONT_FAMILY)}" font-size="${LABEL_FONT_SIZE}" fill="#374151" text-anchor="middle" dominant-baseline="central" xml:space="preserve">${spans}</text>`;
+};
+
+const renderConnection = (connection: Connection, shapesById: Map<string, Shape>, routing: RoutingContext) => {
+  const fromShape = shapesById.get(connection.from);
+  const toShape = shapesById.get(connection.to);
+  if (!fromShape || !toShape) return '';
+
+  const { path, route } = getConnectionPath(connection, fromShape, toShape, routing);
+  const dashArray = getStrokeDashArray(connection.lineStyle);
+  const markerStart = connection.arrowStyle === 'start' || connection.arrowStyle === 'both';
+  const markerEnd = connection.arrowStyle === 'end' || connection.arrowStyle === 'both';
+
+  return `<path d="${path}" stroke="${DEFAULT_STROKE}" stroke-width="2" fill="none"` +
+    (dashArray !== 'none' ? ` stroke-dasharray="${dashArray}"` : '') +
+    (markerStart ? ' marker-start="url(#arrowhead-start)"' : '') +
+    (markerEnd ? ' marker-end="url(#arrowhead-end)"' : '') +
+    '/>' +
+    (connection.labels || []).map(label => renderConnectionLabel(label, route)).join('');
+};
+
+const renderDrawing = (drawing: DrawingPath) => {
+  if (drawing.points.length === 0) return '';
+  const ink = getInkPath(drawing);
+  const style = getInkStyle(drawing);
+  const color = escapeXml(drawing.color);
+  const paint = ink.filled
+    ? `fill="${color}"`
+    : `stroke="${color}" stroke-width="${drawing.width}" stroke-linecap="${style.lineCap}" stroke-linejoin="round" fill="none"`;
+  return `<path d="${ink.d}" ${paint}` +
+    (style.opacity < 1 ? ` opacity="${style.opacity}"` : '') +
+    (style.blendMode ? ` style="mix-blend-mode:${style.blendMode}"` : '') +
+    '/>';
+};
+
+const ARROW_MARKERS =
+  '<defs>' +
+  `<marker id="arrowhead-start" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto" markerUnits="strokeWidth"><polygon points="10 0, 0 3.5, 10 7" fill="${DEFAULT_STROKE}"/></marker>` +
+  `<marker id="arrowhead-end" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto" markerUnits="strokeWidth"><polygon points="0 0, 10 3.5, 0 7" fill="${DEFAULT_STROKE}"/></marker>` +
+  '</defs>';
+
+// Hidden elements and layers are left out. Returns null when nothing is visible.
+export const renderDiagramToSvg = (board: DiagramState, { padding = 50 }: SvgRenderOptions = {}): SvgDocument | null => {
+  const state = getVisibleState(board);
+  const bounds = getDiagramBounds(state.shapes, state.drawings, state.connections);
+  if (!bounds) return null;
+
+  const width = Math.ceil(bounds.width + padding * 2);
+  const height = Math.ceil(bounds.height + padding * 2);
+  const shapesById = new Map(state.shapes.map(shape => [shape.id, shape]));
+  const routing = createRoutingContext(state.shapes, state.connections);
+
+  // Same stacking as the board
+  const content = getStack(state)
+    .map(item => item.collection === 'connections'
+      ? renderConnection(item.element, shapesById, routing)
+      : item.collection === 'shapes' ? renderShape(item.element) : renderDrawing(item.element))
+    .filter(Boolean)
+    .join('\n');
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ARROW_MARKERS,
+    `<rect width="100%" height="100%" fill="${escapeXml(state.backgroundColor || '#FFFFFF')}"/>`,
+    `<g transform="translate(${padding - bounds.x} ${padding - bounds.y})">`,
+    content,
+    '</g>',
+    '</svg>'
+  ].join('\n');
+
+  return { svg, width, height };
+};
@@ -0,0 +1,92 @@
+import { Bounds, Connection, DrawingPath, Point, Shape } from '../types';
+
+export const getShapeSize = (shape: Shape) => ({
+  width: shape.width || (shape.type === 'text' ? 200 : 128),
+  height: shape.height || (shape.type === 'text' ? 100 : shape.type === 'rectangle' ? 80 : 128)
+});
+
+export const getShapeBounds = (shape: Shape): Bounds => {
+  if (shape.type === 'line') {
+    const end = shape.endPoint || { x: shape.position.x + 100, y: shape.position.y };
+    return getPointsBounds([shape.position, end]);
+  }
+
+  const { width, height } = getShapeSize(shape);
+  return { x: shape.position.x, y: shape.position.y, width, height };
+};
+
+export const getPointsBounds = (points: Point[]): Bounds => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  points.forEach(point => {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  });
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const unionBounds = (boxes: Bounds[]): Bounds | null => {
+  if (boxes.length === 0) return null;
+
+  return getPointsBounds(boxes.flatMap(box => [
+    { x: box.x, y: box.y },
+    { x: box.x + box.width, y: box.y + box.height }
+  ]));
+};
+
+// World-space bounds of everything on the board, or null for an empty board
+export const getDiagramBounds = (shapes: Shape[], drawings: DrawingPath[], connections: Connection[] = []): Bounds | null => {
+  return unionBounds([
+    ...shapes.map(getShapeBounds),
+    ...drawings.filter(d => d.points.length > 0).map(d => getPointsBounds(d.points)),
+    ...connections.filter(c => c.points.length > 0).map(c => getPointsBounds(c.points))
+  ]);
+};
+
+// SVG path data of a freehand stroke. Repeating the first point keeps single-point strokes visible as dots.
+export const getStrokePath = (points: Point[]) => {
+  if (points.length === 0) return '';
+  return `M ${points[0].x} ${points[0].y} ` + points.map(point => `L ${point.x} ${point.y}`).join(' ');
+};
+
+export const translateShape = (shape: Shape, dx: number, dy: number): Shape => ({
+  ...shape,
+  position: { x: shape.position.x + dx, y: shape.position.y + dy },
+  ...(shape.endPoint ? { endPoint: { x: shape.endPoint.x + dx, y: shape.endPoint.y + dy } } : {})
+});
+
+// Topmost shape whose box contains `point`, allowing `tolerance` world units around it
+export const getShapeAt = (shapes: Shape[], point: Point, tolerance = 0): Shape | null => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    const shape = shapes[i];
+    if (shape.type === 'line') continue;
+
+    const { x, y, width, height } = getShapeBounds(shape);
+    if (
+      point.x >= x - tolerance && point.x <= x + width + tolerance &&
+      point.y >= y - tolerance && point.y <= y + height + tolerance
+    ) {
+      return shape;
+    }
+  }
+  return null;
+};
+
+// Even-odd test, so a lasso that crosses itself still has a sensible inside
+export const isPointInPolygon = (point: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
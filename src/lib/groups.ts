@@ -0,0 +1,164 @@
+import { Bounds, DiagramState, Shape, ShapeGroup } from '../types';
+import { getShapeBounds, unionBounds } from './geometry';
+import { getInnerConnections, Selection } from './selection';
+
+// Nested shape groups. A group's members are the shapes whose groupId chain
+// passes through it. The editor works inside a "scope": the group the user has
+// entered, or null for the board itself. Within a scope every click, marquee
+// and select-all treats each top-level group as a single item.
+
+export const getGroups = (state: DiagramState) => state.groups || [];
+
+// Groups containing the shape, innermost first
+export const getShapeGroupPath = (groups: ShapeGroup[], shape: Shape): string[] => {
+  const byId = new Map(groups.map(group => [group.id, group]));
+  const path: string[] = [];
+  let id = shape.groupId;
+
+  // The includes check guards against a cycle left behind by concurrent edits
+  while (id && byId.has(id) && !path.includes(id)) {
+    path.push(id);
+    id = byId.get(id)!.parentId;
+  }
+
+  return path;
+};
+
+// The group directly inside `scopeId` that holds the shape: null when the shape
+// sits in the scope itself, undefined when it is outside the scope altogether
+export const getGroupInScope = (groups: ShapeGroup[], shape: Shape, scopeId: string | null): string | null | undefined => {
+  const path = getShapeGroupPath(groups, shape);
+  const index = scopeId === null ? path.length : path.indexOf(scopeId);
+  if (index === -1) return undefined;
+  return index > 0 ? path[index - 1] : null;
+};
+
+export const getGroupShapeIds = (state: DiagramState, groupId: string) => {
+  const groups = getGroups(state);
+  return state.shapes.filter(shape => getShapeGroupPath(groups, shape).includes(groupId)).map(shape => shape.id);
+};
+
+export const getGroupBounds = (state: DiagramState, groupId: string): Bounds | null => {
+  const ids = new Set(getGroupShapeIds(state, groupId));
+  return unionBounds(state.shapes.filter(shape => ids.has(shape.id)).map(getShapeBounds));
+};
+
+const withInnerConnections = (state: DiagramState, shapeIds: string[]): Selection => ({
+  shapeIds,
+  connectionIds: getInnerConnections(state.connections, shapeIds).map(c => c.id),
+  drawingIds: []
+});
+
+// What clicking a shape selects: the shape itself, or the whole group around it
+// within the scope. Undefined when the shape lies outside the scope.
+export const getClickSelection = (state: DiagramState, shapeId: string, scopeId: string | null): Selection | undefined => {
+  const shape = state.shapes.find(s => s.id === shapeId);
+  if (!shape) return undefined;
+
+  const groupId = getGroupInScope(getGroups(state), shape, scopeId);
+  if (groupId === undefined) return undefined;
+
+  return groupId === null
+    ? { shapeIds: [shapeId], connectionIds: [], drawingIds: [] }
+    : withInnerConnections(state, getGroupShapeIds(state, groupId));
+};
+
+// Restricts a selection to the scope and to whole groups: a group stays selected
+// only when every one of its shapes is. Strokes belong to the board, not to a group.
+export const expandSelectionToGroups = (state: DiagramState, selection: Selection, scopeId: string | null): Selection => {
+  const groups = getGroups(state);
+  const selected = new Set(selection.shapeIds);
+  const members = new Map<string, string[]>();
+  const shapeIds: string[] = [];
+
+  state.shapes.forEach(shape => {
+    const groupId = getGroupInScope(groups, shape, scopeId);
+    if (groupId === undefined) return;
+    if (groupId === null) {
+      if (selected.has(shape.id)) shapeIds.push(shape.id);
+    } else {
+      members.set(groupId, [...(members.get(groupId) || []), shape.id]);
+    }
+  });
+
+  members.forEach(ids => {
+    if (ids.every(id => selected.has(id))) shapeIds.push(...ids);
+  });
+
+  const inner = new Set(getInnerConnections(state.connections, shapeIds).map(c => c.id));
+  return {
+    shapeIds,
+    connectionIds: selection.connectionIds.filter(id => inner.has(id)),
+    drawingIds: scopeId === null ? selection.drawingIds : []
+  };
+};
+
+// Top-level items of the scope touched by the selection: loose shape ids and group ids
+export const getSelectionItems = (state: DiagramState, selection: Selection, scopeId: string | null) => {
+  const groups = getGroups(state);
+  const selected = new Set(selection.shapeIds);
+  const items = new Set<string>();
+
+  state.shapes.forEach(shape => {
+    if (!selected.has(shape.id)) return;
+    const groupId = getGroupInScope(groups, shape, scopeId);
+    if (groupId !== undefined) items.add(groupId ?? shape.id);
+  });
+
+  return items;
+};
+
+// Groups of the scope that are selected as a whole
+export const getSelectedGroups = (state: DiagramState, selection: Selection, scopeId: string | null): ShapeGroup[] => {
+  const items = getSelectionItems(state, selection, scopeId);
+  const selected = new Set(selection.shapeIds);
+
+  return getGroups(state).filter(group =>
+    items.has(group.id) && getGroupShapeIds(state, group.id).every(id => selected.has(id))
+  );
+};
+
+// Gathers the selected items of the group's parent scope into `group`
+export const createGroup = (state: DiagramState, selection: Selection, group: ShapeGroup): DiagramState => {
+  const scopeId = group.parentId ?? null;
+  const items = getSelectionItems(state, selection, scopeId);
+
+  return {
+    ...state,
+    shapes: state.shapes.map(shape => (items.has(shape.id) ? { ...shape, groupId: group.id } : shape)),
+    groups: [
+      ...getGroups(state).map(g => (items.has(g.id) ? { ...g, parentId: group.id } : g)),
+      group
+    ]
+  };
+};
+
+// Dissolves a group; its members move up into the enclosing group
+export const ungroup = (state: DiagramState, groupId: string): DiagramState => {
+  const group = getGroups(state).find(g => g.id === groupId);
+  if (!group) return state;
+
+  return {
+    ...state,
+    shapes: state.shapes.map(shape => (shape.groupId === groupId ? { ...shape, groupId: group.parentId } : shape)),
+    groups: getGroups(state)
+      .filter(g => g.id !== groupId)
+      .map(g => (g.parentId === groupId ? { ...g, parentId: group.parentId } : g))
+  };
+};
+
+export const renameGroup = (state: DiagramState, groupId: string, name: string): DiagramState => ({
+  ...state,
+  groups: getGroups(state).map(g => (g.id === groupId ? { ...g, name } : g))
+});
+
+// Drops groups left without any shapes, e.g. after their members were deleted
+export const pruneGroups = (state: DiagramState): DiagramState => {
+  const groups = getGroups(state);
+  if (groups.length === 0) return state;
+
+  const used = new Set(state.shapes.flatMap(shape => getShapeGroupPath(groups, shape)));
+  return used.size === groups.length ? state : { ...state, groups: groups.filter(g => used.has(g.id)) };
+};
+
+export const getNextGroupName = (state: DiagramState) => `Group ${getGroups(state).length + 1}`;
@@ -0,0 +1,123 @@
+import { DiagramState, HistoryEntry } from '../types';
+import { applyChanges, DiagramChange, diffDiagrams } from './diff';
+
+// Every edit to the board goes through this reducer. A command is an updater
+// applied to the current board; while a transaction is open (a drag, a resize)
+// commands only update the board and the whole gesture is recorded as one
+// entry when it is committed. Undo and redo replay the difference between an
+// entry's snapshots onto the current board, so edits that arrived from other
+// collaborators in the meantime are kept.
+
+export type DiagramUpdater = (state: DiagramState) => DiagramState;
+
+export interface HistoryState {
+  present: DiagramState;
+  entries: HistoryEntry[];
+  // Number of entries currently applied; entries at or after it can be redone
+  index: number;
+  transaction: { label: string; before: DiagramState } | null;
+}
+
+export type HistoryCommand =
+  | { type: 'APPLY'; label: string; updater: DiagramUpdater }
+  | { type: 'BEGIN'; label: string }
+  | { type: 'COMMIT' }
+  | { type: 'CANCEL' }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JUMP'; index: number }
+  | { type: 'REMOTE'; changes: DiagramChange[] }
+  | { type: 'RESET'; state: DiagramState };
+
+export const MAX_HISTORY_ENTRIES = 200;
+
+export const createHistory = (state: DiagramState): HistoryState => ({
+  present: state,
+  entries: [],
+  index: 0,
+  transaction: null
+});
+
+const undoEntry = (state: DiagramState, entry: HistoryEntry) =>
+  applyChanges(state, diffDiagrams(entry.after, entry.before));
+
+const redoEntry = (state: DiagramState, entry: HistoryEntry) =>
+  applyChanges(state, diffDiagrams(entry.before, entry.after));
+
+const record = (history: HistoryState, label: string, before: DiagramState, after: DiagramState): HistoryState => {
+  if (before === after) return { ...history, present: after, transaction: null };
+
+  const entry: HistoryEntry = {
+    id: `history-${Date.now()}-${history.index}`,
+    label,
+    timestamp: Date.now(),
+    before,
+    after
+  };
+  const entries = [...history.entries.slice(0, history.index), entry].slice(-MAX_HISTORY_ENTRIES);
+
+  return {
+    present: after,
+    entries,
+    index: entries.length,
+    transaction: null
+  };
+};
+
+export const historyReducer = (history: HistoryState, command: HistoryCommand): HistoryState => {
+  switch (command.type) {
+    case 'APPLY': {
+      const next = command.updater(history.present);
+      if (history.transaction) {
+        return { ...history, present: next };
+      }
+      return record(history, command.label, history.present, next);
+    }
+    case 'BEGIN':
+      if (history.transaction) return history;
+      return { ...history, transaction: { label: command.label, before: history.present } };
+    case 'COMMIT':
+      if (!history.transaction) return history;
+      return record(history, history.transaction.label, history.transaction.before, history.present);
+    case 'CANCEL':
+      // Abandons the open transaction; remote edits folded into its baseline are kept
+      if (!history.transaction) return history;
+      return { ...history, present: history.transaction.before, transaction: null };
+    case 'UNDO':
+      if (history.transaction || history.index === 0) return history;
+      return {
+        ...history,
+        present: undoEntry(history.present, history.entries[history.index - 1]),
+        index: history.index - 1
+      };
+    case 'REDO':
+      if (history.transaction || history.index >= history.entries.length) return history;
+      return {
+        ...history,
+        present: redoEntry(history.present, history.entries[history.index]),
+        index: history.index + 1
+      };
+    case 'JUMP': {
+      if (history.transaction) return history;
+      const index = Math.max(0, Math.min(history.entries.length, command.index));
+      let present = history.present;
+      for (let i = history.index; i > index; i--) present = undoEntry(present, history.entries[i - 1]);
+      for (let i = history.index; i < index; i++) present = redoEntry(present, history.entries[i]);
+      return { ...history, present, index };
+    }
+    case 'REMOTE':
+      // Someone else's edit: never recorded, and folded into an open transaction's baseline
+      return {
+        ...history,
+        present: applyChanges(history.present, command.changes),
+        transaction: history.transaction && {
+          ...history.transaction,
+          before: applyChanges(history.transaction.before, command.changes)
+        }
+      };
+    case 'RESET':
+      return createHistory(command.state);
+    default:
+      return history;
+  }
+};
@@ -0,0 +1,213 @@
+import { DrawingPath, PenType, Point } from '../types';
+import { getStrokePath } from './geometry';
+
+// Pen settings of freehand strokes and how a stroke's points become an SVG path.
+// The live preview, the board and the SVG export all draw from getInkPath.
+
+export interface PenStyle {
+  color: string;
+  width: number;
+  opacity: number;
+}
+
+export interface PenSettings extends PenStyle {
+  pen: PenType;
+  smoothing: number;
+  // Turn finished strokes into the shapes and connections they look like
+  recognizeShapes?: boolean;
+}
+
+export const PEN_TYPES: { pen: PenType; label: string }[] = [
+  { pen: 'fineliner', label: 'Fine-liner' },
+  { pen: 'marker', label: 'Marker' },
+  { pen: 'highlighter', label: 'Highlighter' }
+];
+
+// Each pen remembers its own colour, width and opacity
+export const DEFAULT_PEN_STYLES: Record<PenType, PenStyle> = {
+  fineliner: { color: '#000000', width: 2, opacity: 1 },
+  marker: { color: '#2563EB', width: 6, opacity: 1 },
+  highlighter: { color: '#FDE047', width: 18, opacity: 0.4 }
+};
+
+export const DEFAULT_SMOOTHING = 0.5;
+
+export const MIN_PEN_WIDTH = 1;
+export const MAX_PEN_WIDTH = 40;
+
+// How much a stroke thins out at speed or under light pressure
+const MARKER_THINNING = 0.6;
+const FINELINER_THINNING = 0.5;
+// How quickly the simulated pressure follows the pen's speed
+const PRESSURE_RATE = 0.3;
+const CAP_STEPS = 6;
+
+export interface InkPath {
+  d: string;
+  // Markers and pressure-sensitive strokes are drawn as a filled outline, the rest as a stroked centre line
+  filled: boolean;
+}
+
+export interface InkStyle {
+  opacity: number;
+  lineCap: 'round' | 'square';
+  // Highlighter ink darkens what is under it rather than covering it
+  blendMode?: 'multiply';
+}
+
+export const getPenSettings = (drawing: DrawingPath): PenSettings => ({
+  pen: drawing.pen || 'fineliner',
+  color: drawing.color,
+  width: drawing.width,
+  opacity: drawing.opacity ?? 1,
+  smoothing: drawing.smoothing ?? 0
+});
+
+export const getInkStyle = (drawing: DrawingPath): InkStyle => ({
+  opacity: drawing.opacity ?? 1,
+  lineCap: drawing.pen === 'highlighter' ? 'square' : 'round',
+  blendMode: drawing.pen === 'highlighter' ? 'multiply' : undefined
+});
+
+// Stylus strokes carry a pressure per point
+type InkPoint = Point & { pressure?: number };
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const mix = (a: number | undefined, b: number | undefined, t: number) =>
+  a === undefined || b === undefined ? a ?? b : a + (b - a) * t;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Pulls each point towards the previous smoothed one, then lands exactly on the last
+// input so the stroke ends where the pen lifted
+const streamline = (points: InkPoint[], smoothing: number): InkPoint[] => {
+  const unique = points.filter((point, i) => i === 0 || distance(point, points[i - 1]) > 0);
+  if (unique.length < 3 || smoothing <= 0) return unique;
+
+  const follow = 1 - Math.min(smoothing, 1) * 0.8;
+  const result = [unique[0]];
+  for (let i = 1; i < unique.length - 1; i++) {
+    const previous = result[result.length - 1];
+    result.push({
+      x: previous.x + (unique[i].x - previous.x) * follow,
+      y: previous.y + (unique[i].y - previous.y) * follow,
+      pressure: mix(previous.pressure, unique[i].pressure, follow)
+    });
+  }
+  result.push(unique[unique.length - 1]);
+  return result;
+};
+
+// Cubic Béziers of the Catmull-Rom spline through the points
+const getSplinePath = (points: Point[]) => {
+  if (points.length < 3) return getStrokePath(points);
+
+  let d = `M ${round(points[0].x)} ${round(points[0].y)}`;
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i - 1] || points[i];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[i + 2] || p2;
+    d += ` C ${round(p1.x + (p2.x - p0.x) / 6)} ${round(p1.y + (p2.y - p0.y) / 6)}` +
+      ` ${round(p2.x - (p3.x - p1.x) / 6)} ${round(p2.y - (p3.y - p1.y) / 6)} ${round(p2.x)} ${round(p2.y)}`;
+  }
+  return d;
+};
+
+// Evenly spaced points along the Catmull-Rom spline, for outlining
+const sampleSpline = (points: InkPoint[], spacing: number): InkPoint[] => {
+  if (points.length < 3) return points;
+
+  const samples: InkPoint[] = [points[0]];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i - 1] || points[i];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[i + 2] || p2;
+    const steps = Math.max(1, Math.ceil(distance(p1, p2) / spacing));
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const at = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+      samples.push({ x: at(p0.x, p1.x, p2.x, p3.x), y: at(p0.y, p1.y, p2.y, p3.y), pressure: mix(p1.pressure, p2.pressure, t) });
+    }
+  }
+  return samples;
+};
+
+// Half-circle of points around `center`, starting at `angle` and turning clockwise
+const cap = (center: Point, radius: number, angle: number): Point[] =>
+  Array.from({ length: CAP_STEPS - 1 }, (_, i) => {
+    const a = angle - (Math.PI * (i + 1)) / CAP_STEPS;
+    return { x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a) };
+  });
+
+// Closed outline of a variable-width stroke. Stylus pressure sets the width where
+// there is any; otherwise the stroke thins where the pen moves fast, in the spirit
+// of perfect-freehand's simulated pressure.
+const getStrokeOutline = (points: InkPoint[], width: number, thinning: number): Point[] => {
+  const samples = sampleSpline(points, Math.max(width / 4, 1));
+  const maxRadius = width / 2;
+
+  if (samples.length < 2) {
+    const center = samples[0];
+    return Array.from({ length: CAP_STEPS * 2 }, (_, i) => {
+      const a = (Math.PI * i) / CAP_STEPS;
+      return { x: center.x + maxRadius * Math.cos(a), y: center.y + maxRadius * Math.sin(a) };
+    });
+  }
+
+  let simulated = 1;
+  const radii = samples.map((point, i) => {
+    if (i > 0) {
+      const speed = Math.min(distance(samples[i - 1], point) / width, 1);
+      simulated += (1 - speed - simulated) * PRESSURE_RATE;
+    }
+    return maxRadius * (1 - thinning + thinning * (point.pressure ?? simulated));
+  });
+
+  const normals = samples.map((_, i) => {
+    const before = samples[Math.max(i - 1, 0)];
+    const after = samples[Math.min(i + 1, samples.length - 1)];
+    const length = distance(before, after) || 1;
+    return { x: -(after.y - before.y) / length, y: (after.x - before.x) / length };
+  });
+
+  const left = samples.map((p, i) => ({ x: p.x + normals[i].x * radii[i], y: p.y + normals[i].y * radii[i] }));
+  const right = samples.map((p, i) => ({ x: p.x - normals[i].x * radii[i], y: p.y - normals[i].y * radii[i] }));
+  const last = samples.length - 1;
+
+  return [
+    ...left,
+    ...cap(samples[last], radii[last], Math.atan2(normals[last].y, normals[last].x)),
+    ...right.reverse(),
+    ...cap(samples[0], radii[0], Math.atan2(-normals[0].y, -normals[0].x))
+  ];
+};
+
+// Quadratic curves through the midpoints of a closed outline
+const getOutlinePath = (outline: Point[]) => {
+  const mid = (a: Point, b: Point) => `${round((a.x + b.x) / 2)} ${round((a.y + b.y) / 2)}`;
+  let d = `M ${mid(outline[outline.length - 1], outline[0])}`;
+  outline.forEach((point, i) => {
+    d += ` Q ${round(point.x)} ${round(point.y)} ${mid(point, outline[(i + 1) % outline.length])}`;
+  });
+  return `${d} Z`;
+};
+
+export const getInkPath = (drawing: DrawingPath): InkPath => {
+  const { pen, smoothing, width } = getPenSettings(drawing);
+  if (drawing.points.length === 0) return { d: '', filled: false };
+
+  const points = streamline(drawing.points, smoothing);
+  if (pen === 'marker') return { d: getOutlinePath(getStrokeOutline(points, width, MARKER_THINNING)), filled: true };
+  // Highlighters lay down an even band whatever the pressure
+  if (pen === 'fineliner' && drawing.points.some(point => point.pressure !== undefined)) {
+    return { d: getOutlinePath(getStrokeOutline(points, width, FINELINER_THINNING)), filled: true };
+  }
+  // Unsmoothed strokes keep their exact input, as strokes did before pens had settings
+  return { d: smoothing > 0 ? getSplinePath(points) : getStrokePath(drawing.points), filled: false };
+};
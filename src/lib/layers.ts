@@ -0,0 +1,232 @@
+import { Connection, DiagramState, DrawingPath, Layer, Shape, Stackable } from '../types';
+import { Selection } from './selection';
+
+// Stacking order and layers. Order lives in each element's zIndex rather than
+// in array positions, so reordering is an ordinary field change that undo,
+// collaboration and saving all pick up.
+
+export const BASE_LAYER_ID = 'base';
+
+const BASE_LAYER: Layer = { id: BASE_LAYER_ID, name: 'Base', zIndex: 0 };
+
+export type StackItem =
+  | { collection: 'connections'; element: Connection }
+  | { collection: 'shapes'; element: Shape }
+  | { collection: 'drawings'; element: DrawingPath };
+
+export type StackCollection = StackItem['collection'];
+
+export type ArrangeCommand = 'front' | 'forward' | 'backward' | 'back';
+
+// Bottom to top, the base layer included even before it has been stored
+export const getLayers = (state: DiagramState): Layer[] => {
+  const layers = state.layers || [];
+  const all = layers.some(layer => layer.id === BASE_LAYER_ID) ? layers : [BASE_LAYER, ...layers];
+  return all
+    .map((layer, index) => ({ layer, index }))
+    .sort((a, b) => a.layer.zIndex - b.layer.zIndex || a.index - b.index)
+    .map(({ layer }) => layer);
+};
+
+export const getElementLayerId = (layers: Layer[], element: Stackable) =>
+  element.layerId && layers.some(layer => layer.id === element.layerId) ? element.layerId : BASE_LAYER_ID;
+
+// Default places of elements without a zIndex, around the ordered ones
+const UNORDERED_RANK: Record<StackCollection, number> = { connections: 0, shapes: 2, drawings: 3 };
+const ORDERED_RANK = 1;
+const COLLECTION_ORDER: StackCollection[] = ['connections', 'shapes', 'drawings'];
+
+// Every connection, shape and stroke from bottom to top
+export const getStack = (state: DiagramState): StackItem[] => {
+  const layers = getLayers(state);
+  const layerIndex = new Map(layers.map((layer, index) => [layer.id, index]));
+  const items: (StackItem & { index: number })[] = [
+    ...state.connections.map((element, index) => ({ collection: 'connections' as const, element, index })),
+    ...state.shapes.map((element, index) => ({ collection: 'shapes' as const, element, index })),
+    ...state.drawings.map((element, index) => ({ collection: 'drawings' as const, element, index }))
+  ];
+
+  const rank = (item: StackItem) =>
+    item.element.zIndex === undefined ? UNORDERED_RANK[item.collection] : ORDERED_RANK;
+
+  return items
+    .sort((a, b) =>
+      layerIndex.get(getElementLayerId(layers, a.element))! - layerIndex.get(getElementLayerId(layers, b.element))! ||
+      rank(a) - rank(b) ||
+      (a.element.zIndex ?? 0) - (b.element.zIndex ?? 0) ||
+      COLLECTION_ORDER.indexOf(a.collection) - COLLECTION_ORDER.indexOf(b.collection) ||
+      a.index - b.index)
+    .map(({ collection, element }) => ({ collection, element }) as StackItem);
+};
+
+// Elements are addressed across collections by key, since ids only need to be unique within one
+export const getItemKey = (item: { collection: StackCollection; element: { id: string } }) =>
+  `${item.collection}:${item.element.id}`;
+
+export const getSelectionKeys = (selection: Selection) => new Set([
+  ...selection.shapeIds.map(id => `shapes:${id}`),
+  ...selection.connectionIds.map(id => `connections:${id}`),
+  ...selection.drawingIds.map(id => `drawings:${id}`)
+]);
+
+const isLayerHidden = (layers: Layer[], element: Stackable) =>
+  !!layers.find(layer => layer.id === getElementLayerId(layers, element))?.hidden;
+
+const isLayerLocked = (layers: Layer[], element: Stackable) =>
+  !!layers.find(layer => layer.id === getElementLayerId(layers, element))?.locked;
+
+export const isElementVisible = (layers: Layer[], element: Stackable) => !element.hidden && !isLayerHidden(layers, element);
+
+export const isElementLocked = (layers: Layer[], element: Stackable) => !!element.locked || isLayerLocked(layers, element);
+
+// The board as shown: hidden elements, hidden layers and connections to hidden shapes left out
+export const getVisibleState = (state: DiagramState): DiagramState => {
+  const layers = getLayers(state);
+  const shapes = state.shapes.filter(shape => isElementVisible(layers, shape));
+  const shapeIds = new Set(shapes.map(shape => shape.id));
+
+  return {
+    ...state,
+    shapes,
+    connections: state.connections.filter(c => isElementVisible(layers, c) && shapeIds.has(c.from) && shapeIds.has(c.to)),
+    drawings: state.drawings.filter(drawing => isElementVisible(layers, drawing))
+  };
+};
+
+// Ids of everything that can be picked on the canvas: visible and not locked
+export const getInteractiveIds = (state: DiagramState): Set<string> => {
+  const visible = getVisibleState(state);
+  const layers = getLayers(state);
+
+  return new Set(getStack(visible)
+    .filter(item => !isElementLocked(layers, item.element))
+    .map(getItemKey));
+};
+
+export const filterInteractive = (selection: Selection, interactive: Set<string>): Selection => ({
+  shapeIds: selection.shapeIds.filter(id => interactive.has(`shapes:${id}`)),
+  connectionIds: selection.connectionIds.filter(id => interactive.has(`connections:${id}`)),
+  drawingIds: selection.drawingIds.filter(id => interactive.has(`drawings:${id}`))
+});
+
+const updateItems = (
+  state: DiagramState,
+  update: (item: StackItem) => Partial<Stackable> | null
+): DiagramState => {
+  const apply = <T extends Stackable>(collection: StackCollection, elements: T[]) => {
+    let changed = false;
+    const next = elements.map(element => {
+      const changes = update({ collection, element } as unknown as StackItem);
+      if (!changes || Object.entries(changes).every(([key, value]) => element[key as keyof Stackable] === value)) return element;
+      changed = true;
+      return { ...element, ...changes };
+    });
+    return changed ? next : elements;
+  };
+
+  return {
+    ...state,
+    shapes: apply('shapes', state.shapes),
+    connections: apply('connections', state.connections),
+    drawings: apply('drawings', state.drawings)
+  };
+};
+
+// Writes the given bottom-to-top order of one layer into the zIndex of its elements
+const writeLayerOrder = (state: DiagramState, layerId: string, keys: string[]): DiagramState => {
+  const positions = new Map(keys.map((key, index) => [key, index]));
+  return updateItems(state, item => {
+    const position = positions.get(getItemKey(item));
+    return position === undefined ? null : { zIndex: position, layerId: layerId === BASE_LAYER_ID ? undefined : layerId };
+  });
+};
+
+const getLayerKeys = (state: DiagramState, layerId: string) => {
+  const layers = getLayers(state);
+  return getStack(state).filter(item => getElementLayerId(layers, item.element) === layerId).map(getItemKey);
+};
+
+// Bring to front, forward, backward or send to back; selected elements move within their own layers
+export const arrangeSelection = (state: DiagramState, selection: Selection, command: ArrangeCommand): DiagramState => {
+  const selected = getSelectionKeys(selection);
+
+  return getLayers(state).reduce((next, layer) => {
+    const keys = getLayerKeys(next, layer.id);
+    if (!keys.some(key => selected.has(key))) return next;
+
+    let order: string[];
+    if (command === 'front' || command === 'back') {
+      const moving = keys.filter(key => selected.has(key));
+      const staying = keys.filter(key => !selected.has(key));
+      order = command === 'front' ? [...staying, ...moving] : [...moving, ...staying];
+    } else {
+      // Each selected element trades places with the unselected neighbour above (or below) it
+      order = [...keys];
+      const step = command === 'forward' ? 1 : -1;
+      const indexes = order.map((_, i) => i);
+      (step === 1 ? indexes.reverse() : indexes).forEach(i => {
+        const j = i + step;
+        if (j < 0 || j >= order.length || !selected.has(order[i]) || selected.has(order[j])) return;
+        [order[i], order[j]] = [order[j], order[i]];
+      });
+    }
+
+    return writeLayerOrder(next, layer.id, order);
+  }, state);
+};
+
+// Moves elements into `layerId` directly above the element keyed `aboveKey`, or on top of the layer when it is null
+export const moveItemsInStack = (state: DiagramState, keys: string[], layerId: string, aboveKey: string | null): DiagramState => {
+  const moving = new Set(keys);
+  const order = getLayerKeys(state, layerId).filter(key => !moving.has(key));
+  const movingOrdered = getStack(state).map(getItemKey).filter(key => moving.has(key));
+  const below = aboveKey === null ? -1 : order.indexOf(aboveKey);
+  order.splice(below === -1 ? order.length : below + 1, 0, ...movingOrdered);
+
+  return writeLayerOrder(state, layerId, order);
+};
+
+export const moveSelectionToLayer = (state: DiagramState, selection: Selection, layerId: string) =>
+  moveItemsInStack(state, [...getSelectionKeys(selection)], layerId, null);
+
+export const setItemsFlag = (state: DiagramState, keys: string[], flag: 'hidden' | 'locked', value: boolean): DiagramState => {
+  const targets = new Set(keys);
+  return updateItems(state, item => (targets.has(getItemKey(item)) ? { [flag]: value || undefined } : null));
+};
+
+// Stores the base layer the first time it is changed
+const withLayers = (state: DiagramState, layers: Layer[]): DiagramState => ({ ...state, layers });
+
+export const addLayer = (state: DiagramState, layer: Omit<Layer, 'zIndex'>): DiagramState => {
+  const layers = getLayers(state);
+  return withLayers(state, [...(state.layers || []), { ...layer, zIndex: Math.max(...layers.map(l => l.zIndex)) + 1 }]);
+};
+
+export const updateLayer = (state: DiagramState, layerId: string, changes: Partial<Omit<Layer, 'id'>>): DiagramState =>
+  withLayers(state, getLayers(state).map(layer => (layer.id === layerId ? { ...layer, ...changes } : layer)));
+
+// Swaps a layer with its neighbour above (1) or below (-1)
+export const moveLayer = (state: DiagramState, layerId: string, direction: 1 | -1): DiagramState => {
+  const layers = getLayers(state);
+  const index = layers.findIndex(layer => layer.id === layerId);
+  const other = layers[index + direction];
+  if (index === -1 || !other) return state;
+
+  const order = [...layers];
+  [order[index], order[index + direction]] = [order[index + direction], order[index]];
+  return withLayers(state, order.map((layer, zIndex) => (layer.zIndex === zIndex ? layer : { ...layer, zIndex })));
+};
+
+// A removed layer's elements land on top of the layer below it (above it for the bottom layer)
+export const removeLayer = (state: DiagramState, layerId: string): DiagramState => {
+  if (layerId === BASE_LAYER_ID) return state;
+  const layers = getLayers(state);
+  const index = layers.findIndex(layer => layer.id === layerId);
+  if (index === -1) return state;
+
+  const target = (layers[index - 1] ?? layers[index + 1]).id;
+  const moved = moveItemsInStack(state, getLayerKeys(state, layerId), target, null);
+  return withLayers(moved, getLayers(moved).filter(layer => layer.id !== layerId));
+};
+
+export const getNextLayerName = (state: DiagramState) => `Layer ${getLayers(state).length + 1}`;
@@ -0,0 +1,302 @@
+import { ArrowStyle, DiagramFragment, LineStyle, ShapeType } from '../../types';
+import { ParsedDiagram, ParsedEdge, ParsedGroup, ParsedNode } from '../plantuml/parser';
+import { layoutDiagram } from '../plantuml/layout';
+
+// Converts Mermaid flowcharts, sequence diagrams and class diagrams into the
+// same graph the PlantUML importer builds, so they share one layout.
+
+// Longest delimiters first, so `((` wins over `(`
+const NODE_SHAPES: { open: string; close: string; type: ShapeType }[] = [
+  { open: '(((', close: ')))', type: 'circle' },
+  { open: '((', close: '))', type: 'circle' },
+  { open: '([', close: '])', type: 'rectangle' },
+  { open: '[[', close: ']]', type: 'rectangle' },
+  { open: '[(', close: ')]', type: 'rectangle' },
+  { open: '{{', close: '}}', type: 'diamond' },
+  { open: '[/', close: '/]', type: 'rectangle' },
+  { open: '[\\', close: '\\]', type: 'rectangle' },
+  { open: '[/', close: '\\]', type: 'rectangle' },
+  { open: '[\\', close: '/]', type: 'rectangle' },
+  { open: '(', close: ')', type: 'rectangle' },
+  { open: '[', close: ']', type: 'rectangle' },
+  { open: '{', close: '}', type: 'diamond' },
+  { open: '>', close: ']', type: 'rectangle' }
+];
+
+// `-- text -->` and `-->|text|` both label a link
+const TEXT_LINK = /^\s*(<)?(--|==|-\.)\s*([^\s\->=.|][^|]*?)\s*(-{2,}|={2,}|\.+-)(>|o|x)?\s*/;
+const LINK = /^\s*(<|o|x)?(-{2,}|={2,}|-?\.+-?|~~~)(>|o|x)?\s*(?:\|([^|]*)\|\s*)?/;
+const NODE_ID = /^\s*([\w.$]+)/;
+
+const cleanLabel = (label: string) =>
+  label.trim().replace(/^"(.*)"$/, '$1').replace(/<br\s*\/?>/gi, '\n').replace(/\\n/g, '\n').trim();
+
+const lineStyleFor = (link: string): LineStyle => (link.includes('.') ? 'dashed' : 'solid');
+
+const arrowStyleFor = (start: string | undefined, end: string | undefined): ArrowStyle => {
+  const hasStart = start === '<';
+  const hasEnd = end === '>';
+  if (hasStart && hasEnd) return 'both';
+  if (hasStart) return 'start';
+  if (hasEnd) return 'end';
+  return 'none';
+};
+
+const cleanLines = (source: string) =>
+  source
+    .split(/\r?\n/)
+    .map(line => line.replace(/%%.*$/, '').trim())
+    .filter(line => line && !/^---/.test(line));
+
+interface GraphState {
+  nodes: ParsedNode[];
+  edges: ParsedEdge[];
+  groups: ParsedGroup[];
+  groupStack: string[];
+  byKey: Map<string, ParsedNode>;
+}
+
+const createState = (): GraphState => ({ nodes: [], edges: [], groups: [], groupStack: [], byKey: new Map() });
+
+const upsertNode = (state: GraphState, key: string, label?: string, type?: ShapeType) => {
+  let node = state.byKey.get(key);
+  if (!node) {
+    node = { key, label: label ?? key, type: type ?? 'rectangle', group: state.groupStack[state.groupStack.length - 1] };
+    state.byKey.set(key, node);
+    state.nodes.push(node);
+  } else if (label !== undefined) {
+    node.label = label;
+    node.type = type ?? node.type;
+  }
+  return node;
+};
+
+// Reads `id`, `id[Label]`, `id{Label}`... and returns the rest of the statement
+const readNode = (state: GraphState, text: string) => {
+  const id = text.match(NODE_ID);
+  if (!id) return null;
+
+  let rest = text.slice(id[0].length);
+  let label: string | undefined;
+  let type: ShapeType | undefined;
+
+  const shape = NODE_SHAPES.find(candidate => rest.startsWith(candidate.open) && rest.includes(candidate.close, candidate.open.length));
+  if (shape) {
+    const end = rest.indexOf(shape.close, shape.open.length);
+    label = cleanLabel(rest.slice(shape.open.length, end));
+    type = shape.type;
+    rest = rest.slice(end + shape.close.length);
+  }
+
+  // Trailing :::className styling carries no structure
+  rest = rest.replace(/^:::[\w-]+/, '');
+  return { key: upsertNode(state, id[1], label, type).key, rest };
+};
+
+// `A & B` on either side of a link
+const readNodeList = (state: GraphState, text: string) => {
+  const keys: string[] = [];
+  let rest = text;
+
+  for (;;) {
+    const node = readNode(state, rest);
+    if (!node) break;
+    keys.push(node.key);
+    rest = node.rest;
+
+    const ampersand = rest.match(/^\s*&\s*/);
+    if (!ampersand) break;
+    rest = rest.slice(ampersand[0].length);
+  }
+
+  return { keys, rest };
+};
+
+const parseFlowchart = (lines: string[], header: string): ParsedDiagram => {
+  const state = createState();
+  const orientation = header.split(/\s+/)[1]?.toUpperCase() ?? 'TB';
+  const direction = orientation === 'LR' || orientation === 'RL' ? 'LR' : 'TB';
+
+  lines.slice(1).flatMap(line => line.split(';')).map(line => line.trim()).filter(Boolean).forEach(line => {
+    const subgraph = line.match(/^subgraph\s+(?:([\w.$-]+)\s*\[(.+)\]|(.+))$/);
+    if (subgraph) {
+      const key = `group-${state.groups.length}`;
+      state.groups.push({ key, label: cleanLabel(subgraph[2] ?? subgraph[3] ?? subgraph[1]) });
+      state.groupStack.push(key);
+      return;
+    }
+    if (line === 'end') {
+      state.groupStack.pop();
+      return;
+    }
+    if (/^(classDef|class|style|linkStyle|click|direction)\b/.test(line)) return;
+
+    let { keys: sources, rest } = readNodeList(state, line);
+
+    // Chains like A --> B -- text --> C
+    while (sources.length > 0 && rest.trim()) {
+      let label: string | undefined;
+      let lineStyle: LineStyle;
+      let arrowStyle: ArrowStyle;
+
+      const textLink = rest.match(TEXT_LINK);
+      const link = textLink ? null : rest.match(LINK);
+      if (textLink) {
+        label = cleanLabel(textLink[3]);
+        lineStyle = lineStyleFor(textLink[2] + textLink[4]);
+        arrowStyle = arrowStyleFor(textLink[1], textLink[5]);
+        rest = rest.slice(textLink[0].length);
+      } else if (link && link[0].trim()) {
+        label = link[4] ? cleanLabel(link[4]) : undefined;
+        lineStyle = lineStyleFor(link[2]);
+        arrowStyle = arrowStyleFor(link[1], link[3]);
+        rest = rest.slice(link[0].length);
+      } else {
+        break;
+      }
+
+      const targets = readNodeList(state, rest);
+      if (targets.keys.length === 0) break;
+
+      sources.forEach(from => targets.keys.forEach(to => {
+        state.edges.push({ from, to, label: label || undefined, lineStyle, arrowStyle });
+      }));
+      sources = targets.keys;
+      rest = targets.rest;
+    }
+  });
+
+  return { kind: 'flowchart', direction, nodes: state.nodes, edges: state.edges, groups: state.groups };
+};
+
+const SEQUENCE_PARTICIPANT = /^(participant|actor)\s+([^\s]+)(?:\s+as\s+(.+))?$/;
+const SEQUENCE_MESSAGE = /^([^\s\-<>+:]+)\s*(<<)?(-{1,2})(>>|>|x|\))([+-])?\s*([^\s:]+)\s*:\s*(.*)$/;
+
+const parseSequence = (lines: string[]): ParsedDiagram => {
+  const state = createState();
+
+  lines.slice(1).forEach(line => {
+    const declaration = line.match(SEQUENCE_PARTICIPANT);
+    if (declaration) {
+      const [, keyword, key, alias] = declaration;
+      const name = cleanLabel(alias ?? key);
+      upsertNode(state, key, keyword === 'actor' ? `«actor»\n${name}` : name, 'rectangle');
+      return;
+    }
+
+    const message = line.match(SEQUENCE_MESSAGE);
+    if (!message) return;
+
+    const [, from, bidirectional, dashes, , , to, text] = message;
+    upsertNode(state, from);
+    upsertNode(state, to);
+    state.edges.push({
+      from,
+      to,
+      label: cleanLabel(text) || undefined,
+      lineStyle: dashes === '--' ? 'dashed' : 'solid',
+      arrowStyle: bidirectional ? 'both' : 'end'
+    });
+  });
+
+  return { kind: 'sequence', direction: 'TB', nodes: state.nodes, edges: state.edges, groups: [] };
+};
+
+const CLASS_RELATION = /^([\w.$~]+)\s*(?:"[^"]*"\s*)?(<\|?|\*|o)?(--|\.\.)(\|?>|\*|o)?\s*(?:"[^"]*"\s*)?([\w.$~]+)\s*(?::\s*(.*))?$/;
+
+const parseClassDiagram = (lines: string[]): ParsedDiagram => {
+  const state = createState();
+  const members = new Map<string, string[]>();
+  const stereotypes = new Map<string, string>();
+  const displayName = (name: string) => name.replace(/~([^~]+)~/g, '<$1>');
+
+  const declare = (rawName: string) => {
+    const key = rawName.replace(/~.*$/, '');
+    if (!state.byKey.has(key)) members.set(key, []);
+    upsertNode(state, key, displayName(rawName), 'rectangle');
+    return key;
+  };
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+
+    const classBlock = line.match(/^class\s+([\w.$~]+)(?:\s*\["([^"]+)"\])?\s*(\{)?\s*(\})?$/);
+    if (classBlock) {
+      const key = declare(classBlock[1]);
+      if (classBlock[3] && !classBlock[4]) {
+        while (i + 1 < lines.length && lines[i + 1] !== '}') {
+          const member = lines[++i];
+          const annotation = member.match(/^<<(.+)>>$/);
+          if (annotation) stereotypes.set(key, annotation[1]);
+          else members.get(key)!.push(displayName(member));
+        }
+        i++;
+      }
+      continue;
+    }
+
+    const annotation = line.match(/^<<(.+)>>\s+([\w.$]+)$/);
+    if (annotation) {
+      stereotypes.set(declare(annotation[2]), annotation[1]);
+      continue;
+    }
+
+    const relation = line.match(CLASS_RELATION);
+    if (relation) {
+      const [, left, startHead, link, endHead, right, text] = relation;
+      state.edges.push({
+        from: declare(left),
+        to: declare(right),
+        label: text ? cleanLabel(text) : undefined,
+        lineStyle: link === '..' ? 'dashed' : 'solid',
+        // Composition and aggregation diamonds have no arrowhead equivalent
+        arrowStyle: arrowStyleFor(startHead?.startsWith('<') ? '<' : undefined, endHead?.endsWith('>') ? '>' : undefined)
+      });
+      continue;
+    }
+
+    const member = line.match(/^([\w.$~]+)\s*:\s*(.+)$/);
+    if (member) {
+      members.get(declare(member[1]))!.push(displayName(member[2]));
+    }
+  }
+
+  state.nodes.forEach(node => {
+    const stereotype = stereotypes.get(node.key);
+    const header = stereotype ? `«${stereotype}»\n${node.label}` : node.label;
+    const body = members.get(node.key) || [];
+    node.label = body.length > 0 ? `${header}\n──────\n${body.join('\n')}` : header;
+  });
+
+  return { kind: 'class', direction: 'TB', nodes: state.nodes, edges: state.edges, groups: [] };
+};
+
+export const parseMermaid = (source: string): ParsedDiagram => {
+  const lines = cleanLines(source);
+  if (lines.length === 0) {
+    throw new Error('The Mermaid source is empty');
+  }
+
+  const header = lines[0];
+  let diagram: ParsedDiagram;
+  if (/^(graph|flowchart)\b/.test(header)) {
+    diagram = parseFlowchart(lines, header);
+  } else if (/^sequenceDiagram\b/.test(header)) {
+    diagram = parseSequence(lines);
+  } else if (/^classDiagram\b/.test(header)) {
+    diagram = parseClassDiagram(lines);
+  } else {
+    throw new Error(`Only flowcharts, sequence and class diagrams can be added to the board (found "${header.split(/\s+/)[0]}")`);
+  }
+
+  if (diagram.nodes.length === 0) {
+    throw new Error('Could not find any elements in this Mermaid diagram');
+  }
+  return diagram;
+};
+
+// Throws when the source cannot be understood
+export const convertMermaid = (source: string): DiagramFragment => layoutDiagram(parseMermaid(source));
+
+export const isMermaidSource = (source: string) =>
+  /^\s*(%%.*\n\s*)*(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram|erDiagram|gantt|pie|journey|mindmap|timeline|gitGraph)\b/.test(source);
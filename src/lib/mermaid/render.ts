@@ -0,0 +1,28 @@
+// Mermaid is large, so it is only loaded the first time a diagram is rendered
+let mermaidPromise: Promise<typeof import('mermaid').default> | null = null;
+let renderCount = 0;
+
+const loadMermaid = () => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'default' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+// Renders entirely in the browser; the source never leaves the page
+export const renderMermaid = async (source: string): Promise<string> => {
+  const mermaid = await loadMermaid();
+  const id = `mermaid-preview-${++renderCount}`;
+
+  try {
+    await mermaid.parse(source);
+    const { svg } = await mermaid.render(id, source);
+    return svg;
+  } finally {
+    // A failed render leaves its temporary container in the body
+    document.getElementById(`d${id}`)?.remove();
+  }
+};
@@ -0,0 +1,287 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Connection, DiagramFragment, Shape } from '../../types';
+import { ParsedDiagram, ParsedEdge, ParsedNode, parsePlantUml } from './parser';
+
+// Places a parsed PlantUML diagram on the board. Graph-like diagrams get a
+// layered (Sugiyama-style) layout; sequence diagrams get lifelines.
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const CHAR_WIDTH = 8;
+const LINE_HEIGHT = 20;
+const RANK_GAP = 100;
+const NODE_GAP = 60;
+// How far a connection from a shape back to itself reaches out
+const LOOP_SIZE = 40;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Rough text metrics for text-sm; good enough to keep labels inside their shapes
+export const measureNode = (node: Pick<ParsedNode, 'label' | 'type'>): Size => {
+  const lines = node.label.split('\n');
+  const longest = Math.max(1, ...lines.map(line => line.length));
+
+  if (node.type === 'circle') {
+    if (node.label.length <= 1) return { width: 48, height: 48 };
+    const size = clamp(Math.max(longest * CHAR_WIDTH + 48, lines.length * LINE_HEIGHT + 48), 96, 200);
+    return { width: size, height: size };
+  }
+
+  if (node.type === 'diamond') {
+    const size = clamp(longest * CHAR_WIDTH * 1.5 + 40, 128, 260);
+    return { width: size, height: size };
+  }
+
+  const width = clamp(longest * CHAR_WIDTH + 48, 128, 320);
+  const wrappedLines = lines.reduce((sum, line) => sum + Math.max(1, Math.ceil((line.length * CHAR_WIDTH) / (width - 48))), 0);
+  return { width, height: Math.max(80, wrappedLines * LINE_HEIGHT + 40) };
+};
+
+const createShape = (node: Pick<ParsedNode, 'label' | 'type'>, x: number, y: number, size: Size): Shape => ({
+  id: uuidv4(),
+  type: node.type,
+  position: { x, y },
+  text: node.label,
+  borderColor: '#666',
+  borderWidth: 2,
+  width: size.width,
+  height: size.height
+});
+
+// An empty text box draws nothing, so it can hold the end of a message on a lifeline
+const createAnchor = (centerX: number, centerY: number): Shape => ({
+  id: uuidv4(),
+  type: 'text',
+  position: { x: centerX - 2, y: centerY - 2 },
+  text: '',
+  width: 4,
+  height: 4
+});
+
+const createConnection = (edge: ParsedEdge, from: string, to: string): Connection => ({
+  id: uuidv4(),
+  from,
+  to,
+  points: [],
+  lineStyle: edge.lineStyle,
+  arrowStyle: edge.arrowStyle,
+  ...(edge.label ? { labels: [{ id: uuidv4(), text: edge.label, position: 0.5 }] } : {})
+});
+
+// Leaves the shape on the right and comes back in at the top, around its corner
+const createSelfLoop = (edge: ParsedEdge, shape: Shape): Connection => {
+  const right = shape.position.x + shape.width! + LOOP_SIZE;
+  const top = shape.position.y - LOOP_SIZE;
+  return {
+    ...createConnection(edge, shape.id, shape.id),
+    fromPort: 'right',
+    toPort: 'top',
+    points: [
+      { x: right, y: shape.position.y + shape.height! / 2 },
+      { x: right, y: top },
+      { x: shape.position.x + shape.width! / 2, y: top }
+    ]
+  };
+};
+
+// Ranks nodes by longest path from the sources, ignoring edges that close cycles
+const rankNodes = (nodes: ParsedNode[], edges: ParsedEdge[]) => {
+  const outgoing = new Map<string, string[]>(nodes.map(node => [node.key, []]));
+  edges.forEach(edge => {
+    if (edge.from !== edge.to) outgoing.get(edge.from)?.push(edge.to);
+  });
+
+  // Depth-first search marks back edges so the remaining graph is acyclic
+  const state = new Map<string, 'visiting' | 'done'>();
+  const forward = new Map<string, string[]>(nodes.map(node => [node.key, []]));
+  const visit = (key: string) => {
+    state.set(key, 'visiting');
+    (outgoing.get(key) || []).forEach(next => {
+      if (state.get(next) === 'visiting') return;
+      forward.get(key)!.push(next);
+      if (!state.has(next)) visit(next);
+    });
+    state.set(key, 'done');
+  };
+
+  const hasIncoming = new Set(edges.filter(edge => edge.from !== edge.to).map(edge => edge.to));
+  nodes.filter(node => !hasIncoming.has(node.key)).forEach(node => !state.has(node.key) && visit(node.key));
+  nodes.forEach(node => !state.has(node.key) && visit(node.key));
+
+  const indegree = new Map<string, number>(nodes.map(node => [node.key, 0]));
+  forward.forEach(targets => targets.forEach(target => indegree.set(target, indegree.get(target)! + 1)));
+
+  const rank = new Map<string, number>(nodes.map(node => [node.key, 0]));
+  const queue = nodes.filter(node => indegree.get(node.key) === 0).map(node => node.key);
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    forward.get(key)!.forEach(target => {
+      rank.set(target, Math.max(rank.get(target)!, rank.get(key)! + 1));
+      indegree.set(target, indegree.get(target)! - 1);
+      if (indegree.get(target) === 0) queue.push(target);
+    });
+  }
+
+  return rank;
+};
+
+const layoutGraph = (diagram: ParsedDiagram): DiagramFragment => {
+  const { nodes, edges, groups, direction } = diagram;
+  const rank = rankNodes(nodes, edges);
+  const sizes = new Map(nodes.map(node => [node.key, measureNode(node)]));
+  const groupOrder = new Map(groups.map((group, index) => [group.key, index]));
+
+  const layers: ParsedNode[][] = [];
+  nodes.forEach(node => {
+    const r = rank.get(node.key)!;
+    (layers[r] = layers[r] || []).push(node);
+  });
+
+  // Order each layer by the average position of its neighbours in the layer above,
+  // keeping members of one group next to each other
+  const order = new Map<string, number>();
+  layers.forEach(layer => layer.forEach((node, index) => order.set(node.key, index)));
+  const predecessors = new Map<string, string[]>(nodes.map(node => [node.key, []]));
+  edges.forEach(edge => {
+    if (rank.get(edge.from)! < rank.get(edge.to)!) predecessors.get(edge.to)!.push(edge.from);
+    else if (rank.get(edge.to)! < rank.get(edge.from)!) predecessors.get(edge.from)!.push(edge.to);
+  });
+
+  for (let pass = 0; pass < 2; pass++) {
+    layers.forEach(layer => {
+      const barycenter = (node: ParsedNode) => {
+        const preds = predecessors.get(node.key)!;
+        return preds.length > 0
+          ? preds.reduce((sum, key) => sum + order.get(key)!, 0) / preds.length
+          : order.get(node.key)!;
+      };
+      const groupIndex = (node: ParsedNode) => (node.group ? groupOrder.get(node.group)! : -1);
+
+      layer.sort((a, b) => groupIndex(a) - groupIndex(b) || barycenter(a) - barycenter(b));
+      layer.forEach((node, index) => order.set(node.key, index));
+    });
+  }
+
+  // Main axis runs along ranks, cross axis across each layer
+  const horizontal = direction === 'LR';
+  const mainSize = (size: Size) => (horizontal ? size.width : size.height);
+  const crossSize = (size: Size) => (horizontal ? size.height : size.width);
+
+  const shapeByKey = new Map<string, Shape>();
+  const shapes: Shape[] = [];
+  let mainOffset = 0;
+
+  layers.forEach(layer => {
+    if (!layer) return;
+    const layerMain = Math.max(...layer.map(node => mainSize(sizes.get(node.key)!)));
+    const layerCross = layer.reduce((sum, node) => sum + crossSize(sizes.get(node.key)!), 0) + NODE_GAP * (layer.length - 1);
+    let crossOffset = -layerCross / 2;
+
+    layer.forEach(node => {
+      const size = sizes.get(node.key)!;
+      // Centre each node on its layer's axis
+      const main = mainOffset + (layerMain - mainSize(size)) / 2;
+      const shape = horizontal
+        ? createShape(node, main, crossOffset, size)
+        : createShape(node, crossOffset, main, size);
+      shapeByKey.set(node.key, shape);
+      shapes.push(shape);
+      crossOffset += crossSize(size) + NODE_GAP;
+    });
+
+    mainOffset += layerMain + RANK_GAP;
+  });
+
+  const labels: Shape[] = [];
+  const connections = edges.map(edge => edge.from === edge.to
+    ? createSelfLoop(edge, shapeByKey.get(edge.from)!)
+    : createConnection(edge, shapeByKey.get(edge.from)!.id, shapeByKey.get(edge.to)!.id));
+
+  // Group titles sit above the group's members
+  groups.forEach(group => {
+    const members = nodes.filter(node => node.group === group.key).map(node => shapeByKey.get(node.key)!);
+    if (members.length === 0) return;
+    const left = Math.min(...members.map(shape => shape.position.x));
+    const top = Math.min(...members.map(shape => shape.position.y));
+    const right = Math.max(...members.map(shape => shape.position.x + shape.width!));
+    labels.push({
+      id: uuidv4(),
+      type: 'text',
+      position: { x: left, y: top - 40 },
+      text: group.label,
+      width: Math.max(right - left, 128),
+      height: 30
+    });
+  });
+
+  return { shapes: [...shapes, ...labels], connections };
+};
+
+const layoutSequence = (diagram: ParsedDiagram): DiagramFragment => {
+  const HEADER_TOP = 0;
+  const FIRST_MESSAGE = 150;
+  const MESSAGE_GAP = 70;
+
+  const shapes: Shape[] = [];
+  const connections: Connection[] = [];
+  const lifelineX = new Map<string, number>();
+  let x = 0;
+
+  diagram.nodes.forEach(node => {
+    const size = measureNode(node);
+    const header = createShape(node, x, HEADER_TOP, size);
+    shapes.push(header);
+    lifelineX.set(node.key, x + size.width / 2);
+    x += Math.max(size.width, 160) + NODE_GAP;
+  });
+
+  const bottom = FIRST_MESSAGE + diagram.edges.length * MESSAGE_GAP;
+  diagram.nodes.forEach((node, index) => {
+    const lineX = lifelineX.get(node.key)!;
+    shapes.push({
+      id: uuidv4(),
+      type: 'line',
+      position: { x: lineX, y: shapes[index].position.y + shapes[index].height! },
+      endPoint: { x: lineX, y: bottom },
+      text: '',
+      borderColor: '#9CA3AF',
+      borderWidth: 1,
+      width: 0,
+      height: 0
+    });
+  });
+
+  // Each message links two anchors on the lifelines; a message to oneself loops out to the right
+  diagram.edges.forEach((edge, index) => {
+    const y = FIRST_MESSAGE + index * MESSAGE_GAP;
+    const fromX = lifelineX.get(edge.from)!;
+
+    if (edge.from === edge.to) {
+      const returnY = y + MESSAGE_GAP / 2;
+      const source = createAnchor(fromX, y);
+      const target = createAnchor(fromX, returnY);
+      shapes.push(source, target);
+      connections.push({
+        ...createConnection(edge, source.id, target.id),
+        points: [{ x: fromX + LOOP_SIZE, y }, { x: fromX + LOOP_SIZE, y: returnY }]
+      });
+      return;
+    }
+
+    const source = createAnchor(fromX, y);
+    const target = createAnchor(lifelineX.get(edge.to)!, y);
+    shapes.push(source, target);
+    connections.push(createConnection(edge, source.id, target.id));
+  });
+
+  return { shapes, connections };
+};
+
+export const layoutDiagram = (diagram: ParsedDiagram): DiagramFragment =>
+  diagram.kind === 'sequence' ? layoutSequence(diagram) : layoutGraph(diagram);
+
+// Throws when the source cannot be understood
+export const convertPlantUml = (source: string): DiagramFragment => layoutDiagram(parsePlantUml(source));
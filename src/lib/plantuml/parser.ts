@@ -0,0 +1,498 @@
+import { ArrowStyle, LineStyle, ShapeType } from '../../types';
+
+// Parses the PlantUML subsets shown in the Code Hints (sequence, use case,
+// class, activity, component and state diagrams) into a plain graph. Layout
+// into board coordinates happens separately, in layout.ts. The Mermaid
+// importer produces the same ParsedDiagram so both share that layout.
+
+export type DiagramKind = 'sequence' | 'usecase' | 'class' | 'activity' | 'component' | 'state' | 'flowchart';
+
+export interface ParsedNode {
+  key: string;
+  label: string;
+  type: ShapeType;
+  group?: string;
+}
+
+export interface ParsedEdge {
+  from: string;
+  to: string;
+  label?: string;
+  lineStyle: LineStyle;
+  arrowStyle: ArrowStyle;
+}
+
+export interface ParsedGroup {
+  key: string;
+  label: string;
+}
+
+export interface ParsedDiagram {
+  kind: DiagramKind;
+  direction: 'TB' | 'LR';
+  nodes: ParsedNode[];
+  // In source order; for sequence diagrams this is the message order
+  edges: ParsedEdge[];
+  groups: ParsedGroup[];
+}
+
+const ENDPOINT = String.raw`(\[\*\]|\[[^\]]+\]|\([^)]+\)|"[^"]+"|:[^:]+:|[\w.$]+)`;
+const MULTIPLICITY = String.raw`(?:"[^"]*"\s*)?`;
+const ARROW = String.raw`([<*o#x+^}]?\|?[-.=]+(?:\[[^\]]*\])?(?:left|right|up|down|le|ri|do|l|r|u|d)?[-.=]*\|?[>*o#x+^{]?)`;
+const LINK = new RegExp(
+  String.raw`^${ENDPOINT}\s*${MULTIPLICITY}${ARROW}\s*${MULTIPLICITY}${ENDPOINT}\s*(?::\s*(.*))?$`
+);
+
+const SEQUENCE_PARTICIPANT = /^(participant|actor|boundary|control|entity|database|collections|queue)\s+("([^"]+)"|(\S+))(?:\s+as\s+("([^"]+)"|(\S+)))?/;
+const SEQUENCE_MESSAGE = /^("[^"]+"|[\w.$]+)\s*([<ox\\/]*-{1,2}(?:\[[^\]]*\])?[>ox\\/]*)\s*("[^"]+"|[\w.$]+)\s*(?::\s*(.*))?$/;
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1').trim();
+
+// PlantUML escapes line breaks inside labels as \n
+const unescapeLabel = (value: string) => value.replace(/\\n/g, '\n').trim();
+
+// Drops comments, notes and directives that carry no structure
+const cleanLines = (source: string) => {
+  const lines: string[] = [];
+  let inBlockComment = false;
+  let inNote = false;
+
+  source.split(/\r?\n/).forEach(rawLine => {
+    let line = rawLine.trim();
+
+    if (inBlockComment) {
+      if (line.includes("'/")) inBlockComment = false;
+      return;
+    }
+    if (line.startsWith("/'")) {
+      if (!line.includes("'/")) inBlockComment = true;
+      return;
+    }
+    if (inNote) {
+      if (/^end\s*note$/i.test(line)) inNote = false;
+      return;
+    }
+    if (/^(note|hnote|rnote)\b/i.test(line)) {
+      if (!line.includes(':')) inNote = true;
+      return;
+    }
+
+    line = line.replace(/\s+'.*$/, '');
+    if (
+      !line ||
+      line.startsWith("'") ||
+      /^@(start|end)uml/i.test(line) ||
+      /^(title|skinparam|hide|show|autonumber|scale|caption|header|footer|legend|end legend|!)/i.test(line)
+    ) {
+      return;
+    }
+
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+export const detectKind = (lines: string[]): DiagramKind => {
+  const source = lines.join('\n');
+
+  if (/^(start|stop)$/m.test(source) || /^:[^\n]*;?$/m.test(source) || /^if\s*\(/m.test(source)) return 'activity';
+  if (/\[\*\]/.test(source) || /^state\s/m.test(source)) return 'state';
+  if (/^(abstract\s+)?(class|interface|enum)\s/m.test(source) || /<\|--|--\|>|\.\.\|>/.test(source)) return 'class';
+  if (/^usecase\s/m.test(source) || /\([^)]+\)\s*[-.]|[-.>]\s*\([^)]+\)/.test(source)) return 'usecase';
+  if (/\[[^\]*]+\]/.test(source) || /^(component|package|node|database|cloud|folder|frame)\s/m.test(source)) return 'component';
+  return 'sequence';
+};
+
+class DiagramBuilder {
+  nodes: ParsedNode[] = [];
+  edges: ParsedEdge[] = [];
+  groups: ParsedGroup[] = [];
+  groupStack: string[] = [];
+  private byKey = new Map<string, ParsedNode>();
+
+  constructor(public kind: DiagramKind) {}
+
+  get currentGroup() {
+    return this.groupStack[this.groupStack.length - 1];
+  }
+
+  node(key: string, label: string, type: ShapeType) {
+    let node = this.byKey.get(key);
+    if (!node) {
+      node = { key, label, type, group: this.currentGroup };
+      this.byKey.set(key, node);
+      this.nodes.push(node);
+    }
+    return node;
+  }
+
+  get(key: string) {
+    return this.byKey.get(key);
+  }
+
+  edge(edge: ParsedEdge) {
+    this.edges.push(edge);
+  }
+
+  openGroup(label: string) {
+    const key = `group-${this.groups.length}`;
+    this.groups.push({ key, label });
+    this.groupStack.push(key);
+  }
+
+  closeGroup() {
+    this.groupStack.pop();
+  }
+}
+
+const getArrowStyle = (arrow: string): ArrowStyle => {
+  const start = /^[<]/.test(arrow);
+  const end = /[>]$/.test(arrow);
+  if (start && end) return 'both';
+  if (start) return 'start';
+  if (end) return 'end';
+  return 'none';
+};
+
+const parseSequence = (lines: string[], builder: DiagramBuilder) => {
+  const participant = (token: string) => {
+    const key = unquote(token);
+    return builder.node(key, key, 'rectangle').key;
+  };
+
+  lines.forEach(line => {
+    const declaration = line.match(SEQUENCE_PARTICIPANT);
+    if (declaration) {
+      const [, keyword, , quotedName, plainName, alias, quotedAlias, plainAlias] = declaration;
+      const name = quotedName ?? plainName;
+      // Either `participant "Long name" as L` or `participant L as "Long name"`
+      const key = alias ? (quotedAlias ? name : plainAlias) : name;
+      const label = alias && quotedAlias ? quotedAlias : name;
+      builder.node(key, keyword === 'participant' ? unescapeLabel(label) : `«${keyword}»\n${unescapeLabel(label)}`, 'rectangle');
+      return;
+    }
+
+    const message = line.match(SEQUENCE_MESSAGE);
+    if (!message) return;
+
+    const [, left, arrow, right, text] = message;
+    const from = participant(left);
+    const to = participant(right);
+    const reversed = /^</.test(arrow) && !/>$/.test(arrow);
+
+    builder.edge({
+      from: reversed ? to : from,
+      to: reversed ? from : to,
+      label: text ? unescapeLabel(text) : undefined,
+      lineStyle: arrow.includes('--') ? 'dashed' : 'solid',
+      arrowStyle: 'end'
+    });
+  });
+};
+
+// Reads a class body or trailing `{ ... }` members
+const collectBlock = (lines: string[], start: number) => {
+  const members: string[] = [];
+  let index = start;
+  while (index < lines.length && !lines[index].startsWith('}')) {
+    members.push(lines[index]);
+    index++;
+  }
+  return { members, end: index };
+};
+
+const parseGraph = (lines: string[], builder: DiagramBuilder, setDirection: (direction: 'TB' | 'LR') => void) => {
+  const { kind } = builder;
+  const aliases = new Map<string, string>();
+
+  const classLabel = (name: string, stereotype: string | null, members: string[]) => {
+    const header = stereotype ? `«${stereotype}»\n${name}` : name;
+    return members.length > 0 ? `${header}\n──────\n${members.join('\n')}` : header;
+  };
+
+  // Resolves a link endpoint to a node key, creating the node on first use
+  const endpoint = (token: string, side: 'from' | 'to') => {
+    if (token === '[*]') {
+      if (side === 'from') return builder.node(`[*]-start-${builder.currentGroup ?? ''}`, '●', 'circle').key;
+      return builder.node(`[*]-end-${builder.currentGroup ?? ''}`, '◉', 'circle').key;
+    }
+
+    let name = token;
+    let type: ShapeType = 'rectangle';
+    if (/^\[.*\]$/.test(token)) name = token.slice(1, -1);
+    else if (/^\(.*\)$/.test(token)) {
+      name = token.slice(1, -1);
+      type = 'circle';
+    } else if (/^:.*:$/.test(token)) name = token.slice(1, -1);
+    name = unquote(name);
+
+    const key = aliases.get(name) ?? name;
+    const existing = builder.get(key);
+    if (existing) return existing.key;
+
+    const isActor = /^:.*:$/.test(token);
+    return builder.node(key, isActor ? `«actor»\n${name}` : unescapeLabel(name), type).key;
+  };
+
+  const declare = (name: string, alias: string | undefined, label: string, type: ShapeType) => {
+    const key = alias ?? name;
+    if (alias) aliases.set(name, alias);
+    const existing = builder.get(key);
+    if (existing) {
+      existing.label = label;
+      existing.type = type;
+      return existing;
+    }
+    return builder.node(key, label, type);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^left to right direction$/i.test(line)) {
+      setDirection('LR');
+      continue;
+    }
+    if (/^top to bottom direction$/i.test(line)) {
+      setDirection('TB');
+      continue;
+    }
+    if (line === '}') {
+      builder.closeGroup();
+      continue;
+    }
+
+    // Containers: package "Frontend" {, rectangle Checkout {, state Composite {
+    const container = line.match(/^(package|rectangle|node|folder|frame|cloud|namespace|together|state)\s+("([^"]+)"|([^\s{]+))?(?:\s+as\s+(\S+))?.*\{$/);
+    if (container) {
+      builder.openGroup(container[3] ?? container[4] ?? container[1]);
+      continue;
+    }
+
+    const classDeclaration = line.match(/^(abstract\s+class|abstract|class|interface|enum)\s+("([^"]+)"|([\w.$]+))(?:\s+as\s+(\w+))?(?:\s+<<\s*([^>]+?)\s*>>)?\s*(\{)?\s*(\})?$/);
+    if (classDeclaration && (kind === 'class' || kind === 'component')) {
+      const [, keyword, , quotedName, plainName, alias, stereotype, opensBlock, closesBlock] = classDeclaration;
+      const name = quotedName ?? plainName;
+      let members: string[] = [];
+      if (opensBlock && !closesBlock) {
+        const block = collectBlock(lines, i + 1);
+        members = block.members;
+        i = block.end;
+      }
+      const implicitStereotype = keyword === 'class' ? null : keyword.replace(/\s+class$/, '');
+      declare(name, alias, classLabel(name, stereotype ?? implicitStereotype, members), 'rectangle');
+      continue;
+    }
+
+    const stateDeclaration = line.match(/^state\s+("([^"]+)"|([\w.$]+))(?:\s+as\s+(\w+))?(?:\s*:\s*(.*))?$/);
+    if (stateDeclaration && kind === 'state') {
+      const [, , quotedName, plainName, alias, description] = stateDeclaration;
+      const name = quotedName ?? plainName;
+      declare(name, alias, description ? `${name}\n${unescapeLabel(description)}` : name, 'rectangle');
+      continue;
+    }
+
+    const elementDeclaration = line.match(/^(actor|usecase|component|database|queue|interface|boundary|control|entity|artifact|storage|agent|person)\s+("([^"]+)"|\(([^)]+)\)|:([^:]+):|\[([^\]]+)\]|([\w.$]+))(?:\s+as\s+("([^"]+)"|\(([^)]+)\)|([\w.$]+)))?/);
+    if (elementDeclaration) {
+      const [, keyword, , quoted, paren, colon, bracket, plain, , aliasQuoted, aliasParen, aliasPlain] = elementDeclaration;
+      let name = quoted ?? paren ?? colon ?? bracket ?? plain;
+      let alias = aliasPlain ?? aliasParen ?? aliasQuoted;
+      // `usecase UC1 as "Long name"` puts the label on the right
+      if (aliasQuoted || aliasParen) [name, alias] = [alias as string, name];
+
+      if (keyword === 'usecase') {
+        declare(name, alias, unescapeLabel(name), 'circle');
+      } else if (keyword === 'component') {
+        declare(name, alias, unescapeLabel(name), 'rectangle');
+      } else {
+        declare(name, alias, `«${keyword}»\n${unescapeLabel(name)}`, 'rectangle');
+      }
+      continue;
+    }
+
+    const link = line.match(LINK);
+    if (link) {
+      const [, left, arrow, right, text] = link;
+      const from = endpoint(left, 'from');
+      const to = endpoint(right, 'to');
+      const dashed = arrow.includes('.');
+      const arrowStyle = getArrowStyle(arrow.replace(/\|/g, ''));
+
+      // Inheritance (<|--) points at the parent on the left
+      builder.edge({
+        from,
+        to,
+        label: text ? unescapeLabel(text) : undefined,
+        lineStyle: dashed ? 'dashed' : 'solid',
+        arrowStyle
+      });
+      continue;
+    }
+
+    // Bare elements: [Web UI], (Checkout), :Actor:, Idle
+    const bare = line.match(/^(\[[^\]]+\]|\([^)]+\)|:[^:]+:)(?:\s+as\s+(\w+))?$/);
+    if (bare) {
+      const key = endpoint(bare[1], 'from');
+      if (bare[2]) aliases.set(builder.get(key)!.label, key);
+      continue;
+    }
+
+    // `Idle : waiting for input` adds a description to a state or a member to a class
+    const description = line.match(/^([\w.$]+)\s*:\s*(.+)$/);
+    if (description && (kind === 'state' || kind === 'class')) {
+      const key = aliases.get(description[1]) ?? description[1];
+      const node = builder.get(key) ?? builder.node(key, key, 'rectangle');
+      node.label = kind === 'class' && !node.label.includes('──────')
+        ? `${node.label}\n──────\n${description[2]}`
+        : `${node.label}\n${unescapeLabel(description[2])}`;
+      continue;
+    }
+
+    // A lone identifier declares a state
+    if (kind === 'state' && /^[\w.$]+$/.test(line)) {
+      endpoint(line, 'from');
+    }
+  }
+};
+
+const parseActivity = (lines: string[], builder: DiagramBuilder) => {
+  type Tail = { key: string; label?: string };
+  type Frame =
+    | { type: 'if'; decision: string; ends: Tail[]; hasElse: boolean }
+    | { type: 'while'; decision: string }
+    | { type: 'repeat'; start: Tail[]; firstKey: string | null }
+    | { type: 'fork'; start: Tail[]; ends: Tail[] };
+
+  let tails: Tail[] = [];
+  let counter = 0;
+  const frames: Frame[] = [];
+  const pendingRepeats: Extract<Frame, { type: 'repeat' }>[] = [];
+
+  const add = (label: string, type: ShapeType) => {
+    const node = builder.node(`activity-${counter++}`, label, type);
+    tails.forEach(tail => builder.edge({
+      from: tail.key,
+      to: node.key,
+      label: tail.label,
+      lineStyle: 'solid',
+      arrowStyle: 'end'
+    }));
+    tails = [{ key: node.key }];
+    pendingRepeats.forEach(frame => { frame.firstKey = node.key; });
+    pendingRepeats.length = 0;
+    return node.key;
+  };
+
+  const condition = (line: string) => line.match(/\(([^)]*)\)/)?.[1]?.trim() ?? '';
+  const branchLabel = (line: string, keyword: string) =>
+    line.match(new RegExp(`${keyword}\\s*\\(([^)]*)\\)`))?.[1]?.trim() || undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+
+    // Actions may span several lines until the closing semicolon
+    if (line.startsWith(':')) {
+      while (!/[;|<>\]}/]$/.test(line) && i + 1 < lines.length) {
+        line += '\n' + lines[++i];
+      }
+      add(unescapeLabel(line.slice(1, -1)), 'rectangle');
+      continue;
+    }
+
+    if (line === 'start') {
+      add('Start', 'circle');
+    } else if (line === 'stop' || line === 'end') {
+      add('End', 'circle');
+      tails = [];
+    } else if (line === 'detach' || line === 'kill') {
+      tails = [];
+    } else if (/^if\s*\(/.test(line)) {
+      const decision = add(condition(line), 'diamond');
+      frames.push({ type: 'if', decision, ends: [], hasElse: false });
+      tails = [{ key: decision, label: branchLabel(line, 'then') }];
+    } else if (/^(elseif|else\s+if)\s*\(/.test(line)) {
+      const frame = frames[frames.length - 1];
+      if (frame?.type !== 'if') continue;
+      frame.ends.push(...tails);
+      tails = [{ key: frame.decision }];
+      frame.decision = add(condition(line), 'diamond');
+      tails = [{ key: frame.decision, label: branchLabel(line, 'then') }];
+    } else if (/^else\b/.test(line)) {
+      const frame = frames[frames.length - 1];
+      if (frame?.type !== 'if') continue;
+      frame.ends.push(...tails);
+      frame.hasElse = true;
+      tails = [{ key: frame.decision, label: branchLabel(line, 'else') }];
+    } else if (/^end\s*if$/.test(line)) {
+      const frame = frames.pop();
+      if (frame?.type !== 'if') continue;
+      tails = [...frame.ends, ...tails];
+      if (!frame.hasElse) tails.push({ key: frame.decision });
+    } else if (/^while\s*\(/.test(line)) {
+      const decision = add(condition(line), 'diamond');
+      frames.push({ type: 'while', decision });
+      tails = [{ key: decision, label: branchLabel(line, 'is') }];
+    } else if (/^end\s*while/.test(line)) {
+      const frame = frames.pop();
+      if (frame?.type !== 'while') continue;
+      tails.forEach(tail => builder.edge({ from: tail.key, to: frame.decision, label: tail.label, lineStyle: 'solid', arrowStyle: 'end' }));
+      tails = [{ key: frame.decision, label: branchLabel(line, 'endwhile') }];
+    } else if (line === 'repeat') {
+      const frame: Extract<Frame, { type: 'repeat' }> = { type: 'repeat', start: tails, firstKey: null };
+      frames.push(frame);
+      pendingRepeats.push(frame);
+    } else if (/^repeat\s+while\s*\(/.test(line)) {
+      const frame = frames.pop();
+      if (frame?.type !== 'repeat') continue;
+      const decision = add(condition(line), 'diamond');
+      if (frame.firstKey) {
+        builder.edge({ from: decision, to: frame.firstKey, label: branchLabel(line, 'is'), lineStyle: 'solid', arrowStyle: 'end' });
+      }
+      tails = [{ key: decision, label: branchLabel(line, 'not') }];
+    } else if (line === 'fork' || line === 'split') {
+      frames.push({ type: 'fork', start: tails, ends: [] });
+    } else if (line === 'fork again' || line === 'split again') {
+      const frame = frames[frames.length - 1];
+      if (frame?.type !== 'fork') continue;
+      frame.ends.push(...tails);
+      tails = frame.start;
+    } else if (/^end\s*(fork|split|merge)/.test(line)) {
+      const frame = frames.pop();
+      if (frame?.type !== 'fork') continue;
+      tails = [...frame.ends, ...tails];
+    }
+    // Swimlanes, partitions and arrows between actions carry no extra structure here
+  }
+};
+
+export const parsePlantUml = (source: string): ParsedDiagram => {
+  const lines = cleanLines(source);
+  if (lines.length === 0) {
+    throw new Error('The PlantUML source is empty');
+  }
+
+  const kind = detectKind(lines);
+  const builder = new DiagramBuilder(kind);
+  let direction: 'TB' | 'LR' = 'TB';
+
+  if (kind === 'sequence') {
+    parseSequence(lines, builder);
+  } else if (kind === 'activity') {
+    parseActivity(lines, builder);
+  } else {
+    parseGraph(lines, builder, value => { direction = value; });
+  }
+
+  if (builder.nodes.length === 0) {
+    throw new Error(`Could not find any elements in this ${kind} diagram`);
+  }
+
+  return {
+    kind,
+    direction,
+    nodes: builder.nodes,
+    edges: builder.edges,
+    groups: builder.groups
+  };
+};
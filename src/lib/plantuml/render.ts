@@ -0,0 +1,195 @@
+import pako from 'pako';
+import { convertPlantUml } from './layout';
+import { renderDiagramToSvg } from '../export/svg';
+
+// Renders PlantUML through a chain of providers. Servers come from
+// VITE_PLANTUML_SERVERS (comma separated, tried in order) so a deployment can
+// point at its own plantuml-server and keep diagrams inside its network. The
+// built-in layout is always last, so rendering still works offline.
+
+export type PlantUmlFormat = 'svg' | 'png' | 'txt';
+
+export interface PlantUmlRender {
+  format: PlantUmlFormat;
+  // SVG markup, a PNG data URL or ASCII art
+  content: string;
+  provider: string;
+}
+
+export interface PlantUmlProvider {
+  name: string;
+  formats: PlantUmlFormat[];
+  render: (source: string, encoded: string, format: PlantUmlFormat) => Promise<string>;
+  checkHealth: () => Promise<boolean>;
+}
+
+const PUBLIC_SERVER = 'https://www.plantuml.com/plantuml';
+const REQUEST_TIMEOUT = 10000;
+const HEALTH_TTL = 60000;
+const CACHE_LIMIT = 50;
+const HEALTH_CHECK_SOURCE = '@startuml\nA -> B\n@enduml';
+
+// Base64 variant with PlantUML's own alphabet
+const encode64 = (data: Uint8Array): string => {
+  const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+  let result = '';
+  let current = 0;
+  let bits = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    current = (current << 8) | data[i];
+    bits += 8;
+    while (bits >= 6) {
+      bits -= 6;
+      result += alphabet[(current >> bits) & 0x3F];
+    }
+  }
+
+  if (bits > 0) {
+    result += alphabet[(current << (6 - bits)) & 0x3F];
+  }
+
+  return result;
+};
+
+// `~1` tells the server the payload is zlib-wrapped rather than raw DEFLATE
+export const encodePlantUml = (source: string): string =>
+  '~1' + encode64(pako.deflate(new TextEncoder().encode(source), { level: 9 }));
+
+const fetchWithTimeout = async (url: string) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// The host of an absolute URL; a same-origin path such as `/plantuml` (a proxy) names itself
+const getServerName = (root: string) => /^[a-z][a-z\d+.-]*:\/\/([^/]+)/i.exec(root)?.[1] ?? root;
+
+export const createServerProvider = (baseUrl: string): PlantUmlProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const name = getServerName(root);
+
+  return {
+    name,
+    formats: ['svg', 'png', 'txt'],
+    render: async (_source, encoded, format) => {
+      const response = await fetchWithTimeout(`${root}/${format}/${encoded}`);
+      // PlantUML answers syntax errors with 400 and an image of the error, which is still worth showing
+      if (!response.ok && response.status !== 400) {
+        throw new Error(`${name} responded with ${response.status} ${response.statusText}`);
+      }
+      return format === 'png' ? blobToDataUrl(await response.blob()) : response.text();
+    },
+    checkHealth: async () => {
+      try {
+        const response = await fetchWithTimeout(`${root}/txt/${encodePlantUml(HEALTH_CHECK_SOURCE)}`);
+        return response.ok;
+      } catch {
+        return false;
+      }
+    }
+  };
+};
+
+// Draws the board's own conversion of the source, so only the subset the importer understands is supported
+export const localProvider: PlantUmlProvider = {
+  name: 'Built-in renderer',
+  formats: ['svg'],
+  render: async source => {
+    const fragment = convertPlantUml(source);
+    const rendered = renderDiagramToSvg({ shapes: fragment.shapes, connections: fragment.connections, drawings: [] }, { padding: 20 });
+    if (!rendered) throw new Error('The diagram is empty');
+    return rendered.svg;
+  },
+  checkHealth: async () => true
+};
+
+const configuredServers = () => {
+  const servers = import.meta.env.VITE_PLANTUML_SERVERS;
+  if (servers === undefined) return [PUBLIC_SERVER];
+  return String(servers).split(',').map(server => server.trim()).filter(Boolean);
+};
+
+export const getProviders = (): PlantUmlProvider[] => [
+  ...configuredServers().map(createServerProvider),
+  localProvider
+];
+
+const health = new Map<string, { healthy: boolean; checkedAt: number }>();
+
+const isHealthy = async (provider: PlantUmlProvider) => {
+  const known = health.get(provider.name);
+  if (known && Date.now() - known.checkedAt < HEALTH_TTL) return known.healthy;
+
+  const healthy = await provider.checkHealth();
+  health.set(provider.name, { healthy, checkedAt: Date.now() });
+  return healthy;
+};
+
+// Insertion-ordered, so the first key is always the least recently used
+const cache = new Map<string, PlantUmlRender>();
+
+const remember = (key: string, result: PlantUmlRender) => {
+  cache.delete(key);
+  cache.set(key, result);
+  if (cache.size > CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value!);
+  }
+};
+
+export const renderPlantUml = async (
+  source: string,
+  format: PlantUmlFormat = 'svg',
+  providers: PlantUmlProvider[] = getProviders()
+): Promise<PlantUmlRender> => {
+  const encoded = encodePlantUml(source);
+  const key = `${format}:${encoded}`;
+  const cached = cache.get(key);
+  if (cached) {
+    remember(key, cached);
+    return cached;
+  }
+
+  const errors: string[] = [];
+
+  for (const provider of providers) {
+    if (!provider.formats.includes(format)) continue;
+    if (!(await isHealthy(provider))) {
+      errors.push(`${provider.name} is unreachable`);
+      continue;
+    }
+
+    try {
+      const content = await provider.render(source, encoded, format);
+      const result = { format, content, provider: provider.name };
+      // The fallback stands in while servers are down; once one is back its render should win
+      if (provider !== localProvider) remember(key, result);
+      return result;
+    } catch (err) {
+      console.error(`PlantUML provider ${provider.name} failed:`, err);
+      errors.push(err instanceof Error ? err.message : `${provider.name} failed`);
+      // A provider that fails mid-render is skipped until its next health check
+      if (provider !== localProvider) {
+        health.set(provider.name, { healthy: false, checkedAt: Date.now() });
+      }
+    }
+  }
+
+  throw new Error(
+    errors.length > 0
+      ? `Could not render the diagram: ${errors.join('; ')}`
+      : `No PlantUML server is configured for ${format.toUpperCase()} output`
+  );
+};
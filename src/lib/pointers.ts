@@ -0,0 +1,49 @@
+// Pointer Events helpers shared by the canvas gestures.
+//
+// Palm rejection: while a stylus touches or hovers the screen, and for a moment
+// after it lifts, touches come from the hand holding it and are ignored.
+
+const STYLUS_GRACE_MS = 600;
+
+let isStylusDown = false;
+let lastStylusTime = -Infinity;
+
+interface PointerInfo {
+  pointerType: string;
+  timeStamp: number;
+}
+
+// Keeps track of the stylus; returns the cleanup. Safe to install more than once.
+export const watchStylus = (target: Window = window) => {
+  const handleDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'pen') return;
+    isStylusDown = true;
+    lastStylusTime = e.timeStamp;
+  };
+  const handleMove = (e: PointerEvent) => {
+    if (e.pointerType === 'pen') lastStylusTime = e.timeStamp;
+  };
+  const handleUp = (e: PointerEvent) => {
+    if (e.pointerType !== 'pen') return;
+    isStylusDown = false;
+    lastStylusTime = e.timeStamp;
+  };
+
+  target.addEventListener('pointerdown', handleDown, true);
+  target.addEventListener('pointermove', handleMove, true);
+  target.addEventListener('pointerup', handleUp, true);
+  target.addEventListener('pointercancel', handleUp, true);
+  return () => {
+    target.removeEventListener('pointerdown', handleDown, true);
+    target.removeEventListener('pointermove', handleMove, true);
+    target.removeEventListener('pointerup', handleUp, true);
+    target.removeEventListener('pointercancel', handleUp, true);
+  };
+};
+
+export const isPalmTouch = (e: PointerInfo) =>
+  e.pointerType === 'touch' && (isStylusDown || e.timeStamp - lastStylusTime < STYLUS_GRACE_MS);
+
+// Pressure is only meaningful from a stylus; mice report a constant 0.5 while pressed
+export const getPressure = (e: PointerInfo & { pressure: number }) =>
+  e.pointerType === 'pen' ? e.pressure : undefined;
@@ -0,0 +1,217 @@
+import { Bounds, Connection, DiagramState, DrawingPath, Point, Shape } from '../types';
+import { getPointsBounds, getShapeAt } from './geometry';
+import { TRANSPARENT } from './shapeStyle';
+
+// Ink-to-shape recognition. A finished stroke is compared with the ideal outline of
+// each shape it could be, entirely from its points, so nothing leaves the browser.
+
+export type Recognition =
+  | { kind: 'rectangle' | 'circle' | 'diamond'; bounds: Bounds }
+  | { kind: 'line' | 'arrow'; start: Point; end: Point };
+
+// What a stroke turns into, and the history label of the change
+export interface InkConversion {
+  label: string;
+  shape?: Shape;
+  connection?: Connection;
+}
+
+// Ends closer together than this share of the stroke's size make it a closed outline
+const CLOSED_GAP = 0.25;
+// Distance between the ends over the length drawn, for a stroke to count as straight
+const STRAIGHTNESS = 0.94;
+// Mean distance of the ink from an ideal outline, as a share of its half-size
+const MAX_FIT_ERROR = 0.12;
+// Anything smaller on screen is handwriting or a dot, not a shape
+const MIN_SIZE = 16;
+// Closed strokes are compared at this many evenly spaced points, so slow parts don't count double
+const SAMPLES = 64;
+// How far off a shape's box a connection's end may land, in screen pixels
+const SNAP_DISTANCE = 12;
+// Circles drawn slightly oval are evened out
+const CIRCLE_ASPECT = 1.2;
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const getLength = (points: Point[]) =>
+  points.reduce((length, point, i) => (i > 0 ? length + distance(points[i - 1], point) : 0), 0);
+
+const isStraight = (points: Point[]) => {
+  const length = getLength(points);
+  return length > 0 && distance(points[0], points[points.length - 1]) / length >= STRAIGHTNESS;
+};
+
+// `count` points at equal distances along the stroke
+const resample = (points: Point[], count: number): Point[] => {
+  const step = getLength(points) / (count - 1);
+  const result = [points[0]];
+  let carried = 0;
+  for (let i = 1; i < points.length && result.length < count; i++) {
+    let from = points[i - 1];
+    const to = points[i];
+    let segment = distance(from, to);
+    while (carried + segment >= step && result.length < count) {
+      const t = (step - carried) / segment;
+      from = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+      result.push(from);
+      segment = distance(from, to);
+      carried = 0;
+    }
+    carried += segment;
+  }
+  while (result.length < count) result.push(points[points.length - 1]);
+  return result;
+};
+
+// Mean misfit of each closed outline, with points measured relative to the box's centre and half-size
+const OUTLINES: { kind: 'rectangle' | 'circle' | 'diamond'; error: (x: number, y: number) => number }[] = [
+  { kind: 'rectangle', error: (x, y) => Math.abs(1 - Math.max(Math.abs(x), Math.abs(y))) },
+  { kind: 'circle', error: (x, y) => Math.abs(Math.hypot(x, y) - 1) },
+  { kind: 'diamond', error: (x, y) => Math.abs(Math.abs(x) + Math.abs(y) - 1) }
+];
+
+const recognizeClosed = (points: Point[], bounds: Bounds): Recognition | null => {
+  const rx = bounds.width / 2;
+  const ry = bounds.height / 2;
+  if (rx === 0 || ry === 0) return null;
+
+  const cx = bounds.x + rx;
+  const cy = bounds.y + ry;
+  const samples = resample(points, SAMPLES).map(point => ({ x: (point.x - cx) / rx, y: (point.y - cy) / ry }));
+  const [best] = OUTLINES
+    .map(({ kind, error }) => ({ kind, error: samples.reduce((sum, p) => sum + error(p.x, p.y), 0) / samples.length }))
+    .sort((a, b) => a.error - b.error);
+  if (best.error > MAX_FIT_ERROR) return null;
+
+  const aspect = Math.max(rx, ry) / Math.min(rx, ry);
+  if (best.kind === 'circle' && aspect <= CIRCLE_ASPECT) {
+    const size = rx + ry;
+    return { kind: 'circle', bounds: { x: cx - size / 2, y: cy - size / 2, width: size, height: size } };
+  }
+  return { kind: best.kind, bounds };
+};
+
+// A straight shaft to the point farthest from the start, then a short head that stays
+// near that tip and strays to the side of the shaft
+const recognizeArrow = (points: Point[]): Recognition | null => {
+  const start = points[0];
+  let tipIndex = 0;
+  points.forEach((point, i) => {
+    if (distance(start, point) > distance(start, points[tipIndex])) tipIndex = i;
+  });
+
+  const tip = points[tipIndex];
+  const shaft = points.slice(0, tipIndex + 1);
+  const head = points.slice(tipIndex);
+  const shaftLength = distance(start, tip);
+  if (head.length < 3 || shaft.length < 2 || !isStraight(shaft)) return null;
+
+  const headLength = getLength(head);
+  if (headLength < shaftLength * 0.1 || headLength > shaftLength) return null;
+  if (head.some(point => distance(point, tip) > shaftLength * 0.4)) return null;
+
+  const side = (point: Point) =>
+    Math.abs((tip.x - start.x) * (point.y - start.y) - (tip.y - start.y) * (point.x - start.x)) / shaftLength;
+  if (Math.max(...head.map(side)) < shaftLength * 0.05) return null;
+
+  return { kind: 'arrow', start: { x: start.x, y: start.y }, end: { x: tip.x, y: tip.y } };
+};
+
+// The shape a stroke looks like, or null. `zoom` scales the size limits to what the user sees.
+export const recognizeStroke = (points: Point[], zoom = 1): Recognition | null => {
+  if (points.length < 3) return null;
+
+  const bounds = getPointsBounds(points);
+  const size = Math.max(bounds.width, bounds.height);
+  if (size * zoom < MIN_SIZE) return null;
+
+  // Plain points, without the stroke's per-point data
+  const start = { x: points[0].x, y: points[0].y };
+  const end = { x: points[points.length - 1].x, y: points[points.length - 1].y };
+  if (distance(start, end) <= size * CLOSED_GAP) return recognizeClosed(points, bounds);
+  if (isStraight(points)) return { kind: 'line', start, end };
+  return recognizeArrow(points);
+};
+
+// What to put on the board instead of `drawing`. A stroke from one shape to another
+// becomes a connection between them, even when it wanders; otherwise the stroke
+// becomes a shape in its own colour, if it looks like one.
+export const convertStroke = (drawing: DrawingPath, shapes: Shape[], zoom = 1): InkConversion | null => {
+  if (drawing.pen === 'highlighter' || drawing.points.length < 3) return null;
+
+  const recognition = recognizeStroke(drawing.points, zoom);
+  const isClosed = !!recognition && 'bounds' in recognition;
+  const start = recognition && 'start' in recognition ? recognition.start : drawing.points[0];
+  const end = recognition && 'end' in recognition ? recognition.end : drawing.points[drawing.points.length - 1];
+  const from = isClosed ? null : getShapeAt(shapes, start, SNAP_DISTANCE / zoom);
+  const to = isClosed ? null : getShapeAt(shapes, end, SNAP_DISTANCE / zoom);
+
+  if (from && to && from.id !== to.id) {
+    return {
+      label: 'Convert ink to connection',
+      connection: {
+        id: `conn-${Date.now()}`,
+        from: from.id,
+        to: to.id,
+        points: [],
+        lineStyle: recognition ? 'solid' : 'curved',
+        arrowStyle: recognition?.kind === 'arrow' ? 'end' : 'none'
+      }
+    };
+  }
+  if (!recognition) return null;
+
+  const style = {
+    text: '',
+    borderColor: drawing.color,
+    borderWidth: Math.max(1, Math.min(10, Math.round(drawing.width))),
+    ...(drawing.opacity !== undefined && drawing.opacity < 1 && { opacity: drawing.opacity })
+  };
+
+  if (!('bounds' in recognition)) {
+    return {
+      label: `Convert ink to ${recognition.kind}`,
+      shape: {
+        id: `shape-${Date.now()}`,
+        type: 'line',
+        position: { x: Math.round(recognition.start.x), y: Math.round(recognition.start.y) },
+        endPoint: { x: Math.round(recognition.end.x), y: Math.round(recognition.end.y) },
+        width: 0,
+        height: 0,
+        ...(recognition.kind === 'arrow' && { arrowStyle: 'end' as const }),
+        ...style
+      }
+    };
+  }
+
+  const { x, y, width, height } = recognition.bounds;
+  return {
+    label: `Convert ink to ${recognition.kind}`,
+    shape: {
+      id: `shape-${Date.now()}`,
+      type: recognition.kind,
+      position: { x: Math.round(x), y: Math.round(y) },
+      width: Math.round(width),
+      height: Math.round(height),
+      // Ink doesn't hide what is under it, so neither does the shape drawn with it
+      fillColor: TRANSPARENT,
+      ...style
+    }
+  };
+};
+
+// Swaps the stroke for what it was recognised as
+export const applyConversion = (state: DiagramState, drawingId: string, conversion: InkConversion): DiagramState => ({
+  ...state,
+  drawings: state.drawings.filter(d => d.id !== drawingId),
+  shapes: conversion.shape ? [...state.shapes, conversion.shape] : state.shapes,
+  connections: conversion.connection ? [...state.connections, conversion.connection] : state.connections
+});
+
+// Puts the original stroke back in place of what it was converted to
+export const revertConversion = (state: DiagramState, drawing: DrawingPath, conversion: InkConversion): DiagramState => ({
+  ...state,
+  drawings: state.drawings.some(d => d.id === drawing.id) ? state.drawings : [...state.drawings, drawing],
+  shapes: conversion.shape ? state.shapes.filter(s => s.id !== conversion.shape!.id) : state.shapes,
+  connections: conversion.connection ? state.connections.filter(c => c.id !== conversion.connection!.id) : state.connections
+});
@@ -0,0 +1,310 @@
+import { Bounds, Connection, Point, Shape } from '../types';
+import { getShapeBounds } from './geometry';
+
+// Orthogonal connector routing. Routes are found with A* over a sparse grid
+// built from the edges of nearby shapes, so the cost depends on how crowded
+// the area between the two ends is rather than on the size of the board.
+
+export type Side = 'top' | 'right' | 'bottom' | 'left';
+
+// Everything a route depends on besides its own two shapes, built once per board change
+export interface RoutingContext {
+  obstacles: { id: string; bounds: Bounds }[];
+  // Offset of each connection within its bundle of parallel connections
+  parallelOffsets: Map<string, number>;
+}
+
+const MARGIN = 16;
+const PARALLEL_GAP = 12;
+const BEND_COST = 24;
+const SEARCH_PADDING = 160;
+const CACHE_LIMIT = 2000;
+
+const DIRECTIONS: Record<Side, Point> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 }
+};
+
+export const createRoutingContext = (shapes: Shape[], connections: Connection[]): RoutingContext => {
+  // Text and lines are annotations; routing around them would only add detours
+  const obstacles = shapes
+    .filter(shape => shape.type !== 'text' && shape.type !== 'line')
+    .map(shape => ({ id: shape.id, bounds: getShapeBounds(shape) }));
+
+  const bundles = new Map<string, Connection[]>();
+  connections.forEach(connection => {
+    if (connection.lineStyle !== 'orthogonal') return;
+    const key = [connection.from, connection.to].sort().join('|');
+    bundles.set(key, [...(bundles.get(key) || []), connection]);
+  });
+
+  const parallelOffsets = new Map<string, number>();
+  bundles.forEach(bundle => {
+    if (bundle.length < 2) return;
+    [...bundle].sort((a, b) => a.id.localeCompare(b.id)).forEach((connection, i) => {
+      // Measured in the bundle's own direction, so A->B and B->A spread the same way
+      const sign = connection.from < connection.to ? 1 : -1;
+      parallelOffsets.set(connection.id, sign * (i - (bundle.length - 1) / 2) * PARALLEL_GAP);
+    });
+  });
+
+  return { obstacles, parallelOffsets };
+};
+
+export const getPortSide = (port: Point, shapeBounds: Bounds): Side => {
+  const x = (port.x - shapeBounds.x) / (shapeBounds.width || 1);
+  const y = (port.y - shapeBounds.y) / (shapeBounds.height || 1);
+  const distances: [Side, number][] = [['top', y], ['right', 1 - x], ['bottom', 1 - y], ['left', x]];
+  return distances.reduce((best, candidate) => (candidate[1] < best[1] ? candidate : best))[0];
+};
+
+// Facing sides for two floating ends
+export const getFacingSides = (from: Bounds, to: Bounds): [Side, Side] => {
+  const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+  const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? ['right', 'left'] : ['left', 'right'];
+  }
+  return dy >= 0 ? ['bottom', 'top'] : ['top', 'bottom'];
+};
+
+export const getSidePoint = (bounds: Bounds, side: Side, offset = 0): Point => {
+  switch (side) {
+    case 'top':
+      return { x: bounds.x + bounds.width / 2 + offset, y: bounds.y };
+    case 'bottom':
+      return { x: bounds.x + bounds.width / 2 + offset, y: bounds.y + bounds.height };
+    case 'left':
+      return { x: bounds.x, y: bounds.y + bounds.height / 2 + offset };
+    case 'right':
+      return { x: bounds.x + bounds.width, y: bounds.y + bounds.height / 2 + offset };
+  }
+};
+
+const inflate = (bounds: Bounds, amount: number): Bounds => ({
+  x: bounds.x - amount,
+  y: bounds.y - amount,
+  width: bounds.width + amount * 2,
+  height: bounds.height + amount * 2
+});
+
+const isInside = (point: Point, bounds: Bounds) =>
+  point.x > bounds.x && point.x < bounds.x + bounds.width &&
+  point.y > bounds.y && point.y < bounds.y + bounds.height;
+
+const overlaps = (a: Bounds, b: Bounds) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+// Drops points in the middle of straight runs
+const simplify = (points: Point[]) =>
+  points.filter((point, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const prev = points[i - 1];
+    const next = points[i + 1];
+    const sameAsPrev = prev.x === point.x && prev.y === point.y;
+    const collinear = (prev.x === point.x && point.x === next.x) || (prev.y === point.y && point.y === next.y);
+    return !sameAsPrev && !collinear;
+  });
+
+// Horizontal then vertical between consecutive points, used for manual waypoints and as a fallback
+export const getElbowPath = (points: Point[]): Point[] =>
+  simplify(points.flatMap((point, i) => {
+    const next = points[i + 1];
+    if (!next || point.x === next.x || point.y === next.y) return [point];
+    return [point, { x: next.x, y: point.y }];
+  }));
+
+// Small binary heap keyed on the A* estimate
+class OpenSet {
+  private items: { node: number; dir: number; cost: number; estimate: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: { node: number; dir: number; cost: number; estimate: number }) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].estimate <= items[i].estimate) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].estimate < items[smallest].estimate) smallest = left;
+        if (right < items.length && items[right].estimate < items[smallest].estimate) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// Direction indices: 0 right, 1 down, 2 left, 3 up
+const STEPS = [{ dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }, { dx: 0, dy: -1 }];
+
+const directionIndex = (direction: Point) => STEPS.findIndex(step => step.dx === direction.x && step.dy === direction.y);
+
+const findRoute = (
+  start: Point,
+  startDirection: Point,
+  end: Point,
+  endDirection: Point,
+  obstacles: Bounds[]
+): Point[] | null => {
+  const xs = [...new Set([start.x, end.x, (start.x + end.x) / 2, ...obstacles.flatMap(b => [b.x, b.x + b.width])])].sort((a, b) => a - b);
+  const ys = [...new Set([start.y, end.y, (start.y + end.y) / 2, ...obstacles.flatMap(b => [b.y, b.y + b.height])])].sort((a, b) => a - b);
+  const columns = xs.length;
+  const nodeAt = (col: number, row: number) => row * columns + col;
+  const pointOf = (node: number) => ({ x: xs[node % columns], y: ys[Math.floor(node / columns)] });
+  const isBlocked = (point: Point) => obstacles.some(bounds => isInside(point, bounds));
+
+  const startNode = nodeAt(xs.indexOf(start.x), ys.indexOf(start.y));
+  const endNode = nodeAt(xs.indexOf(end.x), ys.indexOf(end.y));
+  // The route arrives travelling into the end shape
+  const arrival = directionIndex({ x: -endDirection.x, y: -endDirection.y });
+  const heuristic = (point: Point) => Math.abs(point.x - end.x) + Math.abs(point.y - end.y);
+
+  const best = new Map<number, number>();
+  const cameFrom = new Map<number, number>();
+  const open = new OpenSet();
+  const key = (node: number, dir: number) => node * 4 + dir;
+
+  const initialDirection = directionIndex(startDirection);
+  best.set(key(startNode, initialDirection), 0);
+  open.push({ node: startNode, dir: initialDirection, cost: 0, estimate: heuristic(start) });
+
+  while (open.size > 0) {
+    const current = open.pop();
+    const currentKey = key(current.node, current.dir);
+    if (current.cost > (best.get(currentKey) ?? Infinity)) continue;
+
+    if (current.node === endNode) {
+      const path: Point[] = [];
+      let step: number | undefined = currentKey;
+      while (step !== undefined) {
+        path.unshift(pointOf(Math.floor(step / 4)));
+        step = cameFrom.get(step);
+      }
+      return path;
+    }
+
+    const col = current.node % columns;
+    const row = Math.floor(current.node / columns);
+    const from = pointOf(current.node);
+
+    STEPS.forEach((step, dir) => {
+      // Never double back on the segment just drawn
+      if ((dir + 2) % 4 === current.dir) return;
+
+      const nextCol = col + step.dx;
+      const nextRow = row + step.dy;
+      if (nextCol < 0 || nextCol >= columns || nextRow < 0 || nextRow >= ys.length) return;
+
+      const nextNode = nodeAt(nextCol, nextRow);
+      const to = pointOf(nextNode);
+      const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+      if (isBlocked(to) || isBlocked(middle)) return;
+
+      let cost = current.cost + Math.abs(to.x - from.x) + Math.abs(to.y - from.y);
+      if (dir !== current.dir) cost += BEND_COST;
+      if (nextNode === endNode && dir !== arrival) cost += BEND_COST * 2;
+
+      const nextKey = key(nextNode, dir);
+      if (cost >= (best.get(nextKey) ?? Infinity)) return;
+
+      best.set(nextKey, cost);
+      cameFrom.set(nextKey, currentKey);
+      open.push({ node: nextNode, dir, cost, estimate: cost + heuristic(to) });
+    });
+  }
+
+  return null;
+};
+
+const cache = new Map<string, Point[]>();
+
+export interface OrthogonalEnd {
+  shape: Shape;
+  // Fixed attachment point, or null to pick the side facing the other end
+  port: Point | null;
+}
+
+// Full route from the outline of one shape to the other, corners included
+export const getOrthogonalRoute = (
+  connection: Connection,
+  from: OrthogonalEnd,
+  to: OrthogonalEnd,
+  context?: RoutingContext
+): Point[] => {
+  const fromBounds = getShapeBounds(from.shape);
+  const toBounds = getShapeBounds(to.shape);
+  const [facingFrom, facingTo] = getFacingSides(fromBounds, toBounds);
+  const fromSide = from.port ? getPortSide(from.port, fromBounds) : facingFrom;
+  const toSide = to.port ? getPortSide(to.port, toBounds) : facingTo;
+
+  const offset = context?.parallelOffsets.get(connection.id) ?? 0;
+  // Floating ends share the bundle offset; ends that face each other shift the same way
+  const start = from.port || getSidePoint(fromBounds, fromSide, fromSide === 'left' || fromSide === 'bottom' ? -offset : offset);
+  const end = to.port || getSidePoint(toBounds, toSide, toSide === 'right' || toSide === 'top' ? -offset : offset);
+
+  const startDirection = DIRECTIONS[fromSide];
+  const endDirection = DIRECTIONS[toSide];
+  const startStub = { x: start.x + startDirection.x * MARGIN, y: start.y + startDirection.y * MARGIN };
+  const endStub = { x: end.x + endDirection.x * MARGIN, y: end.y + endDirection.y * MARGIN };
+
+  if (connection.points.length > 0) {
+    return getElbowPath([start, startStub, ...connection.points, endStub, end]);
+  }
+
+  const area = inflate({
+    x: Math.min(startStub.x, endStub.x),
+    y: Math.min(startStub.y, endStub.y),
+    width: Math.abs(startStub.x - endStub.x),
+    height: Math.abs(startStub.y - endStub.y)
+  }, SEARCH_PADDING);
+
+  const obstacles = (context?.obstacles || [
+    { id: from.shape.id, bounds: fromBounds },
+    { id: to.shape.id, bounds: toBounds }
+  ])
+    .filter(obstacle => overlaps(obstacle.bounds, area))
+    .map(obstacle => ({ id: obstacle.id, bounds: inflate(obstacle.bounds, MARGIN - 1) }))
+    // Overlapping shapes can swallow a stub; those cannot be routed around anyway
+    .filter(obstacle => !isInside(startStub, obstacle.bounds) && !isInside(endStub, obstacle.bounds));
+
+  const cacheKey = [
+    start.x, start.y, fromSide, end.x, end.y, toSide,
+    ...obstacles.flatMap(o => [o.id, o.bounds.x, o.bounds.y, o.bounds.width, o.bounds.height])
+  ].join(',');
+
+  let route = cache.get(cacheKey);
+  if (!route) {
+    const found = findRoute(startStub, startDirection, endStub, endDirection, obstacles.map(o => o.bounds));
+    route = simplify([start, ...(found || getElbowPath([startStub, { x: (startStub.x + endStub.x) / 2, y: startStub.y }, { x: (startStub.x + endStub.x) / 2, y: endStub.y }, endStub])), end]);
+
+    cache.set(cacheKey, route);
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  }
+
+  return route;
+};
@@ -0,0 +1,230 @@
+import { Bounds, Connection, DiagramState, DrawingPath, Point, Shape } from '../types';
+import { getPointsBounds, getShapeBounds, isPointInPolygon, translateShape, unionBounds } from './geometry';
+
+// Pure operations on a multi-selection. The editor keeps the ids; these
+// functions turn them into board changes, so every group operation is a
+// single `apply` and therefore a single undo step.
+
+export interface Selection {
+  shapeIds: string[];
+  connectionIds: string[];
+  // Freehand strokes, which are picked up by the lasso, a marquee or select-all
+  drawingIds: string[];
+}
+
+export const EMPTY_SELECTION: Selection = { shapeIds: [], connectionIds: [], drawingIds: [] };
+
+export const getSelectionSize = (selection: Selection) =>
+  selection.shapeIds.length + selection.connectionIds.length + selection.drawingIds.length;
+
+export const isSelectionEmpty = (selection: Selection) => getSelectionSize(selection) === 0;
+
+export const mergeSelections = (a: Selection, b: Selection): Selection => ({
+  shapeIds: [...new Set([...a.shapeIds, ...b.shapeIds])],
+  connectionIds: [...new Set([...a.connectionIds, ...b.connectionIds])],
+  drawingIds: [...new Set([...a.drawingIds, ...b.drawingIds])]
+});
+
+export const getDrawingBounds = (drawing: DrawingPath) => getPointsBounds(drawing.points);
+
+const isInside = (bounds: Bounds, rect: Bounds) =>
+  bounds.x >= rect.x && bounds.y >= rect.y &&
+  bounds.x + bounds.width <= rect.x + rect.width &&
+  bounds.y + bounds.height <= rect.y + rect.height;
+
+// Connections whose both ends are among `shapeIds`; they travel with those shapes
+export const getInnerConnections = (connections: Connection[], shapeIds: string[]) => {
+  const ids = new Set(shapeIds);
+  return connections.filter(c => ids.has(c.from) && ids.has(c.to));
+};
+
+// Shapes and strokes lying entirely inside `rect`, plus the connections between those shapes
+export const getSelectionInRect = (state: DiagramState, rect: Bounds): Selection => {
+  const shapeIds = state.shapes.filter(shape => isInside(getShapeBounds(shape), rect)).map(shape => shape.id);
+
+  return {
+    shapeIds,
+    connectionIds: getInnerConnections(state.connections, shapeIds).map(c => c.id),
+    drawingIds: state.drawings
+      .filter(drawing => drawing.points.length > 0 && isInside(getDrawingBounds(drawing), rect))
+      .map(drawing => drawing.id)
+  };
+};
+
+// Share of a stroke's points that must fall inside a lasso for it to be picked up,
+// so a loop drawn a little short of the ends still catches the stroke
+const LASSO_COVERAGE = 0.8;
+
+// Shapes whose centre is inside the lasso, strokes that mostly are, and the connections between those shapes
+export const getSelectionInLasso = (state: DiagramState, lasso: Point[]): Selection => {
+  if (lasso.length < 3) return EMPTY_SELECTION;
+
+  const shapeIds = state.shapes
+    .filter(shape => {
+      const { x, y, width, height } = getShapeBounds(shape);
+      return isPointInPolygon({ x: x + width / 2, y: y + height / 2 }, lasso);
+    })
+    .map(shape => shape.id);
+
+  return {
+    shapeIds,
+    connectionIds: getInnerConnections(state.connections, shapeIds).map(c => c.id),
+    drawingIds: state.drawings
+      .filter(drawing => drawing.points.length > 0 &&
+        drawing.points.filter(point => isPointInPolygon(point, lasso)).length >= drawing.points.length * LASSO_COVERAGE)
+      .map(drawing => drawing.id)
+  };
+};
+
+export const selectAll = (state: DiagramState): Selection => ({
+  shapeIds: state.shapes.map(shape => shape.id),
+  connectionIds: state.connections.map(connection => connection.id),
+  drawingIds: state.drawings.map(drawing => drawing.id)
+});
+
+export const getSelectionBounds = (state: DiagramState, selection: Selection): Bounds | null => {
+  const shapeIds = new Set(selection.shapeIds);
+  const connectionIds = new Set(selection.connectionIds);
+  const endIds = new Set(state.connections.filter(c => connectionIds.has(c.id)).flatMap(c => [c.from, c.to]));
+
+  return unionBounds([
+    ...state.shapes.filter(s => shapeIds.has(s.id) || endIds.has(s.id)).map(getShapeBounds),
+    ...state.connections
+      .filter(c => connectionIds.has(c.id) && c.points.length > 0)
+      .map(c => getPointsBounds(c.points)),
+    ...state.drawings
+      .filter(d => selection.drawingIds.includes(d.id) && d.points.length > 0)
+      .map(getDrawingBounds)
+  ]);
+};
+
+// Drops ids of elements that no longer exist, e.g. after an undo or a remote delete
+export const pruneSelection = (state: DiagramState, selection: Selection): Selection => {
+  const shapeIds = new Set(state.shapes.map(s => s.id));
+  const connectionIds = new Set(state.connections.map(c => c.id));
+  const drawingIds = new Set(state.drawings.map(d => d.id));
+  const next = {
+    shapeIds: selection.shapeIds.filter(id => shapeIds.has(id)),
+    connectionIds: selection.connectionIds.filter(id => connectionIds.has(id)),
+    drawingIds: selection.drawingIds.filter(id => drawingIds.has(id))
+  };
+
+  return getSelectionSize(next) === getSelectionSize(selection) ? selection : next;
+};
+
+const mapPoints = (connection: Connection, map: (point: Point) => Point): Connection =>
+  connection.points.length > 0 ? { ...connection, points: connection.points.map(map) } : connection;
+
+const mapDrawing = (drawing: DrawingPath, map: (point: Point) => Point): DrawingPath => ({
+  ...drawing,
+  points: drawing.points.map(point => ({ ...point, ...map(point) }))
+});
+
+export const moveSelection = (state: DiagramState, selection: Selection, dx: number, dy: number): DiagramState => {
+  const shapeIds = new Set(selection.shapeIds);
+  const inner = new Set(getInnerConnections(state.connections, selection.shapeIds).map(c => c.id));
+  const drawingIds = new Set(selection.drawingIds);
+  const translate = (point: Point) => ({ x: point.x + dx, y: point.y + dy });
+
+  return {
+    ...state,
+    shapes: state.shapes.map(shape => (shapeIds.has(shape.id) ? translateShape(shape, dx, dy) : shape)),
+    connections: state.connections.map(c => (inner.has(c.id) ? mapPoints(c, translate) : c)),
+    drawings: drawingIds.size > 0
+      ? state.drawings.map(d => (drawingIds.has(d.id) ? mapDrawing(d, translate) : d))
+      : state.drawings
+  };
+};
+
+const ASPECT_LOCKED: Shape['type'][] = ['square', 'circle', 'diamond'];
+const MIN_SIZE = 20;
+
+// Scales the selected members of `baseline` from one box to another and puts them into `state`.
+// Working from the state at the start of the gesture keeps repeated scaling from drifting.
+export const scaleSelection = (
+  state: DiagramState,
+  baseline: DiagramState,
+  selection: Selection,
+  from: Bounds,
+  to: Bounds
+): DiagramState => {
+  const sx = from.width > 0 ? to.width / from.width : 1;
+  const sy = from.height > 0 ? to.height / from.height : 1;
+  const map = (point: Point) => ({ x: to.x + (point.x - from.x) * sx, y: to.y + (point.y - from.y) * sy });
+
+  const scaled = new Map<string, Shape>();
+  baseline.shapes.filter(shape => selection.shapeIds.includes(shape.id)).forEach(shape => {
+    if (shape.type === 'line') {
+      scaled.set(shape.id, {
+        ...shape,
+        position: map(shape.position),
+        ...(shape.endPoint ? { endPoint: map(shape.endPoint) } : {})
+      });
+      return;
+    }
+
+    const bounds = getShapeBounds(shape);
+    let width = Math.max(MIN_SIZE, bounds.width * sx);
+    let height = Math.max(MIN_SIZE, bounds.height * sy);
+    if (ASPECT_LOCKED.includes(shape.type)) {
+      width = height = Math.max(width, height);
+    }
+
+    scaled.set(shape.id, { ...shape, position: map(shape.position), width, height });
+  });
+
+  const inner = new Map(getInnerConnections(baseline.connections, selection.shapeIds).map(c => [c.id, mapPoints(c, map)]));
+  const drawings = new Map(baseline.drawings
+    .filter(d => selection.drawingIds.includes(d.id))
+    .map(d => [d.id, mapDrawing(d, map)]));
+
+  return {
+    ...state,
+    shapes: state.shapes.map(shape => scaled.get(shape.id) ?? shape),
+    connections: state.connections.map(c => inner.get(c.id) ?? c),
+    drawings: drawings.size > 0 ? state.drawings.map(d => drawings.get(d.id) ?? d) : state.drawings
+  };
+};
+
+// Removes the selection and every connection left without one of its ends
+export const deleteSelection = (state: DiagramState, selection: Selection): DiagramState => {
+  const shapeIds = new Set(selection.shapeIds);
+  const connectionIds = new Set(selection.connectionIds);
+  const drawingIds = new Set(selection.drawingIds);
+
+  return {
+    ...state,
+    shapes: state.shapes.filter(s => !shapeIds.has(s.id)),
+    connections: state.connections.filter(c => !connectionIds.has(c.id) && !shapeIds.has(c.from) && !shapeIds.has(c.to)),
+    drawings: drawingIds.size > 0 ? state.drawings.filter(d => !drawingIds.has(d.id)) : state.drawings
+  };
+};
+
+export const updateSelection = (
+  state: DiagramState,
+  selection: Selection,
+  shapeChanges: Partial<Shape>,
+  connectionChanges: Partial<Connection>,
+  drawingChanges: Partial<DrawingPath> = {}
+): DiagramState => {
+  const shapeIds = new Set(selection.shapeIds);
+  const connectionIds = new Set(selection.connectionIds);
+  const drawingIds = new Set(selection.drawingIds);
+
+  return {
+    ...state,
+    shapes: Object.keys(shapeChanges).length > 0
+      ? state.shapes.map(s => (shapeIds.has(s.id) ? { ...s, ...shapeChanges } : s))
+      : state.shapes,
+    connections: Object.keys(connectionChanges).length > 0
+      ? state.connections.map(c => (connectionIds.has(c.id) ? { ...c, ...connectionChanges } : c))
+      : state.connections,
+    drawings: Object.keys(drawingChanges).length > 0
+      ? state.drawings.map(d => (drawingIds.has(d.id) ? { ...d, ...drawingChanges } : d))
+      : state.drawings
+  };
+};
+
+// The value every selected element has in common, or undefined when they differ
+export const getSharedValue = <T>(values: T[]): T | undefined =>
+  values.every(value => value === values[0]) ? values[0] : undefined;
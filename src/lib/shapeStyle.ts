@@ -0,0 +1,72 @@
+import { BorderStyle, Shape, ShapeGradient, ShapeShadow } from '../types';
+import { isStencil } from './stencils';
+
+// Fill, border and effect styles of shapes, shared by the board and the SVG export
+// so both read the same defaults.
+
+export const DEFAULT_FILL = '#FFFFFF';
+export const DEFAULT_BORDER_COLOR = '#666';
+export const DEFAULT_BORDER_WIDTH = 2;
+export const TRANSPARENT = 'transparent';
+export const MAX_CORNER_RADIUS = 40;
+
+// Swatch background standing in for 'transparent'
+export const CHECKERBOARD_BACKGROUND = 'repeating-conic-gradient(#D1D5DB 0% 25%, #FFFFFF 0% 50%) 50% / 8px 8px';
+
+export const DEFAULT_SHADOW: ShapeShadow = { color: 'rgba(0, 0, 0, 0.25)', blur: 8, offsetX: 2, offsetY: 4 };
+
+export const COLOR_PALETTE = [
+  '#000000', '#FF0000', '#00FF00', '#0000FF', '#FFA500',
+  '#800080', '#008080', '#4A5568', '#ED8936', '#48BB78',
+  '#FFFFFF', '#F3F4F6', '#FEF3C7', '#DBEAFE', '#DCFCE7'
+];
+
+// Shapes with an inside to paint; text, lines and images have none
+export const hasFill = (shape: Shape) =>
+  shape.type === 'rectangle' || shape.type === 'square' || shape.type === 'circle' || shape.type === 'diamond' || isStencil(shape);
+
+export const hasCornerRadius = (shape: Shape) => shape.type === 'rectangle' || shape.type === 'square';
+
+// Accepts '#abc', 'abc', '#aabbcc' or 'aabbcc'; null for anything else
+export const normalizeHexColor = (input: string): string | null => {
+  const hex = input.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) return `#${hex.split('').map(c => c + c).join('')}`.toUpperCase();
+  if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`.toUpperCase();
+  return null;
+};
+
+export const getCornerRadius = (shape: Shape) =>
+  hasCornerRadius(shape) ? Math.min(shape.cornerRadius || 0, MAX_CORNER_RADIUS) : 0;
+
+// CSS `background` for the shape's fill
+export const getCssFill = (shape: Shape) => {
+  const gradient = shape.fillGradient;
+  if (gradient?.type === 'linear') return `linear-gradient(${gradient.angle + 90}deg, ${gradient.from}, ${gradient.to})`;
+  // closest-side matches SVG's default radial gradient, which spans the bounding box
+  if (gradient?.type === 'radial') return `radial-gradient(closest-side, ${gradient.from}, ${gradient.to})`;
+  return shape.fillColor || DEFAULT_FILL;
+};
+
+// Arguments for both `box-shadow` and the `drop-shadow()` filter
+export const getCssShadow = (shadow: ShapeShadow) =>
+  `${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.color}`;
+
+// SVG dashes approximating the CSS border styles
+export const getBorderDashArray = (style: BorderStyle | undefined, width: number) => {
+  switch (style) {
+    case 'dashed':
+      return `${width * 3},${width * 2}`;
+    case 'dotted':
+      return `${width},${width}`;
+    default:
+      return undefined;
+  }
+};
+
+// End points of a linear gradient in bounding-box units (0-1)
+export const getGradientVector = (gradient: ShapeGradient) => {
+  const radians = (gradient.angle * Math.PI) / 180;
+  const dx = Math.cos(radians) / 2;
+  const dy = Math.sin(radians) / 2;
+  return { x1: 0.5 - dx, y1: 0.5 - dy, x2: 0.5 + dx, y2: 0.5 + dy };
+};
@@ -0,0 +1,210 @@
+import { Bounds, Point } from '../types';
+
+// Snapping while dragging: to a background grid, to the edges and centres of
+// other shapes (smart guides), and to the spacing already used between
+// neighbouring shapes. Smart guides win over the grid on the axis they snap.
+
+export interface GridSettings {
+  showGrid: boolean;
+  snapToGrid: boolean;
+  gridSize: number;
+  smartGuides: boolean;
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+  showGrid: false,
+  snapToGrid: false,
+  gridSize: 20,
+  smartGuides: true
+};
+
+export const GRID_SIZES = [10, 20, 40, 80];
+
+type Axis = 'x' | 'y';
+
+// A line through aligned edges or centres. For axis 'x' it is vertical at x = position.
+export interface AlignmentGuide {
+  type: 'alignment';
+  axis: Axis;
+  position: number;
+  from: number;
+  to: number;
+}
+
+// Equal gaps along `axis`, each drawn across the perpendicular coordinate `at`
+export interface SpacingGuide {
+  type: 'spacing';
+  axis: Axis;
+  gaps: { start: number; end: number; at: number }[];
+}
+
+export type SnapGuide = AlignmentGuide | SpacingGuide;
+
+export interface SnapOptions {
+  // Distance in world units within which a guide takes hold
+  threshold: number;
+  gridSize?: number | null;
+  smartGuides?: boolean;
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+export const snapToGrid = (value: number, size: number) => Math.round(value / size) * size;
+
+export const snapPointToGrid = (point: Point, size: number): Point => ({
+  x: snapToGrid(point.x, size),
+  y: snapToGrid(point.y, size)
+});
+
+const other = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+const start = (bounds: Bounds, axis: Axis) => bounds[axis];
+const size = (bounds: Bounds, axis: Axis) => (axis === 'x' ? bounds.width : bounds.height);
+const end = (bounds: Bounds, axis: Axis) => start(bounds, axis) + size(bounds, axis);
+const edges = (bounds: Bounds, axis: Axis) => [start(bounds, axis), start(bounds, axis) + size(bounds, axis) / 2, end(bounds, axis)];
+
+const shift = (bounds: Bounds, axis: Axis, delta: number): Bounds => ({ ...bounds, [axis]: bounds[axis] + delta });
+
+const overlaps = (a: Bounds, b: Bounds, axis: Axis) => start(a, axis) < end(b, axis) && start(b, axis) < end(a, axis);
+
+// Smallest move that lines an edge or the centre of `moving` up with one of `others`
+const findAlignment = (moving: Bounds, others: Bounds[], axis: Axis, threshold: number): number | null => {
+  let best: number | null = null;
+
+  others.forEach(target => {
+    edges(target, axis).forEach(targetEdge => {
+      edges(moving, axis).forEach(movingEdge => {
+        const delta = targetEdge - movingEdge;
+        if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+      });
+    });
+  });
+
+  return best;
+};
+
+const getAlignmentGuides = (moving: Bounds, others: Bounds[], axis: Axis): AlignmentGuide[] => {
+  const across = other(axis);
+  const guides = new Map<number, AlignmentGuide>();
+
+  others.forEach(target => {
+    edges(target, axis).forEach(targetEdge => {
+      if (!edges(moving, axis).some(edge => Math.abs(edge - targetEdge) < 0.5)) return;
+
+      const key = Math.round(targetEdge * 2) / 2;
+      const guide = guides.get(key) ?? {
+        type: 'alignment' as const,
+        axis,
+        position: targetEdge,
+        from: start(moving, across),
+        to: end(moving, across)
+      };
+      guide.from = Math.min(guide.from, start(target, across));
+      guide.to = Math.max(guide.to, end(target, across));
+      guides.set(key, guide);
+    });
+  });
+
+  return [...guides.values()];
+};
+
+interface SpacingCandidate {
+  delta: number;
+  gaps: (shifted: Bounds) => SpacingGuide['gaps'];
+}
+
+// Moves that repeat a gap between neighbours in the same row (or column), or centre `moving` between two of them
+const findSpacing = (moving: Bounds, others: Bounds[], axis: Axis, threshold: number): SpacingCandidate | null => {
+  const across = other(axis);
+  const row = others.filter(target => overlaps(target, moving, across));
+  const at = (shifted: Bounds) => start(shifted, across) + size(shifted, across) / 2;
+  const before = row.filter(t => end(t, axis) <= start(moving, axis) + threshold).sort((a, b) => end(b, axis) - end(a, axis));
+  const after = row.filter(t => start(t, axis) >= end(moving, axis) - threshold).sort((a, b) => start(a, axis) - start(b, axis));
+  const candidates: SpacingCandidate[] = [];
+
+  const left = before[0];
+  const right = after[0];
+
+  if (left && right) {
+    const gap = (start(right, axis) - end(left, axis) - size(moving, axis)) / 2;
+    if (gap > 0) {
+      candidates.push({
+        delta: end(left, axis) + gap - start(moving, axis),
+        gaps: shifted => [
+          { start: end(left, axis), end: start(shifted, axis), at: at(shifted) },
+          { start: end(shifted, axis), end: start(right, axis), at: at(shifted) }
+        ]
+      });
+    }
+  }
+
+  // The neighbour's own neighbour on the far side sets the gap to repeat
+  const outer = (neighbour: Bounds, side: 'before' | 'after') => row
+    .filter(t => t !== neighbour && overlaps(t, neighbour, across) &&
+      (side === 'before' ? end(t, axis) <= start(neighbour, axis) : start(t, axis) >= end(neighbour, axis)))
+    .sort((a, b) => side === 'before' ? end(b, axis) - end(a, axis) : start(a, axis) - start(b, axis))[0];
+
+  const leftOuter = left && outer(left, 'before');
+  if (left && leftOuter) {
+    const gap = start(left, axis) - end(leftOuter, axis);
+    candidates.push({
+      delta: end(left, axis) + gap - start(moving, axis),
+      gaps: shifted => [
+        { start: end(leftOuter, axis), end: start(left, axis), at: at(shifted) },
+        { start: end(left, axis), end: start(shifted, axis), at: at(shifted) }
+      ]
+    });
+  }
+
+  const rightOuter = right && outer(right, 'after');
+  if (right && rightOuter) {
+    const gap = start(rightOuter, axis) - end(right, axis);
+    candidates.push({
+      delta: start(right, axis) - gap - end(moving, axis),
+      gaps: shifted => [
+        { start: end(shifted, axis), end: start(right, axis), at: at(shifted) },
+        { start: end(right, axis), end: start(rightOuter, axis), at: at(shifted) }
+      ]
+    });
+  }
+
+  return candidates
+    .filter(candidate => Math.abs(candidate.delta) <= threshold)
+    .sort((a, b) => Math.abs(a.delta) - Math.abs(b.delta))[0] ?? null;
+};
+
+export const snapBounds = (moving: Bounds, others: Bounds[], { threshold, gridSize, smartGuides = true }: SnapOptions): SnapResult => {
+  const result: SnapResult = { dx: 0, dy: 0, guides: [] };
+  let snapped = moving;
+
+  (['x', 'y'] as Axis[]).forEach(axis => {
+    const alignment = smartGuides ? findAlignment(moving, others, axis, threshold) : null;
+    const spacing = smartGuides ? findSpacing(moving, others, axis, threshold) : null;
+    let delta = 0;
+
+    if (spacing && (alignment === null || Math.abs(spacing.delta) < Math.abs(alignment))) {
+      delta = spacing.delta;
+      snapped = shift(snapped, axis, delta);
+      result.guides.push({ type: 'spacing', axis, gaps: spacing.gaps(snapped) });
+    } else if (alignment !== null) {
+      delta = alignment;
+      snapped = shift(snapped, axis, delta);
+    } else if (gridSize) {
+      delta = snapToGrid(start(moving, axis), gridSize) - start(moving, axis);
+      snapped = shift(snapped, axis, delta);
+    }
+
+    if (axis === 'x') result.dx = delta;
+    else result.dy = delta;
+  });
+
+  // Guides are collected once both axes have settled, so they span the final position
+  if (smartGuides) {
+    result.guides.push(...getAlignmentGuides(snapped, others, 'x'), ...getAlignmentGuides(snapped, others, 'y'));
+  }
+
+  return result;
+};
@@ -0,0 +1,384 @@
+import { Bounds, Point, Shape, ShapeType, StencilType, TextAlign, VerticalAlign } from '../types';
+import type { TextFormat } from './text';
+
+// The stencil library: flowchart, UML and architecture shapes drawn from an outline
+// in shape-local coordinates. The board, the SVG export and connection routing all
+// read the same geometry, so a connection meets the outline that is actually drawn.
+
+export type StencilCategory = 'Flowchart' | 'UML' | 'Architecture';
+
+export interface StencilDefinition {
+  type: StencilType;
+  label: string;
+  category: StencilCategory;
+  // Extra words the panel's search matches
+  keywords: string[];
+  width: number;
+  height: number;
+  text: string;
+  // Style a new shape starts with
+  defaults?: Partial<Shape>;
+}
+
+// A run of text laid out in its own box, overriding parts of the shape's format
+export interface TextBlock {
+  text: string;
+  box: Bounds;
+  align?: TextAlign;
+  verticalAlign?: VerticalAlign;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface ShapeGeometry {
+  // Filled and stroked path
+  outline: string;
+  // Stroke-only path drawn over the fill, such as a cylinder's rim or compartment dividers
+  details?: string;
+  // Closed outline that connections attach to
+  polygon: Point[];
+  text: TextBlock[];
+  // Where the text is edited; the whole text box unless the text is split into blocks
+  editBox: Bounds;
+  // Height the text needs, when it is laid out in blocks
+  contentHeight?: number;
+}
+
+// dataTransfer type of a stencil dragged from the panel onto the board
+export const STENCIL_DRAG_TYPE = 'application/x-diagram-stencil';
+
+export const STENCIL_CATEGORIES: StencilCategory[] = ['Flowchart', 'UML', 'Architecture'];
+
+export const STENCILS: StencilDefinition[] = [
+  { type: 'terminator', label: 'Terminator', category: 'Flowchart', keywords: ['start', 'end', 'stadium', 'pill'], width: 160, height: 60, text: 'Start' },
+  { type: 'parallelogram', label: 'Input / Output', category: 'Flowchart', keywords: ['parallelogram', 'data', 'io'], width: 160, height: 80, text: 'Input' },
+  { type: 'document', label: 'Document', category: 'Flowchart', keywords: ['report', 'file', 'page'], width: 140, height: 100, text: 'Document' },
+  { type: 'database', label: 'Database', category: 'Flowchart', keywords: ['cylinder', 'storage', 'db', 'data store'], width: 110, height: 130, text: 'Database' },
+  { type: 'predefined-process', label: 'Predefined Process', category: 'Flowchart', keywords: ['subroutine', 'function', 'call'], width: 160, height: 80, text: 'Process' },
+  {
+    type: 'uml-class',
+    label: 'Class',
+    category: 'UML',
+    keywords: ['compartments', 'attributes', 'methods', 'object'],
+    width: 180,
+    height: 140,
+    text: 'ClassName\n--\n+ attribute: Type\n--\n+ method(): void'
+  },
+  {
+    type: 'uml-interface',
+    label: 'Interface',
+    category: 'UML',
+    keywords: ['compartments', 'methods', 'contract', 'protocol'],
+    width: 180,
+    height: 110,
+    text: 'InterfaceName\n--\n+ method(): void'
+  },
+  { type: 'actor', label: 'Actor', category: 'UML', keywords: ['user', 'person', 'stick figure', 'role'], width: 60, height: 110, text: 'Actor' },
+  {
+    type: 'swimlane',
+    label: 'Swimlane',
+    category: 'UML',
+    keywords: ['lane', 'pool', 'container', 'partition'],
+    width: 240,
+    height: 400,
+    text: 'Lane',
+    defaults: { fillColor: 'transparent' }
+  },
+  { type: 'cloud', label: 'Cloud', category: 'Architecture', keywords: ['internet', 'network', 'saas'], width: 180, height: 110, text: 'Cloud' },
+  { type: 'server', label: 'Server', category: 'Architecture', keywords: ['host', 'machine', 'rack', 'backend'], width: 100, height: 130, text: 'Server' },
+  { type: 'queue', label: 'Queue', category: 'Architecture', keywords: ['message', 'broker', 'stream', 'topic'], width: 180, height: 70, text: 'Queue' },
+  { type: 'browser', label: 'Browser', category: 'Architecture', keywords: ['web', 'client', 'window', 'frontend'], width: 180, height: 120, text: 'Web App' },
+  { type: 'mobile', label: 'Mobile', category: 'Architecture', keywords: ['phone', 'device', 'app', 'client'], width: 80, height: 140, text: 'App' }
+];
+
+const STENCILS_BY_TYPE = new Map<ShapeType, StencilDefinition>(STENCILS.map(stencil => [stencil.type, stencil]));
+
+export const getStencil = (type: ShapeType) => STENCILS_BY_TYPE.get(type);
+
+export const isStencil = (shape: Shape) => STENCILS_BY_TYPE.has(shape.type);
+
+export const searchStencils = (query: string) => {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  return STENCILS.filter(stencil => {
+    const haystack = [stencil.label, stencil.category, ...stencil.keywords].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+const PADDING = 8;
+// Space under an actor for its name
+const ACTOR_LABEL_SPACE = 24;
+// UML compartments are separated by a line holding just `--`
+const COMPARTMENT_SEPARATOR = /^\s*--\s*$/;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toPath = (points: Point[]) => `M ${points.map(p => `${round(p.x)} ${round(p.y)}`).join(' L ')} Z`;
+
+const toPolyline = (points: Point[]) => `M ${points.map(p => `${round(p.x)} ${round(p.y)}`).join(' L ')}`;
+
+const circlePath = (cx: number, cy: number, r: number) =>
+  `M ${round(cx - r)} ${round(cy)} a ${round(r)} ${round(r)} 0 1 0 ${round(r * 2)} 0 a ${round(r)} ${round(r)} 0 1 0 ${round(-r * 2)} 0`;
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height }
+];
+
+// Points along an elliptical arc, angles in degrees clockwise from the positive x axis
+const arc = (cx: number, cy: number, rx: number, ry: number, from: number, to: number, steps = 16): Point[] =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = ((from + ((to - from) * i) / steps) * Math.PI) / 180;
+    return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+  });
+
+const roundedRect = (x: number, y: number, width: number, height: number, radius: number): Point[] => {
+  const r = Math.min(radius, width / 2, height / 2);
+  return [
+    ...arc(x + width - r, y + r, r, r, -90, 0, 4),
+    ...arc(x + width - r, y + height - r, r, r, 0, 90, 4),
+    ...arc(x + r, y + height - r, r, r, 90, 180, 4),
+    ...arc(x + r, y + r, r, r, 180, 270, 4)
+  ];
+};
+
+const inset = (box: Bounds, dx: number, dy = dx): Bounds => ({
+  x: box.x + dx,
+  y: box.y + dy,
+  width: Math.max(box.width - dx * 2, 1),
+  height: Math.max(box.height - dy * 2, 0)
+});
+
+// Geometry with one text block, which is also where the text is edited
+const simple = (polygon: Point[], box: Bounds, text: string, details?: string): ShapeGeometry => ({
+  outline: toPath(polygon),
+  details,
+  polygon,
+  text: [{ text, box }],
+  editBox: box
+});
+
+const compartments = (text: string) =>
+  text.split('\n').reduce<string[][]>(
+    (sections, line) => {
+      if (COMPARTMENT_SEPARATOR.test(line)) sections.push([]);
+      else sections[sections.length - 1].push(line);
+      return sections;
+    },
+    [[]]
+  );
+
+// Name compartment on top, then attribute and method compartments separated by dividers
+const umlGeometry = (shape: Shape, width: number, height: number, format: TextFormat): ShapeGeometry => {
+  const polygon = rect(0, 0, width, height);
+  const sections = compartments(shape.text);
+  if (shape.type === 'uml-interface') sections[0] = ['«interface»', ...sections[0]];
+
+  const blocks: TextBlock[] = [];
+  const dividers: number[] = [];
+  let y = 0;
+  sections.forEach((lines, i) => {
+    const isLast = i === sections.length - 1;
+    const needed = Math.max(lines.length, 1) * format.lineHeight + PADDING * 2;
+    const sectionHeight = isLast ? Math.max(height - y, needed) : needed;
+    blocks.push({
+      text: lines.join('\n'),
+      box: inset({ x: 0, y, width, height: sectionHeight }, PADDING),
+      ...(i === 0 ? { align: 'center', verticalAlign: 'middle', bold: true } : { align: 'left', verticalAlign: 'top' })
+    });
+    y += isLast ? needed : sectionHeight;
+    if (!isLast) dividers.push(y);
+  });
+
+  return {
+    outline: toPath(polygon),
+    details: dividers.length > 0 ? dividers.map(d => `M 0 ${round(d)} H ${round(width)}`).join(' ') : undefined,
+    polygon,
+    text: blocks,
+    editBox: inset({ x: 0, y: 0, width, height }, PADDING / 2),
+    contentHeight: y
+  };
+};
+
+const actorGeometry = (shape: Shape, width: number, height: number): ShapeGeometry => {
+  const figure = Math.max(height - ACTOR_LABEL_SPACE, height / 2);
+  const r = Math.min(width / 4, figure / 6);
+  const cx = width / 2;
+  const neck = r * 2;
+  const hip = figure * 0.62;
+  const shoulders = neck + figure * 0.12;
+  // The name may be wider than the figure, as it is in UML tools
+  const label = { x: -width / 2, y: figure + 4, width: width * 2, height: Math.max(height - figure - 4, 0) };
+
+  return {
+    outline: circlePath(cx, r, r),
+    details: `M ${round(cx)} ${round(neck)} V ${round(hip)} M 0 ${round(shoulders)} H ${round(width)}` +
+      ` M 0 ${round(figure)} L ${round(cx)} ${round(hip)} L ${round(width)} ${round(figure)}`,
+    polygon: rect(0, 0, width, figure),
+    text: [{ text: shape.text, box: label, verticalAlign: 'top' }],
+    editBox: label
+  };
+};
+
+// Outline, details and text layout of a shape in its own coordinates, or null
+// for shapes the board draws as styled boxes
+export const getShapeGeometry = (shape: Shape, width: number, height: number, format: TextFormat): ShapeGeometry | null => {
+  const w = width;
+  const h = height;
+  const body = { x: 0, y: 0, width: w, height: h };
+
+  switch (shape.type) {
+    case 'diamond':
+      // Text lays out in the box inscribed in the diamond
+      return simple(
+        [{ x: w / 2, y: 0 }, { x: w, y: h / 2 }, { x: w / 2, y: h }, { x: 0, y: h / 2 }],
+        { x: w / 4, y: h / 4, width: w / 2, height: h / 2 },
+        shape.text
+      );
+    case 'terminator': {
+      const r = Math.min(h / 2, w / 2);
+      return simple(
+        [...arc(w - r, h / 2, r, h / 2, -90, 90), ...arc(r, h / 2, r, h / 2, 90, 270)],
+        inset(body, r / 2 + PADDING / 2, PADDING / 2),
+        shape.text
+      );
+    }
+    case 'parallelogram': {
+      const skew = Math.min(w / 4, h / 2);
+      return simple(
+        [{ x: skew, y: 0 }, { x: w, y: 0 }, { x: w - skew, y: h }, { x: 0, y: h }],
+        inset(body, skew + PADDING / 2, PADDING),
+        shape.text
+      );
+    }
+    case 'document': {
+      const amplitude = h * 0.08;
+      const baseline = h - amplitude;
+      const wave = Array.from({ length: 25 }, (_, i) => {
+        const x = w - (w * i) / 24;
+        return { x, y: baseline + amplitude * Math.sin((2 * Math.PI * x) / w) };
+      });
+      return simple(
+        [{ x: 0, y: 0 }, { x: w, y: 0 }, ...wave],
+        inset({ x: 0, y: 0, width: w, height: baseline }, PADDING),
+        shape.text
+      );
+    }
+    case 'database': {
+      const ry = Math.min(h / 6, w / 4);
+      return simple(
+        [...arc(w / 2, ry, w / 2, ry, 180, 360), ...arc(w / 2, h - ry, w / 2, ry, 0, 180)],
+        inset({ x: 0, y: ry * 2, width: w, height: h - ry * 3 }, PADDING, PADDING / 2),
+        shape.text,
+        toPolyline(arc(w / 2, ry, w / 2, ry, 0, 180))
+      );
+    }
+    case 'predefined-process': {
+      const bar = Math.min(w / 10, 16);
+      return simple(
+        rect(0, 0, w, h),
+        inset(body, bar + PADDING / 2, PADDING),
+        shape.text,
+        `M ${round(bar)} 0 V ${round(h)} M ${round(w - bar)} 0 V ${round(h)}`
+      );
+    }
+    case 'uml-class':
+    case 'uml-interface':
+      return umlGeometry(shape, w, h, format);
+    case 'actor':
+      return actorGeometry(shape, w, h);
+    case 'swimlane': {
+      // The lane's name sits in a header band; the rest is room for other shapes
+      const header = Math.min(format.lineHeight + PADDING * 2, h);
+      const headerBox = inset({ x: 0, y: 0, width: w, height: header }, PADDING / 2);
+      return {
+        outline: toPath(rect(0, 0, w, h)),
+        details: `M 0 ${round(header)} H ${round(w)}`,
+        polygon: rect(0, 0, w, h),
+        text: [{ text: shape.text, box: headerBox, verticalAlign: 'middle', bold: true }],
+        editBox: headerBox
+      };
+    }
+    case 'cloud': {
+      // An ellipse with six bumps; the dips between them point inwards
+      const polygon = Array.from({ length: 96 }, (_, i) => {
+        const angle = (i / 96) * Math.PI * 2;
+        const bulge = 0.86 + 0.14 * Math.abs(Math.sin(angle * 3));
+        return { x: w / 2 + (w / 2) * bulge * Math.cos(angle), y: h / 2 + (h / 2) * bulge * Math.sin(angle) };
+      });
+      return simple(polygon, { x: w * 0.2, y: h * 0.25, width: w * 0.6, height: h * 0.5 }, shape.text);
+    }
+    case 'server': {
+      const unit = Math.min(h / 5, 24);
+      const led = Math.min(unit / 6, 3);
+      const units = [unit, unit * 2];
+      return simple(
+        roundedRect(0, 0, w, h, 4),
+        inset({ x: 0, y: unit * 2, width: w, height: h - unit * 2 }, PADDING / 2, PADDING),
+        shape.text,
+        units.map(y => `M 0 ${round(y)} H ${round(w)}`).join(' ') + ' ' +
+          units.map(y => circlePath(w - PADDING - led, y - unit / 2, led)).join(' ')
+      );
+    }
+    case 'queue': {
+      const rx = Math.min(w / 6, h / 4);
+      return simple(
+        [...arc(w - rx, h / 2, rx, h / 2, -90, 90), ...arc(rx, h / 2, rx, h / 2, 90, 270)],
+        inset({ x: rx, y: 0, width: w - rx * 3, height: h }, PADDING / 2, PADDING),
+        shape.text,
+        toPolyline(arc(w - rx, h / 2, rx, h / 2, 90, 270))
+      );
+    }
+    case 'browser': {
+      const bar = Math.min(20, h / 3);
+      const dot = Math.min(3, bar / 5);
+      return simple(
+        roundedRect(0, 0, w, h, 4),
+        inset({ x: 0, y: bar, width: w, height: h - bar }, PADDING),
+        shape.text,
+        `M 0 ${round(bar)} H ${round(w)} ` + [0, 1, 2].map(i => circlePath(10 + i * 8, bar / 2, dot)).join(' ')
+      );
+    }
+    case 'mobile': {
+      const top = h * 0.1;
+      const bottom = h * 0.86;
+      const button = Math.min((h - bottom) / 4, w / 12);
+      return simple(
+        roundedRect(0, 0, w, h, w * 0.15),
+        inset({ x: 0, y: top, width: w, height: bottom - top }, PADDING / 2),
+        shape.text,
+        `M 0 ${round(top)} H ${round(w)} M 0 ${round(bottom)} H ${round(w)} ` + circlePath(w / 2, (bottom + h) / 2, button)
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+// Where the ray from `from` through `towards` last leaves the polygon. Taking the
+// farthest crossing keeps connections on the outside of concave outlines.
+export const intersectPolygon = (polygon: Point[], from: Point, towards: Point): Point | null => {
+  const dx = towards.x - from.x;
+  const dy = towards.y - from.y;
+  let best: Point | null = null;
+  let bestT = 0;
+
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const denominator = dx * ey - dy * ex;
+    if (Math.abs(denominator) < 1e-9) return;
+
+    const t = ((a.x - from.x) * ey - (a.y - from.y) * ex) / denominator;
+    const u = ((a.x - from.x) * dy - (a.y - from.y) * dx) / denominator;
+    if (t > 0 && u >= 0 && u <= 1 && t > bestT) {
+      bestT = t;
+      best = { x: from.x + dx * t, y: from.y + dy * t };
+    }
+  });
+
+  return best;
+};
@@ -0,0 +1,160 @@
+import { Bounds, Shape, TextAlign, VerticalAlign } from '../types';
+import { getShapeSize } from './geometry';
+import { DEFAULT_BORDER_WIDTH } from './shapeStyle';
+import { getShapeGeometry } from './stencils';
+
+// Text formatting of shapes, and the measuring behind auto-fit and the SVG export.
+// Defaults mirror the board's original look: text-sm (14px on 20px lines) inside p-4.
+
+export const DEFAULT_FONT_FAMILY = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+export const DEFAULT_FONT_SIZE = 14;
+export const DEFAULT_LINE_HEIGHT = 20 / 14;
+export const DEFAULT_TEXT_COLOR = '#000000';
+export const TEXT_PADDING = 16;
+// Smallest box the resize handles allow
+export const MIN_SHAPE_SIZE = 50;
+
+export const FONT_FAMILIES: { label: string; value: string }[] = [
+  { label: 'Sans', value: DEFAULT_FONT_FAMILY },
+  { label: 'Serif', value: "ui-serif, Georgia, Cambria, 'Times New Roman', serif" },
+  { label: 'Mono', value: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' },
+  { label: 'Hand', value: "'Comic Sans MS', 'Comic Neue', 'Segoe Print', cursive" }
+];
+
+export const FONT_SIZES = [10, 12, 14, 16, 18, 20, 24, 28, 32, 40, 48];
+
+export const LINE_HEIGHTS: { label: string; value: number }[] = [
+  { label: 'Tight', value: 1.15 },
+  { label: 'Normal', value: DEFAULT_LINE_HEIGHT },
+  { label: 'Relaxed', value: 1.75 },
+  { label: 'Loose', value: 2 }
+];
+
+export interface TextFormat {
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  align: TextAlign;
+  verticalAlign: VerticalAlign;
+  // In pixels
+  lineHeight: number;
+}
+
+export const DEFAULT_TEXT_FORMAT: TextFormat = {
+  fontFamily: DEFAULT_FONT_FAMILY,
+  fontSize: DEFAULT_FONT_SIZE,
+  color: DEFAULT_TEXT_COLOR,
+  bold: false,
+  italic: false,
+  underline: false,
+  align: 'center',
+  verticalAlign: 'middle',
+  lineHeight: DEFAULT_FONT_SIZE * DEFAULT_LINE_HEIGHT
+};
+
+// Lines and images carry no text
+export const hasText = (shape: Shape) => shape.type !== 'line' && shape.type !== 'image';
+
+export const getTextFormat = (shape: Shape): TextFormat => {
+  const fontSize = shape.fontSize || DEFAULT_FONT_SIZE;
+  return {
+    fontFamily: shape.fontFamily || DEFAULT_FONT_FAMILY,
+    fontSize,
+    color: shape.textColor || DEFAULT_TEXT_COLOR,
+    bold: !!shape.bold,
+    italic: !!shape.italic,
+    underline: !!shape.underline,
+    align: shape.textAlign || 'center',
+    verticalAlign: shape.verticalAlign || 'middle',
+    lineHeight: fontSize * (shape.lineHeight || DEFAULT_LINE_HEIGHT)
+  };
+};
+
+export const getCssFont = (format: TextFormat) =>
+  `${format.italic ? 'italic ' : ''}${format.bold ? 'bold ' : ''}${format.fontSize}px ${format.fontFamily}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+export const measureText = (text: string, format: TextFormat = DEFAULT_TEXT_FORMAT) => {
+  if (!measureContext && typeof document !== 'undefined') {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) {
+    // Rough average glyph width when there is no canvas to measure with
+    return text.length * format.fontSize * (format.bold ? 0.6 : 0.55);
+  }
+  measureContext.font = getCssFont(format);
+  return measureContext.measureText(text).width;
+};
+
+// Greedy word wrap that also honours explicit newlines, like `white-space: pre-wrap`
+export const wrapText = (text: string, maxWidth: number, format: TextFormat = DEFAULT_TEXT_FORMAT): string[] => {
+  const lines: string[] = [];
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/(\s+)/).forEach(word => {
+      const candidate = line + word;
+      if (line && measureText(candidate.trimEnd(), format) > maxWidth) {
+        lines.push(line.trimEnd());
+        line = word.trimStart();
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+
+  return lines;
+};
+
+// Where the shape lays out its text: the whole box for text shapes, the box its
+// outline defines for diamonds and stencils, and inside the padding and border for everything else
+export const getTextBox = (shape: Shape, bounds: Bounds): Bounds => {
+  if (shape.type === 'text') return bounds;
+  const geometry = getShapeGeometry(shape, bounds.width, bounds.height, getTextFormat(shape));
+  if (geometry) {
+    const { x, y, width, height } = geometry.editBox;
+    return { x: bounds.x + x, y: bounds.y + y, width, height };
+  }
+  const inset = TEXT_PADDING + (shape.borderWidth || DEFAULT_BORDER_WIDTH);
+  return {
+    x: bounds.x + inset,
+    y: bounds.y + inset,
+    width: Math.max(bounds.width - inset * 2, 1),
+    height: Math.max(bounds.height - inset * 2, 0)
+  };
+};
+
+// Size that shows all of the shape's text at its current width. Shapes with a locked
+// aspect ratio only ever grow, since shrinking them would also narrow the text.
+export const getFitSize = (shape: Shape) => {
+  const { width, height } = getShapeSize(shape);
+  const format = getTextFormat(shape);
+  const box = getTextBox(shape, { x: 0, y: 0, width, height });
+  const textHeight = wrapText(shape.text, box.width, format).length * format.lineHeight;
+
+  if (shape.type === 'text') return { width, height: Math.max(Math.ceil(textHeight), format.lineHeight) };
+
+  // Stencils that split their text into compartments know how tall it is
+  const contentHeight = getShapeGeometry(shape, width, height, format)?.contentHeight;
+  const needed = Math.ceil(
+    contentHeight ?? (shape.type === 'diamond' ? textHeight * 2 : textHeight + (height - box.height))
+  );
+  if (shape.type === 'square' || shape.type === 'circle' || shape.type === 'diamond') {
+    const side = Math.max(width, height, needed);
+    return { width: side, height: side };
+  }
+  return { width, height: Math.max(needed, MIN_SHAPE_SIZE) };
+};
+
+// Applies auto-fit, returning the same object when nothing changes
+export const fitShapeToText = (shape: Shape): Shape => {
+  if (!shape.autoFit || !hasText(shape)) return shape;
+  const { width, height } = getFitSize(shape);
+  const current = getShapeSize(shape);
+  return width === current.width && height === current.height ? shape : { ...shape, width, height };
+};
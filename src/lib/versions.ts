@@ -0,0 +1,84 @@
+import { DiagramState, DiagramVersion } from '../types';
+import { supabase } from './supabase';
+
+interface DiagramVersionRow {
+  id: string;
+  diagram_id: string;
+  version: number;
+  label: string | null;
+  author_name: string | null;
+  created_at: string;
+}
+
+const toDiagramVersion = (row: DiagramVersionRow): DiagramVersion => ({
+  id: row.id,
+  diagramId: row.diagram_id,
+  version: row.version,
+  label: row.label,
+  authorName: row.author_name,
+  createdAt: row.created_at
+});
+
+// Older snapshots may predate some fields
+export const toDiagramState = (data: Partial<DiagramState> | null): DiagramState => ({
+  shapes: data?.shapes || [],
+  connections: data?.connections || [],
+  drawings: data?.drawings || [],
+  groups: data?.groups || [],
+  layers: data?.layers || [],
+  backgroundColor: data?.backgroundColor || '#FFFFFF'
+});
+
+export const fetchVersions = async (diagramId: string): Promise<DiagramVersion[]> => {
+  const { data, error } = await supabase
+    .from('diagram_versions')
+    .select('id, diagram_id, version, label, author_name, created_at')
+    .eq('diagram_id', diagramId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data as DiagramVersionRow[]).map(toDiagramVersion);
+};
+
+export const fetchVersionData = async (versionId: string): Promise<DiagramState> => {
+  const { data, error } = await supabase
+    .from('diagram_versions')
+    .select('data')
+    .eq('id', versionId)
+    .single();
+
+  if (error) throw error;
+  return toDiagramState(data.data);
+};
+
+// Stores a new snapshot and makes it the diagram's current data
+export const saveVersion = async (
+  diagramId: string,
+  data: DiagramState,
+  label?: string,
+  authorName?: string
+): Promise<DiagramVersion> => {
+  const { data: row, error } = await supabase.rpc('save_diagram_version', {
+    p_diagram_id: diagramId,
+    p_data: data,
+    p_label: label || null,
+    p_author_name: authorName || null
+  });
+
+  if (error) throw error;
+  return toDiagramVersion(row as DiagramVersionRow);
+};
+
+// Overwrites the diagram's current data without a new version, for autosave
+export const updateDiagramData = async (diagramId: string, ownerId: string, data: DiagramState): Promise<void> => {
+  const { data: rows, error } = await supabase
+    .from('diagrams')
+    .update({ data })
+    .eq('id', diagramId)
+    .eq('owner_id', ownerId)
+    .select('id');
+
+  if (error) throw error;
+  // A diagram that was deleted or changed hands updates nothing, and reports no error for it
+  if (!rows?.length) throw new Error(`Diagram ${diagramId} could not be updated`);
+};
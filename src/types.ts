@@ -1,57 +1,238 @@
-export type ShapeType = 'rectangle' | 'circle' | 'diamond' | 'square' | 'text' | 'line';
-export type LineStyle = 'solid' | 'dashed' | 'dotted' | 'curved';
+// Shapes from the stencil library, drawn from an outline rather than CSS
+export type StencilType =
+  | 'terminator'
+  | 'parallelogram'
+  | 'document'
+  | 'database'
+  | 'predefined-process'
+  | 'uml-class'
+  | 'uml-interface'
+  | 'actor'
+  | 'swimlane'
+  | 'cloud'
+  | 'server'
+  | 'queue'
+  | 'browser'
+  | 'mobile';
+export type ShapeType = 'rectangle' | 'circle' | 'diamond' | 'square' | 'text' | 'line' | 'image' | StencilType;
+export type LineStyle = 'solid' | 'dashed' | 'dotted' | 'curved' | 'orthogonal';
 export type ArrowStyle = 'none' | 'start' | 'end' | 'both';
+export type BorderStyle = 'solid' | 'dashed' | 'dotted';
+export type TextAlign = 'left' | 'center' | 'right';
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
 
 export interface Point {
   x: number;
   y: number;
 }
 
-export interface Shape {
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Camera over the infinite canvas: screen = world * zoom + (x, y)
+export interface Camera {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// A fixed place on a shape where connections attach, relative to its box (0-1)
+export interface Port {
+  id: string;
+  x: number;
+  y: number;
+}
+
+// Where an element sits in the stacking order. Elements render layer by layer,
+// and inside a layer by zIndex; elements without one keep their default place
+// (connections at the bottom, then shapes, then ink).
+export interface Stackable {
+  layerId?: string;
+  zIndex?: number;
+  hidden?: boolean;
+  locked?: boolean;
+}
+
+// Fill that runs between two colours; `angle` (degrees, 0 = left to right) applies to linear ones
+export interface ShapeGradient {
+  type: 'linear' | 'radial';
+  from: string;
+  to: string;
+  angle: number;
+}
+
+export interface ShapeShadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface Shape extends Stackable {
   id: string;
   type: ShapeType;
   position: Point;
   text: string;
   borderColor?: string;
   borderWidth?: number;
+  borderStyle?: BorderStyle;
+  // Any CSS colour or 'transparent'; white when unset. A gradient takes precedence.
+  fillColor?: string;
+  fillGradient?: ShapeGradient;
+  // 0-1, applies to the whole shape including its text
+  opacity?: number;
+  // Rectangles and squares only
+  cornerRadius?: number;
+  shadow?: ShapeShadow;
+  // Text formatting, kept as separate fields so concurrent edits to different ones merge
+  fontFamily?: string;
+  fontSize?: number;
+  textColor?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  textAlign?: TextAlign;
+  verticalAlign?: VerticalAlign;
+  // Multiple of the font size
+  lineHeight?: number;
+  // Resize to fit the text whenever it or its formatting changes
+  autoFit?: boolean;
   width?: number;
   height?: number;
   endPoint?: Point;
+  // Line shapes only
+  arrowStyle?: ArrowStyle;
   controlPoints?: {
     cp1: Point;
     cp2: Point;
   };
+  // User-defined ports, in addition to the four side ports every shape has
+  ports?: Port[];
+  // Innermost group the shape belongs to
+  groupId?: string;
+  // Data URL of an image shape
+  src?: string;
+}
+
+// A named set of shapes that is selected, moved, copied and deleted as one.
+// Membership is stored on the children (Shape.groupId, ShapeGroup.parentId),
+// so concurrent edits to different members never conflict.
+export interface ShapeGroup {
+  id: string;
+  name: string;
+  // Enclosing group when nested
+  parentId?: string;
 }
 
-export interface Connection {
+// A named level of the board that is shown, hidden and locked as a unit.
+// Layers stack by zIndex; elements without a known layer belong to the base layer.
+export interface Layer {
+  id: string;
+  name: string;
+  zIndex: number;
+  hidden?: boolean;
+  locked?: boolean;
+}
+
+export interface ConnectionLabel {
+  id: string;
+  text: string;
+  // Fraction of the way along the drawn connection, 0 at its start and 1 at its end
+  position: number;
+}
+
+export interface Connection extends Stackable {
   id: string;
   from: string;
   to: string;
+  // Waypoints between the two ends, in world coordinates
   points: Point[];
   lineStyle: LineStyle;
   arrowStyle: ArrowStyle;
+  // Port ids; a missing port lets the end float around the shape outline
+  fromPort?: string;
+  toPort?: string;
+  // Bezier handles of a curved connection without waypoints, once moved by hand.
+  // cp1 is an offset from the start and cp2 from the end, so they follow the shapes.
+  controlPoints?: {
+    cp1: Point;
+    cp2: Point;
+  };
+  labels?: ConnectionLabel[];
 }
 
 export interface DrawingPoint {
   x: number;
   y: number;
   type: 'start' | 'point' | 'end';
+  // 0-1, from a pressure-sensitive stylus
+  pressure?: number;
 }
 
-export interface DrawingPath {
+export type PenType = 'fineliner' | 'marker' | 'highlighter';
+
+export interface DrawingPath extends Stackable {
   id: string;
   points: DrawingPoint[];
   color: string;
   width: number;
+  // Strokes without a pen predate pen settings and are drawn as raw fine-liner polylines
+  pen?: PenType;
+  // 0-1
+  opacity?: number;
+  // 0-1, how strongly the pointer's jitter is smoothed out
+  smoothing?: number;
 }
 
 export interface DiagramState {
   shapes: Shape[];
   connections: Connection[];
   drawings: DrawingPath[];
+  groups?: ShapeGroup[];
+  layers?: Layer[];
   backgroundColor?: string;
 }
 
+// One undoable step: the whole board before and after a command or transaction
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  before: DiagramState;
+  after: DiagramState;
+}
+
+// Shapes and connections brought onto the board from outside, e.g. imported code
+export interface DiagramFragment {
+  shapes: Shape[];
+  connections: Connection[];
+}
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+// An immutable snapshot saved to the cloud; the board itself is loaded on demand
+export interface DiagramVersion {
+  id: string;
+  diagramId: string;
+  version: number;
+  label: string | null;
+  authorName: string | null;
+  createdAt: string;
+}
+
+// A board kept in this browser's IndexedDB, autosaved as it is edited
+export interface LocalDraft {
+  id: string;
+  name: string;
+  data: DiagramState;
+  // Epoch milliseconds
+  updatedAt: number;
+}
+
 export interface DiagramSuggestion {
   title: string;
   description: string;
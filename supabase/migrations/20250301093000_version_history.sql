@@ -0,0 +1,136 @@
+/*
+  # Diagram version history
+
+  1. New Tables
+    - `diagram_versions`
+      - `id` (uuid, primary key)
+      - `diagram_id` (uuid, references diagrams, cascades on delete)
+      - `version` (integer) - Sequential per diagram, matches `diagrams.version`
+      - `data` (jsonb) - Immutable snapshot of the diagram state
+      - `label` (text) - Optional name given when saving
+      - `author_id` (uuid, references auth.users)
+      - `author_name` (text) - Display name at the time of saving
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `save_diagram_version(diagram_id, data, label, author_name)` stores a
+      snapshot and updates `diagrams.data` / `diagrams.version` in one transaction
+
+  3. Data
+    - Every existing diagram gets its current data as its first version, so
+      the content from before version history can still be restored
+
+  4. Security
+    - Enable RLS on `diagram_versions`
+    - Owners can read and add versions of their diagrams
+    - Versions of public diagrams can be read by anyone signed in
+    - No update or delete policies: versions are immutable
+*/
+
+CREATE TABLE IF NOT EXISTS diagram_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  diagram_id uuid NOT NULL REFERENCES diagrams(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}',
+  label text,
+  author_id uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  author_name text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (diagram_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS diagram_versions_diagram_id_idx
+  ON diagram_versions (diagram_id, version DESC);
+
+ALTER TABLE diagram_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'diagram_versions' AND policyname = 'Owner can read versions'
+  ) THEN
+    CREATE POLICY "Owner can read versions"
+      ON diagram_versions
+      FOR SELECT
+      TO authenticated
+      USING (EXISTS (
+        SELECT 1 FROM diagrams
+        WHERE diagrams.id = diagram_versions.diagram_id AND diagrams.owner_id = auth.uid()
+      ));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'diagram_versions' AND policyname = 'Public diagram versions are viewable by everyone'
+  ) THEN
+    CREATE POLICY "Public diagram versions are viewable by everyone"
+      ON diagram_versions
+      FOR SELECT
+      TO authenticated
+      USING (EXISTS (
+        SELECT 1 FROM diagrams
+        WHERE diagrams.id = diagram_versions.diagram_id AND diagrams.is_public = true
+      ));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'diagram_versions' AND policyname = 'Owner can add versions'
+  ) THEN
+    CREATE POLICY "Owner can add versions"
+      ON diagram_versions
+      FOR INSERT
+      TO authenticated
+      WITH CHECK (EXISTS (
+        SELECT 1 FROM diagrams
+        WHERE diagrams.id = diagram_versions.diagram_id AND diagrams.owner_id = auth.uid()
+      ));
+  END IF;
+END $$;
+
+-- Existing diagrams start their history from what they hold now
+INSERT INTO diagram_versions (diagram_id, version, data, author_id, created_at)
+  SELECT id, COALESCE(version, 1), COALESCE(data, '{}'), owner_id, COALESCE(updated_at, now())
+  FROM diagrams
+  ON CONFLICT (diagram_id, version) DO NOTHING;
+
+UPDATE diagrams SET version = 1 WHERE version IS NULL;
+
+-- Runs as the caller, so the policies above still apply
+CREATE OR REPLACE FUNCTION save_diagram_version(
+  p_diagram_id uuid,
+  p_data jsonb,
+  p_label text DEFAULT NULL,
+  p_author_name text DEFAULT NULL
+)
+RETURNS diagram_versions
+AS $$
+DECLARE
+  next_version integer;
+  saved diagram_versions;
+BEGIN
+  -- Lock the diagram so concurrent saves get consecutive version numbers
+  PERFORM 1 FROM diagrams
+    WHERE id = p_diagram_id AND owner_id = auth.uid()
+    FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Diagram % not found or not owned by the current user', p_diagram_id;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+    FROM diagram_versions
+    WHERE diagram_id = p_diagram_id;
+
+  UPDATE diagrams
+    SET data = p_data, version = next_version
+    WHERE id = p_diagram_id;
+
+  INSERT INTO diagram_versions (diagram_id, version, data, label, author_name)
+    VALUES (p_diagram_id, next_version, p_data, p_label, p_author_name)
+    RETURNING * INTO saved;
+
+  RETURN saved;
+END;
+$$ language 'plpgsql';